@@ -0,0 +1,83 @@
+/**
+ * Integrity check against a backup file (zip archive or legacy JSON from
+ * Admin → Backup), without touching the database.
+ *
+ *   npm run check-integrity -- giapha-backup-2025-01-01.zip
+ *   npm run check-integrity -- backup.zip --json
+ *   npm run check-integrity -- backup.zip --fix repaired.zip
+ *
+ * --fix writes a copy of the backup with every automatic repair applied; it
+ * can be restored from Admin → Backup. Exit code 1 when errors remain.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { readBackupFile, buildBackupArchive, type BackupRow } from '../src/lib/backup';
+import { checkIntegrity, planRepairs, INTEGRITY_KINDS, type IntegrityPerson, type IntegrityKind } from '../src/lib/tree-integrity';
+import type { FamilyRow } from '../src/lib/genealogy-types';
+
+function usage(): never {
+    console.error('Usage: check-integrity <backup.zip|backup.json> [--json] [--fix <out.zip>]');
+    process.exit(2);
+}
+
+const args = process.argv.slice(2);
+const file = args.find(a => !a.startsWith('--') && args[args.indexOf(a) - 1] !== '--fix');
+const asJson = args.includes('--json');
+const fixIndex = args.indexOf('--fix');
+const fixOut = fixIndex >= 0 ? args[fixIndex + 1] : undefined;
+if (!file || (fixIndex >= 0 && !fixOut)) usage();
+
+const { data, errors } = readBackupFile(new Uint8Array(readFileSync(file)));
+if (!data) {
+    console.error(`Cannot read ${file}:\n  ${errors.join('\n  ')}`);
+    process.exit(2);
+}
+if (!data.tables.people || !data.tables.families) {
+    console.error(`${file} has no people/families tables`);
+    process.exit(2);
+}
+
+const people = data.tables.people as unknown as IntegrityPerson[];
+const families = data.tables.families as unknown as FamilyRow[];
+const issues = checkIntegrity(people, families);
+const errorCount = issues.filter(i => i.severity === 'error').length;
+
+if (asJson) {
+    console.log(JSON.stringify(issues, null, 2));
+} else {
+    console.log(`${file}: ${people.length} people, ${families.length} families, exported ${data.manifest.exported_at}`);
+    if (issues.length === 0) console.log('No problems found.');
+    const kinds = Array.from(new Set(issues.map(i => i.kind))) as IntegrityKind[];
+    for (const kind of kinds) {
+        const list = issues.filter(i => i.kind === kind);
+        console.log(`\n[${list[0].severity.toUpperCase()}] ${INTEGRITY_KINDS[kind].title} (${list.length})`);
+        console.log(`  ${INTEGRITY_KINDS[kind].explain}`);
+        for (const issue of list) console.log(`  - ${issue.message}${issue.repair.length === 0 ? '  [thủ công]' : ''}`);
+    }
+    console.log(`\n${issues.length} issues: ${errorCount} errors, ${issues.length - errorCount} warnings, ${issues.filter(i => i.repair.length > 0).length} auto-repairable`);
+}
+
+if (fixOut) {
+    const plan = planRepairs(people, families, issues);
+    const personUpdates = new Map(plan.people.map(p => [p.handle, p]));
+    const familyUpdates = new Map(plan.families.map(f => [f.handle, f]));
+    const deleted = new Set(plan.deleteFamilies);
+    const tables = {
+        ...data.tables,
+        people: data.tables.people.map(row => ({ ...row, ...personUpdates.get(row.handle as string) }) as BackupRow),
+        families: data.tables.families
+            .filter(row => !deleted.has(row.handle as string))
+            .map(row => ({ ...row, ...familyUpdates.get(row.handle as string) }) as BackupRow),
+    };
+    writeFileSync(fixOut, buildBackupArchive(tables, data.media, {
+        exportedAt: new Date(data.manifest.exported_at),
+        missing: data.manifest.missing,
+        schemaVersion: data.manifest.schema_version,
+    }));
+
+    const remaining = checkIntegrity(tables.people as unknown as IntegrityPerson[], tables.families as unknown as FamilyRow[]);
+    console.error(`Wrote ${fixOut}: ${plan.people.length} people and ${plan.families.length} families changed, ${plan.deleteFamilies.length} families deleted; ${remaining.length} issues remain`);
+    process.exit(remaining.some(i => i.severity === 'error') ? 1 : 0);
+}
+
+process.exit(errorCount > 0 ? 1 : 0);
@@ -0,0 +1,93 @@
+/**
+ * Kinship term check over a small fixture tree: for each pair, what A calls
+ * B and what B calls A back, as computed by src/lib/kinship.ts.
+ *
+ *   npm run check-kinship
+ *
+ * Exit code 1 when any term differs from the expected one.
+ */
+
+import { kinship, type KinTree } from '../src/lib/kinship';
+import type { TreeFamily, TreeNode } from '../src/lib/tree-layout';
+
+// ═══ Fixture ═══
+
+// Gender: 1 = male, 2 = female. Children are listed eldest first.
+const GENDERS: Record<string, 1 | 2> = {
+    ong: 1, ba: 2, ong_ngoai: 1, ba_ngoai: 2,
+    bac: 1, bac_gai: 2, cha: 1, me: 2, chu: 1, thim: 2, co: 2, cau: 1, di: 2,
+    anh: 1, chi_dau: 2, toi: 1, vo: 2, em: 2, anh_ho: 1, em_ho: 2,
+    con_trai: 1, con_dau: 2, con_gai: 2, con_re: 1,
+    chau_noi: 1, chau_ngoai: 2, chat: 1, chut: 1, chit: 2,
+};
+
+const FAMILIES: TreeFamily[] = [
+    { handle: 'F_ong', fatherHandle: 'ong', motherHandle: 'ba', children: ['bac', 'cha', 'chu', 'co'] },
+    { handle: 'F_ngoai', fatherHandle: 'ong_ngoai', motherHandle: 'ba_ngoai', children: ['me', 'cau', 'di'] },
+    { handle: 'F_bac', fatherHandle: 'bac', motherHandle: 'bac_gai', children: ['anh_ho'] },
+    { handle: 'F_cha', fatherHandle: 'cha', motherHandle: 'me', children: ['anh', 'toi', 'em'] },
+    { handle: 'F_chu', fatherHandle: 'chu', motherHandle: 'thim', children: ['em_ho'] },
+    { handle: 'F_anh', fatherHandle: 'anh', motherHandle: 'chi_dau', children: [] },
+    { handle: 'F_toi', fatherHandle: 'toi', motherHandle: 'vo', children: ['con_trai', 'con_gai'] },
+    { handle: 'F_con_trai', fatherHandle: 'con_trai', motherHandle: 'con_dau', children: ['chau_noi'] },
+    { handle: 'F_con_gai', fatherHandle: 'con_re', motherHandle: 'con_gai', children: ['chau_ngoai'] },
+    { handle: 'F_chau_noi', fatherHandle: 'chau_noi', children: ['chat'] },
+    { handle: 'F_chat', fatherHandle: 'chat', children: ['chut'] },
+    { handle: 'F_chut', fatherHandle: 'chut', children: ['chit'] },
+];
+
+function person(handle: string): TreeNode {
+    return {
+        handle,
+        displayName: handle,
+        gender: GENDERS[handle],
+        generation: 0,
+        isLiving: true,
+        isPrivacyFiltered: false,
+        isPatrilineal: true,
+        families: FAMILIES.filter(f => f.fatherHandle === handle || f.motherHandle === handle).map(f => f.handle),
+        parentFamilies: FAMILIES.filter(f => f.children.includes(handle)).map(f => f.handle),
+    };
+}
+
+const TREE: KinTree = { people: Object.keys(GENDERS).map(person), families: FAMILIES };
+
+// ═══ Cases ═══
+
+// [A, B, what A calls B, what B calls A]
+const CASES: [string, string, string, string][] = [
+    ['toi', 'bac', 'bác', 'cháu'],
+    ['toi', 'bac_gai', 'bác gái', 'cháu (bên chồng)'],
+    ['toi', 'chu', 'chú', 'cháu'],
+    ['toi', 'thim', 'thím', 'cháu (bên chồng)'],
+    ['toi', 'co', 'cô', 'cháu'],
+    ['toi', 'cau', 'cậu', 'cháu'],
+    ['toi', 'di', 'dì', 'cháu'],
+    ['toi', 'anh', 'anh trai', 'em trai'],
+    ['toi', 'em', 'em gái', 'anh trai'],
+    ['toi', 'anh_ho', 'anh họ', 'em họ'],
+    ['toi', 'em_ho', 'em họ', 'anh họ'],
+    ['toi', 'ong', 'ông nội', 'cháu nội'],
+    ['toi', 'ba_ngoai', 'bà ngoại', 'cháu ngoại'],
+    ['toi', 'chau_noi', 'cháu nội', 'ông nội'],
+    ['toi', 'chau_ngoai', 'cháu ngoại', 'ông ngoại'],
+    ['toi', 'chat', 'chắt nội', 'cụ nội'],
+    ['toi', 'chut', 'chút', 'kỵ nội'],
+    ['toi', 'chit', 'chít', 'tổ tiên 5 đời'],
+    ['toi', 'con_dau', 'con dâu', 'bố chồng'],
+    ['toi', 'con_re', 'con rể', 'bố vợ'],
+    ['toi', 'chi_dau', 'chị dâu', 'em chồng'],
+];
+
+// ═══ Run ═══
+
+let failures = 0;
+for (const [a, b, term, reciprocal] of CASES) {
+    const k = kinship(a, b, TREE);
+    const ok = k.term === term && k.reciprocal === reciprocal;
+    if (!ok) failures++;
+    console.log(`${ok ? 'ok  ' : 'FAIL'} ${a} → ${b}: ${k.term} / ${k.reciprocal}${ok ? '' : `  (expected ${term} / ${reciprocal})`}`);
+}
+
+console.log(`\n${CASES.length} cases, ${failures} failed`);
+process.exit(failures > 0 ? 1 : 0);
@@ -13,6 +13,9 @@ const ACTION_COLORS: Record<string, string> = {
     CREATE: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
     UPDATE: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300',
     DELETE: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
+    VOID: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300',
+    RELINK: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-300',
+    EXPORT: 'bg-slate-100 text-slate-800 dark:bg-slate-800 dark:text-slate-300',
 };
 
 export default function AuditLogPage() {
@@ -1,42 +1,99 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
-import { Database, Download, Plus } from 'lucide-react';
+import { useEffect, useState, useCallback, useRef } from 'react';
+import { Database, Download, Plus, Share2, Upload, RotateCcw, AlertTriangle, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/components/auth-provider';
+import { fetchTreeData, fetchPeopleDetails } from '@/lib/supabase-data';
+import { writeGedcom, type ExportScope, type GedcomVersion } from '@/lib/gedcom';
+import type { TreeNode } from '@/lib/tree-layout';
+import {
+    readBackupFile, diffBackup, buildBackupArchive, BACKUP_TABLES, BACKUP_TABLE_NAMES, MEDIA_BUCKET, SCHEMA_VERSION,
+    type BackupData, type BackupDiff, type BackupTable, type TableDiff, type BackupRow, type RestoreMode,
+} from '@/lib/backup';
+
+function downloadFile(content: BlobPart, fileName: string, type: string) {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+const EXPORT_PAGE_SIZE = 1000;
+
+/** Recursively list every file path in the media bucket */
+async function listMediaPaths(prefix = ''): Promise<string[]> {
+    const { data, error } = await supabase.storage.from(MEDIA_BUCKET).list(prefix, { limit: 1000 });
+    if (error || !data) return [];
+    const paths: string[] = [];
+    for (const item of data) {
+        const path = prefix ? `${prefix}/${item.name}` : item.name;
+        // Folders come back without an id
+        if (item.id) paths.push(path);
+        else paths.push(...await listMediaPaths(path));
+    }
+    return paths;
+}
+
+/**
+ * Every row of a table, page by page in key order: PostgREST caps a single
+ * response (max-rows, 1000 by default), so a plain select('*') truncates
+ */
+async function fetchAllRows(table: BackupTable): Promise<{ rows: BackupRow[]; error: string | null }> {
+    const rows: BackupRow[] = [];
+    for (;;) {
+        const { data, error } = await supabase.from(table).select('*')
+            .order(BACKUP_TABLES[table].key)
+            .range(rows.length, rows.length + EXPORT_PAGE_SIZE - 1);
+        if (error) return { rows, error: error.message };
+        // The server may cap pages below EXPORT_PAGE_SIZE, so only an empty page ends the table
+        if (!data || data.length === 0) return { rows, error: null };
+        rows.push(...data);
+    }
+}
+
+async function downloadMediaFiles(): Promise<{ path: string; bytes: Uint8Array }[]> {
+    const files: { path: string; bytes: Uint8Array }[] = [];
+    for (const path of await listMediaPaths()) {
+        const { data } = await supabase.storage.from(MEDIA_BUCKET).download(path);
+        if (data) files.push({ path, bytes: new Uint8Array(await data.arrayBuffer()) });
+    }
+    return files;
+}
 
 export default function BackupPage() {
     const { isAdmin } = useAuth();
     const [creating, setCreating] = useState(false);
     const [lastBackup, setLastBackup] = useState<string | null>(null);
+    const [statsKey, setStatsKey] = useState(0);
+    const [includeMedia, setIncludeMedia] = useState(false);
+    const [missing, setMissing] = useState<{ table: BackupTable; error: string }[]>([]);
 
     const createBackup = async () => {
         setCreating(true);
         try {
-            // Export all data from Supabase
-            const { data: people } = await supabase.from('people').select('*');
-            const { data: families } = await supabase.from('families').select('*');
-            const { data: profiles } = await supabase.from('profiles').select('*');
-
-            const backup = {
-                exported_at: new Date().toISOString(),
-                people: people || [],
-                families: families || [],
-                profiles: profiles || [],
-            };
-
-            // Download as JSON
-            const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `giapha-backup-${new Date().toISOString().split('T')[0]}.json`;
-            a.click();
-            URL.revokeObjectURL(url);
+            // Export every application table from Supabase; a table that cannot be read is
+            // recorded in the manifest (and shown here) instead of silently left out
+            const tables: Partial<Record<BackupTable, BackupRow[]>> = {};
+            const failed: { table: BackupTable; error: string }[] = [];
+            for (const t of BACKUP_TABLE_NAMES) {
+                const { rows, error } = await fetchAllRows(t);
+                if (error) failed.push({ table: t, error });
+                else tables[t] = rows;
+            }
+            const media = includeMedia ? await downloadMediaFiles() : [];
+            const archive = buildBackupArchive(tables, media, { missing: failed });
+            setMissing(failed);
+
+            downloadFile(archive as Uint8Array<ArrayBuffer>, `giapha-backup-${new Date().toISOString().split('T')[0]}.zip`, 'application/zip');
             setLastBackup(new Date().toISOString());
         } finally {
             setCreating(false);
@@ -53,10 +110,16 @@ export default function BackupPage() {
                     </h1>
                     <p className="text-muted-foreground">Quản lý sao lưu cơ sở dữ liệu</p>
                 </div>
-                <Button onClick={createBackup} disabled={creating}>
-                    <Download className="mr-2 h-4 w-4" />
-                    {creating ? 'Đang xuất...' : 'Xuất backup JSON'}
-                </Button>
+                <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                        <input type="checkbox" checked={includeMedia} onChange={e => setIncludeMedia(e.target.checked)} />
+                        Kèm file media
+                    </label>
+                    <Button onClick={createBackup} disabled={creating}>
+                        <Download className="mr-2 h-4 w-4" />
+                        {creating ? 'Đang xuất...' : 'Xuất backup'}
+                    </Button>
+                </div>
             </div>
 
             <Card>
@@ -64,27 +127,277 @@ export default function BackupPage() {
                     <CardTitle className="text-base">Thông tin database</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
-                    <DatabaseStats />
+                    <DatabaseStats key={statsKey} />
+                    <p className="text-xs text-muted-foreground">Phiên bản lược đồ: v{SCHEMA_VERSION}</p>
                     {lastBackup && (
                         <p className="text-sm text-muted-foreground">
                             Backup gần nhất: {new Date(lastBackup).toLocaleString('vi-VN')}
                         </p>
                     )}
+                    {lastBackup && missing.length > 0 && <MissingTables missing={missing} />}
                 </CardContent>
             </Card>
+
+            <RestoreCard onRestored={() => setStatsKey(k => k + 1)} />
+
+            <GedcomExportCard />
+        </div>
+    );
+}
+
+function RestoreCard({ onRestored }: { onRestored: () => void }) {
+    const fileRef = useRef<HTMLInputElement>(null);
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [backup, setBackup] = useState<BackupData | null>(null);
+    const [diff, setDiff] = useState<BackupDiff | null>(null);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [mode, setMode] = useState<RestoreMode>('merge');
+    const [working, setWorking] = useState(false);
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+    const reset = () => { setBackup(null); setDiff(null); setErrors([]); };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        reset();
+        setMessage(null);
+        setFileName(file.name);
+        setWorking(true);
+        try {
+            const { data, errors: problems } = readBackupFile(new Uint8Array(await file.arrayBuffer()));
+            if (!data) { setErrors(problems); return; }
+            const current: Partial<Record<BackupTable, BackupRow[]>> = {};
+            for (const t of BACKUP_TABLE_NAMES) {
+                if (!data.tables[t]) continue;
+                const { rows, error } = await fetchAllRows(t);
+                if (error) {
+                    setMessage({ ok: false, text: `Không đọc được dữ liệu hiện tại của bảng ${t} để so sánh: ${error}` });
+                    return;
+                }
+                current[t] = rows;
+            }
+            setBackup(data);
+            setDiff(diffBackup(data, current));
+        } finally {
+            setWorking(false);
+            if (fileRef.current) fileRef.current.value = '';
+        }
+    };
+
+    const handleRestore = async () => {
+        if (!backup) return;
+        if (mode === 'replace' && !window.confirm(
+            `Thay dữ liệu của ${Object.keys(backup.tables).length} bảng có trong backup? Bản ghi không có trong backup sẽ bị xóa, `
+            + 'cùng dữ liệu gắn với chúng (giỗ, thẻ ảnh…). Các bảng không có trong backup giữ nguyên.',
+        )) return;
+        setWorking(true);
+        const { error } = await supabase.rpc('restore_backup', { payload: backup.tables, mode });
+        if (error) {
+            setWorking(false);
+            setMessage({ ok: false, text: `Khôi phục thất bại, dữ liệu không thay đổi: ${error.message}` });
+            return;
+        }
+        // Storage is outside the database transaction: files are uploaded after the rows are in
+        const failed: string[] = [];
+        for (const m of backup.media) {
+            const { error: uploadError } = await supabase.storage.from(MEDIA_BUCKET).upload(m.path, m.bytes, { upsert: true });
+            if (uploadError) failed.push(m.path);
+        }
+        setWorking(false);
+        setMessage(failed.length > 0
+            ? { ok: false, text: `Đã khôi phục dữ liệu từ ${fileName}, nhưng ${failed.length} file media tải lên thất bại: ${failed.slice(0, 5).join(', ')}` }
+            : { ok: true, text: `Đã khôi phục từ ${fileName}` });
+        reset();
+        onRestored();
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2"><RotateCcw className="h-4 w-4" />Khôi phục từ backup</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                <div className="flex items-center gap-2">
+                    <input ref={fileRef} type="file" accept=".zip,.json,application/zip,application/json" className="hidden" onChange={handleFile} />
+                    <Button variant="outline" onClick={() => fileRef.current?.click()} disabled={working}>
+                        <Upload className="mr-2 h-4 w-4" />Chọn file giapha-backup (.zip / .json)
+                    </Button>
+                    {working && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                </div>
+
+                {message && (
+                    <div className={`rounded-lg p-3 text-sm ${message.ok ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                        {message.text}
+                    </div>
+                )}
+
+                {errors.length > 0 && (
+                    <div className="rounded-lg bg-red-50 p-3 text-sm text-red-700 space-y-1">
+                        <p className="font-medium">File {fileName} không hợp lệ:</p>
+                        {errors.slice(0, 20).map((e, i) => <p key={i} className="text-xs">• {e}</p>)}
+                        {errors.length > 20 && <p className="text-xs">… và {errors.length - 20} lỗi khác</p>}
+                    </div>
+                )}
+
+                {backup && diff && (
+                    <div className="space-y-3">
+                        <p className="text-sm text-muted-foreground">
+                            Backup lúc {new Date(backup.manifest.exported_at).toLocaleString('vi-VN')} (lược đồ v{backup.manifest.schema_version}
+                            {backup.media.length > 0 ? `, ${backup.media.length} file media` : ''}) — so với dữ liệu hiện tại:
+                        </p>
+                        {backup.manifest.missing && backup.manifest.missing.length > 0 && (
+                            <MissingTables missing={backup.manifest.missing} />
+                        )}
+                        <div className="grid gap-3 md:grid-cols-3">
+                            {BACKUP_TABLE_NAMES.map(t => diff[t] && (
+                                <TableDiffSummary key={t} table={t} diff={diff[t]} mode={mode} />
+                            ))}
+                        </div>
+                        <select className="w-full md:w-96 rounded-md border px-3 py-2 text-sm bg-background" value={mode} onChange={e => setMode(e.target.value as RestoreMode)}>
+                            <option value="merge">Gộp: ghi đè bản ghi trùng, giữ bản ghi không có trong backup</option>
+                            <option value="replace">Thay thế hoàn toàn: xóa bản ghi không có trong backup</option>
+                        </select>
+                        {mode === 'replace' && (
+                            <p className="text-xs text-amber-600 flex items-center gap-1">
+                                <AlertTriangle className="h-3 w-3" />Tài khoản (profiles) không bị xóa, chỉ được cập nhật.
+                            </p>
+                        )}
+                        <div className="flex gap-2">
+                            <Button onClick={handleRestore} disabled={working}>
+                                <RotateCcw className="mr-2 h-4 w-4" />Khôi phục
+                            </Button>
+                            <Button variant="outline" onClick={reset} disabled={working}>Huỷ</Button>
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+/** Tables a backup could not export: restoring it leaves them as they are */
+function MissingTables({ missing }: { missing: { table: BackupTable; error: string }[] }) {
+    return (
+        <div className="rounded-lg bg-amber-50 p-3 text-sm text-amber-800 dark:bg-amber-950/30 dark:text-amber-400 space-y-1">
+            <p className="font-medium flex items-center gap-1"><AlertTriangle className="h-4 w-4" />Backup không có {missing.length} bảng (đọc thất bại lúc xuất):</p>
+            {missing.map(m => <p key={m.table} className="text-xs">• {BACKUP_TABLES[m.table].title} ({m.table}): {m.error}</p>)}
         </div>
     );
 }
 
+function TableDiffSummary({ table, diff, mode }: { table: BackupTable; diff: TableDiff; mode: RestoreMode }) {
+    const { label, title } = BACKUP_TABLES[table];
+    const removedApplies = mode === 'replace' && table !== 'profiles';
+    const groups = [
+        { name: 'Thêm mới', rows: diff.added.map(label), className: 'text-green-600' },
+        { name: 'Thay đổi', rows: diff.changed.map(c => `${label(c.after)}: ${c.fields.join(', ')}`), className: 'text-blue-600' },
+        { name: removedApplies ? 'Bị xóa' : 'Không có trong backup (giữ nguyên)', rows: diff.removed.map(label), className: removedApplies ? 'text-red-600' : 'text-muted-foreground' },
+    ];
+
+    return (
+        <div className="rounded-lg border p-3 space-y-1">
+            <p className="text-sm font-medium">{title} <span className="text-xs text-muted-foreground">({diff.unchanged} không đổi)</span></p>
+            {groups.map(g => (
+                <details key={g.name} className="text-xs">
+                    <summary className={`cursor-pointer ${g.className}`}>{g.name}: {g.rows.length}</summary>
+                    <ul className="mt-1 ml-3 max-h-40 overflow-y-auto space-y-0.5 text-muted-foreground">
+                        {g.rows.slice(0, 100).map((r, i) => <li key={i}>{r}</li>)}
+                        {g.rows.length > 100 && <li>… và {g.rows.length - 100} bản ghi khác</li>}
+                    </ul>
+                </details>
+            ))}
+        </div>
+    );
+}
+
+const SCOPE_LABELS: Record<ExportScope, string> = {
+    all: 'Toàn bộ dòng họ',
+    descendants: 'Hậu duệ của một người',
+    ancestors: 'Tổ tiên của một người',
+};
+
+function GedcomExportCard() {
+    const [people, setPeople] = useState<TreeNode[]>([]);
+    const [scope, setScope] = useState<ExportScope>('all');
+    const [version, setVersion] = useState<GedcomVersion>('5.5.1');
+    const [search, setSearch] = useState('');
+    const [rootHandle, setRootHandle] = useState<string | null>(null);
+    const [exporting, setExporting] = useState(false);
+
+    useEffect(() => {
+        fetchTreeData().then(data => setPeople(data.people));
+    }, []);
+
+    const matches = search.trim()
+        ? people.filter(p => p.displayName.toLowerCase().includes(search.toLowerCase())).slice(0, 6)
+        : [];
+    const root = people.find(p => p.handle === rootHandle);
+
+    const handleExport = async () => {
+        setExporting(true);
+        try {
+            const [tree, details] = await Promise.all([fetchTreeData(), fetchPeopleDetails()]);
+            const text = writeGedcom(tree, details, { version, scope, rootHandle: rootHandle ?? undefined });
+            const suffix = scope === 'all' || !rootHandle ? '' : `-${scope}-${rootHandle}`;
+            downloadFile(text, `giapha${suffix}-${new Date().toISOString().split('T')[0]}.ged`, 'text/plain;charset=utf-8');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2"><Share2 className="h-4 w-4" />Xuất GEDCOM</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                    Định dạng chuẩn, mở được bằng Gramps, MyHeritage, Ancestry... Người còn sống được đánh dấu bảo mật sẽ bị ẩn thông tin.
+                </p>
+                <div className="grid gap-3 md:grid-cols-2">
+                    <select className="rounded-md border px-3 py-2 text-sm bg-background" value={scope} onChange={e => setScope(e.target.value as ExportScope)}>
+                        {Object.entries(SCOPE_LABELS).map(([k, v]) => <option key={k} value={k}>{v}</option>)}
+                    </select>
+                    <select className="rounded-md border px-3 py-2 text-sm bg-background" value={version} onChange={e => setVersion(e.target.value as GedcomVersion)}>
+                        <option value="5.5.1">GEDCOM 5.5.1 (tương thích rộng)</option>
+                        <option value="7.0">GEDCOM 7.0</option>
+                    </select>
+                </div>
+                {scope !== 'all' && (
+                    <div className="relative">
+                        <Input placeholder="Tìm người gốc của nhánh..." value={search} onChange={e => setSearch(e.target.value)} />
+                        {matches.length > 0 && (
+                            <div className="absolute z-10 top-full left-0 right-0 mt-1 bg-background border rounded-lg shadow-lg">
+                                {matches.map(p => (
+                                    <button key={p.handle} className="w-full text-left px-3 py-2 text-sm hover:bg-accent flex justify-between"
+                                        onClick={() => { setRootHandle(p.handle); setSearch(''); }}>
+                                        <span>{p.displayName}</span>
+                                        <span className="text-xs text-muted-foreground">Đời {p.generation}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {root && <p className="text-xs text-emerald-600 mt-1">Đã chọn: {root.displayName}</p>}
+                    </div>
+                )}
+                <Button variant="outline" onClick={handleExport} disabled={exporting || (scope !== 'all' && !rootHandle)}>
+                    <Download className="mr-2 h-4 w-4" />
+                    {exporting ? 'Đang xuất...' : 'Tải tệp .ged'}
+                </Button>
+            </CardContent>
+        </Card>
+    );
+}
+
 function DatabaseStats() {
     const [stats, setStats] = useState<Record<string, number>>({});
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
         async function load() {
-            const tables = ['people', 'families', 'profiles', 'posts', 'comments', 'events', 'notifications'];
             const counts: Record<string, number> = {};
-            for (const t of tables) {
+            for (const t of BACKUP_TABLE_NAMES) {
                 const { count } = await supabase.from(t).select('*', { count: 'exact', head: true });
                 counts[t] = count || 0;
             }
@@ -101,7 +414,7 @@ function DatabaseStats() {
             {Object.entries(stats).map(([table, count]) => (
                 <div key={table} className="rounded-lg border p-3 text-center">
                     <p className="text-2xl font-bold">{count}</p>
-                    <p className="text-xs text-muted-foreground">{table}</p>
+                    <p className="text-xs text-muted-foreground">{BACKUP_TABLES[table as BackupTable]?.title ?? table}</p>
                 </div>
             ))}
         </div>
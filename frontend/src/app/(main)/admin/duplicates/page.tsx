@@ -0,0 +1,230 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { GitMerge, Loader2, ArrowLeftRight, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/components/auth-provider';
+import type { PersonRow, FamilyRow } from '@/lib/genealogy-types';
+import type { DeletionRefs } from '@/lib/person-deletion';
+import {
+    findDuplicates, defaultSurvivor, defaultMergeChoices, conflictingFields, mergedFields, MERGE_FIELDS,
+    type DuplicateCandidate, type MergeChoices,
+} from '@/lib/duplicates';
+import { fetchPeopleDetails, fetchFamilyRows, fetchDeletionRefs, mergePeople } from '@/lib/supabase-data';
+
+const THRESHOLDS = [50, 60, 75, 90];
+const MAX_PAIRS = 200;
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Có' : 'Không';
+    return String(value);
+}
+
+function lifespan(p: PersonRow): string {
+    return `${p.birth_year ?? '?'} – ${p.is_living ? 'nay' : p.death_year ?? '?'}`;
+}
+
+export default function DuplicatesPage() {
+    const { isAdmin, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const [data, setData] = useState<{ people: PersonRow[]; families: FamilyRow[] } | null>(null);
+    const [threshold, setThreshold] = useState(60);
+    const [selected, setSelected] = useState<DuplicateCandidate | null>(null);
+    const [survivor, setSurvivor] = useState<PersonRow | null>(null);
+    const [choices, setChoices] = useState<MergeChoices>({});
+    const [refs, setRefs] = useState<DeletionRefs | null>(null);
+    const [merging, setMerging] = useState(false);
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) router.push('/tree');
+    }, [authLoading, isAdmin, router]);
+
+    const loadData = useCallback(() => Promise.all([fetchPeopleDetails(), fetchFamilyRows()]).then(([people, families]) => {
+        setData({ people: Array.from(people.values()), families });
+    }), []);
+
+    useEffect(() => {
+        if (!authLoading && isAdmin) loadData();
+    }, [authLoading, isAdmin, loadData]);
+
+    const pairs = useMemo(() => (data ? findDuplicates(data.people, data.families, threshold) : []), [data, threshold]);
+    const duplicate = selected && survivor ? (survivor.handle === selected.a.handle ? selected.b : selected.a) : null;
+    const fields = survivor && duplicate ? conflictingFields(survivor, duplicate) : [];
+    const names = useMemo(() => new Map(data?.people.map(p => [p.handle, p.display_name])), [data]);
+    const familyMap = useMemo(() => new Map(data?.families.map(f => [f.handle, f])), [data]);
+
+    const choose = (pair: DuplicateCandidate, keep: PersonRow) => {
+        const other = keep.handle === pair.a.handle ? pair.b : pair.a;
+        setSelected(pair);
+        setSurvivor(keep);
+        setChoices(defaultMergeChoices(keep, other));
+        setRefs(null);
+        setMessage(null);
+        fetchDeletionRefs(other.handle).then(setRefs);
+    };
+
+    const handleMerge = async () => {
+        if (!survivor || !duplicate) return;
+        setMerging(true);
+        const { error } = await mergePeople(survivor.handle, duplicate.handle, mergedFields(duplicate, choices));
+        setMerging(false);
+        if (error) {
+            setMessage({ ok: false, text: `Lỗi khi gộp: ${error.message}` });
+            return;
+        }
+        setMessage({ ok: true, text: `Đã gộp ${duplicate.display_name} (${duplicate.handle}) vào ${survivor.handle}` });
+        setSelected(null);
+        setSurvivor(null);
+        await loadData();
+    };
+
+    if (authLoading) return <div className="flex items-center justify-center h-96"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" /></div>;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                        <GitMerge className="h-6 w-6" />
+                        Hồ sơ trùng
+                    </h1>
+                    <p className="text-muted-foreground">Tìm các cặp thành viên có thể là một người (tên, năm sinh, cha mẹ, vợ chồng) và gộp lại</p>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">Điểm tối thiểu</span>
+                    <select className="rounded-md border px-2 py-1.5 text-sm bg-background" value={threshold}
+                        onChange={e => setThreshold(parseInt(e.target.value, 10))}>
+                        {THRESHOLDS.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`rounded-lg p-3 text-sm ${message.ok ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            {selected && survivor && duplicate && (
+                <Card className="border-blue-200">
+                    <CardHeader>
+                        <div className="flex items-start justify-between gap-4">
+                            <div>
+                                <CardTitle className="text-base">Gộp hồ sơ</CardTitle>
+                                <CardDescription>
+                                    Giữ {survivor.handle}, xóa {duplicate.handle}. Chọn giá trị cho các trường khác nhau.
+                                </CardDescription>
+                            </div>
+                            <div className="flex gap-1">
+                                <Button size="sm" variant="outline" onClick={() => choose(selected, duplicate)} disabled={merging}>
+                                    <ArrowLeftRight className="h-3.5 w-3.5 mr-1" />Đổi hồ sơ giữ lại
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={() => setSelected(null)} disabled={merging}><X className="h-4 w-4" /></Button>
+                            </div>
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <Table>
+                            <TableHeader><TableRow>
+                                <TableHead className="w-40">Trường</TableHead>
+                                <TableHead>Giữ lại · {survivor.handle}</TableHead>
+                                <TableHead>Bị gộp · {duplicate.handle}</TableHead>
+                            </TableRow></TableHeader>
+                            <TableBody>
+                                {fields.length === 0 && (
+                                    <TableRow><TableCell colSpan={3} className="text-sm text-muted-foreground">Hai hồ sơ không có trường nào khác nhau</TableCell></TableRow>
+                                )}
+                                {fields.map(key => {
+                                    const side = choices[key] ?? 'survivor';
+                                    return (
+                                        <TableRow key={key}>
+                                            <TableCell className="text-xs font-medium text-muted-foreground">{MERGE_FIELDS.find(f => f.key === key)?.label}</TableCell>
+                                            {(['survivor', 'duplicate'] as const).map(option => (
+                                                <TableCell key={option}>
+                                                    <label className="flex items-start gap-2 text-sm cursor-pointer">
+                                                        <input type="radio" className="mt-1" name={key} checked={side === option}
+                                                            onChange={() => setChoices(prev => ({ ...prev, [key]: option }))} />
+                                                        <span className={side === option ? 'font-medium' : 'text-muted-foreground'}>
+                                                            {formatValue((option === 'survivor' ? survivor : duplicate)[key])}
+                                                        </span>
+                                                    </label>
+                                                </TableCell>
+                                            ))}
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+
+                        <div className="rounded-lg bg-muted/50 p-3 text-xs text-muted-foreground space-y-1">
+                            <p>
+                                Chuyển sang {survivor.handle}: {duplicate.families.length} gia đình (vợ/chồng, con), {duplicate.parent_families.length} gia đình cha mẹ
+                                {refs && `, ${refs.comments} bình luận, ${refs.contributions} đóng góp`}
+                            </p>
+                            {refs && refs.accounts.length > 0 && <p>Tài khoản liên kết: {refs.accounts.join(', ')}</p>}
+                        </div>
+
+                        <Button onClick={handleMerge} disabled={merging || !refs}>
+                            {merging ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitMerge className="h-4 w-4 mr-2" />}
+                            Gộp vào {survivor.display_name}
+                        </Button>
+                    </CardContent>
+                </Card>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="text-base">Cặp nghi trùng ({pairs.length})</CardTitle>
+                    <CardDescription>Chỉ so sánh người cùng giới tính và cùng tên gọi (chữ cuối, bỏ dấu)</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {!data ? (
+                        <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+                    ) : pairs.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-8">Không tìm thấy cặp nào từ {threshold} điểm trở lên</p>
+                    ) : (
+                        <div className="rounded-lg border divide-y">
+                            {pairs.slice(0, MAX_PAIRS).map(pair => (
+                                <div key={`${pair.a.handle}-${pair.b.handle}`} className="flex items-center gap-3 px-3 py-2.5">
+                                    <Badge variant={pair.score >= 80 ? 'destructive' : 'secondary'} className="shrink-0 w-10 justify-center">{pair.score}</Badge>
+                                    <div className="min-w-0 flex-1 grid gap-1 md:grid-cols-2">
+                                        {[pair.a, pair.b].map(p => (
+                                            <div key={p.handle} className="text-sm min-w-0">
+                                                <Link href={`/people/${p.handle}`} className="font-medium hover:underline">{p.display_name}</Link>
+                                                <span className="text-xs text-muted-foreground"> · {lifespan(p)} · Đời {p.generation ?? '?'} · <span className="font-mono">{p.handle}</span></span>
+                                                {p.parent_families.length > 0 && (
+                                                    <p className="text-xs text-muted-foreground truncate">
+                                                        Con của {p.parent_families.map(f => {
+                                                            const fam = familyMap.get(f);
+                                                            return [fam?.father_handle, fam?.mother_handle].map(h => h && names.get(h)).filter(Boolean).join(' & ') || f;
+                                                        }).join('; ')}
+                                                    </p>
+                                                )}
+                                            </div>
+                                        ))}
+                                        <div className="md:col-span-2 flex flex-wrap gap-1">
+                                            {pair.reasons.map(r => <Badge key={r} variant="outline" className="text-[10px] font-normal">{r}</Badge>)}
+                                        </div>
+                                    </div>
+                                    <Button size="sm" variant="outline" onClick={() => choose(pair, defaultSurvivor(pair))}>
+                                        Xem & gộp
+                                    </Button>
+                                </div>
+                            ))}
+                            {pairs.length > MAX_PAIRS && (
+                                <p className="text-xs text-muted-foreground px-3 py-2">… và {pairs.length - MAX_PAIRS} cặp khác — tăng điểm tối thiểu để lọc</p>
+                            )}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -1,39 +1,27 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
-import { Check, X, Clock, MessageSquarePlus, ChevronDown, Filter } from 'lucide-react';
+import { Check, X, Clock, MessageSquarePlus, ChevronDown, Filter, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { supabase } from '@/lib/supabase';
+import { reviewContribution, type TreeError } from '@/lib/supabase-data';
+import { contributionChanges, contributionField, type Contribution } from '@/lib/contributions';
 import { useAuth } from '@/components/auth-provider';
 import { useRouter } from 'next/navigation';
-
-interface Contribution {
-    id: string;
-    author_id: string;
-    author_email: string;
-    person_handle: string;
-    person_name: string;
-    field_name: string;
-    field_label: string;
-    old_value: string | null;
-    new_value: string;
-    note: string | null;
-    status: 'pending' | 'approved' | 'rejected';
-    admin_note: string | null;
-    created_at: string;
-    reviewed_at: string | null;
-}
+import Link from 'next/link';
+import { ProposalPreview } from '@/components/proposal-preview';
 
 export default function AdminEditsPage() {
-    const { isAdmin, loading: authLoading, user } = useAuth();
+    const { isAdmin, loading: authLoading } = useAuth();
     const router = useRouter();
     const [contributions, setContributions] = useState<Contribution[]>([]);
     const [loading, setLoading] = useState(true);
     const [filter, setFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>('pending');
     const [processingId, setProcessingId] = useState<string | null>(null);
     const [adminNotes, setAdminNotes] = useState<Record<string, string>>({});
+    const [errors, setErrors] = useState<Record<string, TreeError>>({});
 
     const fetchContributions = useCallback(async () => {
         setLoading(true);
@@ -52,16 +40,17 @@ export default function AdminEditsPage() {
         if (!authLoading && isAdmin) fetchContributions();
     }, [authLoading, isAdmin, fetchContributions, router]);
 
-    const handleAction = async (id: string, action: 'approved' | 'rejected') => {
+    const handleAction = async (id: string, action: 'approved' | 'rejected', force = false) => {
         setProcessingId(id);
-        await supabase.from('contributions').update({
-            status: action,
-            admin_note: adminNotes[id] || null,
-            reviewed_by: user?.id,
-            reviewed_at: new Date().toISOString(),
-        }).eq('id', id);
+        const { error } = await reviewContribution(id, action === 'approved', adminNotes[id] || null, force);
         setProcessingId(null);
-        fetchContributions();
+        setErrors(prev => {
+            const next = { ...prev };
+            if (error) next[id] = error;
+            else delete next[id];
+            return next;
+        });
+        if (!error) fetchContributions();
     };
 
     const statusColors = {
@@ -129,8 +118,41 @@ export default function AdminEditsPage() {
 
                                         {/* Value */}
                                         <div className="bg-muted/50 rounded-lg p-3">
-                                            <p className="text-xs font-medium text-muted-foreground mb-1">Giá trị mới:</p>
-                                            <p className="text-sm font-medium">{c.new_value}</p>
+                                            {c.kind === 'PERSON' && c.payload ? (
+                                                <>
+                                                    <p className="text-sm font-medium">
+                                                        {c.payload.handle ? (
+                                                            <Link href={`/people/${c.payload.handle}`} className="hover:underline">{c.new_value}</Link>
+                                                        ) : c.new_value}
+                                                        <span className="text-xs font-normal text-muted-foreground">
+                                                            {' '}· {c.payload.person.gender === 1 ? 'Nam' : 'Nữ'}
+                                                            {c.payload.person.birth_year && ` · sinh ${c.payload.person.birth_year}`}
+                                                            {c.payload.person.death_year ? ` · mất ${c.payload.person.death_year}` : !c.payload.person.is_living && ' · đã mất'}
+                                                        </span>
+                                                    </p>
+                                                    {c.payload.person.notes && <p className="text-xs mt-1">{c.payload.person.notes}</p>}
+                                                    {c.status === 'pending' && (
+                                                        <div className="mt-3 overflow-x-auto">
+                                                            <ProposalPreview personHandle={c.person_handle} proposal={c.payload} />
+                                                        </div>
+                                                    )}
+                                                </>
+                                            ) : (
+                                                <div className="space-y-2">
+                                                    {contributionChanges(c).map(ch => (
+                                                        <div key={ch.field}>
+                                                            {ch.old_value && (
+                                                                <p className="text-xs text-muted-foreground mb-1 line-through">{ch.old_value}</p>
+                                                            )}
+                                                            <p className="text-xs font-medium text-muted-foreground mb-1">
+                                                                {c.kind === 'FIELDS' && `${ch.label} · `}
+                                                                {contributionField(ch.field)?.append ? 'Bổ sung vào ghi chú:' : 'Giá trị mới:'}
+                                                            </p>
+                                                            <p className="text-sm font-medium">{ch.new_value}</p>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
                                             {c.note && (
                                                 <p className="text-xs text-muted-foreground mt-2 italic">📝 {c.note}</p>
                                             )}
@@ -141,8 +163,29 @@ export default function AdminEditsPage() {
                                             <span>Từ: {c.author_email}</span>
                                             <span>•</span>
                                             <span>{new Date(c.created_at).toLocaleString('vi-VN')}</span>
+                                            <span>•</span>
+                                            <Link href={`/contributions/${c.id}`} className="text-primary hover:underline">
+                                                {c.status === 'pending' ? 'Xem xét từng thông tin, bằng chứng và trao đổi' : 'Chi tiết'}
+                                            </Link>
                                         </div>
 
+                                        {/* Review error; a stale suggestion can still be applied on purpose */}
+                                        {errors[c.id] && (
+                                            <div className="flex items-start gap-2 rounded p-2 text-xs bg-red-50 text-red-700 dark:bg-red-950/30 dark:text-red-400">
+                                                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                                                <div className="space-y-1.5">
+                                                    <p>{errors[c.id].message}</p>
+                                                    {errors[c.id].code === 'STALE' && (
+                                                        <Button size="sm" variant="outline" className="h-6 text-xs"
+                                                            disabled={processingId === c.id}
+                                                            onClick={() => handleAction(c.id, 'approved', true)}>
+                                                            Vẫn áp dụng giá trị mới
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        )}
+
                                         {/* Admin note */}
                                         {c.admin_note && (
                                             <p className="text-xs bg-blue-50 dark:bg-blue-950/30 rounded p-2 text-blue-700 dark:text-blue-400">
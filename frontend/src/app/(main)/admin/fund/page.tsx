@@ -0,0 +1,473 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Wallet, Plus, Printer, Ban, Pencil, Loader2, TrendingUp, TrendingDown, PiggyBank, Landmark } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/components/auth-provider';
+import { supabase } from '@/lib/supabase';
+import {
+    fetchTreeData, fetchFundEntries, fetchFundDues, saveFundEntry, voidFundEntry, setFundDues, writeAuditLog,
+    type TreeNode,
+} from '@/lib/supabase-data';
+import {
+    DUES_CATEGORY, FUND_CATEGORIES, categoriesOf, categoryLabel, duesStatus, formatVnd, fundReportHtml, fundYears,
+    householdsOf, parseVnd, summarizeYear,
+    type FundDues, type FundEntry, type FundEntryDraft, type FundKind, type Household,
+} from '@/lib/fund';
+import { vietnamToday } from '@/lib/lunar-calendar';
+import { dayKey } from '@/lib/recurrence';
+
+interface EventOption {
+    id: string;
+    title: string;
+    start_at: string;
+}
+
+const emptyDraft = (kind: FundKind, year: number): FundEntryDraft => ({
+    kind,
+    amount: 0,
+    entry_date: dayKey(vietnamToday()),
+    category: categoriesOf(kind)[0],
+    description: null,
+    person_handle: null,
+    household_handle: null,
+    event_id: null,
+    dues_year: kind === 'INCOME' ? year : null,
+    receipt_no: null,
+});
+
+// ═══ Entry form ═══
+
+interface EntryDialogProps {
+    draft: FundEntryDraft | null;
+    households: Household[];
+    people: TreeNode[];
+    events: EventOption[];
+    onClose: () => void;
+    onSave: (draft: FundEntryDraft) => Promise<string | null>;
+}
+
+function EntryDialog({ draft, households, people, events, onClose, onSave }: EntryDialogProps) {
+    const [form, setForm] = useState<FundEntryDraft | null>(draft);
+    const [amountText, setAmountText] = useState(draft?.amount ? String(draft.amount) : '');
+    const [personText, setPersonText] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    if (!form) return null;
+    const amount = parseVnd(amountText);
+    const person = form.person_handle ? people.find(p => p.handle === form.person_handle) : null;
+    const set = (changes: Partial<FundEntryDraft>) => setForm({ ...form, ...changes });
+
+    const pickPerson = (text: string) => {
+        setPersonText(text);
+        const handle = /\(([^()]+)\)$/.exec(text)?.[1];
+        if (handle && people.some(p => p.handle === handle)) {
+            set({ person_handle: handle });
+            setPersonText('');
+        }
+    };
+
+    const submit = async () => {
+        if (!amount || amount <= 0) { setError('Số tiền không hợp lệ'); return; }
+        setSaving(true);
+        setError('');
+        const message = await onSave({
+            ...form,
+            amount,
+            description: form.description?.trim() || null,
+            receipt_no: form.receipt_no?.trim() || null,
+            dues_year: form.category === DUES_CATEGORY ? form.dues_year : null,
+        });
+        setSaving(false);
+        if (message) setError(message);
+    };
+
+    return (
+        <Dialog open onOpenChange={open => { if (!open) onClose(); }}>
+            <DialogContent className="max-w-lg">
+                <DialogHeader><DialogTitle>{form.id ? 'Sửa khoản' : form.kind === 'INCOME' ? 'Ghi khoản thu' : 'Ghi khoản chi'}</DialogTitle></DialogHeader>
+                <div className="space-y-3 mt-2">
+                    {!form.id && (
+                        <div className="flex rounded-md border p-0.5 w-fit">
+                            {(['INCOME', 'EXPENSE'] as const).map(kind => (
+                                <Button key={kind} size="sm" variant={form.kind === kind ? 'secondary' : 'ghost'}
+                                    onClick={() => set({ kind, category: categoriesOf(kind)[0], dues_year: null })}>
+                                    {kind === 'INCOME' ? 'Thu' : 'Chi'}
+                                </Button>
+                            ))}
+                        </div>
+                    )}
+                    <div className="grid grid-cols-2 gap-2">
+                        <select className="rounded-md border px-3 py-2 text-sm bg-background" value={form.category}
+                            onChange={e => set({ category: e.target.value })}>
+                            {categoriesOf(form.kind).map(c => <option key={c} value={c}>{FUND_CATEGORIES[c].label}</option>)}
+                        </select>
+                        <Input type="date" value={form.entry_date} onChange={e => set({ entry_date: e.target.value })} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <Input placeholder="Số tiền (vd. 500.000, 1,5tr)" value={amountText} onChange={e => setAmountText(e.target.value)} />
+                            {amountText && <p className="text-xs text-muted-foreground mt-1">{amount ? formatVnd(amount) : 'Không đọc được số tiền'}</p>}
+                        </div>
+                        <Input placeholder="Số phiếu thu/chi" value={form.receipt_no ?? ''} onChange={e => set({ receipt_no: e.target.value })} />
+                    </div>
+                    <Input placeholder="Nội dung" value={form.description ?? ''} onChange={e => set({ description: e.target.value })} />
+                    <select className="w-full rounded-md border px-3 py-2 text-sm bg-background" value={form.household_handle ?? ''}
+                        onChange={e => set({ household_handle: e.target.value || null })}>
+                        <option value="">— Không gắn với hộ nào —</option>
+                        {households.map(h => <option key={h.handle} value={h.handle}>{h.label}</option>)}
+                    </select>
+                    {form.category === DUES_CATEGORY && (
+                        <label className="flex items-center gap-2 text-sm">
+                            Niên liễm năm
+                            <Input type="number" className="w-28" value={form.dues_year ?? ''}
+                                onChange={e => set({ dues_year: parseInt(e.target.value, 10) || null })} />
+                        </label>
+                    )}
+                    {person ? (
+                        <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                            <span>Người nộp/nhận: <span className="font-medium">{person.displayName}</span></span>
+                            <Button size="sm" variant="ghost" onClick={() => set({ person_handle: null })}>Bỏ</Button>
+                        </div>
+                    ) : (
+                        <>
+                            <Input list="fund-people" placeholder="Người nộp/nhận (tìm tên)" value={personText} onChange={e => pickPerson(e.target.value)} />
+                            <datalist id="fund-people">
+                                {people.map(p => <option key={p.handle} value={`${p.displayName} (${p.handle})`} />)}
+                            </datalist>
+                        </>
+                    )}
+                    <select className="w-full rounded-md border px-3 py-2 text-sm bg-background" value={form.event_id ?? ''}
+                        onChange={e => set({ event_id: e.target.value || null })}>
+                        <option value="">— Không gắn với sự kiện —</option>
+                        {events.map(ev => (
+                            <option key={ev.id} value={ev.id}>{new Date(ev.start_at).toLocaleDateString('vi-VN')} · {ev.title}</option>
+                        ))}
+                    </select>
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                    <Button className="w-full" onClick={submit} disabled={saving || !amountText}>
+                        {saving ? 'Đang lưu...' : 'Lưu'}
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+// ═══ Page ═══
+
+export default function FundPage() {
+    const { isAdmin, user, profile, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const [entries, setEntries] = useState<FundEntry[]>([]);
+    const [dues, setDues] = useState<FundDues[]>([]);
+    const [tree, setTree] = useState<{ people: TreeNode[]; households: Household[] }>({ people: [], households: [] });
+    const [events, setEvents] = useState<EventOption[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [year, setYear] = useState(() => vietnamToday().year);
+    const [editing, setEditing] = useState<FundEntryDraft | null>(null);
+    const [duesText, setDuesText] = useState('');
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) router.push('/tree');
+    }, [authLoading, isAdmin, router]);
+
+    const loadLedger = useCallback(() => Promise.all([fetchFundEntries(), fetchFundDues()]).then(([e, d]) => {
+        setEntries(e);
+        setDues(d);
+        setLoading(false);
+    }), []);
+
+    useEffect(() => {
+        if (authLoading || !isAdmin) return;
+        loadLedger();
+        fetchTreeData().then(({ people, families }) => setTree({ people, households: householdsOf(people, families) }));
+        supabase.from('events').select('id, title, start_at').order('start_at', { ascending: false }).limit(200)
+            .then(({ data }) => setEvents((data || []) as EventOption[]));
+    }, [authLoading, isAdmin, loadLedger]);
+
+    const years = useMemo(() => fundYears(entries, dues, vietnamToday().year), [entries, dues]);
+    const summary = useMemo(() => summarizeYear(entries, year), [entries, year]);
+    const yearDues = dues.find(d => d.year === year);
+    const duesRows = useMemo(() => duesStatus(tree.households, entries, yearDues, year), [tree.households, entries, yearDues, year]);
+    const yearEntries = entries.filter(e => e.entry_date.startsWith(`${year}-`)).reverse();
+    const names = useMemo(() => new Map<string, string>([
+        ...tree.people.map(p => [p.handle, p.displayName] as [string, string]),
+        ...tree.households.map(h => [h.handle, h.label] as [string, string]),
+    ]), [tree]);
+    const eventTitles = new Map(events.map(e => [e.id, e.title]));
+
+    const handleSave = async (draft: FundEntryDraft): Promise<string | null> => {
+        if (!user) return 'Bạn cần đăng nhập';
+        const { error } = await saveFundEntry(draft, user.id);
+        if (error) return error.message;
+        setEditing(null);
+        setMessage({ ok: true, text: draft.id ? 'Đã cập nhật khoản' : 'Đã ghi sổ' });
+        await loadLedger();
+        return null;
+    };
+
+    const handleVoid = async (entry: FundEntry) => {
+        if (!user) return;
+        const reason = prompt(`Hủy khoản ${formatVnd(entry.amount)} ngày ${entry.entry_date.split('-').reverse().join('/')}? Nhập lý do:`);
+        if (!reason?.trim()) return;
+        const { error } = await voidFundEntry(entry.id, reason.trim(), user.id);
+        setMessage(error ? { ok: false, text: `Lỗi khi hủy: ${error.message}` } : { ok: true, text: 'Đã hủy khoản, sổ vẫn giữ lại dòng này' });
+        await loadLedger();
+    };
+
+    const handleSetDues = async () => {
+        if (!user) return;
+        const amount = parseVnd(duesText);
+        if (amount === null) { setMessage({ ok: false, text: 'Mức niên liễm không hợp lệ' }); return; }
+        const { error } = await setFundDues({ year, amount, note: yearDues?.note ?? null }, user.id);
+        setMessage(error ? { ok: false, text: `Lỗi: ${error.message}` } : { ok: true, text: `Niên liễm năm ${year}: ${formatVnd(amount)}/hộ` });
+        setDuesText('');
+        await loadLedger();
+    };
+
+    const printReport = async () => {
+        const win = window.open('', '_blank');
+        if (!win) return;
+        await writeAuditLog('EXPORT', 'fund_report', String(year), {
+            income: summary.income, expense: summary.expense, closing: summary.closing, entries: yearEntries.length,
+        });
+        win.document.write(fundReportHtml({
+            summary,
+            entries,
+            duesRows,
+            names,
+            printedBy: profile?.display_name || profile?.email || '',
+        }));
+        win.document.close();
+        win.focus();
+        win.print();
+    };
+
+    const toDraft = (e: FundEntry): FundEntryDraft => ({
+        id: e.id, kind: e.kind, amount: e.amount, entry_date: e.entry_date, category: e.category, description: e.description,
+        person_handle: e.person_handle, household_handle: e.household_handle, event_id: e.event_id, dues_year: e.dues_year, receipt_no: e.receipt_no,
+    });
+
+    if (authLoading || loading) return <div className="flex items-center justify-center h-96"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>;
+
+    const owing = duesRows.filter(r => r.outstanding > 0);
+    const stats = [
+        { label: 'Tồn đầu năm', value: summary.opening, icon: Landmark },
+        { label: 'Thu trong năm', value: summary.income, icon: TrendingUp },
+        { label: 'Chi trong năm', value: summary.expense, icon: TrendingDown },
+        { label: 'Tồn hiện tại', value: summary.closing, icon: PiggyBank },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                        <Wallet className="h-6 w-6" />
+                        Quỹ họ
+                    </h1>
+                    <p className="text-muted-foreground">Sổ thu chi, niên liễm từng hộ và báo cáo theo năm — mọi thay đổi được ghi vào Audit Log</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <select className="rounded-md border px-3 py-2 text-sm bg-background" value={year} onChange={e => setYear(parseInt(e.target.value, 10))}>
+                        {years.map(y => <option key={y} value={y}>Năm {y}</option>)}
+                    </select>
+                    <Button variant="outline" onClick={printReport}><Printer className="h-4 w-4 mr-2" />In báo cáo</Button>
+                    <Button onClick={() => setEditing(emptyDraft('INCOME', year))}><Plus className="h-4 w-4 mr-2" />Ghi sổ</Button>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`rounded-lg p-3 text-sm ${message.ok ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                {stats.map(s => (
+                    <Card key={s.label}>
+                        <CardContent className="pt-6">
+                            <p className="text-sm text-muted-foreground flex items-center gap-1.5"><s.icon className="h-4 w-4" />{s.label}</p>
+                            <p className={`text-xl font-bold ${s.value < 0 ? 'text-red-600' : ''}`}>{formatVnd(s.value)}</p>
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
+
+            <Tabs defaultValue="ledger">
+                <TabsList>
+                    <TabsTrigger value="ledger">Sổ thu chi</TabsTrigger>
+                    <TabsTrigger value="dues">Niên liễm{owing.length > 0 && ` (${owing.length} hộ còn thiếu)`}</TabsTrigger>
+                    <TabsTrigger value="categories">Theo hạng mục</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="ledger">
+                    <Card>
+                        <CardContent className="p-0">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Ngày</TableHead>
+                                        <TableHead>Hạng mục</TableHead>
+                                        <TableHead>Nội dung</TableHead>
+                                        <TableHead className="text-right">Số tiền</TableHead>
+                                        <TableHead />
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {yearEntries.map(e => (
+                                        <TableRow key={e.id} className={e.voided_at ? 'opacity-50' : ''}>
+                                            <TableCell className="text-xs whitespace-nowrap">
+                                                {e.entry_date.split('-').reverse().join('/')}
+                                                {e.receipt_no && <p className="text-muted-foreground">#{e.receipt_no}</p>}
+                                            </TableCell>
+                                            <TableCell className="text-sm">
+                                                {categoryLabel(e.category)}
+                                                {e.dues_year && e.dues_year !== year && <span className="text-xs text-muted-foreground"> ({e.dues_year})</span>}
+                                            </TableCell>
+                                            <TableCell className="text-sm max-w-80">
+                                                <p className={e.voided_at ? 'line-through' : ''}>{e.description || '—'}</p>
+                                                <p className="text-xs text-muted-foreground">
+                                                    {[e.household_handle && names.get(e.household_handle), e.person_handle && names.get(e.person_handle),
+                                                        e.event_id && eventTitles.get(e.event_id)].filter(Boolean).join(' · ')}
+                                                </p>
+                                                {e.voided_at && <p className="text-xs text-red-600">Đã hủy: {e.void_reason}</p>}
+                                            </TableCell>
+                                            <TableCell className={`text-right font-medium whitespace-nowrap ${e.kind === 'INCOME' ? 'text-green-700' : 'text-red-700'}`}>
+                                                {e.kind === 'INCOME' ? '+' : '−'}{formatVnd(e.amount)}
+                                            </TableCell>
+                                            <TableCell className="whitespace-nowrap">
+                                                {!e.voided_at && (
+                                                    <>
+                                                        <Button size="icon" variant="ghost" className="h-8 w-8" title="Sửa" onClick={() => setEditing(toDraft(e))}>
+                                                            <Pencil className="h-3.5 w-3.5" />
+                                                        </Button>
+                                                        <Button size="icon" variant="ghost" className="h-8 w-8" title="Hủy khoản" onClick={() => handleVoid(e)}>
+                                                            <Ban className="h-3.5 w-3.5" />
+                                                        </Button>
+                                                    </>
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                    {yearEntries.length === 0 && (
+                                        <TableRow><TableCell colSpan={5} className="text-center text-muted-foreground py-8">Chưa có khoản nào trong năm {year}</TableCell></TableRow>
+                                    )}
+                                </TableBody>
+                            </Table>
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+
+                <TabsContent value="dues" className="space-y-4">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="text-base">Mức niên liễm năm {year}</CardTitle>
+                            <CardDescription>
+                                {yearDues ? `${formatVnd(yearDues.amount)} mỗi hộ` : 'Chưa đặt mức đóng cho năm này'}
+                                {' · '}{tree.households.length} hộ (gia đình còn cha hoặc mẹ đang sống)
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="flex gap-2 max-w-md">
+                            <Input placeholder="vd. 200.000" value={duesText} onChange={e => setDuesText(e.target.value)} />
+                            <Button variant="outline" onClick={handleSetDues} disabled={!duesText.trim()}>Đặt mức</Button>
+                        </CardContent>
+                    </Card>
+                    {yearDues && (
+                        <Card>
+                            <CardContent className="p-0">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Hộ</TableHead>
+                                            <TableHead className="text-right">Đã đóng</TableHead>
+                                            <TableHead className="text-right">Còn thiếu</TableHead>
+                                            <TableHead />
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {[...duesRows].sort((a, b) => b.outstanding - a.outstanding).map(r => (
+                                            <TableRow key={r.household.handle}>
+                                                <TableCell className="font-medium">{r.household.label}</TableCell>
+                                                <TableCell className="text-right">{formatVnd(r.paid)}</TableCell>
+                                                <TableCell className="text-right">
+                                                    {r.outstanding > 0 ? <span className="text-red-600">{formatVnd(r.outstanding)}</span> : <Badge variant="secondary">Đủ</Badge>}
+                                                </TableCell>
+                                                <TableCell className="text-right">
+                                                    {r.outstanding > 0 && (
+                                                        <Button size="sm" variant="outline" onClick={() => setEditing({
+                                                            ...emptyDraft('INCOME', year),
+                                                            category: DUES_CATEGORY,
+                                                            amount: r.outstanding,
+                                                            household_handle: r.household.handle,
+                                                            person_handle: r.household.members[0] ?? null,
+                                                            description: `Niên liễm năm ${year}`,
+                                                        })}>
+                                                            Ghi thu
+                                                        </Button>
+                                                    )}
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </CardContent>
+                        </Card>
+                    )}
+                </TabsContent>
+
+                <TabsContent value="categories">
+                    <Card>
+                        <CardContent className="p-0">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Loại</TableHead>
+                                        <TableHead>Hạng mục</TableHead>
+                                        <TableHead className="text-right">Số khoản</TableHead>
+                                        <TableHead className="text-right">Tổng</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {summary.byCategory.map(c => (
+                                        <TableRow key={`${c.kind}:${c.category}`}>
+                                            <TableCell><Badge variant={c.kind === 'INCOME' ? 'secondary' : 'outline'}>{c.kind === 'INCOME' ? 'Thu' : 'Chi'}</Badge></TableCell>
+                                            <TableCell>{categoryLabel(c.category)}</TableCell>
+                                            <TableCell className="text-right">{c.count}</TableCell>
+                                            <TableCell className="text-right font-medium">{formatVnd(c.total)}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                    {summary.byCategory.length === 0 && (
+                                        <TableRow><TableCell colSpan={4} className="text-center text-muted-foreground py-8">Chưa có số liệu</TableCell></TableRow>
+                                    )}
+                                </TableBody>
+                            </Table>
+                        </CardContent>
+                    </Card>
+                </TabsContent>
+            </Tabs>
+
+            {editing && (
+                <EntryDialog
+                    key={editing.id ?? `${editing.kind}:${editing.household_handle}`}
+                    draft={editing}
+                    households={tree.households}
+                    people={tree.people}
+                    events={events}
+                    onClose={() => setEditing(null)}
+                    onSave={handleSave}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FileUp, Upload, Check, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ImportPreview } from '@/components/import-preview';
+import { SheetImportWizard } from '@/components/sheet-import-wizard';
+import { useAuth } from '@/components/auth-provider';
+import { parseGedcom } from '@/lib/gedcom';
+import { parseGramps } from '@/lib/gramps';
+import { previewImport, type ImportBatch, type ImportPreview as Preview, type ConflictMode } from '@/lib/tree-import';
+import { fetchExistingHandles, importTreeBatch } from '@/lib/supabase-data';
+
+export default function ImportPage() {
+    const { isAdmin, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const fileRef = useRef<HTMLInputElement>(null);
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [batch, setBatch] = useState<ImportBatch | null>(null);
+    const [preview, setPreview] = useState<Preview | null>(null);
+    const [mode, setMode] = useState<ConflictMode>('skip');
+    const [analyzing, setAnalyzing] = useState(false);
+    const [importing, setImporting] = useState(false);
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) router.push('/tree');
+    }, [authLoading, isAdmin, router]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setAnalyzing(true);
+        setMessage(null);
+        try {
+            // Gramps exports carry stable handles, so re-importing one updates records in place
+            const isGramps = /\.(gramps|xml)$/i.test(file.name);
+            const parsed = isGramps
+                ? parseGramps(new Uint8Array(await file.arrayBuffer()))
+                : parseGedcom(await file.text());
+            const existing = await fetchExistingHandles();
+            setFileName(file.name);
+            setBatch(parsed);
+            setPreview(previewImport(parsed, existing));
+            setMode(isGramps ? 'overwrite' : 'skip');
+        } finally {
+            setAnalyzing(false);
+            if (fileRef.current) fileRef.current.value = '';
+        }
+    };
+
+    const handleImport = async () => {
+        if (!batch) return;
+        setImporting(true);
+        const { error } = await importTreeBatch(batch, mode);
+        setImporting(false);
+        if (error) {
+            setMessage({ ok: false, text: `Lỗi khi nhập: ${error}` });
+        } else {
+            setMessage({ ok: true, text: `Đã nhập ${batch.people.length} thành viên và ${batch.families.length} gia đình từ ${fileName}` });
+            setBatch(null);
+            setPreview(null);
+        }
+    };
+
+    if (authLoading) return <div className="flex items-center justify-center h-96"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" /></div>;
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                    <FileUp className="h-6 w-6" />
+                    Nhập dữ liệu
+                </h1>
+                <p className="text-muted-foreground">Nhập gia phả từ phần mềm khác hoặc từ bảng tính</p>
+            </div>
+
+            <Tabs defaultValue="file">
+                <TabsList>
+                    <TabsTrigger value="file">GEDCOM / Gramps</TabsTrigger>
+                    <TabsTrigger value="sheet">Bảng tính (CSV / Excel)</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="file" className="space-y-6 mt-4">
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm text-muted-foreground">GEDCOM 5.5.1 / 7.0, Gramps XML (.gramps)</p>
+                        <div>
+                            <input ref={fileRef} type="file" accept=".ged,.gedcom,.gramps,.xml,text/plain" className="hidden" onChange={handleFile} />
+                            <Button onClick={() => fileRef.current?.click()} disabled={analyzing || importing}>
+                                <Upload className="mr-2 h-4 w-4" />
+                                {analyzing ? 'Đang phân tích...' : 'Chọn tệp GEDCOM / Gramps'}
+                            </Button>
+                        </div>
+                    </div>
+
+                    {message && (
+                        <div className={`rounded-lg p-3 text-sm ${message.ok ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                            {message.text}
+                        </div>
+                    )}
+
+                    {batch && preview && (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="text-base">Xem trước: {fileName}</CardTitle>
+                                <CardDescription>{batch.source} — chưa có dữ liệu nào được ghi</CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                <ImportPreview batch={batch} preview={preview} />
+
+                                {preview.conflicts.length > 0 && (
+                                    <div className="space-y-1.5">
+                                        <label className="text-xs font-medium text-muted-foreground">Khi trùng mã</label>
+                                        <select
+                                            className="w-full md:w-80 rounded-md border px-3 py-2 text-sm bg-background"
+                                            value={mode}
+                                            onChange={e => setMode(e.target.value as ConflictMode)}
+                                        >
+                                            <option value="skip">Giữ bản ghi hiện có</option>
+                                            <option value="overwrite">Cập nhật theo mã (ghi đè các trường có trong tệp, giữ dữ liệu nhập trên web)</option>
+                                        </select>
+                                    </div>
+                                )}
+
+                                <div className="flex gap-2">
+                                    <Button onClick={handleImport} disabled={importing || batch.people.length === 0}>
+                                        {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                                        {importing ? 'Đang nhập...' : 'Xác nhận nhập'}
+                                    </Button>
+                                    <Button variant="outline" onClick={() => { setBatch(null); setPreview(null); }} disabled={importing}>
+                                        Huỷ
+                                    </Button>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    )}
+                </TabsContent>
+
+                <TabsContent value="sheet" className="mt-4">
+                    <SheetImportWizard />
+                </TabsContent>
+            </Tabs>
+        </div>
+    );
+}
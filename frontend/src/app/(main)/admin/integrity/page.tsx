@@ -0,0 +1,161 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ShieldCheck, RefreshCw, Wrench, Loader2, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/components/auth-provider';
+import { checkIntegrity, planRepairs, INTEGRITY_KINDS, type IntegrityIssue, type IntegrityKind } from '@/lib/tree-integrity';
+import { fetchIntegrityData, applyIntegrityRepairs } from '@/lib/supabase-data';
+
+const MAX_ROWS = 100;
+
+export default function IntegrityPage() {
+    const { isAdmin, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const [data, setData] = useState<Awaited<ReturnType<typeof fetchIntegrityData>> | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [repairing, setRepairing] = useState(false);
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) router.push('/tree');
+    }, [authLoading, isAdmin, router]);
+
+    // A partial load would report valid links as broken, so nothing is checked after an error
+    const loadData = useCallback(() => fetchIntegrityData().then(result => {
+        setData(result.error ? null : result);
+        if (result.error) setMessage({ ok: false, text: `Không tải được dữ liệu để kiểm tra: ${result.error.message}` });
+        setLoading(false);
+    }), []);
+
+    useEffect(() => {
+        if (!authLoading && isAdmin) loadData();
+    }, [authLoading, isAdmin, loadData]);
+
+    const runCheck = () => {
+        setLoading(true);
+        return loadData();
+    };
+
+    const issues = useMemo(() => (data ? checkIntegrity(data.people, data.families) : []), [data]);
+    const groups = useMemo(() => {
+        const map = new Map<IntegrityKind, IntegrityIssue[]>();
+        for (const issue of issues) map.set(issue.kind, [...(map.get(issue.kind) || []), issue]);
+        return Array.from(map);
+    }, [issues]);
+    const repairable = issues.filter(i => i.repair.length > 0);
+    const personHandles = useMemo(() => new Set(data?.people.map(p => p.handle)), [data]);
+
+    const repair = async (selected: IntegrityIssue[]) => {
+        if (!data || selected.length === 0) return;
+        setRepairing(true);
+        setMessage(null);
+        const plan = planRepairs(data.people, data.families, selected);
+        const { error } = await applyIntegrityRepairs(plan);
+        setRepairing(false);
+        if (error) {
+            setMessage({ ok: false, text: `Lỗi khi sửa: ${error.message}` });
+        } else {
+            setMessage({ ok: true, text: `Đã sửa ${selected.length} lỗi (${plan.people.length} người, ${plan.families.length + plan.deleteFamilies.length} gia đình)` });
+        }
+        await runCheck();
+    };
+
+    if (authLoading) return <div className="flex items-center justify-center h-96"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" /></div>;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                        <ShieldCheck className="h-6 w-6" />
+                        Kiểm tra dữ liệu
+                    </h1>
+                    <p className="text-muted-foreground">Phát hiện liên kết cha mẹ, vợ chồng, con cái bị lệch giữa bảng people và families</p>
+                </div>
+                <div className="flex gap-2">
+                    <Button variant="outline" onClick={runCheck} disabled={loading || repairing}>
+                        <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />Kiểm tra lại
+                    </Button>
+                    <Button onClick={() => repair(repairable)} disabled={repairable.length === 0 || repairing || loading}>
+                        {repairing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wrench className="h-4 w-4 mr-2" />}
+                        Sửa tất cả ({repairable.length})
+                    </Button>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`rounded-lg p-3 text-sm ${message.ok ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            {data && !loading && issues.length === 0 && (
+                <Card><CardContent className="flex flex-col items-center justify-center py-12">
+                    <CheckCircle2 className="h-12 w-12 text-green-500 mb-4" />
+                    <p className="text-muted-foreground">Không phát hiện lỗi nào trong {data.people.length} người và {data.families.length} gia đình</p>
+                </CardContent></Card>
+            )}
+
+            {groups.map(([kind, list]) => {
+                const fixable = list.filter(i => i.repair.length > 0);
+                return (
+                    <Card key={kind}>
+                        <CardHeader>
+                            <div className="flex items-start justify-between gap-4">
+                                <div>
+                                    <CardTitle className="text-base flex items-center gap-2">
+                                        {list[0].severity === 'error'
+                                            ? <XCircle className="h-4 w-4 text-red-500" />
+                                            : <AlertTriangle className="h-4 w-4 text-amber-500" />}
+                                        {INTEGRITY_KINDS[kind].title}
+                                        <Badge variant="secondary">{list.length}</Badge>
+                                    </CardTitle>
+                                    <CardDescription className="mt-1">{INTEGRITY_KINDS[kind].explain}</CardDescription>
+                                </div>
+                                {fixable.length > 0 && (
+                                    <Button size="sm" variant="outline" onClick={() => repair(fixable)} disabled={repairing}>
+                                        <Wrench className="h-3.5 w-3.5 mr-1.5" />Sửa cả nhóm
+                                    </Button>
+                                )}
+                            </div>
+                        </CardHeader>
+                        <CardContent>
+                            <div className="rounded-lg border divide-y max-h-80 overflow-y-auto">
+                                {list.slice(0, MAX_ROWS).map(issue => (
+                                    <div key={issue.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                                        <div className="min-w-0">
+                                            <p className="truncate">{issue.message}</p>
+                                            <p className="text-xs text-muted-foreground font-mono">
+                                                {issue.handles.map((h, i) => (
+                                                    <span key={h}>
+                                                        {i > 0 && ' · '}
+                                                        {personHandles.has(h)
+                                                            ? <Link href={`/people/${h}`} className="hover:underline">{h}</Link>
+                                                            : h}
+                                                    </span>
+                                                ))}
+                                            </p>
+                                        </div>
+                                        {issue.repair.length > 0 ? (
+                                            <Button size="sm" variant="ghost" onClick={() => repair([issue])} disabled={repairing}>Sửa</Button>
+                                        ) : (
+                                            <span className="text-xs text-muted-foreground shrink-0">Sửa thủ công</span>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                            {list.length > MAX_ROWS && (
+                                <p className="text-xs text-muted-foreground mt-2">… và {list.length - MAX_ROWS} mục khác</p>
+                            )}
+                        </CardContent>
+                    </Card>
+                );
+            })}
+        </div>
+    );
+}
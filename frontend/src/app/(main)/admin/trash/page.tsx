@@ -0,0 +1,132 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Trash2, RotateCcw, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/components/auth-provider';
+import { fetchDeletedPeople, restoreDeletedPerson, purgeDeletedPerson } from '@/lib/supabase-data';
+import type { DeletedPersonEntry } from '@/lib/person-deletion';
+
+export default function TrashPage() {
+    const { isAdmin, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const [entries, setEntries] = useState<DeletedPersonEntry[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [processingId, setProcessingId] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) router.push('/tree');
+    }, [authLoading, isAdmin, router]);
+
+    const loadEntries = useCallback(() => fetchDeletedPeople().then(rows => {
+        setEntries(rows);
+        setLoading(false);
+    }), []);
+
+    useEffect(() => {
+        if (!authLoading && isAdmin) loadEntries();
+    }, [authLoading, isAdmin, loadEntries]);
+
+    const handleRestore = async (entry: DeletedPersonEntry) => {
+        setProcessingId(entry.id);
+        setMessage(null);
+        const { skipped, error } = await restoreDeletedPerson(entry.id);
+        setProcessingId(null);
+        if (error) {
+            setMessage({ ok: false, text: `Lỗi khi khôi phục: ${error.message}` });
+        } else {
+            setMessage({
+                ok: true,
+                text: `Đã khôi phục ${entry.display_name ?? entry.person_handle}`
+                    + (skipped.length > 0 ? ` — không gắn lại được vào ${skipped.join(', ')} vì vị trí cha/mẹ đã có người khác` : ''),
+            });
+        }
+        await loadEntries();
+    };
+
+    const handlePurge = async (entry: DeletedPersonEntry) => {
+        if (!confirm(`Xóa vĩnh viễn "${entry.display_name ?? entry.person_handle}"? Không thể hoàn tác.`)) return;
+        setProcessingId(entry.id);
+        setMessage(null);
+        const { error } = await purgeDeletedPerson(entry.id);
+        setProcessingId(null);
+        if (error) setMessage({ ok: false, text: `Lỗi khi xóa: ${error}` });
+        await loadEntries();
+    };
+
+    if (authLoading) return <div className="flex items-center justify-center h-96"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" /></div>;
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                    <Trash2 className="h-6 w-6" />
+                    Thùng rác
+                </h1>
+                <p className="text-muted-foreground">Thành viên đã xóa cùng bình luận, đóng góp của họ — khôi phục để đưa trở lại cây</p>
+            </div>
+
+            {message && (
+                <div className={`rounded-lg p-3 text-sm ${message.ok ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="text-base">Đã xóa ({entries.length})</CardTitle>
+                    <CardDescription>Con đã được chuyển sang gia đình khác lúc xóa sẽ giữ nguyên khi khôi phục</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {loading ? (
+                        <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+                    ) : entries.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-8">Thùng rác trống</p>
+                    ) : (
+                        <Table>
+                            <TableHeader><TableRow>
+                                <TableHead>Thành viên</TableHead><TableHead>Ảnh hưởng</TableHead><TableHead>Xóa bởi</TableHead><TableHead className="text-right">Thao tác</TableHead>
+                            </TableRow></TableHeader>
+                            <TableBody>
+                                {entries.map(entry => {
+                                    const snap = entry.snapshot;
+                                    const reparented = Object.keys(snap.reparented ?? {}).length;
+                                    return (
+                                        <TableRow key={entry.id}>
+                                            <TableCell>
+                                                <p className="font-medium">{entry.display_name}</p>
+                                                <p className="text-xs text-muted-foreground font-mono">{entry.person_handle}</p>
+                                            </TableCell>
+                                            <TableCell className="text-xs text-muted-foreground">
+                                                <p>{snap.families.length} gia đình{snap.removed_families.length > 0 && `, đã xóa ${snap.removed_families.join(', ')}`}</p>
+                                                {reparented > 0 && <p>{reparented} nhóm con đã chuyển gia đình</p>}
+                                                <p>{snap.comments.length} bình luận · {snap.contributions.length} đóng góp{snap.media_people?.length ? ` · ${snap.media_people.length} thẻ ảnh` : ''}</p>
+                                            </TableCell>
+                                            <TableCell className="text-xs">
+                                                <p>{entry.deleter?.display_name || entry.deleter?.email || '—'}</p>
+                                                <p className="text-muted-foreground">{new Date(entry.deleted_at).toLocaleString('vi-VN')}</p>
+                                            </TableCell>
+                                            <TableCell className="text-right space-x-1 whitespace-nowrap">
+                                                <Button size="sm" variant="outline" onClick={() => handleRestore(entry)} disabled={processingId !== null}>
+                                                    {processingId === entry.id ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <RotateCcw className="h-3.5 w-3.5 mr-1" />}
+                                                    Khôi phục
+                                                </Button>
+                                                <Button size="sm" variant="ghost" className="text-red-600" onClick={() => handlePurge(entry)} disabled={processingId !== null}>
+                                                    Xóa vĩnh viễn
+                                                </Button>
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useCallback, useEffect } from 'react';
-import { Shield, Plus, MoreHorizontal, Copy, Check, Link2, Trash2, RefreshCw, Loader2 } from 'lucide-react';
+import Link from 'next/link';
+import { Shield, Plus, MoreHorizontal, Copy, Check, Link2, Trash2, RefreshCw, Loader2, UserCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import {
@@ -31,6 +32,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { useAuth } from '@/components/auth-provider';
 import { supabase } from '@/lib/supabase';
+import { fetchPeople, fetchPendingClaims, resolveClaim, unlinkAccount, type PersonClaim } from '@/lib/supabase-data';
 
 const ROLE_COLORS: Record<string, string> = {
     admin: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300',
@@ -46,6 +48,7 @@ interface ProfileUser {
     display_name: string | null;
     role: string;
     status: string;
+    person_handle: string | null;
     created_at: string;
 }
 
@@ -75,6 +78,9 @@ export default function AdminUsersPage() {
     const [inviteRole, setInviteRole] = useState('member');
     const [inviteMaxUses, setInviteMaxUses] = useState(1);
     const [copied, setCopied] = useState<string | null>(null);
+    const [claims, setClaims] = useState<PersonClaim[]>([]);
+    const [personNames, setPersonNames] = useState<Map<string, string>>(new Map());
+    const [claimError, setClaimError] = useState('');
 
     // Fetch users from profiles table
     const fetchUsers = useCallback(async () => {
@@ -100,12 +106,31 @@ export default function AdminUsersPage() {
         } catch { /* ignore */ }
     }, []);
 
+    // Pending "this is me" claims, plus names for the linked person column
+    const fetchClaims = useCallback(() => Promise.all([fetchPendingClaims(), fetchPeople()]).then(([rows, people]) => {
+        setClaims(rows);
+        setPersonNames(new Map(people.map(p => [p.handle, p.displayName])));
+    }), []);
+
     useEffect(() => {
         if (!authLoading && isAdmin) {
             fetchUsers();
             fetchInvites();
+            fetchClaims();
         }
-    }, [authLoading, isAdmin, fetchUsers, fetchInvites]);
+    }, [authLoading, isAdmin, fetchUsers, fetchInvites, fetchClaims]);
+
+    const handleResolveClaim = useCallback(async (claim: PersonClaim, approve: boolean) => {
+        setClaimError('');
+        const { error } = await resolveClaim(claim.id, approve);
+        if (error) setClaimError(error.message);
+        await Promise.all([fetchClaims(), fetchUsers()]);
+    }, [fetchClaims, fetchUsers]);
+
+    const handleUnlink = useCallback(async (userId: string) => {
+        const { error } = await unlinkAccount(userId);
+        if (!error) setUsers(prev => prev.map(u => u.id === userId ? { ...u, person_handle: null } : u));
+    }, []);
 
     // Create invite link
     const handleCreateInvite = useCallback(async () => {
@@ -211,7 +236,7 @@ export default function AdminUsersPage() {
                     <p className="text-muted-foreground">Quản lý tài khoản và quyền truy cập</p>
                 </div>
                 <div className="flex gap-2">
-                    <Button variant="outline" size="icon" onClick={() => { fetchUsers(); fetchInvites(); }}>
+                    <Button variant="outline" size="icon" onClick={() => { fetchUsers(); fetchInvites(); fetchClaims(); }}>
                         <RefreshCw className="h-4 w-4" />
                     </Button>
                     <Dialog open={inviteDialogOpen} onOpenChange={(open) => { if (!open) handleCloseDialog(); else setInviteDialogOpen(true); }}>
@@ -259,6 +284,55 @@ export default function AdminUsersPage() {
                 </div>
             </div>
 
+            {/* Person claims */}
+            {(claims.length > 0 || claimError) && (
+                <Card className="border-amber-200">
+                    <CardHeader>
+                        <CardTitle className="text-base flex items-center gap-2">
+                            <UserCheck className="h-4 w-4" />
+                            Yêu cầu nhận hồ sơ
+                        </CardTitle>
+                        <CardDescription>Thành viên báo &quot;đây là tôi&quot; — liên kết chỉ có hiệu lực sau khi được xác nhận</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                        {claimError && <p className="text-sm text-destructive">{claimError}</p>}
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Tài khoản</TableHead>
+                                    <TableHead>Nhận là</TableHead>
+                                    <TableHead>Gửi lúc</TableHead>
+                                    <TableHead className="text-right">Thao tác</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {claims.map(claim => (
+                                    <TableRow key={claim.id}>
+                                        <TableCell>
+                                            <p className="font-medium">{claim.display_name || claim.email.split('@')[0]}</p>
+                                            <p className="text-xs text-muted-foreground">{claim.email}</p>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Link href={`/people/${claim.claimed_handle}`} className="hover:underline">
+                                                {personNames.get(claim.claimed_handle) ?? claim.claimed_handle}
+                                            </Link>
+                                            {claim.person_handle && (
+                                                <p className="text-xs text-amber-600">Đang liên kết: {personNames.get(claim.person_handle) ?? claim.person_handle}</p>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-sm text-muted-foreground">{new Date(claim.claimed_at).toLocaleString('vi-VN')}</TableCell>
+                                        <TableCell className="text-right space-x-1 whitespace-nowrap">
+                                            <Button size="sm" onClick={() => handleResolveClaim(claim, true)}>Xác nhận</Button>
+                                            <Button size="sm" variant="ghost" className="text-destructive" onClick={() => handleResolveClaim(claim, false)}>Từ chối</Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Users Table */}
             <Card>
                 <CardHeader>
@@ -277,6 +351,7 @@ export default function AdminUsersPage() {
                                     <TableHead>Tên</TableHead>
                                     <TableHead>Email</TableHead>
                                     <TableHead>Quyền</TableHead>
+                                    <TableHead>Hồ sơ</TableHead>
                                     <TableHead>Trạng thái</TableHead>
                                     <TableHead>Ngày tham gia</TableHead>
                                     <TableHead className="w-12"></TableHead>
@@ -292,6 +367,13 @@ export default function AdminUsersPage() {
                                                 {user.role.toUpperCase()}
                                             </Badge>
                                         </TableCell>
+                                        <TableCell className="text-sm">
+                                            {user.person_handle ? (
+                                                <Link href={`/people/${user.person_handle}`} className="hover:underline">
+                                                    {personNames.get(user.person_handle) ?? user.person_handle}
+                                                </Link>
+                                            ) : <span className="text-muted-foreground">—</span>}
+                                        </TableCell>
                                         <TableCell>
                                             <Badge variant={user.status === 'active' ? 'default' : 'destructive'}>
                                                 {user.status === 'active' ? 'Hoạt động' : 'Tạm ngưng'}
@@ -315,6 +397,11 @@ export default function AdminUsersPage() {
                                                     <DropdownMenuItem onClick={() => handleChangeRole(user.id, 'member')}>
                                                         Đặt Member
                                                     </DropdownMenuItem>
+                                                    {user.person_handle && (
+                                                        <DropdownMenuItem onClick={() => handleUnlink(user.id)}>
+                                                            Gỡ liên kết hồ sơ
+                                                        </DropdownMenuItem>
+                                                    )}
                                                     <DropdownMenuSeparator />
                                                     <DropdownMenuItem
                                                         className={user.status === 'active' ? 'text-destructive' : 'text-green-600'}
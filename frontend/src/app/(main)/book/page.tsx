@@ -115,6 +115,7 @@ export default function BookPage() {
     // Estimate height of a single PersonEntry based on content
     function estimatePersonHeight(person: BookPerson): number {
         let h = 56; // name + years + padding (p-4 + flex + rounding margin)
+        if (person.birthLunar || person.deathLunar) h += 16 * ((person.birthLunar ? 1 : 0) + (person.deathLunar ? 1 : 0));
         if (person.fatherName) h += 22;
         if (person.motherName) h += 22;
         if (person.spouseName) h += 22;
@@ -542,6 +543,8 @@ function PersonEntry({ person, index, theme: t }: { person: BookPerson; index: n
                         {!person.isLiving && person.deathYear && ' · Đã mất'}
                         {person.isLiving && ' · Còn sống'}
                     </p>
+                    {person.birthLunar && <p className="text-[11px]" style={{ color: t.textMuted }}>Sinh {person.birthLunar} ÂL</p>}
+                    {person.deathLunar && <p className="text-[11px]" style={{ color: t.textMuted }}>Giỗ {person.deathLunar} ÂL</p>}
                 </div>
             </div>
             <div className="ml-8 space-y-1 text-xs">
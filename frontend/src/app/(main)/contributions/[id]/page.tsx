@@ -0,0 +1,330 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { AlertTriangle, ArrowLeft, Check, Loader2, MessageCircle, Paperclip, Send, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/components/auth-provider';
+import { MediaLightbox } from '@/components/media-lightbox';
+import { MediaThumb } from '@/components/media-albums';
+import { ProposalPreview } from '@/components/proposal-preview';
+import { supabase } from '@/lib/supabase';
+import {
+    fetchContribution, fetchContributionMessages, postContributionMessage, reviewContribution, type TreeError,
+} from '@/lib/supabase-data';
+import {
+    contributionChanges, contributionField, currentFieldValue, diffWords,
+    type Contribution, type ContributionMessage, type ContributionStatus, type DiffPart, type FieldChange,
+} from '@/lib/contributions';
+import type { MediaItem } from '@/lib/media';
+
+const STATUS_LABELS: Record<ContributionStatus, string> = {
+    pending: 'Chờ duyệt',
+    approved: 'Đã duyệt',
+    rejected: 'Từ chối',
+};
+
+// ═══ Diff ═══
+
+function DiffText({ parts, side }: { parts: DiffPart[]; side: 'before' | 'after' }) {
+    const hidden = side === 'before' ? 'added' : 'removed';
+    return (
+        <span className="whitespace-pre-wrap break-words">
+            {parts.filter(p => p.kind !== hidden).map((p, i) => (
+                <span key={i} className={
+                    p.kind === 'removed' ? 'bg-red-100 text-red-800 line-through dark:bg-red-950/50 dark:text-red-300'
+                        : p.kind === 'added' ? 'bg-green-100 text-green-800 dark:bg-green-950/50 dark:text-green-300' : ''
+                }>{p.text}</span>
+            ))}
+        </span>
+    );
+}
+
+/** Live value vs the value the person would have after approval */
+function changeDiff(change: FieldChange, live: string | null): DiffPart[] {
+    const after = contributionField(change.field)?.append
+        ? [live, change.new_value].filter(Boolean).join('\n\n')
+        : change.new_value;
+    return diffWords(live ?? '', after);
+}
+
+// ═══ Discussion ═══
+
+function Discussion({ contributionId }: { contributionId: string }) {
+    const { user } = useAuth();
+    const [messages, setMessages] = useState<ContributionMessage[]>([]);
+    const [body, setBody] = useState('');
+    const [sending, setSending] = useState(false);
+    const [error, setError] = useState('');
+
+    const load = useCallback(() => fetchContributionMessages(contributionId).then(setMessages), [contributionId]);
+    useEffect(() => { load(); }, [load]);
+
+    const send = async () => {
+        if (!user || !body.trim()) return;
+        setSending(true);
+        const { error } = await postContributionMessage(contributionId, user.id, body.trim());
+        setSending(false);
+        if (error) {
+            setError(error.message);
+            return;
+        }
+        setBody('');
+        setError('');
+        load();
+    };
+
+    return (
+        <Card>
+            <CardHeader><CardTitle className="text-base flex items-center gap-2"><MessageCircle className="h-4 w-4" />Trao đổi</CardTitle></CardHeader>
+            <CardContent className="space-y-3">
+                {messages.length === 0 && <p className="text-sm text-muted-foreground">Chưa có trao đổi nào</p>}
+                {messages.map(m => {
+                    const mine = m.author_id === user?.id;
+                    const who = m.author?.display_name || m.author?.email?.split('@')[0] || 'Ẩn danh';
+                    return (
+                        <div key={m.id} className={`flex ${mine ? 'justify-end' : ''}`}>
+                            <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${mine ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}>
+                                <p className={`text-[11px] mb-0.5 ${mine ? 'opacity-80' : 'text-muted-foreground'}`}>
+                                    {who}{m.author?.role === 'admin' && ' · Quản trị viên'} · {new Date(m.created_at).toLocaleString('vi-VN')}
+                                </p>
+                                <p className="whitespace-pre-wrap">{m.body}</p>
+                            </div>
+                        </div>
+                    );
+                })}
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                <div className="flex gap-2">
+                    <Textarea rows={2} placeholder="Hỏi thêm nguồn, bổ sung chi tiết..." value={body} onChange={e => setBody(e.target.value)} />
+                    <Button size="icon" className="shrink-0 self-end" disabled={sending || !body.trim()} onClick={send} title="Gửi">
+                        <Send className="h-4 w-4" />
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
+
+// ═══ Page ═══
+
+export default function ContributionPage() {
+    const params = useParams();
+    const router = useRouter();
+    const id = params.id as string;
+    const { user, isAdmin } = useAuth();
+    const [data, setData] = useState<{ contribution: Contribution; evidence: MediaItem[] } | null>(null);
+    const [live, setLive] = useState<Record<string, unknown> | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [viewing, setViewing] = useState<number | null>(null);
+    const [decisions, setDecisions] = useState<Record<string, boolean>>({});
+    const [adminNote, setAdminNote] = useState('');
+    const [force, setForce] = useState(false);
+    const [processing, setProcessing] = useState(false);
+    const [error, setError] = useState<TreeError | null>(null);
+
+    /** The contribution and the person's live row, for the diff */
+    const load = useCallback(() => fetchContribution(id).then(async result => {
+        const person = result
+            ? (await supabase.from('people').select('*').eq('handle', result.contribution.person_handle).maybeSingle()).data
+            : null;
+        setData(result);
+        setLive(person);
+        setLoading(false);
+    }), [id]);
+
+    useEffect(() => { load(); }, [load]);
+
+    if (loading) {
+        return <div className="flex items-center justify-center h-96"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>;
+    }
+    if (!data) {
+        return (
+            <div className="text-center py-20">
+                <p className="text-muted-foreground">Không tìm thấy đóng góp</p>
+                <Button variant="outline" className="mt-4" onClick={() => router.back()}>
+                    <ArrowLeft className="mr-2 h-4 w-4" />Quay lại
+                </Button>
+            </div>
+        );
+    }
+
+    const { contribution: c, evidence } = data;
+    const changes = contributionChanges(c);
+    const pending = c.status === 'pending';
+    const canReview = isAdmin && pending;
+    const canDiscuss = !!user && (isAdmin || user.id === c.author_id);
+    const liveValue = (ch: FieldChange) => {
+        const field = contributionField(ch.field);
+        return field ? currentFieldValue(live, field) : null;
+    };
+    const isStale = (ch: FieldChange) => !contributionField(ch.field)?.append && liveValue(ch) !== ch.old_value;
+    const accepted = changes.filter(ch => decisions[ch.field] ?? true);
+    const staleAccepted = accepted.filter(isStale);
+
+    const review = async (approve: boolean) => {
+        setProcessing(true);
+        const { error } = await reviewContribution(c.id, approve, adminNote.trim() || null, force,
+            c.kind === 'FIELDS' ? Object.fromEntries(changes.map(ch => [ch.field, decisions[ch.field] ?? true])) : undefined);
+        setProcessing(false);
+        setError(error);
+        if (!error) load();
+    };
+
+    return (
+        <div className="space-y-6 max-w-5xl">
+            <div className="flex items-start gap-3">
+                <Button variant="ghost" size="icon" onClick={() => router.back()}>
+                    <ArrowLeft className="h-4 w-4" />
+                </Button>
+                <div className="space-y-1">
+                    <h1 className="text-2xl font-bold tracking-tight flex flex-wrap items-center gap-2">
+                        {c.field_label || c.field_name}
+                        <span className="text-muted-foreground font-normal">·</span>
+                        <Link href={`/people/${c.person_handle}`} className="hover:underline">{c.person_name || c.person_handle}</Link>
+                        <Badge variant={pending ? 'secondary' : c.status === 'approved' ? 'default' : 'destructive'}>{STATUS_LABELS[c.status]}</Badge>
+                    </h1>
+                    <p className="text-sm text-muted-foreground">
+                        Gửi bởi {c.author_email} · {new Date(c.created_at).toLocaleString('vi-VN')}
+                        {c.reviewed_at && ` · xét duyệt ${new Date(c.reviewed_at).toLocaleString('vi-VN')}`}
+                    </p>
+                </div>
+            </div>
+
+            {c.note && (
+                <p className="text-sm bg-muted/50 rounded-lg p-3 italic">📝 {c.note}</p>
+            )}
+            {c.admin_note && (
+                <p className="text-sm bg-blue-50 dark:bg-blue-950/30 rounded-lg p-3 text-blue-700 dark:text-blue-400">💬 Admin: {c.admin_note}</p>
+            )}
+
+            {c.kind === 'PERSON' && c.payload ? (
+                <Card>
+                    <CardHeader><CardTitle className="text-base">Người được đề xuất</CardTitle></CardHeader>
+                    <CardContent className="space-y-3">
+                        <p className="text-sm">
+                            {c.payload.handle ? <Link href={`/people/${c.payload.handle}`} className="font-medium hover:underline">{c.new_value}</Link> : <span className="font-medium">{c.new_value}</span>}
+                            <span className="text-muted-foreground">
+                                {' '}· {c.payload.person.gender === 1 ? 'Nam' : 'Nữ'}
+                                {c.payload.person.birth_year && ` · sinh ${c.payload.person.birth_year}`}
+                                {c.payload.person.death_year ? ` · mất ${c.payload.person.death_year}` : !c.payload.person.is_living && ' · đã mất'}
+                            </span>
+                        </p>
+                        {c.payload.person.notes && <p className="text-sm whitespace-pre-wrap">{c.payload.person.notes}</p>}
+                        {pending && (
+                            <div className="overflow-x-auto">
+                                <ProposalPreview personHandle={c.person_handle} proposal={c.payload} />
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            ) : (
+                <Card className="py-0 gap-0">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="w-32">Thông tin</TableHead>
+                                <TableHead>Hồ sơ hiện tại</TableHead>
+                                <TableHead>Đề xuất</TableHead>
+                                {(canReview || c.kind === 'FIELDS' && !pending) && <TableHead className="w-28 text-right">Quyết định</TableHead>}
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {changes.map(ch => {
+                                const parts = changeDiff(ch, liveValue(ch));
+                                const take = decisions[ch.field] ?? true;
+                                return (
+                                    <TableRow key={ch.field} className={canReview && !take ? 'opacity-50' : ''}>
+                                        <TableCell className="align-top font-medium text-xs whitespace-normal">
+                                            {ch.label}
+                                            {contributionField(ch.field)?.append && <p className="font-normal text-muted-foreground">nối vào ghi chú</p>}
+                                        </TableCell>
+                                        <TableCell className="align-top text-sm whitespace-normal">
+                                            {liveValue(ch) ? <DiffText parts={parts} side="before" /> : <span className="text-muted-foreground">(trống)</span>}
+                                            {pending && isStale(ch) && (
+                                                <p className="mt-1 flex items-start gap-1 text-xs text-amber-700 dark:text-amber-400">
+                                                    <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                                                    Đã đổi sau khi gửi, lúc đó là: {ch.old_value ?? '(trống)'}
+                                                </p>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="align-top text-sm whitespace-normal"><DiffText parts={parts} side="after" /></TableCell>
+                                        {canReview ? (
+                                            <TableCell className="align-top text-right">
+                                                <div className="inline-flex rounded-md border p-0.5">
+                                                    <Button size="icon" variant={take ? 'secondary' : 'ghost'} className="h-7 w-7" title="Nhận"
+                                                        onClick={() => setDecisions({ ...decisions, [ch.field]: true })}>
+                                                        <Check className="h-3.5 w-3.5 text-green-600" />
+                                                    </Button>
+                                                    <Button size="icon" variant={take ? 'ghost' : 'secondary'} className="h-7 w-7" title="Bỏ"
+                                                        disabled={c.kind !== 'FIELDS'}
+                                                        onClick={() => setDecisions({ ...decisions, [ch.field]: false })}>
+                                                        <X className="h-3.5 w-3.5 text-red-600" />
+                                                    </Button>
+                                                </div>
+                                            </TableCell>
+                                        ) : c.kind === 'FIELDS' && !pending && (
+                                            <TableCell className="align-top text-right">
+                                                {ch.status && <Badge variant={ch.status === 'approved' ? 'default' : 'outline'}>{ch.status === 'approved' ? 'Đã nhận' : 'Bỏ'}</Badge>}
+                                            </TableCell>
+                                        )}
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                </Card>
+            )}
+
+            {evidence.length > 0 && (
+                <Card>
+                    <CardHeader><CardTitle className="text-base flex items-center gap-2"><Paperclip className="h-4 w-4" />Tư liệu kèm theo</CardTitle></CardHeader>
+                    <CardContent>
+                        <div className="grid gap-3 grid-cols-3 md:grid-cols-6">
+                            {evidence.map((m, i) => (
+                                <button key={m.id} type="button" title={m.title || m.file_name}
+                                    className="aspect-square overflow-hidden rounded-md bg-muted" onClick={() => setViewing(i)}>
+                                    <MediaThumb item={m} />
+                                </button>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {canReview && (
+                <Card>
+                    <CardContent className="pt-6 space-y-3">
+                        <Input placeholder="Ghi chú gửi người đóng góp (tuỳ chọn)" value={adminNote} onChange={e => setAdminNote(e.target.value)} />
+                        {staleAccepted.length > 0 && (
+                            <label className="flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400">
+                                <input type="checkbox" className="mt-1" checked={force} onChange={e => setForce(e.target.checked)} />
+                                Hồ sơ đã thay đổi ở {staleAccepted.map(ch => ch.label).join(', ')} sau khi đóng góp được gửi. Vẫn ghi đè bằng giá trị đề xuất.
+                            </label>
+                        )}
+                        {error && <p className="text-sm text-destructive">{error.message}</p>}
+                        <div className="flex flex-wrap gap-2">
+                            <Button className="bg-green-600 hover:bg-green-700" onClick={() => review(true)}
+                                disabled={processing || (c.kind !== 'PERSON' && accepted.length === 0) || (staleAccepted.length > 0 && !force)}>
+                                <Check className="mr-1 h-4 w-4" />
+                                {c.kind === 'PERSON' ? 'Duyệt và thêm vào cây' : `Duyệt ${accepted.length}/${changes.length} thông tin`}
+                            </Button>
+                            <Button variant="outline" className="text-red-600 border-red-200 hover:bg-red-50" onClick={() => review(false)} disabled={processing}>
+                                <X className="mr-1 h-4 w-4" />Từ chối
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {canDiscuss && <Discussion contributionId={c.id} />}
+
+            <MediaLightbox items={evidence} index={viewing} onIndexChange={setViewing} />
+        </div>
+    );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ChevronRight, Loader2, MessageSquarePlus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { useAuth } from '@/components/auth-provider';
+import { fetchMyContributions } from '@/lib/supabase-data';
+import type { Contribution, ContributionStatus } from '@/lib/contributions';
+
+const STATUS_LABELS: Record<ContributionStatus, string> = {
+    pending: 'Chờ duyệt',
+    approved: 'Đã duyệt',
+    rejected: 'Từ chối',
+};
+
+export default function MyContributionsPage() {
+    const { user, loading: authLoading } = useAuth();
+    const [items, setItems] = useState<Contribution[] | null>(null);
+
+    useEffect(() => {
+        if (user) fetchMyContributions(user.id).then(setItems);
+    }, [user]);
+
+    if (!authLoading && !user) {
+        return <p className="text-center py-20 text-muted-foreground">Đăng nhập để xem các đóng góp của bạn</p>;
+    }
+
+    return (
+        <div className="space-y-6 max-w-3xl">
+            <div>
+                <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                    <MessageSquarePlus className="h-6 w-6" />Đóng góp của tôi
+                </h1>
+                <p className="text-muted-foreground">Theo dõi kết quả xét duyệt và trao đổi với quản trị viên</p>
+            </div>
+
+            {items === null ? (
+                <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+            ) : items.length === 0 ? (
+                <Card>
+                    <CardContent className="py-12 text-center text-muted-foreground">
+                        Bạn chưa gửi đóng góp nào. Trên cây gia phả, bấm vào một người và chọn &quot;Đóng góp thông tin&quot; để bắt đầu.
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className="space-y-2">
+                    {items.map(c => (
+                        <Link key={c.id} href={`/contributions/${c.id}`} className="block">
+                            <Card className="py-3 hover:bg-accent/50 transition-colors">
+                                <CardContent className="px-4 flex items-center gap-3">
+                                    <div className="flex-1 min-w-0">
+                                        <p className="font-medium truncate">
+                                            {c.field_label || c.field_name} · {c.person_name || c.person_handle}
+                                        </p>
+                                        <p className="text-sm text-muted-foreground truncate">
+                                            {c.new_value} · {new Date(c.created_at).toLocaleDateString('vi-VN')}
+                                        </p>
+                                    </div>
+                                    <Badge variant={c.status === 'pending' ? 'secondary' : c.status === 'approved' ? 'default' : 'destructive'}>
+                                        {STATUS_LABELS[c.status]}
+                                    </Badge>
+                                    <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                                </CardContent>
+                            </Card>
+                        </Link>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,13 +1,21 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
-import { useParams, useRouter } from 'next/navigation';
-import { CalendarDays, MapPin, Clock, Users, ArrowLeft, Check, X, HelpCircle, Loader2 } from 'lucide-react';
+import { useEffect, useState, useCallback, Suspense } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { MapPin, Clock, Users, ArrowLeft, Loader2, UserRound, Repeat, Ban, RotateCcw, Pencil, Download } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { useAuth } from '@/components/auth-provider';
+import { RsvpForm, RsvpDashboard } from '@/components/event-rsvps';
+import { EventAlbums } from '@/components/media-albums';
 import { supabase } from '@/lib/supabase';
+import { solarToLunar, formatLunarShort } from '@/lib/lunar-calendar';
+import { buildCalendar, occurrenceUid, seriesRRule, RSVP_PARTSTAT, TYPE_CATEGORIES } from '@/lib/ical';
+import { RSVP_STATUS_LABELS, rsvpName, sortRsvps, summarizeRsvps, type Rsvp } from '@/lib/rsvp';
+import { describeRecurrence, effectiveRule, localIso, localParts, parseDayKey, type CalendarEvent, type EventOverride } from '@/lib/recurrence';
 
 const typeLabels: Record<string, { label: string; emoji: string }> = {
     MEMORIAL: { label: 'Giỗ', emoji: '🕯️' },
@@ -16,19 +24,34 @@ const typeLabels: Record<string, { label: string; emoji: string }> = {
     OTHER: { label: 'Khác', emoji: '📅' },
 };
 
-const rsvpOptions = [
-    { status: 'GOING', label: 'Tham dự', icon: Check, variant: 'default' as const },
-    { status: 'MAYBE', label: 'Có thể', icon: HelpCircle, variant: 'secondary' as const },
-    { status: 'NOT_GOING', label: 'Không đi', icon: X, variant: 'destructive' as const },
-];
+/** "Chủ nhật, 14/6/2026 (29/4 Bính Ngọ ÂL)" */
+function occurrenceLabel(iso: string): string {
+    const { date, time } = localParts(iso);
+    const solar = new Date(iso).toLocaleDateString('vi-VN', { weekday: 'long', day: 'numeric', month: 'numeric', year: 'numeric', timeZone: 'Asia/Ho_Chi_Minh' });
+    return `${time} · ${solar} (${formatLunarShort(solarToLunar(date))})`;
+}
 
-export default function EventDetailPage() {
+function downloadIcs(content: string, fileName: string) {
+    const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+function EventDetailContent() {
     const params = useParams();
     const router = useRouter();
-    const { user, isLoggedIn } = useAuth();
+    const searchParams = useSearchParams();
+    const { user, isLoggedIn, isAdmin } = useAuth();
     const [event, setEvent] = useState<Record<string, unknown> | null>(null);
-    const [rsvps, setRsvps] = useState<Record<string, unknown>[]>([]);
-    const [myRsvp, setMyRsvp] = useState<string | null>(null);
+    const [override, setOverride] = useState<EventOverride | null>(null);
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState({ time: '', title: '', location: '' });
+    const [saving, setSaving] = useState(false);
+    const [rsvps, setRsvps] = useState<Rsvp[]>([]);
     const [loading, setLoading] = useState(true);
 
     const fetchEvent = useCallback(async () => {
@@ -42,33 +65,129 @@ export default function EventDetailPage() {
                 .single();
             if (data) setEvent(data);
 
-            // Fetch RSVPs
-            const { data: rsvpData } = await supabase
+            const date = searchParams.get('date');
+            if (date) {
+                const { data: overrideData } = await supabase
+                    .from('event_overrides')
+                    .select('*')
+                    .eq('event_id', params.id)
+                    .eq('occurrence_date', date)
+                    .maybeSingle();
+                setOverride(overrideData as EventOverride | null);
+            }
+
+            // Fetch RSVPs: a recurring event takes them per occurrence, the series itself has none
+            const recurring = !!data && !!effectiveRule(data as unknown as CalendarEvent);
+            const rsvpQuery = supabase
                 .from('event_rsvps')
                 .select('*, user:profiles(display_name, email)')
                 .eq('event_id', params.id);
-            if (rsvpData) {
-                setRsvps(rsvpData);
-                if (user) {
-                    const mine = rsvpData.find((r: Record<string, unknown>) => r.user_id === user.id);
-                    if (mine) setMyRsvp(mine.status as string);
-                }
+            if (recurring && !date) {
+                setRsvps([]);
+            } else {
+                const { data: rsvpData } = await (recurring && date
+                    ? rsvpQuery.eq('occurrence_date', date)
+                    : rsvpQuery.is('occurrence_date', null));
+                if (rsvpData) setRsvps(rsvpData as Rsvp[]);
             }
         } catch { /* ignore */ }
         finally { setLoading(false); }
-    }, [params.id, user]);
+    }, [params.id, searchParams]);
 
     useEffect(() => { fetchEvent(); }, [fetchEvent]);
 
-    const handleRsvp = async (status: string) => {
-        if (!user || !params.id) return;
+    const myRsvp = user ? rsvps.find(r => r.user_id === user.id) ?? null : null;
+    const headcount = summarizeRsvps(rsvps);
+
+    const calendarEvent = event as unknown as CalendarEvent | null;
+    const rule = calendarEvent ? effectiveRule(calendarEvent) : null;
+    // Only a recurring event has separate occurrences; ?date= on a one-off is ignored
+    const occurrenceDate = rule ? searchParams.get('date') : null;
+    const rsvpOpen = !rule || !!occurrenceDate;
+    const canManage = !!user && (isAdmin || event?.creator_id === user.id);
+    const originalStart = calendarEvent && occurrenceDate
+        ? localIso(parseDayKey(occurrenceDate), localParts(calendarEvent.start_at).time)
+        : (event?.start_at as string | undefined);
+    const start = override?.start_at ?? originalStart;
+
+    const saveOverride = async (changes: Partial<EventOverride>) => {
+        if (!occurrenceDate || !user) return;
+        setSaving(true);
         const { error } = await supabase
-            .from('event_rsvps')
-            .upsert({ event_id: params.id, user_id: user.id, status }, { onConflict: 'event_id,user_id' });
-        if (!error) {
-            setMyRsvp(status);
-            fetchEvent();
+            .from('event_overrides')
+            .upsert({
+                event_id: params.id,
+                occurrence_date: occurrenceDate,
+                cancelled: override?.cancelled ?? false,
+                start_at: override?.start_at ?? null,
+                title: override?.title ?? null,
+                location: override?.location ?? null,
+                created_by: user.id,
+                ...changes,
+            }, { onConflict: 'event_id,occurrence_date' });
+        setSaving(false);
+        if (error) {
+            console.error('Failed to save override:', error.message);
+            return;
         }
+        setEditing(false);
+        fetchEvent();
+    };
+
+    const restoreOccurrence = async () => {
+        if (!override) return;
+        setSaving(true);
+        const { error } = await supabase.from('event_overrides').delete().eq('id', override.id);
+        setSaving(false);
+        if (error) console.error('Failed to restore occurrence:', error.message);
+        else setOverride(null);
+    };
+
+    const startEditing = () => {
+        setDraft({
+            time: start ? localParts(start).time : '',
+            title: override?.title ?? '',
+            location: override?.location ?? '',
+        });
+        setEditing(true);
+    };
+
+    const saveEdit = () => {
+        if (!occurrenceDate) return;
+        const moved = draft.time && originalStart && draft.time !== localParts(originalStart).time
+            ? localIso(parseDayKey(occurrenceDate), draft.time)
+            : null;
+        saveOverride({ start_at: moved, title: draft.title.trim() || null, location: draft.location.trim() || null });
+    };
+
+    /** This occurrence (with ?date=) or the whole series; attendees are this occurrence's RSVPs, none for a series */
+    const exportIcs = () => {
+        if (!calendarEvent || !start) return;
+        const end = calendarEvent.end_at
+            ? new Date(new Date(start).getTime() + new Date(calendarEvent.end_at).getTime() - new Date(calendarEvent.start_at).getTime()).toISOString()
+            : null;
+        const attendees = rsvps.map(r => ({
+            name: rsvpName(r),
+            email: r.user?.email || null,
+            partstat: RSVP_PARTSTAT[r.status] ?? 'NEEDS-ACTION',
+        }));
+        const ics = buildCalendar({
+            name: calendarEvent.title,
+            events: [{
+                uid: occurrenceDate ? occurrenceUid(calendarEvent.id, occurrenceDate) : `${calendarEvent.id}@giapha`,
+                start,
+                end,
+                summary: override?.title || calendarEvent.title,
+                description: calendarEvent.description,
+                location: override?.location || calendarEvent.location,
+                url: window.location.href,
+                categories: [TYPE_CATEGORIES[calendarEvent.type] || TYPE_CATEGORIES.OTHER],
+                cancelled: override?.cancelled,
+                rrule: occurrenceDate ? null : seriesRRule(calendarEvent),
+                attendees,
+            }],
+        });
+        downloadIcs(ics, `su-kien-${occurrenceDate ?? localParts(start).date.year}-${calendarEvent.id.slice(0, 8)}.ics`);
     };
 
     if (loading) return <div className="flex items-center justify-center h-48"><Loader2 className="h-8 w-8 animate-spin" /></div>;
@@ -78,55 +197,127 @@ export default function EventDetailPage() {
 
     return (
         <div className="max-w-2xl mx-auto space-y-6">
-            <Button variant="ghost" size="sm" onClick={() => router.push('/events')}>
-                <ArrowLeft className="mr-2 h-4 w-4" />Quay lại
-            </Button>
+            <div className="flex items-center justify-between">
+                <Button variant="ghost" size="sm" onClick={() => router.push('/events')}>
+                    <ArrowLeft className="mr-2 h-4 w-4" />Quay lại
+                </Button>
+                <Button variant="outline" size="sm" onClick={exportIcs}>
+                    <Download className="mr-2 h-4 w-4" />Tải .ics
+                </Button>
+            </div>
 
             <Card>
                 <CardHeader>
                     <Badge variant="secondary" className="w-fit">{tl.emoji} {tl.label}</Badge>
-                    <CardTitle className="text-2xl">{event.title as string}</CardTitle>
+                    <CardTitle className={`text-2xl ${override?.cancelled ? 'line-through text-muted-foreground' : ''}`}>
+                        {override?.title || (event.title as string)}
+                    </CardTitle>
+                    {override?.cancelled && <Badge variant="destructive" className="w-fit">Buổi này đã hủy</Badge>}
                 </CardHeader>
                 <CardContent className="space-y-4">
-                    {typeof event.description === 'string' && event.description && <p className="text-muted-foreground">{event.description}</p>}
+                    {typeof event.description === 'string' && event.description && <p className="text-muted-foreground whitespace-pre-line">{event.description}</p>}
+                    {typeof event.person_handle === 'string' && (
+                        <Link href={`/people/${event.person_handle}`} className="inline-flex items-center gap-1 text-sm text-primary hover:underline">
+                            <UserRound className="h-4 w-4" />Xem hồ sơ người được giỗ
+                        </Link>
+                    )}
                     <div className="space-y-2 text-sm">
-                        <div className="flex items-center gap-2"><Clock className="h-4 w-4" />{new Date(event.start_at as string).toLocaleString('vi-VN')}</div>
-                        {typeof event.location === 'string' && event.location && <div className="flex items-center gap-2"><MapPin className="h-4 w-4" />{event.location}</div>}
-                        <div className="flex items-center gap-2"><Users className="h-4 w-4" />{rsvps.filter((r: Record<string, unknown>) => r.status === 'GOING').length} người tham dự</div>
+                        <div className="flex items-center gap-2">
+                            <Clock className="h-4 w-4" />
+                            {start && (occurrenceDate ? occurrenceLabel(start) : new Date(start).toLocaleString('vi-VN'))}
+                            {override?.start_at && <Badge variant="outline">Đã dời giờ</Badge>}
+                        </div>
+                        {calendarEvent && describeRecurrence(calendarEvent) && (
+                            <div className="flex items-center gap-2 text-muted-foreground"><Repeat className="h-4 w-4" />{describeRecurrence(calendarEvent)}</div>
+                        )}
+                        {(override?.location || (typeof event.location === 'string' && event.location)) && (
+                            <div className="flex items-center gap-2"><MapPin className="h-4 w-4" />{override?.location || (event.location as string)}</div>
+                        )}
+                        {rsvpOpen && (
+                            <div className="flex items-center gap-2">
+                                <Users className="h-4 w-4" />
+                                {headcount.people.GOING} người tham dự ({headcount.households.GOING} hộ)
+                                {headcount.people.MAYBE > 0 && <span className="text-muted-foreground">· {headcount.people.MAYBE} người có thể đến</span>}
+                            </div>
+                        )}
                     </div>
 
-                    {isLoggedIn && (
-                        <div className="flex gap-2 pt-4 border-t">
-                            {rsvpOptions.map(opt => (
-                                <Button
-                                    key={opt.status}
-                                    variant={myRsvp === opt.status ? opt.variant : 'outline'}
-                                    size="sm"
-                                    onClick={() => handleRsvp(opt.status)}
-                                >
-                                    <opt.icon className="mr-1 h-4 w-4" />{opt.label}
-                                </Button>
-                            ))}
+                    {canManage && occurrenceDate && (
+                        <div className="space-y-3 pt-4 border-t">
+                            <p className="text-xs text-muted-foreground">Chỉ thay đổi buổi ngày {occurrenceDate.split('-').reverse().join('/')}, các buổi khác giữ nguyên</p>
+                            {editing ? (
+                                <div className="space-y-2">
+                                    <Input type="time" value={draft.time} onChange={e => setDraft({ ...draft, time: e.target.value })} />
+                                    <Input placeholder={`Tên buổi này (mặc định: ${event.title as string})`} value={draft.title} onChange={e => setDraft({ ...draft, title: e.target.value })} />
+                                    <Input placeholder="Địa điểm buổi này" value={draft.location} onChange={e => setDraft({ ...draft, location: e.target.value })} />
+                                    <div className="flex gap-2">
+                                        <Button size="sm" onClick={saveEdit} disabled={saving}>Lưu</Button>
+                                        <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>Hủy</Button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="flex flex-wrap gap-2">
+                                    <Button size="sm" variant="outline" onClick={startEditing} disabled={saving}>
+                                        <Pencil className="mr-1 h-4 w-4" />Sửa buổi này
+                                    </Button>
+                                    {!override?.cancelled && (
+                                        <Button size="sm" variant="outline" onClick={() => saveOverride({ cancelled: true })} disabled={saving}>
+                                            <Ban className="mr-1 h-4 w-4" />Hủy buổi này
+                                        </Button>
+                                    )}
+                                    {override && (
+                                        <Button size="sm" variant="ghost" onClick={restoreOccurrence} disabled={saving}>
+                                            <RotateCcw className="mr-1 h-4 w-4" />Khôi phục như lịch gốc
+                                        </Button>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     )}
+
+                    {isLoggedIn && user && (rsvpOpen ? (
+                        <RsvpForm key={`${occurrenceDate}-${myRsvp?.updated_at ?? 'new'}`} eventId={params.id as string}
+                            occurrenceDate={occurrenceDate} userId={user.id} mine={myRsvp} onSaved={fetchEvent} />
+                    ) : (
+                        <p className="pt-4 border-t text-sm text-muted-foreground">
+                            Sự kiện lặp lại nhận phản hồi theo từng buổi — chọn một buổi trong <Link href="/events" className="text-primary hover:underline">lịch sự kiện</Link> để đăng ký tham dự.
+                        </p>
+                    ))}
                 </CardContent>
             </Card>
 
-            {rsvps.length > 0 && (
+            {canManage && rsvpOpen ? (
+                <RsvpDashboard
+                    title={override?.title || (event.title as string)}
+                    when={start ? occurrenceLabel(start) : ''}
+                    rsvps={rsvps}
+                    onChanged={fetchEvent}
+                />
+            ) : rsvps.length > 0 && (
                 <Card>
                     <CardHeader><CardTitle className="text-base">Danh sách phản hồi</CardTitle></CardHeader>
                     <CardContent>
                         <div className="space-y-2">
-                            {rsvps.map((r: Record<string, unknown>) => (
-                                <div key={r.id as string} className="flex items-center justify-between text-sm">
-                                    <span>{(r.user as Record<string, unknown>)?.display_name as string || ((r.user as Record<string, unknown>)?.email as string)?.split('@')[0]}</span>
-                                    <Badge variant="secondary">{r.status as string}</Badge>
+                            {sortRsvps(rsvps).map(r => (
+                                <div key={r.id} className="flex items-center justify-between text-sm">
+                                    <span>{rsvpName(r)}{r.status !== 'NOT_GOING' && r.party_size > 1 && <span className="text-muted-foreground"> +{r.party_size - 1}</span>}</span>
+                                    <Badge variant="secondary">{RSVP_STATUS_LABELS[r.status]}</Badge>
                                 </div>
                             ))}
                         </div>
                     </CardContent>
                 </Card>
             )}
+
+            <EventAlbums eventId={params.id as string} userId={user?.id} />
         </div>
     );
 }
+
+export default function EventDetailPage() {
+    return (
+        <Suspense fallback={<div className="flex items-center justify-center h-48"><Loader2 className="h-8 w-8 animate-spin" /></div>}>
+            <EventDetailContent />
+        </Suspense>
+    );
+}
@@ -1,21 +1,9 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
-import {
-    CalendarDays,
-    MapPin,
-    Clock,
-    Users,
-    Plus,
-    ChevronLeft,
-    ChevronRight,
-    Check,
-    X,
-    HelpCircle,
-} from 'lucide-react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
+import { CalendarDays, Plus, ChevronLeft, ChevronRight, Rss, Copy } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -27,22 +15,15 @@ import {
     DialogTrigger,
 } from '@/components/ui/dialog';
 import { useAuth } from '@/components/auth-provider';
+import { UpcomingMemorials } from '@/components/upcoming-memorials';
+import { MonthView, WeekView, AgendaView, viewRange, viewTitle, shiftCursor, type CalendarView } from '@/components/event-calendar';
+import { vietnamToday } from '@/lib/lunar-calendar';
+import {
+    expandEvents, rruleError, RECURRENCE_LABELS,
+    type CalendarEvent, type EventOverride, type Occurrence, type RecurrenceKind, type RecurrenceRule,
+} from '@/lib/recurrence';
 import { supabase } from '@/lib/supabase';
-
-interface EventItem {
-    id: string;
-    title: string;
-    description: string | null;
-    start_at: string;
-    end_at: string | null;
-    location: string | null;
-    type: string;
-    is_recurring: boolean;
-    creator_id: string;
-    created_at: string;
-    creator?: { display_name: string | null; email: string };
-    rsvp_count?: number;
-}
+import { fetchPeople, type TreeNode } from '@/lib/supabase-data';
 
 const typeLabels: Record<string, { label: string; emoji: string }> = {
     MEMORIAL: { label: 'Giỗ', emoji: '🕯️' },
@@ -51,17 +32,11 @@ const typeLabels: Record<string, { label: string; emoji: string }> = {
     OTHER: { label: 'Khác', emoji: '📅' },
 };
 
-function formatDate(dateStr: string) {
-    return new Date(dateStr).toLocaleDateString('vi-VN', {
-        weekday: 'long', day: 'numeric', month: 'long', year: 'numeric',
-    });
-}
-
-function formatTime(dateStr: string) {
-    return new Date(dateStr).toLocaleTimeString('vi-VN', {
-        hour: '2-digit', minute: '2-digit',
-    });
-}
+const VIEWS: { key: CalendarView; label: string }[] = [
+    { key: 'month', label: 'Tháng' },
+    { key: 'week', label: 'Tuần' },
+    { key: 'agenda', label: 'Lịch trình' },
+];
 
 function CreateEventDialog({ onCreated }: { onCreated: () => void }) {
     const { user } = useAuth();
@@ -72,10 +47,17 @@ function CreateEventDialog({ onCreated }: { onCreated: () => void }) {
     const [startAt, setStartAt] = useState('');
     const [location, setLocation] = useState('');
     const [type, setType] = useState('MEETING');
+    const [repeat, setRepeat] = useState<RecurrenceKind | ''>('');
+    const [rrule, setRrule] = useState('');
+    const [until, setUntil] = useState('');
+    const ruleError = repeat === 'rrule' ? (rrule.trim() ? rruleError(rrule) : 'Nhập quy tắc RRULE') : null;
 
     const handleSubmit = async () => {
-        if (!title.trim() || !startAt || !user) return;
+        if (!title.trim() || !startAt || !user || ruleError) return;
         setSubmitting(true);
+        const recurrence: RecurrenceRule | null = repeat
+            ? { kind: repeat, ...(repeat === 'rrule' ? { rrule: rrule.trim().replace(/^RRULE:/i, '') } : {}), until: until || null }
+            : null;
         try {
             const { error } = await supabase.from('events').insert({
                 title: title.trim(),
@@ -83,11 +65,14 @@ function CreateEventDialog({ onCreated }: { onCreated: () => void }) {
                 start_at: new Date(startAt).toISOString(),
                 location: location.trim() || null,
                 type,
+                recurrence,
+                is_recurring: !!recurrence,
                 creator_id: user.id,
             });
             if (!error) {
                 setOpen(false);
                 setTitle(''); setDescription(''); setStartAt(''); setLocation('');
+                setRepeat(''); setRrule(''); setUntil('');
                 onCreated();
             }
         } finally { setSubmitting(false); }
@@ -110,7 +95,24 @@ function CreateEventDialog({ onCreated }: { onCreated: () => void }) {
                             <option key={k} value={k}>{v.emoji} {v.label}</option>
                         ))}
                     </select>
-                    <Button className="w-full" onClick={handleSubmit} disabled={!title.trim() || !startAt || submitting}>
+                    <select className="w-full rounded-md border px-3 py-2 text-sm bg-background" value={repeat}
+                        onChange={e => setRepeat(e.target.value as RecurrenceKind | '')}>
+                        <option value="">Không lặp lại</option>
+                        {Object.entries(RECURRENCE_LABELS).map(([k, label]) => <option key={k} value={k}>{label}</option>)}
+                    </select>
+                    {repeat === 'rrule' && (
+                        <div className="space-y-1">
+                            <Input placeholder="FREQ=MONTHLY;BYDAY=1SU" value={rrule} onChange={e => setRrule(e.target.value)} className="font-mono text-sm" />
+                            {ruleError && rrule.trim() && <p className="text-xs text-destructive">{ruleError}</p>}
+                        </div>
+                    )}
+                    {repeat && (
+                        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                            Lặp đến ngày
+                            <Input type="date" className="flex-1" value={until} onChange={e => setUntil(e.target.value)} />
+                        </label>
+                    )}
+                    <Button className="w-full" onClick={handleSubmit} disabled={!title.trim() || !startAt || !!ruleError || submitting}>
                         {submitting ? 'Đang tạo...' : 'Tạo sự kiện'}
                     </Button>
                 </div>
@@ -119,51 +121,119 @@ function CreateEventDialog({ onCreated }: { onCreated: () => void }) {
     );
 }
 
-function EventCard({ event }: { event: EventItem }) {
-    const router = useRouter();
-    const tl = typeLabels[event.type] || typeLabels.OTHER;
+/** Builds the /api/events/ical URL for phone and desktop calendar apps */
+function SubscribeDialog() {
+    const [types, setTypes] = useState<string[]>(['MEMORIAL', 'MEETING', 'FESTIVAL']);
+    const [people, setPeople] = useState<TreeNode[] | null>(null);
+    const [query, setQuery] = useState('');
+    const [branch, setBranch] = useState<TreeNode | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    const params = new URLSearchParams();
+    if (types.length < Object.keys(typeLabels).length) params.set('type', types.join(','));
+    if (branch) params.set('branch', branch.handle);
+    const origin = typeof window === 'undefined' ? '' : window.location.origin;
+    const feedUrl = `${origin}/api/events/ical${params.size ? `?${params}` : ''}`;
+    const webcalUrl = feedUrl.replace(/^https?:/, 'webcal:');
+
+    const q = query.trim().toLowerCase();
+    const matches = q && people ? people.filter(p => p.displayName.toLowerCase().includes(q)).slice(0, 8) : [];
+
+    const toggleType = (type: string) =>
+        setTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+
+    const copy = async () => {
+        await navigator.clipboard.writeText(feedUrl);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
 
     return (
-        <Card className="hover:shadow-md transition-shadow cursor-pointer" onClick={() => router.push(`/events/${event.id}`)}>
-            <CardContent className="p-4 space-y-2">
-                <div className="flex items-start justify-between">
-                    <div>
-                        <Badge variant="secondary" className="text-xs mb-1">{tl.emoji} {tl.label}</Badge>
-                        <h3 className="font-semibold">{event.title}</h3>
+        <Dialog onOpenChange={open => { if (open && !people) fetchPeople().then(setPeople); }}>
+            <DialogTrigger asChild>
+                <Button variant="outline"><Rss className="mr-2 h-4 w-4" />Đăng ký lịch</Button>
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader><DialogTitle>Đưa sự kiện vào lịch điện thoại</DialogTitle></DialogHeader>
+                <div className="space-y-4 mt-2 text-sm">
+                    <p className="text-muted-foreground">
+                        Thêm đường dẫn dưới đây vào Google Calendar, Lịch iPhone hoặc Outlook (mục &quot;Đăng ký lịch&quot; / &quot;Thêm lịch từ URL&quot;).
+                        Lịch tự cập nhật, kể cả các ngày giỗ tính theo âm lịch.
+                    </p>
+                    <div className="flex flex-wrap gap-3">
+                        {Object.entries(typeLabels).map(([k, v]) => (
+                            <label key={k} className="flex items-center gap-1.5">
+                                <input type="checkbox" checked={types.includes(k)} onChange={() => toggleType(k)} />
+                                {v.emoji} {v.label}
+                            </label>
+                        ))}
                     </div>
-                    {event.rsvp_count !== undefined && event.rsvp_count > 0 && (
-                        <Badge variant="outline"><Users className="h-3 w-3 mr-1" />{event.rsvp_count}</Badge>
-                    )}
-                </div>
-                {event.description && <p className="text-sm text-muted-foreground line-clamp-2">{event.description}</p>}
-                <div className="flex items-center gap-4 text-xs text-muted-foreground">
-                    <span className="flex items-center gap-1"><Clock className="h-3 w-3" />{formatDate(event.start_at)} · {formatTime(event.start_at)}</span>
-                    {event.location && <span className="flex items-center gap-1"><MapPin className="h-3 w-3" />{event.location}</span>}
+                    <div className="space-y-1">
+                        {branch ? (
+                            <div className="flex items-center justify-between rounded-md border px-3 py-2">
+                                <span>Giỗ trong nhánh <span className="font-medium">{branch.displayName}</span></span>
+                                <Button size="sm" variant="ghost" onClick={() => setBranch(null)}>Bỏ lọc</Button>
+                            </div>
+                        ) : (
+                            <Input placeholder="Chỉ giỗ trong nhánh của... (tìm tên)" value={query} onChange={e => setQuery(e.target.value)} />
+                        )}
+                        {!branch && matches.length > 0 && (
+                            <div className="rounded-md border divide-y">
+                                {matches.map(p => (
+                                    <button key={p.handle} className="block w-full text-left px-3 py-1.5 hover:bg-accent"
+                                        onClick={() => { setBranch(p); setQuery(''); }}>
+                                        {p.displayName}
+                                        <span className="text-xs text-muted-foreground"> · Đời {p.generation}</span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex gap-2">
+                        <Input readOnly value={feedUrl} className="font-mono text-xs" onFocus={e => e.target.select()} />
+                        <Button variant="outline" size="icon" onClick={copy} title="Sao chép"><Copy className="h-4 w-4" /></Button>
+                    </div>
+                    {copied && <p className="text-xs text-green-600">Đã sao chép đường dẫn</p>}
+                    <Button className="w-full" asChild disabled={types.length === 0}>
+                        <a href={webcalUrl}>Mở bằng ứng dụng lịch</a>
+                    </Button>
                 </div>
-            </CardContent>
-        </Card>
+            </DialogContent>
+        </Dialog>
     );
 }
 
 export default function EventsPage() {
     const { isLoggedIn } = useAuth();
-    const [events, setEvents] = useState<EventItem[]>([]);
+    const router = useRouter();
+    const [events, setEvents] = useState<CalendarEvent[]>([]);
+    const [overrides, setOverrides] = useState<EventOverride[]>([]);
     const [loading, setLoading] = useState(true);
+    const [view, setView] = useState<CalendarView>('month');
+    const [cursor, setCursor] = useState(vietnamToday);
 
     const fetchEvents = useCallback(async () => {
-        setLoading(true);
         try {
-            const { data } = await supabase
-                .from('events')
-                .select('*, creator:profiles(display_name, email)')
-                .order('start_at', { ascending: false });
-            if (data) setEvents(data);
+            const [{ data }, { data: overrideData }] = await Promise.all([
+                supabase.from('events').select('*').order('start_at'),
+                supabase.from('event_overrides').select('*'),
+            ]);
+            if (data) setEvents(data as CalendarEvent[]);
+            if (overrideData) setOverrides(overrideData as EventOverride[]);
         } catch { /* ignore */ }
         finally { setLoading(false); }
     }, []);
 
     useEffect(() => { fetchEvents(); }, [fetchEvents]);
 
+    const occurrences = useMemo(() => {
+        const { from, to } = viewRange(view, cursor);
+        return expandEvents(events, overrides, from, to);
+    }, [events, overrides, view, cursor]);
+
+    const openOccurrence = (o: Occurrence) => router.push(`/events/${o.event.id}?date=${o.date}`);
+    const ViewComponent = view === 'month' ? MonthView : view === 'week' ? WeekView : AgendaView;
+
     return (
         <div className="space-y-6">
             <div className="flex items-center justify-between">
@@ -174,7 +244,26 @@ export default function EventsPage() {
                     </h1>
                     <p className="text-muted-foreground">Lịch các hoạt động dòng họ</p>
                 </div>
-                {isLoggedIn && <CreateEventDialog onCreated={fetchEvents} />}
+                <div className="flex gap-2">
+                    <SubscribeDialog />
+                    {isLoggedIn && <CreateEventDialog onCreated={fetchEvents} />}
+                </div>
+            </div>
+
+            <UpcomingMemorials onSynced={fetchEvents} />
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-1">
+                    <Button variant="outline" size="icon" onClick={() => setCursor(c => shiftCursor(view, c, -1))}><ChevronLeft className="h-4 w-4" /></Button>
+                    <Button variant="outline" size="sm" onClick={() => setCursor(vietnamToday())}>Hôm nay</Button>
+                    <Button variant="outline" size="icon" onClick={() => setCursor(c => shiftCursor(view, c, 1))}><ChevronRight className="h-4 w-4" /></Button>
+                    <span className="ml-2 text-sm font-medium">{viewTitle(view, cursor)}</span>
+                </div>
+                <div className="flex rounded-md border p-0.5">
+                    {VIEWS.map(v => (
+                        <Button key={v.key} size="sm" variant={view === v.key ? 'secondary' : 'ghost'} onClick={() => setView(v.key)}>{v.label}</Button>
+                    ))}
+                </div>
             </div>
 
             {loading ? (
@@ -189,9 +278,7 @@ export default function EventsPage() {
                     </CardContent>
                 </Card>
             ) : (
-                <div className="grid gap-4">
-                    {events.map(event => <EventCard key={event.id} event={event} />)}
-                </div>
+                <ViewComponent cursor={cursor} occurrences={occurrences} onOpen={openOccurrence} />
             )}
         </div>
     );
@@ -1,13 +1,8 @@
 'use client';
 
 import React, { useState } from 'react';
-import { createClient } from '@supabase/supabase-js';
-
-// 1. Khởi tạo Supabase Client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
-);
+import { supabase } from '@/lib/supabase';
+import { addChild, addFamily } from '@/lib/supabase-data';
 
 export default function QuickAddPage() {
   const [loading, setLoading] = useState(false);
@@ -40,67 +35,40 @@ export default function QuickAddPage() {
     setLoading(true);
     setMessage('');
 
-    try {
-      // Tạo ID duy nhất cho người mới
-      const personHandle = `I${Date.now()}`;
-      const { father_handle, mother_handle, ...personInfo } = formData;
-
-      // Bước 1: Thêm vào bảng people
-      const { error: pError } = await supabase.from('people').insert([{
+    // Tạo ID duy nhất cho người mới
+    const personHandle = `I${Date.now()}`;
+    const { father_handle, mother_handle, ...personInfo } = formData;
+    const birthYear = parseInt(personInfo.birth_year) || null;
+    let error: { message: string } | null;
+
+    if (father_handle || mother_handle) {
+      // Có cha/mẹ: lấy (hoặc tạo) gia đình của cặp đó rồi thêm con bằng thủ tục nguyên tử;
+      // đời được tính theo cha mẹ
+      const { family, error: familyError } = await addFamily(father_handle || null, mother_handle || null, `F${Date.now()}`);
+      error = familyError ?? (await addChild(family!, {
+        handle: personHandle,
+        displayName: personInfo.display_name,
+        gender: personInfo.gender,
+        birthYear,
+      })).error;
+    } else {
+      // Không có cha/mẹ: chỉ một dòng people, không đụng tới quan hệ nào
+      ({ error } = await supabase.from('people').insert([{
         ...personInfo,
+        birth_year: birthYear,
         handle: personHandle,
         gramps_id: personHandle
-      }]);
-
-      if (pError) throw pError;
-
-      // Bước 2: Nếu có nhập ID Cha hoặc Mẹ, tự động tạo/cập nhật bảng families
-      if (father_handle || mother_handle) {
-        // Tìm xem cặp này đã có family chưa
-        let { data: family } = await supabase
-          .from('families')
-          .select('handle, children')
-          .match({ 
-            father_handle: father_handle || null, 
-            mother_handle: mother_handle || null 
-          })
-          .maybeSingle();
-
-        let targetFamHandle;
-
-        if (!family) {
-          // Tạo gia đình mới
-          targetFamHandle = `F${Date.now()}`;
-          await supabase.from('families').insert([{
-            handle: targetFamHandle,
-            father_handle: father_handle || null,
-            mother_handle: mother_handle || null,
-            children: [personHandle]
-          }]);
-        } else {
-          // Cập nhật con vào gia đình sẵn có
-          targetFamHandle = family.handle;
-          const newChildren = [...(family.children || []), personHandle];
-          await supabase.from('families')
-            .update({ children: newChildren })
-            .eq('handle', targetFamHandle);
-        }
-
-        // Cập nhật ngược lại cho người con
-        await supabase.from('people')
-          .update({ parent_families: [targetFamHandle] })
-          .eq('handle', personHandle);
-      }
-
-      setMessage('✅ Đã lưu thành công thành viên: ' + formData.display_name);
-      // Reset form để nhập người tiếp theo
-      setFormData(prev => ({ ...prev, display_name: '', first_name: '', birth_year: '' }));
+      }]));
+    }
 
-    } catch (err: any) {
-      setMessage('❌ Lỗi: ' + err.message);
-    } finally {
-      setLoading(false);
+    setLoading(false);
+    if (error) {
+      setMessage('❌ Lỗi: ' + error.message);
+      return;
     }
+    setMessage('✅ Đã lưu thành công thành viên: ' + formData.display_name);
+    // Reset form để nhập người tiếp theo
+    setFormData(prev => ({ ...prev, display_name: '', first_name: '', birth_year: '' }));
   };
 
   return (
@@ -0,0 +1,249 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Download, ExternalLink, FolderOpen, Loader2, Pencil, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/components/auth-provider';
+import { TaggedImage } from '@/components/tagged-image';
+import { supabase } from '@/lib/supabase';
+import { fetchAlbumsOf, fetchMediaTags, updateMediaDetails } from '@/lib/supabase-data';
+import {
+    ALBUM_KIND_LABELS, DOC_TYPE_LABELS, formatSize, isImage, mediaUrl,
+    type DocType, type MediaAlbum, type MediaDetails, type MediaItem, type MediaTag,
+} from '@/lib/media';
+
+// ═══ Viewer ═══
+
+/** PDFs use the browser's built-in viewer (page navigation, zoom, search); images show their face tags */
+function DocumentViewer({ item, tags }: { item: MediaItem; tags: MediaTag[] }) {
+    const url = mediaUrl(item);
+    if (!url) return <p className="text-sm text-muted-foreground py-24 text-center">Tệp này được tạo trước khi có lưu trữ, không có bản xem trước</p>;
+    if (isImage(item.mime_type)) {
+        return (
+            <div className="flex justify-center">
+                <TaggedImage src={url} alt={item.title || item.file_name} tags={tags} activeTagId={null} pending={null} />
+            </div>
+        );
+    }
+    return (
+        <object data={`${url}#view=FitH`} type="application/pdf" className="w-full h-[80vh] rounded-md bg-white">
+            <div className="py-24 text-center text-sm text-muted-foreground">
+                Trình duyệt không hiển thị được PDF.{' '}
+                <a href={url} target="_blank" rel="noreferrer" className="underline">Mở tệp trong thẻ mới</a>
+            </div>
+        </object>
+    );
+}
+
+// ═══ Metadata form ═══
+
+function DetailsForm({ item, onCancel, onSaved }: { item: MediaItem; onCancel: () => void; onSaved: () => void }) {
+    const [form, setForm] = useState<MediaDetails>({
+        title: item.title, description: item.description, doc_type: item.doc_type,
+        doc_date: item.doc_date, source: item.source, transcription: item.transcription,
+    });
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const set = (changes: Partial<MediaDetails>) => setForm({ ...form, ...changes });
+
+    const save = async () => {
+        setSaving(true);
+        setError('');
+        const trimmed = (v: string | null) => v?.trim() || null;
+        const { error } = await updateMediaDetails(item.id, {
+            title: trimmed(form.title),
+            description: trimmed(form.description),
+            doc_type: form.doc_type,
+            doc_date: trimmed(form.doc_date),
+            source: trimmed(form.source),
+            transcription: trimmed(form.transcription),
+        });
+        setSaving(false);
+        if (error) setError(error.message);
+        else onSaved();
+    };
+
+    return (
+        <div className="space-y-3">
+            <Input placeholder="Tiêu đề" value={form.title ?? ''} onChange={e => set({ title: e.target.value })} />
+            <select className="w-full rounded-md border px-3 py-2 text-sm bg-background" value={form.doc_type}
+                onChange={e => set({ doc_type: e.target.value as DocType })}>
+                {(Object.keys(DOC_TYPE_LABELS) as DocType[]).map(t => <option key={t} value={t}>{DOC_TYPE_LABELS[t]}</option>)}
+            </select>
+            <div className="grid grid-cols-2 gap-2">
+                <Input placeholder="Niên đại (vd. 1942, năm Giáp Thân)" value={form.doc_date ?? ''} onChange={e => set({ doc_date: e.target.value })} />
+                <Input placeholder="Nguồn (người giữ, nơi lưu)" value={form.source ?? ''} onChange={e => set({ source: e.target.value })} />
+            </div>
+            <Textarea placeholder="Mô tả" rows={2} value={form.description ?? ''} onChange={e => set({ description: e.target.value })} />
+            <Textarea placeholder="Bản chép lại / dịch nghĩa nội dung" rows={12} className="font-serif"
+                value={form.transcription ?? ''} onChange={e => set({ transcription: e.target.value })} />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <div className="flex gap-2">
+                <Button onClick={save} disabled={saving}>{saving ? 'Đang lưu...' : 'Lưu'}</Button>
+                <Button variant="ghost" onClick={onCancel}>Hủy</Button>
+            </div>
+        </div>
+    );
+}
+
+// ═══ Page ═══
+
+export default function MediaDetailPage() {
+    const params = useParams();
+    const router = useRouter();
+    const id = params.id as string;
+    const { user, isAdmin } = useAuth();
+    const [item, setItem] = useState<MediaItem | null>(null);
+    const [tags, setTags] = useState<MediaTag[]>([]);
+    const [albums, setAlbums] = useState<MediaAlbum[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [editing, setEditing] = useState(false);
+
+    const load = useCallback(() => Promise.all([
+        supabase.from('media').select('*, uploader:profiles(display_name, email)').eq('id', id).maybeSingle(),
+        fetchMediaTags(id),
+        fetchAlbumsOf(id),
+    ]).then(([{ data }, t, a]) => {
+        setItem(data as MediaItem | null);
+        setTags(t);
+        setAlbums(a);
+        setLoading(false);
+    }), [id]);
+
+    useEffect(() => { load(); }, [load]);
+
+    if (loading) {
+        return <div className="flex items-center justify-center h-96"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>;
+    }
+    if (!item) {
+        return (
+            <div className="text-center py-20">
+                <p className="text-muted-foreground">Không tìm thấy tư liệu</p>
+                <Button variant="outline" className="mt-4" onClick={() => router.push('/media')}>
+                    <ArrowLeft className="mr-2 h-4 w-4" />Về thư viện
+                </Button>
+            </div>
+        );
+    }
+
+    const url = mediaUrl(item);
+    const canEdit = !!user && (isAdmin || item.uploader_id === user.id);
+    const facts = [
+        ['Loại', DOC_TYPE_LABELS[item.doc_type]],
+        ['Niên đại', item.doc_date],
+        ['Nguồn', item.source],
+        ['Tệp', `${item.file_name} · ${formatSize(item.file_size)}`],
+        ['Người tải lên', `${item.uploader?.display_name || item.uploader?.email?.split('@')[0] || 'Ẩn danh'} · ${new Date(item.created_at).toLocaleDateString('vi-VN')}`],
+    ].filter(([, v]) => v);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="flex items-start gap-3">
+                    <Button variant="ghost" size="icon" onClick={() => router.back()}>
+                        <ArrowLeft className="h-4 w-4" />
+                    </Button>
+                    <div>
+                        <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                            {item.title || item.file_name}
+                            {item.state !== 'PUBLISHED' && <Badge variant="secondary">{item.state === 'PENDING' ? 'Chờ duyệt' : 'Bị từ chối'}</Badge>}
+                        </h1>
+                        {item.description && <p className="text-muted-foreground whitespace-pre-line">{item.description}</p>}
+                    </div>
+                </div>
+                <div className="flex gap-2">
+                    {canEdit && !editing && (
+                        <Button variant="outline" onClick={() => setEditing(true)}><Pencil className="mr-2 h-4 w-4" />Sửa thông tin</Button>
+                    )}
+                    {url && (
+                        <>
+                            <Button variant="outline" size="icon" title="Mở trong thẻ mới" asChild>
+                                <a href={url} target="_blank" rel="noreferrer"><ExternalLink className="h-4 w-4" /></a>
+                            </Button>
+                            <Button variant="outline" size="icon" title="Tải về" asChild>
+                                <a href={url} download={item.file_name}><Download className="h-4 w-4" /></a>
+                            </Button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+                <Card className="py-3">
+                    <CardContent className="px-3">
+                        <DocumentViewer item={item} tags={tags} />
+                    </CardContent>
+                </Card>
+
+                <div className="space-y-4">
+                    {editing ? (
+                        <Card>
+                            <CardHeader><CardTitle className="text-base">Thông tin tư liệu</CardTitle></CardHeader>
+                            <CardContent>
+                                <DetailsForm item={item} onCancel={() => setEditing(false)} onSaved={() => { setEditing(false); load(); }} />
+                            </CardContent>
+                        </Card>
+                    ) : (
+                        <>
+                            <Card>
+                                <CardContent className="pt-6">
+                                    <dl className="grid grid-cols-[7rem_1fr] gap-y-2 text-sm">
+                                        {facts.map(([label, value]) => (
+                                            <div key={label} className="contents">
+                                                <dt className="text-muted-foreground">{label}</dt>
+                                                <dd className="min-w-0 break-words">{value}</dd>
+                                            </div>
+                                        ))}
+                                    </dl>
+                                </CardContent>
+                            </Card>
+                            <Card>
+                                <CardHeader><CardTitle className="text-base">Bản chép lại</CardTitle></CardHeader>
+                                <CardContent>
+                                    {item.transcription ? (
+                                        <p className="text-sm whitespace-pre-wrap font-serif leading-relaxed max-h-[50vh] overflow-y-auto">{item.transcription}</p>
+                                    ) : (
+                                        <p className="text-sm text-muted-foreground">Chưa có bản chép lại nội dung{canEdit && ' — chọn "Sửa thông tin" để thêm'}</p>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        </>
+                    )}
+
+                    {tags.length > 0 && (
+                        <Card>
+                            <CardHeader><CardTitle className="text-base flex items-center gap-2"><Users className="h-4 w-4" />Người có liên quan</CardTitle></CardHeader>
+                            <CardContent className="flex flex-wrap gap-1.5">
+                                {tags.map(t => (
+                                    <Link key={t.id} href={`/people/${t.person_handle}`}>
+                                        <Badge variant="secondary" className="hover:bg-accent">{t.person?.display_name ?? t.person_handle}</Badge>
+                                    </Link>
+                                ))}
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    {albums.length > 0 && (
+                        <Card>
+                            <CardHeader><CardTitle className="text-base flex items-center gap-2"><FolderOpen className="h-4 w-4" />Thuộc album</CardTitle></CardHeader>
+                            <CardContent className="space-y-1">
+                                {albums.map(a => (
+                                    <Link key={a.id} href={`/media/albums/${a.id}`} className="flex items-center justify-between rounded-md px-2 py-1.5 text-sm hover:bg-accent">
+                                        <span className="truncate">{a.title}</span>
+                                        <span className="text-xs text-muted-foreground">{ALBUM_KIND_LABELS[a.kind]}</span>
+                                    </Link>
+                                ))}
+                            </CardContent>
+                        </Card>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
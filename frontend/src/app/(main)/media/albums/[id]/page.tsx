@@ -0,0 +1,264 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, CalendarDays, Check, ImagePlus, Loader2, Pencil, Search, Trash2, Upload, X, BookImage } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/components/auth-provider';
+import { MediaLightbox } from '@/components/media-lightbox';
+import { AlbumDialog, MediaThumb } from '@/components/media-albums';
+import { supabase } from '@/lib/supabase';
+import { addToAlbum, deleteAlbum, fetchAlbum, fetchMediaSettings, fetchMediaTagNames, removeFromAlbum, saveAlbum } from '@/lib/supabase-data';
+import {
+    ALBUM_KIND_LABELS, MEDIA_ACCEPT, checkMediaFile, matchesMedia, uploadMedia,
+    type MediaAlbum, type MediaItem,
+} from '@/lib/media';
+
+// ═══ Picker ═══
+
+/** Choose library items to add; items already in the album are hidden */
+function AddFromLibraryDialog({ exclude, onClose, onAdd }: { exclude: Set<string>; onClose: () => void; onAdd: (ids: string[]) => Promise<void> }) {
+    const [library, setLibrary] = useState<MediaItem[] | null>(null);
+    const [tagNames, setTagNames] = useState<Map<string, string[]>>(new Map());
+    const [query, setQuery] = useState('');
+    const [picked, setPicked] = useState<Set<string>>(new Set());
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        supabase.from('media').select('*').neq('state', 'REJECTED').order('created_at', { ascending: false })
+            .then(({ data }) => setLibrary((data || []) as MediaItem[]));
+        fetchMediaTagNames().then(setTagNames);
+    }, []);
+
+    const candidates = (library ?? []).filter(m => !exclude.has(m.id) && matchesMedia(m, query, tagNames.get(m.id)));
+    const toggle = (id: string) => {
+        const next = new Set(picked);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setPicked(next);
+    };
+
+    return (
+        <Dialog open onOpenChange={open => { if (!open) onClose(); }}>
+            <DialogContent className="sm:max-w-3xl">
+                <DialogHeader><DialogTitle>Thêm từ thư viện</DialogTitle></DialogHeader>
+                <div className="relative">
+                    <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                    <Input className="pl-8" placeholder="Tìm theo tên, nội dung hoặc người có trong ảnh..." value={query} onChange={e => setQuery(e.target.value)} />
+                </div>
+                {!library ? (
+                    <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin" /></div>
+                ) : candidates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-8 text-center">Không có tư liệu nào để thêm</p>
+                ) : (
+                    <div className="grid gap-2 grid-cols-3 sm:grid-cols-5 max-h-[55vh] overflow-y-auto">
+                        {candidates.map(m => (
+                            <button key={m.id} type="button" onClick={() => toggle(m.id)} title={m.title || m.file_name}
+                                className={`relative aspect-square overflow-hidden rounded-md bg-muted ring-offset-2 ${picked.has(m.id) ? 'ring-2 ring-primary' : ''}`}>
+                                <MediaThumb item={m} />
+                                {picked.has(m.id) && (
+                                    <span className="absolute right-1 top-1 rounded-full bg-primary p-0.5 text-primary-foreground"><Check className="h-3 w-3" /></span>
+                                )}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <Button disabled={picked.size === 0 || saving} onClick={async () => {
+                    setSaving(true);
+                    await onAdd([...picked]);
+                    setSaving(false);
+                }}>
+                    {saving ? 'Đang thêm...' : `Thêm ${picked.size || ''} tư liệu`}
+                </Button>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+// ═══ Page ═══
+
+export default function AlbumPage() {
+    const params = useParams();
+    const router = useRouter();
+    const id = params.id as string;
+    const { user, isAdmin } = useAuth();
+    const [data, setData] = useState<{ album: MediaAlbum; items: MediaItem[] } | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [viewing, setViewing] = useState<number | null>(null);
+    const [editing, setEditing] = useState(false);
+    const [picking, setPicking] = useState(false);
+    const [uploading, setUploading] = useState<string | null>(null);
+    const [errors, setErrors] = useState<string[]>([]);
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    const load = useCallback(() => fetchAlbum(id).then(result => {
+        setData(result);
+        setLoading(false);
+    }), [id]);
+
+    useEffect(() => { load(); }, [load]);
+
+    if (loading) {
+        return <div className="flex items-center justify-center h-96"><Loader2 className="h-8 w-8 animate-spin text-muted-foreground" /></div>;
+    }
+    if (!data) {
+        return (
+            <div className="text-center py-20">
+                <p className="text-muted-foreground">Không tìm thấy album</p>
+                <Button variant="outline" className="mt-4" onClick={() => router.push('/media')}>
+                    <ArrowLeft className="mr-2 h-4 w-4" />Về thư viện
+                </Button>
+            </div>
+        );
+    }
+
+    const { album, items } = data;
+    const canManage = !!user && (isAdmin || album.created_by === user.id);
+
+    const handleAdd = async (ids: string[]) => {
+        if (!user) return;
+        const { error } = await addToAlbum(album.id, ids, user.id);
+        setErrors(error ? [error.message] : []);
+        setPicking(false);
+        await load();
+    };
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        if (files.length === 0 || !user) return;
+        const settings = await fetchMediaSettings();
+        const failed: string[] = [];
+        const added: string[] = [];
+        try {
+            for (const file of files) {
+                const problem = checkMediaFile(file, settings);
+                if (problem) {
+                    failed.push(`${file.name}: ${problem}`);
+                    continue;
+                }
+                setUploading(file.name);
+                // Scans uploaded into a document collection are documents, not photos
+                const { item, error } = await uploadMedia(file, { docType: album.kind === 'COLLECTION' ? 'DOCUMENT' : undefined });
+                if (item) added.push(item.id);
+                else failed.push(`${file.name}: ${error}`);
+            }
+            if (added.length > 0) {
+                const { error } = await addToAlbum(album.id, added, user.id);
+                if (error) failed.push(error.message);
+            }
+            await load();
+        } finally {
+            setUploading(null);
+            setErrors(failed);
+            if (fileRef.current) fileRef.current.value = '';
+        }
+    };
+
+    const handleRemove = async (item: MediaItem) => {
+        const { error } = await removeFromAlbum(album.id, item.id);
+        setErrors(error ? [error.message] : []);
+        await load();
+    };
+
+    const handleCover = async (item: MediaItem) => {
+        if (!user) return;
+        const { error } = await saveAlbum({
+            id: album.id, title: album.title, description: album.description, kind: album.kind, event_id: album.event_id, cover_media_id: item.id,
+        }, user.id);
+        setErrors(error ? [error.message] : []);
+        await load();
+    };
+
+    const handleDelete = async () => {
+        if (!confirm(`Xóa album "${album.title}"? Các tư liệu vẫn còn trong thư viện.`)) return;
+        const { error } = await deleteAlbum(album.id);
+        if (error) setErrors([error.message]);
+        else router.push('/media');
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <div className="flex items-start gap-3">
+                    <Button variant="ghost" size="icon" onClick={() => router.push('/media')}>
+                        <ArrowLeft className="h-4 w-4" />
+                    </Button>
+                    <div>
+                        <h1 className="text-2xl font-bold tracking-tight">{album.title}</h1>
+                        <p className="text-muted-foreground text-sm flex flex-wrap items-center gap-x-3">
+                            <span>{ALBUM_KIND_LABELS[album.kind]} · {items.length} tư liệu</span>
+                            {album.event && (
+                                <Link href={`/events/${album.event.id}`} className="flex items-center gap-1 hover:underline">
+                                    <CalendarDays className="h-3.5 w-3.5" />{album.event.title}
+                                </Link>
+                            )}
+                        </p>
+                        {album.description && <p className="text-sm mt-2 max-w-2xl whitespace-pre-line">{album.description}</p>}
+                    </div>
+                </div>
+                {canManage && (
+                    <div className="flex flex-wrap gap-2">
+                        <input ref={fileRef} type="file" multiple accept={MEDIA_ACCEPT} className="hidden" onChange={handleUpload} />
+                        <Button variant="outline" onClick={() => fileRef.current?.click()} disabled={!!uploading}>
+                            <Upload className="mr-2 h-4 w-4" />{uploading ? `Đang tải ${uploading}...` : 'Tải lên'}
+                        </Button>
+                        <Button variant="outline" onClick={() => setPicking(true)}>
+                            <ImagePlus className="mr-2 h-4 w-4" />Thêm từ thư viện
+                        </Button>
+                        <Button variant="outline" size="icon" title="Sửa album" onClick={() => setEditing(true)}>
+                            <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="icon" title="Xóa album" onClick={handleDelete}>
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    </div>
+                )}
+            </div>
+
+            {errors.length > 0 && (
+                <div className="rounded-lg p-3 text-sm bg-red-50 text-red-700 space-y-1">
+                    {errors.map(err => <p key={err}>{err}</p>)}
+                </div>
+            )}
+
+            {items.length === 0 ? (
+                <Card><CardContent className="flex flex-col items-center justify-center py-12">
+                    <BookImage className="h-12 w-12 text-muted-foreground mb-4" />
+                    <p className="text-muted-foreground">Album chưa có tư liệu nào</p>
+                </CardContent></Card>
+            ) : (
+                <div className="grid gap-3 grid-cols-2 md:grid-cols-3 lg:grid-cols-5">
+                    {items.map((item, i) => (
+                        <div key={item.id} className="group relative">
+                            <button type="button" className="block w-full aspect-square overflow-hidden rounded-md bg-muted" onClick={() => setViewing(i)}>
+                                <MediaThumb item={item} />
+                            </button>
+                            {album.cover_media_id === item.id && <Badge className="absolute left-1.5 top-1.5 text-[10px]">Ảnh bìa</Badge>}
+                            {item.state === 'PENDING' && <Badge variant="secondary" className="absolute left-1.5 bottom-7 text-[10px]">Chờ duyệt</Badge>}
+                            <p className="mt-1 text-xs truncate">{item.title || item.file_name}</p>
+                            {canManage && (
+                                <div className="absolute right-1.5 top-1.5 hidden gap-1 group-hover:flex">
+                                    {album.cover_media_id !== item.id && (
+                                        <Button size="sm" variant="secondary" className="h-7 px-2 text-xs" onClick={() => handleCover(item)}>Làm bìa</Button>
+                                    )}
+                                    <Button size="icon" variant="secondary" className="h-7 w-7" title="Bỏ khỏi album" onClick={() => handleRemove(item)}>
+                                        <X className="h-3.5 w-3.5" />
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <MediaLightbox items={items} index={viewing} onIndexChange={setViewing} />
+            {picking && <AddFromLibraryDialog exclude={new Set(items.map(m => m.id))} onClose={() => setPicking(false)} onAdd={handleAdd} />}
+            {editing && user && <AlbumDialog open onOpenChange={setEditing} userId={user.id} album={album} onSaved={() => load()} />}
+        </div>
+    );
+}
@@ -1,28 +1,22 @@
 'use client';
 
 import { useEffect, useState, useRef, useCallback } from 'react';
-import { Image as ImageIcon, Upload, Search, Check, X, Loader2 } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { Image as ImageIcon, Upload, Check, X, Loader2, Settings, Trash2, Search, FolderPlus } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/components/auth-provider';
+import { MediaLightbox } from '@/components/media-lightbox';
+import { AlbumCard, AlbumDialog, MediaThumb } from '@/components/media-albums';
 import { supabase } from '@/lib/supabase';
-
-interface MediaItem {
-    id: string;
-    file_name: string;
-    mime_type: string | null;
-    file_size: number | null;
-    title: string | null;
-    description: string | null;
-    state: string;
-    uploader_id: string | null;
-    created_at: string;
-    uploader?: { display_name: string | null; email: string };
-}
+import { fetchAlbums, fetchMediaSettings, fetchMediaTagNames, saveMediaSettings } from '@/lib/supabase-data';
+import {
+    DEFAULT_MEDIA_SETTINGS, DOC_TYPE_LABELS, MEDIA_ACCEPT, checkMediaFile, deleteMedia, formatSize, matchesMedia, uploadMedia,
+    type DocType, type MediaAlbum, type MediaItem, type MediaSettings,
+} from '@/lib/media';
 
 const STATE_BADGE: Record<string, { variant: 'default' | 'secondary' | 'destructive'; label: string }> = {
     PENDING: { variant: 'secondary', label: 'Chờ duyệt' },
@@ -30,13 +24,64 @@ const STATE_BADGE: Record<string, { variant: 'default' | 'secondary' | 'destruct
     REJECTED: { variant: 'destructive', label: 'Bị từ chối' },
 };
 
+function UploadSettingsCard({ settings, userId, onSaved }: { settings: MediaSettings; userId: string; onSaved: (s: MediaSettings) => void }) {
+    const [maxSize, setMaxSize] = useState(settings.max_size_mb);
+    const [stripLocation, setStripLocation] = useState(settings.strip_location);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const save = async () => {
+        setSaving(true);
+        setError('');
+        const next = { max_size_mb: maxSize, strip_location: stripLocation };
+        const { error } = await saveMediaSettings(next, userId);
+        setSaving(false);
+        if (error) setError(error.message);
+        else onSaved(next);
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base">Cài đặt tải lên</CardTitle>
+                <CardDescription>Áp dụng cho các tệp tải lên từ nay về sau</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                <label className="flex items-center gap-2 text-sm">
+                    Dung lượng tối đa
+                    <Input type="number" min={1} max={200} className="w-24" value={maxSize}
+                        onChange={e => setMaxSize(Math.min(200, Math.max(1, parseInt(e.target.value, 10) || 1)))} />
+                    MB
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={stripLocation} onChange={e => setStripLocation(e.target.checked)} />
+                    Xóa vị trí GPS (EXIF) khỏi ảnh khi tải lên
+                </label>
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                <Button size="sm" onClick={save} disabled={saving}>{saving ? 'Đang lưu...' : 'Lưu cài đặt'}</Button>
+            </CardContent>
+        </Card>
+    );
+}
+
 export default function MediaLibraryPage() {
     const { user, isAdmin, isLoggedIn } = useAuth();
     const [items, setItems] = useState<MediaItem[]>([]);
     const [loading, setLoading] = useState(true);
     const [tab, setTab] = useState('all');
     const fileRef = useRef<HTMLInputElement>(null);
-    const [uploading, setUploading] = useState(false);
+    const [uploading, setUploading] = useState<string | null>(null);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [settings, setSettings] = useState<MediaSettings>(DEFAULT_MEDIA_SETTINGS);
+    const [showSettings, setShowSettings] = useState(false);
+    const [viewing, setViewing] = useState<number | null>(null);
+    const [view, setView] = useState<'items' | 'albums'>('items');
+    const [query, setQuery] = useState('');
+    const [docType, setDocType] = useState<DocType | 'all'>('all');
+    const [tagNames, setTagNames] = useState<Map<string, string[]>>(new Map());
+    const [albums, setAlbums] = useState<MediaAlbum[]>([]);
+    const [creatingAlbum, setCreatingAlbum] = useState(false);
+    const router = useRouter();
 
     const fetchMedia = useCallback(async (state?: string) => {
         setLoading(true);
@@ -48,22 +93,31 @@ export default function MediaLibraryPage() {
     }, []);
 
     useEffect(() => { fetchMedia(tab === 'all' ? undefined : tab); }, [tab, fetchMedia]);
+    useEffect(() => { fetchMediaSettings().then(setSettings); }, []);
+    useEffect(() => { fetchMediaTagNames().then(setTagNames); }, []);
+    useEffect(() => { fetchAlbums().then(setAlbums); }, []);
+
+    const shown = items.filter(i => (docType === 'all' || i.doc_type === docType) && matchesMedia(i, query, tagNames.get(i.id)));
 
     const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (!file || !user) return;
-        setUploading(true);
+        const files = Array.from(e.target.files ?? []);
+        if (files.length === 0 || !user) return;
+        const failed: string[] = [];
         try {
-            const { error } = await supabase.from('media').insert({
-                file_name: file.name,
-                mime_type: file.type,
-                file_size: file.size,
-                state: 'PENDING',
-                uploader_id: user.id,
-            });
-            if (!error) fetchMedia(tab === 'all' ? undefined : tab);
+            for (const file of files) {
+                const problem = checkMediaFile(file, settings);
+                if (problem) {
+                    failed.push(`${file.name}: ${problem}`);
+                    continue;
+                }
+                setUploading(file.name);
+                const { error } = await uploadMedia(file);
+                if (error) failed.push(`${file.name}: ${error}`);
+            }
+            fetchMedia(tab === 'all' ? undefined : tab);
         } finally {
-            setUploading(false);
+            setUploading(null);
+            setErrors(failed);
             if (fileRef.current) fileRef.current.value = '';
         }
     };
@@ -74,11 +128,11 @@ export default function MediaLibraryPage() {
         fetchMedia(tab === 'all' ? undefined : tab);
     };
 
-    const formatSize = (bytes: number | null) => {
-        if (!bytes) return '—';
-        if (bytes < 1024) return `${bytes} B`;
-        if (bytes < 1048576) return `${(bytes / 1024).toFixed(1)} KB`;
-        return `${(bytes / 1048576).toFixed(1)} MB`;
+    const handleDelete = async (item: MediaItem) => {
+        if (!confirm(`Xóa "${item.title || item.file_name}"? Tệp sẽ bị xóa khỏi kho lưu trữ.`)) return;
+        const { error } = await deleteMedia(item.id);
+        setErrors(error ? [error] : []);
+        fetchMedia(tab === 'all' ? undefined : tab);
     };
 
     return (
@@ -88,40 +142,108 @@ export default function MediaLibraryPage() {
                     <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2"><ImageIcon className="h-6 w-6" />Thư viện</h1>
                     <p className="text-muted-foreground">Quản lý hình ảnh và tài liệu</p>
                 </div>
-                {isLoggedIn && (
-                    <div>
-                        <input ref={fileRef} type="file" className="hidden" onChange={handleUpload} />
-                        <Button onClick={() => fileRef.current?.click()} disabled={uploading}>
-                            <Upload className="mr-2 h-4 w-4" />{uploading ? 'Đang tải...' : 'Tải lên'}
+                <div className="flex gap-2">
+                    {isAdmin && (
+                        <Button variant="outline" size="icon" title="Cài đặt tải lên" onClick={() => setShowSettings(!showSettings)}>
+                            <Settings className="h-4 w-4" />
                         </Button>
-                    </div>
+                    )}
+                    {isLoggedIn && (
+                        <>
+                            <input ref={fileRef} type="file" multiple accept={MEDIA_ACCEPT} className="hidden" onChange={handleUpload} />
+                            <Button onClick={() => fileRef.current?.click()} disabled={!!uploading}>
+                                <Upload className="mr-2 h-4 w-4" />{uploading ? `Đang tải ${uploading}...` : 'Tải lên'}
+                            </Button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            {isLoggedIn && (
+                <p className="text-xs text-muted-foreground -mt-4">
+                    Ảnh JPEG, PNG, WebP, GIF hoặc PDF, tối đa {settings.max_size_mb} MB
+                    {settings.strip_location && ' · vị trí GPS trong ảnh sẽ được xóa'}
+                </p>
+            )}
+
+            {isAdmin && showSettings && user && (
+                <UploadSettingsCard settings={settings} userId={user.id} onSaved={s => { setSettings(s); setShowSettings(false); }} />
+            )}
+
+            {errors.length > 0 && (
+                <div className="rounded-lg p-3 text-sm bg-red-50 text-red-700 space-y-1">
+                    {errors.map(err => <p key={err}>{err}</p>)}
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+                <div className="flex rounded-md border p-0.5">
+                    <Button size="sm" variant={view === 'items' ? 'secondary' : 'ghost'} onClick={() => setView('items')}>Tư liệu</Button>
+                    <Button size="sm" variant={view === 'albums' ? 'secondary' : 'ghost'} onClick={() => setView('albums')}>
+                        Album & bộ sưu tập{albums.length > 0 && ` (${albums.length})`}
+                    </Button>
+                </div>
+                {view === 'items' && (
+                    <Tabs value={tab} onValueChange={setTab}>
+                        <TabsList>
+                            <TabsTrigger value="all">Tất cả</TabsTrigger>
+                            <TabsTrigger value="PENDING">Chờ duyệt</TabsTrigger>
+                            <TabsTrigger value="PUBLISHED">Đã duyệt</TabsTrigger>
+                        </TabsList>
+                    </Tabs>
+                )}
+                {view === 'albums' && isLoggedIn && user && (
+                    <Button size="sm" variant="outline" className="ml-auto" onClick={() => setCreatingAlbum(true)}>
+                        <FolderPlus className="mr-2 h-4 w-4" />Tạo album
+                    </Button>
                 )}
             </div>
 
-            <Tabs value={tab} onValueChange={setTab}>
-                <TabsList>
-                    <TabsTrigger value="all">Tất cả</TabsTrigger>
-                    <TabsTrigger value="PENDING">Chờ duyệt</TabsTrigger>
-                    <TabsTrigger value="PUBLISHED">Đã duyệt</TabsTrigger>
-                </TabsList>
-            </Tabs>
+            {view === 'items' && (
+                <div className="flex flex-wrap gap-2">
+                    <div className="relative flex-1 min-w-56">
+                        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                        <Input className="pl-8" placeholder="Tìm theo tên, nội dung, nguồn hoặc người có trong ảnh..."
+                            value={query} onChange={e => setQuery(e.target.value)} />
+                    </div>
+                    <select className="rounded-md border px-3 py-2 text-sm bg-background" value={docType}
+                        onChange={e => setDocType(e.target.value as DocType | 'all')}>
+                        <option value="all">Mọi loại tư liệu</option>
+                        {(Object.keys(DOC_TYPE_LABELS) as DocType[]).map(t => <option key={t} value={t}>{DOC_TYPE_LABELS[t]}</option>)}
+                    </select>
+                </div>
+            )}
 
-            {loading ? (
+            {view === 'albums' ? (
+                albums.length === 0 ? (
+                    <Card><CardContent className="flex flex-col items-center justify-center py-12">
+                        <ImageIcon className="h-12 w-12 text-muted-foreground mb-4" />
+                        <p className="text-muted-foreground">Chưa có album nào</p>
+                    </CardContent></Card>
+                ) : (
+                    <div className="grid gap-3 grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
+                        {albums.map(a => <AlbumCard key={a.id} album={a} />)}
+                    </div>
+                )
+            ) : loading ? (
                 <div className="flex items-center justify-center h-48"><Loader2 className="h-8 w-8 animate-spin" /></div>
-            ) : items.length === 0 ? (
+            ) : shown.length === 0 ? (
                 <Card><CardContent className="flex flex-col items-center justify-center py-12">
                     <ImageIcon className="h-12 w-12 text-muted-foreground mb-4" />
-                    <p className="text-muted-foreground">Chưa có tài liệu nào</p>
+                    <p className="text-muted-foreground">{items.length === 0 ? 'Chưa có tài liệu nào' : 'Không tìm thấy tư liệu phù hợp'}</p>
                 </CardContent></Card>
             ) : (
-                <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
-                    {items.map(item => (
-                        <Card key={item.id}>
-                            <CardContent className="p-4 space-y-2">
-                                <div className="flex items-start justify-between">
+                <div className="grid gap-3 grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
+                    {shown.map((item, i) => (
+                        <Card key={item.id} className="overflow-hidden py-0 gap-0">
+                            <button type="button" className="block w-full aspect-square bg-muted" onClick={() => setViewing(i)}>
+                                <MediaThumb item={item} />
+                            </button>
+                            <CardContent className="p-3 space-y-2">
+                                <div className="flex items-start justify-between gap-2">
                                     <div className="min-w-0">
                                         <p className="font-medium text-sm truncate">{item.title || item.file_name}</p>
-                                        <p className="text-xs text-muted-foreground">{formatSize(item.file_size)} · {item.mime_type}</p>
+                                        <p className="text-xs text-muted-foreground">{DOC_TYPE_LABELS[item.doc_type]} · {formatSize(item.file_size)}</p>
                                     </div>
                                     <Badge variant={STATE_BADGE[item.state]?.variant || 'secondary'}>
                                         {STATE_BADGE[item.state]?.label || item.state}
@@ -130,21 +252,34 @@ export default function MediaLibraryPage() {
                                 <p className="text-xs text-muted-foreground">
                                     {item.uploader?.display_name || item.uploader?.email?.split('@')[0] || 'Ẩn danh'} · {new Date(item.created_at).toLocaleDateString('vi-VN')}
                                 </p>
-                                {isAdmin && item.state === 'PENDING' && (
-                                    <div className="flex gap-2">
-                                        <Button size="sm" variant="outline" onClick={() => handleAction(item.id, 'approve')}>
-                                            <Check className="h-3 w-3 mr-1" />Duyệt
-                                        </Button>
-                                        <Button size="sm" variant="destructive" onClick={() => handleAction(item.id, 'reject')}>
-                                            <X className="h-3 w-3 mr-1" />Từ chối
+                                <div className="flex gap-2">
+                                    {isAdmin && item.state === 'PENDING' && (
+                                        <>
+                                            <Button size="sm" variant="outline" onClick={() => handleAction(item.id, 'approve')}>
+                                                <Check className="h-3 w-3 mr-1" />Duyệt
+                                            </Button>
+                                            <Button size="sm" variant="destructive" onClick={() => handleAction(item.id, 'reject')}>
+                                                <X className="h-3 w-3 mr-1" />Từ chối
+                                            </Button>
+                                        </>
+                                    )}
+                                    {(isAdmin || item.uploader_id === user?.id) && (
+                                        <Button size="sm" variant="ghost" className="ml-auto" title="Xóa" onClick={() => handleDelete(item)}>
+                                            <Trash2 className="h-3 w-3" />
                                         </Button>
-                                    </div>
-                                )}
+                                    )}
+                                </div>
                             </CardContent>
                         </Card>
                     ))}
                 </div>
             )}
+
+            <MediaLightbox items={shown} index={viewing} onIndexChange={setViewing}
+                onTagsChanged={() => fetchMediaTagNames().then(setTagNames)} />
+            {creatingAlbum && user && (
+                <AlbumDialog open onOpenChange={setCreatingAlbum} userId={user.id} onSaved={id => router.push(`/media/albums/${id}`)} />
+            )}
         </div>
     );
 }
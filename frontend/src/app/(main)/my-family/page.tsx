@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { HeartHandshake, Users, GitBranch, User, Loader2, UserCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/components/auth-provider';
+import { relativesOf, type Kinship } from '@/lib/kinship';
+import { fetchTreeData, claimPerson, type TreeNode, type TreeFamily } from '@/lib/supabase-data';
+
+const STEP_OPTIONS = [2, 3, 4, 5];
+
+const GROUPS: { title: string; kinds: Kinship['kind'][] }[] = [
+    { title: 'Huyết thống', kinds: ['blood'] },
+    { title: 'Vợ/chồng, bên vợ/chồng và thông gia', kinds: ['spouse', 'in-law'] },
+    { title: 'Họ hàng khác', kinds: ['distant'] },
+];
+
+function lifespan(p: TreeNode): string {
+    if (!p.birthYear && !p.deathYear) return '';
+    return `${p.birthYear ?? '?'} – ${p.isLiving ? 'nay' : p.deathYear ?? '?'}`;
+}
+
+export default function MyFamilyPage() {
+    const { isLoggedIn, profile, loading: authLoading, refreshProfile } = useAuth();
+    const [tree, setTree] = useState<{ people: TreeNode[]; families: TreeFamily[] } | null>(null);
+    const [maxSteps, setMaxSteps] = useState(3);
+    const [query, setQuery] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (isLoggedIn) fetchTreeData().then(setTree);
+    }, [isLoggedIn]);
+
+    const myHandle = profile?.person_handle ?? null;
+    const me = tree?.people.find(p => p.handle === myHandle) ?? null;
+    const relatives = useMemo(
+        () => (tree && myHandle ? relativesOf(myHandle, tree, maxSteps) : [])
+            .sort((a, b) => a.kinship.path.length - b.kinship.path.length),
+        [tree, myHandle, maxSteps],
+    );
+    const names = useMemo(() => new Map(tree?.people.map(p => [p.handle, p.displayName])), [tree]);
+
+    const submitClaim = async (handle: string | null) => {
+        setSaving(true);
+        setError('');
+        const { error } = await claimPerson(handle);
+        if (error) setError(error.message);
+        await refreshProfile();
+        setSaving(false);
+    };
+
+    if (authLoading) return <div className="flex items-center justify-center h-96"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" /></div>;
+
+    const header = (
+        <div>
+            <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
+                <HeartHandshake className="h-6 w-6" />
+                Gia đình tôi
+            </h1>
+            <p className="text-muted-foreground">Họ hàng quanh bạn trong gia phả, kèm cách xưng hô</p>
+        </div>
+    );
+
+    if (!isLoggedIn || !profile) {
+        return (
+            <div className="space-y-6">
+                {header}
+                <p className="text-sm text-muted-foreground">
+                    <a href="/login" className="text-primary underline">Đăng nhập</a> để xem gia đình của bạn.
+                </p>
+            </div>
+        );
+    }
+
+    // Not linked yet: pick yourself, then wait for an admin
+    if (!myHandle) {
+        const q = query.trim().toLowerCase();
+        const matches = q && tree ? tree.people.filter(p => p.displayName.toLowerCase().includes(q)).slice(0, 20) : [];
+        return (
+            <div className="space-y-6">
+                {header}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="text-base">Bạn là ai trong gia phả?</CardTitle>
+                        <CardDescription>Chọn hồ sơ của bạn. Admin xác nhận xong thì trang này và các trang thành viên sẽ hiển thị quan hệ với bạn.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {error && <p className="text-sm text-destructive">{error}</p>}
+                        {profile.claimed_handle ? (
+                            <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border p-3 text-sm">
+                                <span>
+                                    Đã gửi yêu cầu nhận hồ sơ{' '}
+                                    <Link href={`/people/${profile.claimed_handle}`} className="font-medium hover:underline">
+                                        {names.get(profile.claimed_handle) ?? profile.claimed_handle}
+                                    </Link>{' '}
+                                    — đang chờ admin xác nhận
+                                </span>
+                                <Button size="sm" variant="ghost" onClick={() => submitClaim(null)} disabled={saving}>Hủy yêu cầu</Button>
+                            </div>
+                        ) : (
+                            <>
+                                <Input placeholder="Tìm tên của bạn..." value={query} onChange={e => setQuery(e.target.value)} />
+                                {!tree && q && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                                {matches.length > 0 && (
+                                    <div className="rounded-lg border divide-y">
+                                        {matches.map(p => (
+                                            <div key={p.handle} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                                                <span>
+                                                    <Link href={`/people/${p.handle}`} className="font-medium hover:underline">{p.displayName}</Link>
+                                                    <span className="text-xs text-muted-foreground"> · {lifespan(p) || p.handle}</span>
+                                                </span>
+                                                <Button size="sm" variant="outline" onClick={() => submitClaim(p.handle)} disabled={saving}>
+                                                    <UserCheck className="h-3.5 w-3.5 mr-1" />Đây là tôi
+                                                </Button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                            </>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                {header}
+                <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" asChild>
+                        <Link href={`/people/${myHandle}`}><User className="h-4 w-4 mr-1" />Hồ sơ của tôi</Link>
+                    </Button>
+                    <Button variant="outline" size="sm" asChild>
+                        <Link href={`/tree?view=ancestor&person=${myHandle}`}><Users className="h-4 w-4 mr-1" />Tổ tiên trên cây</Link>
+                    </Button>
+                    <Button variant="outline" size="sm" asChild>
+                        <Link href={`/tree?view=descendant&person=${myHandle}`}><GitBranch className="h-4 w-4 mr-1" />Con cháu trên cây</Link>
+                    </Button>
+                </div>
+            </div>
+
+            {!tree ? (
+                <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+            ) : (
+                <>
+                    <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm">
+                            Bạn là <span className="font-semibold">{me?.displayName ?? myHandle}</span>
+                            <span className="text-muted-foreground"> · {relatives.length} người trong phạm vi {maxSteps} bước</span>
+                        </p>
+                        <select className="rounded-md border px-2 py-1.5 text-sm bg-background" value={maxSteps}
+                            onChange={e => setMaxSteps(parseInt(e.target.value, 10))}>
+                            {STEP_OPTIONS.map(n => <option key={n} value={n}>{n} bước</option>)}
+                        </select>
+                    </div>
+
+                    {GROUPS.map(group => {
+                        const rows = relatives.filter(r => group.kinds.includes(r.kinship.kind));
+                        if (rows.length === 0) return null;
+                        return (
+                            <Card key={group.title}>
+                                <CardHeader>
+                                    <CardTitle className="text-base">{group.title} ({rows.length})</CardTitle>
+                                </CardHeader>
+                                <CardContent>
+                                    <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                                        {rows.map(({ person, kinship }) => (
+                                            <Link key={person.handle} href={`/people/${person.handle}`}
+                                                className="rounded-lg border px-3 py-2 hover:bg-accent transition-colors">
+                                                <div className="flex items-center justify-between gap-2">
+                                                    <span className="font-medium text-sm truncate">{person.displayName}</span>
+                                                    <Badge variant="secondary" className="shrink-0">{kinship.term}</Badge>
+                                                </div>
+                                                <p className="text-xs text-muted-foreground">
+                                                    {kinship.kind !== 'distant' && `gọi bạn là ${kinship.reciprocal}`}
+                                                    {lifespan(person) && ` · ${lifespan(person)}`}
+                                                </p>
+                                            </Link>
+                                        ))}
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        );
+                    })}
+                </>
+            )}
+        </div>
+    );
+}
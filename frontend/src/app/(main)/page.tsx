@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { TreePine, Users, Image, Activity, Newspaper, CalendarDays } from 'lucide-react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
+import { UpcomingMemorials } from '@/components/upcoming-memorials';
 import { supabase } from '@/lib/supabase';
 
 interface Stats {
@@ -69,6 +70,8 @@ export default function HomePage() {
                 ))}
             </div>
 
+            <UpcomingMemorials days={30} limit={5} />
+
             <Card>
                 <CardHeader>
                     <CardTitle>Bắt đầu nhanh</CardTitle>
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeft, User, Heart, Image, FileText, History, Lock, Phone, MapPin, Briefcase, GraduationCap, Tag, MessageCircle } from 'lucide-react';
@@ -10,8 +10,13 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
 import { zodiacYear } from '@/lib/genealogy-types';
+import { parseLunarDate, formatLunarDate } from '@/lib/lunar-calendar';
 import type { PersonDetail } from '@/lib/genealogy-types';
 import { CommentSection } from '@/components/comment-section';
+import { MyRelation } from '@/components/my-relation';
+import { MediaLightbox } from '@/components/media-lightbox';
+import { fetchPersonMedia } from '@/lib/supabase-data';
+import { avatarStyle, isImage, thumbnailUrl, type MediaItem, type MediaTag } from '@/lib/media';
 
 
 export default function PersonProfilePage() {
@@ -20,6 +25,11 @@ export default function PersonProfilePage() {
     const handle = params.handle as string;
     const [person, setPerson] = useState<PersonDetail | null>(null);
     const [loading, setLoading] = useState(true);
+    const [media, setMedia] = useState<{ tag: MediaTag; media: MediaItem }[]>([]);
+    const [viewing, setViewing] = useState<number | null>(null);
+
+    const loadMedia = useCallback(() => fetchPersonMedia(handle).then(setMedia), [handle]);
+    useEffect(() => { loadMedia(); }, [loadMedia]);
 
     useEffect(() => {
         const fetchPerson = async () => {
@@ -38,6 +48,10 @@ export default function PersonProfilePage() {
                         gender: row.gender as number,
                         birthYear: row.birth_year as number | undefined,
                         deathYear: row.death_year as number | undefined,
+                        birthDate: (row.birth_date as string | null) ?? undefined,
+                        birthDateLunar: (row.birth_date_lunar as string | null) ?? undefined,
+                        deathDate: (row.death_date as string | null) ?? undefined,
+                        deathDateLunar: (row.death_date_lunar as string | null) ?? undefined,
                         generation: row.generation as number,
                         isLiving: row.is_living as boolean,
                         isPrivacyFiltered: row.is_privacy_filtered as boolean,
@@ -80,6 +94,13 @@ export default function PersonProfilePage() {
     }
 
     const genderLabel = person.gender === 1 ? 'Nam' : person.gender === 2 ? 'Nữ' : 'Không rõ';
+    const photos = media.filter(m => isImage(m.media.mime_type));
+    const documents = media.filter(m => !isImage(m.media.mime_type));
+    const gallery = [...photos, ...documents].map(m => m.media);
+    const primary = photos.find(m => m.tag.is_primary && m.media.state === 'PUBLISHED');
+    const primaryUrl = primary && thumbnailUrl(primary.media);
+    const birthLunar = parseLunarDate(person.birthDateLunar);
+    const deathLunar = parseLunarDate(person.deathDateLunar);
 
     return (
         <div className="space-y-6">
@@ -89,6 +110,10 @@ export default function PersonProfilePage() {
                     <Button variant="ghost" size="icon" onClick={() => router.back()}>
                         <ArrowLeft className="h-4 w-4" />
                     </Button>
+                    {primary && primaryUrl && (
+                        <div className="h-14 w-14 rounded-full ring-1 ring-black/10 flex-shrink-0"
+                            style={avatarStyle({ url: primaryUrl, region: primary.tag.region, width: primary.media.width, height: primary.media.height })} />
+                    )}
                     <div>
                         <h1 className="text-2xl font-bold tracking-tight flex items-center gap-2">
                             {person.displayName}
@@ -109,6 +134,8 @@ export default function PersonProfilePage() {
                 </div>
             </div>
 
+            <MyRelation handle={person.handle} displayName={person.displayName} />
+
             {/* Privacy notice */}
             {person.isPrivacyFiltered && person._privacyNote && (
                 <div className="rounded-md bg-amber-500/10 border border-amber-500/20 p-3 text-sm text-amber-600 dark:text-amber-400">
@@ -126,7 +153,7 @@ export default function PersonProfilePage() {
                         <Heart className="h-3.5 w-3.5" /> Quan hệ
                     </TabsTrigger>
                     <TabsTrigger value="media" className="gap-1">
-                        <Image className="h-3.5 w-3.5" /> Tư liệu
+                        <Image className="h-3.5 w-3.5" /> Tư liệu{media.length > 0 && ` (${media.length})`}
                     </TabsTrigger>
                     <TabsTrigger value="history" className="gap-1">
                         <History className="h-3.5 w-3.5" /> Lịch sử
@@ -151,11 +178,14 @@ export default function PersonProfilePage() {
                             <InfoRow label="Giới tính" value={genderLabel} />
                             {person.nickName && <InfoRow label="Tên thường gọi" value={person.nickName} />}
                             <InfoRow label="Ngày sinh" value={person.birthDate || (person.birthYear ? `${person.birthYear}` : '—')} />
-                            {person.birthYear && <InfoRow label="Năm âm lịch" value={zodiacYear(person.birthYear) || '—'} />}
+                            {birthLunar ? (
+                                <InfoRow label="Ngày sinh âm lịch" value={formatLunarDate(birthLunar)} />
+                            ) : person.birthYear && <InfoRow label="Năm âm lịch" value={zodiacYear(person.birthYear) || '—'} />}
                             <InfoRow label="Nơi sinh" value={person.birthPlace || '—'} />
                             {!person.isLiving && (
                                 <>
                                     <InfoRow label="Ngày mất" value={person.deathDate || (person.deathYear ? `${person.deathYear}` : '—')} />
+                                    {deathLunar && <InfoRow label="Ngày giỗ (âm lịch)" value={formatLunarDate(deathLunar)} />}
                                     <InfoRow label="Nơi mất" value={person.deathPlace || '—'} />
                                 </>
                             )}
@@ -299,20 +329,53 @@ export default function PersonProfilePage() {
                 </TabsContent>
 
                 {/* Media */}
-                <TabsContent value="media">
+                <TabsContent value="media" className="space-y-4">
                     <Card>
                         <CardHeader>
-                            <CardTitle className="text-base">Tư liệu liên quan</CardTitle>
+                            <CardTitle className="text-base">Ảnh ({photos.length})</CardTitle>
                         </CardHeader>
                         <CardContent>
-                            <p className="text-muted-foreground text-sm">
-                                {person.mediaCount ? `${person.mediaCount} tư liệu` : 'Chưa có tư liệu nào'}
-                            </p>
-                            <p className="text-xs text-muted-foreground mt-2">
-                                Tính năng xem chi tiết sẽ được bổ sung trong Epic 3 (Media Library).
-                            </p>
+                            {photos.length === 0 ? (
+                                <p className="text-muted-foreground text-sm">
+                                    Chưa có ảnh nào. Mở ảnh trong <Link href="/media" className="underline">Thư viện</Link> và chọn &quot;Gắn người&quot; để thêm.
+                                </p>
+                            ) : (
+                                <div className="grid gap-2 grid-cols-3 sm:grid-cols-4 lg:grid-cols-6">
+                                    {photos.map((m, i) => (
+                                        <button key={m.tag.id} type="button" className="relative aspect-square overflow-hidden rounded-md bg-muted"
+                                            onClick={() => setViewing(i)} title={m.media.title || m.media.file_name}>
+                                            {/* Thumbnails are resized WebP made on upload */}
+                                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                                            <img src={thumbnailUrl(m.media) ?? ''} alt={m.media.title || m.media.file_name} loading="lazy" className="h-full w-full object-cover" />
+                                            {m.tag.is_primary && <Badge className="absolute left-1 top-1 text-[10px] px-1 py-0">Đại diện</Badge>}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="text-base">Tài liệu ({documents.length})</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {documents.length === 0 ? (
+                                <p className="text-muted-foreground text-sm">Chưa có tài liệu nào</p>
+                            ) : (
+                                <div className="space-y-1">
+                                    {documents.map((m, i) => (
+                                        <button key={m.tag.id} type="button" onClick={() => setViewing(photos.length + i)}
+                                            className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent">
+                                            <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                                            <span className="truncate">{m.media.title || m.media.file_name}</span>
+                                            <span className="ml-auto text-xs text-muted-foreground">{new Date(m.media.created_at).toLocaleDateString('vi-VN')}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                         </CardContent>
                     </Card>
+                    <MediaLightbox items={gallery} index={viewing} onIndexChange={setViewing} onTagsChanged={loadMedia} />
                 </TabsContent>
 
                 {/* History */}
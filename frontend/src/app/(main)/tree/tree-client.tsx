@@ -4,6 +4,7 @@ import { useEffect, useRef, useState, useCallback, useMemo, memo } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { useAuth } from '@/components/auth-provider';
 import { ContributeDialog } from '@/components/contribute-dialog';
+import { DeletePersonDialog } from '@/components/delete-person-dialog';
 import { Search, ZoomIn, ZoomOut, Maximize2, TreePine, Eye, Users, GitBranch, User, ArrowDownToLine, ArrowUpFromLine, Crosshair, X, ChevronDown, ChevronRight, BarChart3, Package, Link, ChevronsDownUp, ChevronsUpDown, Copy, Pencil, Save, RotateCcw, Trash2, ArrowUp, ArrowDown, GripVertical, MessageSquarePlus, Shuffle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,12 +17,16 @@ import {
     removeChildFromFamily as supaRemoveChild,
     updatePersonLiving as supaUpdatePersonLiving,
     updatePerson as supaUpdatePerson,
+    fetchPersonAvatars,
 } from '@/lib/supabase-data';
+import { avatarStyle, type PersonAvatar } from '@/lib/media';
 import {
     computeLayout, filterAncestors, filterDescendants,
     CARD_W, CARD_H,
     type TreeNode, type TreeFamily, type LayoutResult, type PositionedNode, type PositionedCouple, type Connection,
 } from '@/lib/tree-layout';
+import { kinship, analyzeRelationship, type RelationshipAnalysis } from '@/lib/kinship';
+import { bothDateForms, parseSolarDate, parseLunarDate, formatLunarShort } from '@/lib/lunar-calendar';
 import { getMockTreeData } from '@/lib/mock-data';
 
 type ViewMode = 'full' | 'ancestor' | 'descendant';
@@ -180,7 +185,9 @@ export default function TreeViewPage() {
     const [hoveredHandle, setHoveredHandle] = useState<string | null>(null);
     const [contextMenu, setContextMenu] = useState<{ handle: string; x: number; y: number } | null>(null);
     const [contributePerson, setContributePerson] = useState<{ handle: string; name: string } | null>(null);
+    const [deletingPerson, setDeletingPerson] = useState<string | null>(null);
     const [linkCopied, setLinkCopied] = useState(false);
+    const [editError, setEditError] = useState<string | null>(null);
 
     // F4: Collapsible branches
     const [collapsedBranches, setCollapsedBranches] = useState<Set<string>>(new Set());
@@ -193,12 +200,14 @@ export default function TreeViewPage() {
     const [relPerson2, setRelPerson2] = useState<string | null>(null);
     const [relSearch1, setRelSearch1] = useState('');
     const [relSearch2, setRelSearch2] = useState('');
-    const [relResult, setRelResult] = useState<string | null>(null);
+    const [relResult, setRelResult] = useState<RelationshipAnalysis | null>(null);
+    const [relPath, setRelPath] = useState<string[] | null>(null);
 
     // Editor mode state
     const [editorMode, setEditorMode] = useState(false);
     const [selectedCard, setSelectedCard] = useState<string | null>(null);
-    const { isAdmin } = useAuth();
+    const { isAdmin, profile } = useAuth();
+    const myHandle = profile?.person_handle ?? null;
 
     // URL query param initialization + auto-collapse on initial load
     const urlInitialized = useRef(false);
@@ -310,6 +319,10 @@ export default function TreeViewPage() {
         fetchTree();
     }, []);
 
+    // Avatars from each person's primary photo (tagged in the media library)
+    const [avatars, setAvatars] = useState<Map<string, PersonAvatar>>(new Map());
+    useEffect(() => { fetchPersonAvatars().then(setAvatars); }, []);
+
     // Filtered data for view mode
     const displayData = useMemo(() => {
         if (!treeData) return null;
@@ -554,6 +567,21 @@ export default function TreeViewPage() {
         );
     }, [layout, transform]);
 
+    // Relationship path from the finder, drawn through card centres; breaks where a person is not laid out
+    const relPathLine = useMemo(() => {
+        if (!layout || !relPath) return '';
+        const pos = new Map(layout.nodes.map(n => [n.node.handle, n]));
+        let d = '';
+        let drawing = false;
+        for (const h of relPath) {
+            const n = pos.get(h);
+            if (!n) { drawing = false; continue; }
+            d += `${drawing ? 'L' : 'M'}${n.x + CARD_W / 2},${n.y + CARD_H / 2}`;
+            drawing = true;
+        }
+        return d;
+    }, [layout, relPath]);
+
     const visibleHandles = useMemo(() => new Set(visibleNodes.map(n => n.node.handle)), [visibleNodes]);
 
     // Batched SVG paths for connections
@@ -783,6 +811,29 @@ export default function TreeViewPage() {
         setFocusPerson(handle);
     }, [layout]);
 
+    // The signed-in member's own card: pan to it, or show their ancestor line when it is collapsed away
+    const goToMe = useCallback(() => {
+        if (!myHandle) return;
+        if (layout?.nodes.some(n => n.node.handle === myHandle)) panToPerson(myHandle);
+        else { setFocusPerson(myHandle); setViewMode('ancestor'); }
+    }, [layout, myHandle, panToPerson]);
+
+    const openRelFinder = () => {
+        setShowRelFinder(true);
+        setRelPath(null);
+        if (!relPerson1 && myHandle && treeData) {
+            setRelPerson1(myHandle);
+            setRelSearch1(treeData.people.find(p => p.handle === myHandle)?.displayName ?? '');
+        }
+    };
+
+    // How the hovered card relates to the signed-in member
+    const hoverRelation = useMemo(() => {
+        if (!myHandle || !hoveredHandle || hoveredHandle === myHandle || !treeData) return null;
+        const k = kinship(myHandle, hoveredHandle, treeData);
+        return k.kind === 'none' ? null : k;
+    }, [myHandle, hoveredHandle, treeData]);
+
     // View mode
     const changeViewMode = (mode: ViewMode) => {
         if (mode !== 'full' && !focusPerson && treeData?.people[0]) setFocusPerson(treeData.people[0].handle);
@@ -807,6 +858,13 @@ export default function TreeViewPage() {
         });
     }, []);
 
+    // A failed edit leaves the optimistic state wrong — show why and reload from the database
+    const rollbackEdit = useCallback((message: string) => {
+        setEditError(message);
+        setTimeout(() => setEditError(null), 4000);
+        fetchTreeData().then(setTreeData);
+    }, []);
+
     // Search results
     const searchResults = useMemo(() => {
         if (!searchQuery || !treeData) return [];
@@ -877,7 +935,8 @@ export default function TreeViewPage() {
                         )}
                     </div>
                     <div className="flex gap-0.5">
-                        <Button variant="outline" size="icon" className="h-8 w-8" title="Tìm quan hệ" onClick={() => setShowRelFinder(true)}><Shuffle className="h-3.5 w-3.5" /></Button>
+                        <Button variant="outline" size="icon" className="h-8 w-8" title="Tìm quan hệ" onClick={openRelFinder}><Shuffle className="h-3.5 w-3.5" /></Button>
+                        {myHandle && <Button variant="outline" size="icon" className="h-8 w-8" title="Vị trí của tôi" onClick={goToMe}><User className="h-3.5 w-3.5" /></Button>}
                         <Button variant="outline" size="icon" className="h-8 w-8" title="Thu gọn tất cả" onClick={collapseAll}><ChevronsDownUp className="h-3.5 w-3.5" /></Button>
                         <Button variant="outline" size="icon" className="h-8 w-8" title="Mở rộng tất cả" onClick={expandAll}><ChevronsUpDown className="h-3.5 w-3.5" /></Button>
                         <div className="w-px bg-border mx-0.5" />
@@ -973,6 +1032,15 @@ export default function TreeViewPage() {
                     onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp}
                     onClick={() => { setShowSearch(false); setContextMenu(null); if (editorMode) setSelectedCard(null); }}
                 >
+                    {relPath && (
+                        <button
+                            className="absolute top-2 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 rounded-full border border-amber-300 bg-amber-50 px-3 py-1 text-xs text-amber-800 shadow-sm"
+                            onMouseDown={e => e.stopPropagation()}
+                            onClick={e => { e.stopPropagation(); setRelPath(null); setHighlightHandles(new Set()); }}
+                        >
+                            Đường quan hệ <X className="h-3 w-3" />
+                        </button>
+                    )}
                     {loading ? (
                         <div className="flex items-center justify-center h-full">
                             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
@@ -989,6 +1057,7 @@ export default function TreeViewPage() {
                                 style={{ overflow: 'visible' }}>
                                 {parentPaths && <path d={parentPaths} stroke="#64748b" strokeWidth={2} fill="none" />}
                                 {couplePaths && <path d={couplePaths} stroke="#94a3b8" strokeWidth={2} fill="none" strokeDasharray="5,3" />}
+                                {relPathLine && <path d={relPathLine} stroke="#f59e0b" strokeWidth={4} fill="none" strokeLinecap="round" strokeLinejoin="round" opacity={0.8} />}
                                 {visibleCouples.map(c => (
                                     <text key={c.familyHandle}
                                         x={c.midX} y={c.y + CARD_H / 2 + 4}
@@ -999,6 +1068,7 @@ export default function TreeViewPage() {
                             {/* DOM nodes */}
                             {visibleNodes.map(item => (
                                 <MemoPersonCard key={item.node.handle} item={item}
+                                    avatar={avatars.get(item.node.handle)}
                                     isHighlighted={highlightHandles.has(item.node.handle)}
                                     isFocused={focusPerson === item.node.handle}
                                     isHovered={hoveredHandle === item.node.handle}
@@ -1013,6 +1083,18 @@ export default function TreeViewPage() {
                                 />
                             ))}
 
+                            {/* Relation to the signed-in member, above their own card and the hovered one */}
+                            {myHandle && layout.nodes.filter(n => n.node.handle === myHandle || (hoverRelation && n.node.handle === hoveredHandle)).map(n => (
+                                <div key={`rel-${n.node.handle}`}
+                                    className="absolute z-20 pointer-events-none flex justify-center"
+                                    style={{ left: n.x - 40, top: n.y - 22, width: CARD_W + 80 }}>
+                                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold shadow-sm whitespace-nowrap
+                                        ${n.node.handle === myHandle ? 'bg-emerald-600 text-white' : 'bg-slate-900 text-white'}`}>
+                                        {n.node.handle === myHandle ? 'Bạn' : hoverRelation?.kind === 'distant' ? hoverRelation.term : `${hoverRelation?.term} của bạn`}
+                                    </span>
+                                </div>
+                            ))}
+
                             {/* Branch summary cards */}
                             {Array.from(branchSummaries.entries()).map(([handle, summary]) => {
                                 const parentNode = layout.nodes.find(n => n.node.handle === handle);
@@ -1040,8 +1122,12 @@ export default function TreeViewPage() {
                     {contextMenu && (() => {
                         const person = treeData?.people.find(p => p.handle === contextMenu.handle);
                         if (!person) return null;
+                        const rel = myHandle && treeData ? kinship(myHandle, person.handle, treeData) : null;
+                        const relation = !rel || rel.kind === 'none' ? undefined
+                            : rel.kind === 'self' ? 'Đây là bạn'
+                                : rel.kind === 'distant' ? rel.term : `${rel.term} của bạn`;
                         return (
-                            <CardContextMenu person={person} x={contextMenu.x} y={contextMenu.y}
+                            <CardContextMenu person={person} x={contextMenu.x} y={contextMenu.y} relation={relation}
                                 onViewDetail={() => { router.push(`/people/${person.handle}`); setContextMenu(null); }}
                                 onShowDescendants={() => { setFocusPerson(person.handle); setViewMode('descendant'); setContextMenu(null); }}
                                 onShowAncestors={() => { setFocusPerson(person.handle); setViewMode('ancestor'); setContextMenu(null); }}
@@ -1072,6 +1158,13 @@ export default function TreeViewPage() {
                         </div>
                     )}
 
+                    {/* Edit failed toast */}
+                    {editError && (
+                        <div className="absolute bottom-24 left-1/2 -translate-x-1/2 bg-red-600 text-white px-4 py-2 rounded-lg shadow-lg text-xs font-medium animate-in fade-in slide-in-from-bottom-2 z-50">
+                            {editError}
+                        </div>
+                    )}
+
                     {/* Link copied toast */}
                     {linkCopied && (
                         <div className="absolute bottom-12 left-1/2 -translate-x-1/2 bg-green-600 text-white px-4 py-2 rounded-lg shadow-lg text-xs font-medium flex items-center gap-2 animate-in fade-in slide-in-from-bottom-2 z-50">
@@ -1092,7 +1185,8 @@ export default function TreeViewPage() {
                             ))}
                         </div>
                         <div className="w-px bg-border h-5" />
-                        <button className="p-1.5 rounded-lg text-muted-foreground active:bg-muted transition-colors" title="Tìm quan hệ" onClick={() => setShowRelFinder(true)}><Shuffle className="h-4 w-4" /></button>
+                        <button className="p-1.5 rounded-lg text-muted-foreground active:bg-muted transition-colors" title="Tìm quan hệ" onClick={openRelFinder}><Shuffle className="h-4 w-4" /></button>
+                        {myHandle && <button className="p-1.5 rounded-lg text-muted-foreground active:bg-muted transition-colors" title="Vị trí của tôi" onClick={goToMe}><User className="h-4 w-4" /></button>}
                         <div className="w-px bg-border h-5" />
                         <button className="p-1.5 rounded-lg text-muted-foreground active:bg-muted transition-colors" title="Thu gọn tất cả" onClick={collapseAll}><ChevronsDownUp className="h-4 w-4" /></button>
                         <button className="p-1.5 rounded-lg text-muted-foreground active:bg-muted transition-colors" title="Mở rộng tất cả" onClick={expandAll}><ChevronsUpDown className="h-4 w-4" /></button>
@@ -1120,17 +1214,17 @@ export default function TreeViewPage() {
                                     if (f.handle === toFamily) return { ...f, children: [...f.children, childHandle] };
                                     return f;
                                 });
-                                supaMoveChild(childHandle, fromFamily, toFamily, prev.families);
                                 return { ...prev, families };
                             });
+                            supaMoveChild(childHandle, fromFamily, toFamily).then(({ error }) => { if (error) rollbackEdit(error.message); });
                         }}
                         onRemoveChild={(childHandle, familyHandle) => {
                             setTreeData(prev => {
                                 if (!prev) return null;
                                 const families = prev.families.map(f => f.handle === familyHandle ? { ...f, children: f.children.filter(c => c !== childHandle) } : f);
-                                supaRemoveChild(childHandle, familyHandle, prev.families);
                                 return { ...prev, families };
                             });
+                            supaRemoveChild(childHandle, familyHandle).then(({ error }) => { if (error) rollbackEdit(error.message); });
                         }}
                         onToggleLiving={(handle, isLiving) => {
                             setTreeData(prev => prev ? { ...prev, people: prev.people.map(p => p.handle === handle ? { ...p, isLiving } : p) } : null);
@@ -1140,6 +1234,7 @@ export default function TreeViewPage() {
                             setTreeData(prev => prev ? { ...prev, people: prev.people.map(p => p.handle === handle ? { ...p, ...fields } : p) } : null);
                             supaUpdatePerson(handle, fields);
                         }}
+                        onDeletePerson={setDeletingPerson}
                         onReset={async () => { const data = await fetchTreeData(); setTreeData(data); }}
                         onClose={() => { setEditorMode(false); setSelectedCard(null); }}
                     />
@@ -1161,11 +1256,16 @@ export default function TreeViewPage() {
                     onClose={() => setContributePerson(null)} />
             )}
 
+            {deletingPerson && treeData && (
+                <DeletePersonDialog personHandle={deletingPerson} treeData={treeData}
+                    onClose={() => setDeletingPerson(null)}
+                    onDeleted={() => { setDeletingPerson(null); setSelectedCard(null); fetchTreeData().then(setTreeData); }} />
+            )}
+
             {/* Relationship Finder Dialog */}
             {showRelFinder && treeData && (
                 <RelationshipFinder
                     people={treeData.people}
-                    families={treeData.families}
                     person1={relPerson1}
                     person2={relPerson2}
                     search1={relSearch1}
@@ -1177,13 +1277,19 @@ export default function TreeViewPage() {
                     onSelect2={(h) => { setRelPerson2(h); setRelSearch2(treeData.people.find(p => p.handle === h)?.displayName ?? ''); setRelResult(null); }}
                     onFind={() => {
                         if (!relPerson1 || !relPerson2) return;
-                        const result = findRelationship(relPerson1, relPerson2, treeData.people, treeData.families);
-                        setRelResult(result);
+                        setRelResult(analyzeRelationship(relPerson1, relPerson2, treeData));
                     }}
-                    onHighlight={() => {
-                        if (!relPerson1 || !relPerson2) return;
-                        const path = findRelationshipPath(relPerson1, relPerson2, treeData.people, treeData.families);
-                        if (path) setHighlightHandles(new Set(path));
+                    onHighlight={(path) => {
+                        setHighlightHandles(new Set(path));
+                        setRelPath(path);
+                        // Centre the viewport on the part of the path that is laid out
+                        const nodes = layout?.nodes.filter(n => path.includes(n.node.handle)) ?? [];
+                        if (nodes.length === 0 || !viewportRef.current) return;
+                        const cx = (Math.min(...nodes.map(n => n.x)) + Math.max(...nodes.map(n => n.x)) + CARD_W) / 2;
+                        const cy = (Math.min(...nodes.map(n => n.y)) + Math.max(...nodes.map(n => n.y)) + CARD_H) / 2;
+                        const vw = viewportRef.current.clientWidth;
+                        const vh = viewportRef.current.clientHeight;
+                        setTransform(t => ({ ...t, x: vw / 2 - cx * t.scale, y: vh / 2 - cy * t.scale }));
                     }}
                     onClose={() => { setShowRelFinder(false); setRelPerson1(null); setRelPerson2(null); setRelSearch1(''); setRelSearch2(''); setRelResult(null); }}
                 />
@@ -1197,162 +1303,21 @@ export default function TreeViewPage() {
 // RELATIONSHIP FINDER
 // ═══════════════════════════════════════════════════
 
-type PathStep = { handle: string; relation: 'parent' | 'child' | 'spouse' };
-
-/** BFS to find shortest path between two people in the family graph */
-function findRelationshipPath(
-    fromHandle: string,
-    toHandle: string,
-    people: TreeNode[],
-    families: TreeFamily[],
-): string[] | null {
-    if (fromHandle === toHandle) return [fromHandle];
-    const personMap = new Map(people.map(p => [p.handle, p]));
-
-    // Build adjacency: each person connects to parents, children, spouses
-    function getNeighbors(handle: string): { handle: string; rel: 'parent' | 'child' | 'spouse' }[] {
-        const p = personMap.get(handle);
-        if (!p) return [];
-        const result: { handle: string; rel: 'parent' | 'child' | 'spouse' }[] = [];
-        // Parents (via parentFamilies)
-        for (const pfId of p.parentFamilies) {
-            const pf = families.find(f => f.handle === pfId);
-            if (!pf) continue;
-            if (pf.fatherHandle) result.push({ handle: pf.fatherHandle, rel: 'parent' });
-            if (pf.motherHandle) result.push({ handle: pf.motherHandle, rel: 'parent' });
-        }
-        // Spouse + children (via families)
-        for (const famId of p.families) {
-            const fam = families.find(f => f.handle === famId);
-            if (!fam) continue;
-            const spouseH = fam.fatherHandle === handle ? fam.motherHandle : fam.fatherHandle;
-            if (spouseH) result.push({ handle: spouseH, rel: 'spouse' });
-            for (const ch of fam.children) result.push({ handle: ch, rel: 'child' });
-        }
-        return result;
-    }
-
-    // BFS
-    const visited = new Set<string>([fromHandle]);
-    const queue: { handle: string; path: string[] }[] = [{ handle: fromHandle, path: [fromHandle] }];
-    while (queue.length > 0) {
-        const { handle, path } = queue.shift()!;
-        for (const { handle: next } of getNeighbors(handle)) {
-            if (visited.has(next)) continue;
-            visited.add(next);
-            const newPath = [...path, next];
-            if (next === toHandle) return newPath;
-            queue.push({ handle: next, path: newPath });
-        }
-    }
-    return null;
-}
-
-/** Interpret the path into a human-readable relationship string */
-function findRelationship(
-    fromHandle: string,
-    toHandle: string,
-    people: TreeNode[],
-    families: TreeFamily[],
-): string {
-    if (fromHandle === toHandle) return 'Đây là cùng một người';
-    const path = findRelationshipPath(fromHandle, toHandle, people, families);
-    if (!path) return 'Không tìm thấy mối quan hệ trong gia phả';
-
-    const personMap = new Map(people.map(p => [p.handle, p]));
-    const fromPerson = personMap.get(fromHandle);
-    const toPerson = personMap.get(toHandle);
-    if (!fromPerson || !toPerson) return 'Không tìm thấy thông tin';
-
-    // Build step directions
-    type Dir = 'up' | 'down' | 'spouse';
-    const dirs: Dir[] = [];
-    for (let i = 0; i < path.length - 1; i++) {
-        const cur = path[i];
-        const next = path[i + 1];
-        const curP = personMap.get(cur);
-        if (!curP) continue;
-        // Check if next is a parent of cur
-        const isParent = curP.parentFamilies.some(pfId => {
-            const pf = families.find(f => f.handle === pfId);
-            return pf && (pf.fatherHandle === next || pf.motherHandle === next);
-        });
-        if (isParent) { dirs.push('up'); continue; }
-        // Check if next is a child of cur
-        const isChild = curP.families.some(famId => {
-            const fam = families.find(f => f.handle === famId);
-            return fam && fam.children.includes(next);
-        });
-        if (isChild) { dirs.push('down'); continue; }
-        dirs.push('spouse');
-    }
-
-    const isMale = (h: string) => personMap.get(h)?.gender === 1;
-    const isA = fromHandle; // A = người hỏi
-    const isB = toHandle;   // B = người kia
-
-    const ups = dirs.filter(d => d === 'up').length;
-    const downs = dirs.filter(d => d === 'down').length;
-    const spouses = dirs.filter(d => d === 'spouse').length;
-    const pattern = dirs.join('-');
-
-    const nameA = fromPerson.displayName;
-    const nameB = toPerson.displayName;
-    const gB = isMale(isB) ? 'ông' : 'bà';
-    const gA = isMale(isA) ? 'ông' : 'bà';
-
-    // Direct relationships
-    if (pattern === 'down') return `${nameA} là cha/mẹ của ${nameB}`;
-    if (pattern === 'up') return `${nameA} là con của ${nameB}`;
-    if (pattern === 'spouse') return `${nameA} và ${nameB} là vợ chồng`;
-
-    // 2 steps
-    if (pattern === 'down-down') return `${nameA} là ông/bà của ${nameB}`;
-    if (pattern === 'up-up') return `${nameA} là cháu nội/ngoại của ${nameB}`;
-    if (pattern === 'up-down' || pattern === 'down-up') return `${nameA} và ${nameB} là anh/chị/em ruột`;
-    if (pattern === 'spouse-down') return `${nameB} là con riêng của vợ/chồng ${nameA}`;
-    if (pattern === 'down-spouse') return `${nameB} là vợ/chồng của con ${nameA}`;
-    if (pattern === 'up-spouse') return `${nameB} là vợ/chồng của cha/mẹ ${nameA} (kế phụ/mẫu)`;
-
-    // 3 steps
-    if (pattern === 'down-down-down') return `${nameA} là cụ (3 đời) của ${nameB}`;
-    if (pattern === 'up-up-up') return `${nameA} là chắt của ${nameB}`;
-    if (pattern === 'up-up-down') return `${nameA} và ${nameB} là cô/chú/bác và cháu`;
-    if (pattern === 'up-down-down') return `${nameA} là cháu, ${nameB} là cô/chú/bác`;
-    if (pattern === 'down-up-down') return `${nameA} và ${nameB} là anh/chị/em họ`;
-
-    // 4 steps
-    if (pattern === 'up-up-down-down') return `${nameA} và ${nameB} là anh/chị/em họ`;
-    if (pattern === 'up-up-up-down') return `${nameA} là cháu (con của cháu ruột) của ${nameB}`;
-    if (pattern === 'down-down-up-down') return `${nameA} và ${nameB} là con cô con cậu`;
-
-    // Generic fallback with generation difference
-    const genA = fromPerson.generation ?? 0;
-    const genB = toPerson.generation ?? 0;
-    const genDiff = genB - genA;
-    const distance = path.length - 1;
-
-    if (genDiff === 0) return `${nameA} và ${nameB} cùng đời, cách ${distance} bậc quan hệ`;
-    if (genDiff > 0) return `${nameA} (đời ${genA}) là tổ tiên ${genDiff} đời của ${nameB} (đời ${genB})`;
-    return `${nameA} (đời ${genA}) là hậu duệ đời thứ ${Math.abs(genDiff)} của ${nameB} (đời ${genB})`;
-}
-
 // ── Relationship Finder UI ──
-function RelationshipFinder({ people, families, person1, person2, search1, search2, result,
+function RelationshipFinder({ people, person1, person2, search1, search2, result,
     onSearch1, onSearch2, onSelect1, onSelect2, onFind, onHighlight, onClose }: {
     people: TreeNode[];
-    families: TreeFamily[];
     person1: string | null;
     person2: string | null;
     search1: string;
     search2: string;
-    result: string | null;
+    result: RelationshipAnalysis | null;
     onSearch1: (s: string) => void;
     onSearch2: (s: string) => void;
     onSelect1: (h: string) => void;
     onSelect2: (h: string) => void;
     onFind: () => void;
-    onHighlight: () => void;
+    onHighlight: (path: string[]) => void;
     onClose: () => void;
 }) {
     const filter = (q: string) => q.trim()
@@ -1362,12 +1327,17 @@ function RelationshipFinder({ people, families, person1, person2, search1, searc
     const results2 = filter(search2);
     const [showD1, setShowD1] = useState(false);
     const [showD2, setShowD2] = useState(false);
+    const name1 = people.find(p => p.handle === person1)?.displayName;
+    const name2 = people.find(p => p.handle === person2)?.displayName;
+    const kin = result?.kinship;
+    const found = kin && kin.kind !== 'none' && kin.kind !== 'self';
+    const nameOf = (h: string) => people.find(p => p.handle === h)?.displayName ?? h;
 
     return (
         <>
             <div className="fixed inset-0 z-50 bg-black/30 backdrop-blur-sm" onClick={onClose} />
             <div className="fixed inset-x-4 top-1/2 -translate-y-1/2 z-50 bg-background rounded-2xl shadow-2xl border
-                max-w-sm mx-auto animate-in fade-in zoom-in-95 duration-150">
+                max-w-md mx-auto max-h-[90vh] overflow-y-auto animate-in fade-in zoom-in-95 duration-150">
                 {/* Header */}
                 <div className="flex items-center justify-between px-4 py-3 border-b">
                     <div className="flex items-center gap-2">
@@ -1452,10 +1422,61 @@ function RelationshipFinder({ people, families, person1, person2, search1, searc
                     </div>
 
                     {/* Result */}
-                    {result && (
-                        <div className={`rounded-xl p-3 text-sm font-medium text-center border
-                            ${result.includes('Không') ? 'bg-red-50 border-red-200 text-red-700' : 'bg-emerald-50 border-emerald-200 text-emerald-800'}`}>
-                            {result}
+                    {kin && (
+                        <div className={`rounded-xl p-3 text-sm text-center border space-y-1
+                            ${kin.kind !== 'none' ? 'bg-emerald-50 border-emerald-200 text-emerald-800' : 'bg-red-50 border-red-200 text-red-700'}`}>
+                            {kin.kind === 'none' ? (
+                                <p className="font-medium">Không tìm thấy mối quan hệ trong gia phả</p>
+                            ) : kin.kind === 'self' ? (
+                                <p className="font-medium">Đây là cùng một người</p>
+                            ) : kin.kind === 'distant' ? (
+                                <p className="font-medium">{name1} và {name2} là {kin.term}</p>
+                            ) : (
+                                <>
+                                    <p><span className="font-medium">{name2}</span> là <span className="font-semibold">{kin.term}</span> của {name1}</p>
+                                    <p><span className="font-medium">{name1}</span> là <span className="font-semibold">{kin.reciprocal}</span> của {name2}</p>
+                                </>
+                            )}
+                            {kin.uncertain && (
+                                <p className="text-xs text-amber-700">Chưa rõ thứ tự anh em nên có hai cách gọi — cập nhật thứ tự con để chính xác hơn</p>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Blood relationship details */}
+                    {result && result.degree !== null && result.degree > 0 && (
+                        <div className="rounded-xl border p-3 text-xs space-y-1">
+                            <p><span className="text-muted-foreground">Tổ chung gần nhất:</span> {result.commonAncestors.map(nameOf).join(' & ')}</p>
+                            <p>
+                                <span className="text-muted-foreground">Huyết thống:</span> cách {result.degree} bậc
+                                {result.up === 0 || result.down === 0
+                                    ? ' · trực hệ'
+                                    : ` · cùng gốc trong phạm vi ${result.generationSpan} đời`}
+                            </p>
+                            <p><span className="text-muted-foreground">Hệ số huyết thống:</span> {(result.coefficient * 100).toFixed(result.coefficient < 0.01 ? 2 : 1)}%</p>
+                            {(result.up === 0 || result.down === 0 || (result.generationSpan ?? 99) <= 3) && (
+                                <p className="text-amber-700">Thuộc diện cấm kết hôn theo Luật Hôn nhân và gia đình</p>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Paths */}
+                    {found && result.paths.length > 0 && (
+                        <div className="space-y-1">
+                            <p className="text-xs font-medium text-muted-foreground">Các đường quan hệ ({result.paths.length})</p>
+                            <div className="border rounded-lg divide-y max-h-40 overflow-y-auto">
+                                {result.paths.map((p, i) => (
+                                    <button key={`${p.kind}-${i}`}
+                                        className="w-full text-left px-3 py-2 text-xs hover:bg-accent"
+                                        onClick={() => { onHighlight(p.path); onClose(); }}
+                                        title="Xem đường đi trên cây">
+                                        <span className={`font-medium ${p.kind === 'blood' ? 'text-emerald-700' : 'text-blue-700'}`}>
+                                            {p.kind === 'blood' ? `Huyết thống qua ${p.ancestors.map(nameOf).join(' & ')}` : `Hôn nhân: ${p.term}`}
+                                        </span>
+                                        <span className="block text-muted-foreground truncate">{p.path.map(nameOf).join(' → ')}</span>
+                                    </button>
+                                ))}
+                            </div>
                         </div>
                     )}
 
@@ -1469,10 +1490,10 @@ function RelationshipFinder({ people, families, person1, person2, search1, searc
                         >
                             Tìm quan hệ
                         </button>
-                        {result && !result.includes('Không') && (
+                        {found && (
                             <button
                                 className="px-3 py-2 rounded-lg text-sm border hover:bg-muted transition-colors"
-                                onClick={() => { onHighlight(); onClose(); }}
+                                onClick={() => { onHighlight(kin.path); onClose(); }}
                                 title="Highlight đường đi trên cây"
                             >
                                 Xem trên cây
@@ -1486,10 +1507,11 @@ function RelationshipFinder({ people, families, person1, person2, search1, searc
 }
 
 // === Card Context Menu ===
-function CardContextMenu({ person, x, y, onViewDetail, onShowDescendants, onShowAncestors, onSetFocus, onShowFull, onCopyLink, onContribute, onClose }: {
+function CardContextMenu({ person, x, y, relation, onViewDetail, onShowDescendants, onShowAncestors, onSetFocus, onShowFull, onCopyLink, onContribute, onClose }: {
     person: TreeNode;
     x: number;
     y: number;
+    relation?: string;
     onViewDetail: () => void;
     onShowDescendants: () => void;
     onShowAncestors: () => void;
@@ -1529,7 +1551,10 @@ function CardContextMenu({ person, x, y, onViewDetail, onShowDescendants, onShow
                                         : 'bg-slate-100 text-slate-500'}`}>
                                     {person.displayName.split(' ').map(w => w[0]).join('').slice(0, 2)}
                                 </div>
-                                <span className="text-base font-semibold text-slate-800 truncate max-w-[220px]">{person.displayName}</span>
+                                <div className="min-w-0">
+                                    <p className="text-base font-semibold text-slate-800 truncate max-w-[220px]">{person.displayName}</p>
+                                    {relation && <p className="text-xs text-emerald-700">{relation}</p>}
+                                </div>
                             </div>
                             <button onClick={onClose} className="p-1.5 rounded-full hover:bg-slate-100 text-slate-400">
                                 <X className="w-4 h-4" />
@@ -1578,7 +1603,10 @@ function CardContextMenu({ person, x, y, onViewDetail, onShowDescendants, onShow
                                 : 'bg-slate-100 text-slate-500'}`}>
                             {person.displayName.split(' ').map(w => w[0]).join('').slice(0, 2)}
                         </div>
-                        <span className="text-sm font-semibold text-slate-800 truncate max-w-[130px]">{person.displayName}</span>
+                        <div className="min-w-0">
+                            <p className="text-sm font-semibold text-slate-800 truncate max-w-[130px]">{person.displayName}</p>
+                            {relation && <p className="text-[11px] text-emerald-700 truncate max-w-[130px]">{relation}</p>}
+                        </div>
                     </div>
                     <button onClick={onClose} className="p-0.5 rounded hover:bg-slate-100 text-slate-400 hover:text-slate-600">
                         <X className="w-3.5 h-3.5" />
@@ -1619,8 +1647,23 @@ function MenuAction({ icon, label, desc, onClick }: { icon: React.ReactNode; lab
 }
 
 // === Person Card Component (memoized) ===
+/** "Sinh 12/05/1990 (18/4 Canh Ngọ ÂL) · Mất ... (giỗ 10/3 ÂL)" for card tooltips */
+function lifeDates(node: TreeNode): string {
+    const part = (label: string, solar?: string, lunarText?: string, lunarLabel = '') => {
+        const lunar = parseLunarDate(lunarText);
+        if (!solar && !lunar) return null;
+        const lunarPart = lunar ? `${lunarLabel}${formatLunarShort(lunar)}` : '';
+        return `${label} ${solar ? `${solar}${lunarPart ? ` (${lunarPart})` : ''}` : lunarPart}`;
+    };
+    return [
+        part('Sinh', node.birthDate, node.birthDateLunar),
+        part('Mất', node.deathDate, node.deathDateLunar, 'giỗ '),
+    ].filter(Boolean).join(' · ');
+}
+
 const MemoPersonCard = memo(PersonCard, (prev, next) =>
     prev.item === next.item &&
+    prev.avatar === next.avatar &&
     prev.isHighlighted === next.isHighlighted &&
     prev.isFocused === next.isFocused &&
     prev.isHovered === next.isHovered &&
@@ -1630,8 +1673,9 @@ const MemoPersonCard = memo(PersonCard, (prev, next) =>
     prev.isCollapsed === next.isCollapsed
 );
 
-function PersonCard({ item, isHighlighted, isFocused, isHovered, isSelected, zoomLevel, showCollapseToggle, isCollapsed, onHover, onClick, onSetFocus, onToggleCollapse }: {
+function PersonCard({ item, avatar, isHighlighted, isFocused, isHovered, isSelected, zoomLevel, showCollapseToggle, isCollapsed, onHover, onClick, onSetFocus, onToggleCollapse }: {
     item: PositionedNode;
+    avatar?: PersonAvatar;
     isHighlighted: boolean;
     isFocused: boolean;
     isHovered: boolean;
@@ -1668,6 +1712,7 @@ function PersonCard({ item, isHighlighted, isFocused, isHovered, isSelected, zoo
                 <div className="hidden group-hover:block absolute -top-8 left-1/2 -translate-x-1/2 z-50
                     bg-slate-900 text-white text-[10px] px-2 py-1 rounded shadow-lg whitespace-nowrap pointer-events-none">
                     {node.displayName} · Đời {item.generation + 1}
+                    {lifeDates(node) && <div className="text-slate-300">{lifeDates(node)}</div>}
                 </div>
             </div>
         );
@@ -1712,14 +1757,16 @@ function PersonCard({ item, isHighlighted, isFocused, isHovered, isSelected, zoo
                     cursor-pointer hover:shadow-md ${bgClass} ${glowClass}
                     ${isDead ? 'opacity-70' : ''} ${!isPatri ? 'opacity-80' : ''}`}
                 style={{ left: x, top: y, width: CARD_W, height: CARD_H }}
+                title={lifeDates(node) || undefined}
                 onMouseEnter={() => onHover(node.handle)}
                 onMouseLeave={() => onHover(null)}
                 onClick={(e) => { e.stopPropagation(); onClick(node.handle, e.clientX, e.clientY); }}
             >
                 <div className="px-2 py-1.5 h-full flex items-center gap-2">
                     <div className={`w-7 h-7 rounded-full flex items-center justify-center
-                        font-bold text-[9px] shadow-sm ring-1 ring-black/5 ${avatarBg} flex-shrink-0`}>
-                        {initials}
+                        font-bold text-[9px] shadow-sm ring-1 ring-black/5 ${avatarBg} flex-shrink-0`}
+                        style={avatar ? avatarStyle(avatar) : undefined}>
+                        {!avatar && initials}
                     </div>
                     <div className="flex-1 min-w-0">
                         <p className="font-semibold text-[10px] leading-tight text-slate-800 truncate">{node.displayName}</p>
@@ -1748,6 +1795,7 @@ function PersonCard({ item, isHighlighted, isFocused, isHovered, isSelected, zoo
                 cursor-pointer hover:shadow-md ${bgClass} ${glowClass}
                 ${isDead ? 'opacity-70' : ''} ${!isPatri ? 'opacity-80' : ''}`}
             style={{ left: x, top: y, width: CARD_W, height: CARD_H }}
+            title={lifeDates(node) || undefined}
             onMouseEnter={() => onHover(node.handle)}
             onMouseLeave={() => onHover(null)}
             onClick={(e) => { e.stopPropagation(); onClick(node.handle, e.clientX, e.clientY); }}
@@ -1757,8 +1805,9 @@ function PersonCard({ item, isHighlighted, isFocused, isHovered, isSelected, zoo
                 {/* Avatar */}
                 <div className="relative flex-shrink-0">
                     <div className={`w-11 h-11 rounded-full flex items-center justify-center
-                        font-bold text-sm shadow-sm ring-1 ring-black/5 ${avatarBg} ${isDead ? 'opacity-60' : ''}`}>
-                        {initials}
+                        font-bold text-sm shadow-sm ring-1 ring-black/5 ${avatarBg} ${isDead ? 'opacity-60' : ''}`}
+                        style={avatar ? avatarStyle(avatar) : undefined}>
+                        {!avatar && initials}
                     </div>
                     {isPatri && (
                         <span className="absolute -bottom-0.5 -right-0.5 w-5 h-5 rounded-full bg-gradient-to-br from-teal-400 to-emerald-500
@@ -1984,7 +2033,7 @@ function StatsOverlay({ stats, onClose }: { stats: TreeStats; onClose: () => voi
 }
 
 // === Editor Panel Component ===
-function EditorPanel({ selectedCard, treeData, onReorderChildren, onMoveChild, onRemoveChild, onToggleLiving, onUpdatePerson, onReset, onClose }: {
+function EditorPanel({ selectedCard, treeData, onReorderChildren, onMoveChild, onRemoveChild, onToggleLiving, onUpdatePerson, onDeletePerson, onReset, onClose }: {
     selectedCard: string | null;
     treeData: { people: TreeNode[]; families: TreeFamily[] } | null;
     onReorderChildren: (familyHandle: string, newOrder: string[]) => void;
@@ -1992,12 +2041,14 @@ function EditorPanel({ selectedCard, treeData, onReorderChildren, onMoveChild, o
     onRemoveChild: (childHandle: string, familyHandle: string) => void;
     onToggleLiving: (handle: string, isLiving: boolean) => void;
     onUpdatePerson: (handle: string, fields: Record<string, unknown>) => void;
+    onDeletePerson: (handle: string) => void;
     onReset: () => void;
     onClose: () => void;
 }) {
     const [editName, setEditName] = useState('');
     const [editBirthYear, setEditBirthYear] = useState('');
     const [editDeathYear, setEditDeathYear] = useState('');
+    const [editDates, setEditDates] = useState({ birthDate: '', birthDateLunar: '', deathDate: '', deathDateLunar: '' });
     const [dirty, setDirty] = useState(false);
     const [saving, setSaving] = useState(false);
     const [parentSearch, setParentSearch] = useState('');
@@ -2015,6 +2066,10 @@ function EditorPanel({ selectedCard, treeData, onReorderChildren, onMoveChild, o
             setEditName(person.displayName || '');
             setEditBirthYear(person.birthYear?.toString() || '');
             setEditDeathYear(person.deathYear?.toString() || '');
+            setEditDates({
+                birthDate: person.birthDate || '', birthDateLunar: person.birthDateLunar || '',
+                deathDate: person.deathDate || '', deathDateLunar: person.deathDateLunar || '',
+            });
             setDirty(false);
             setParentSearch('');
             setShowParentDropdown(false);
@@ -2082,6 +2137,18 @@ function EditorPanel({ selectedCard, treeData, onReorderChildren, onMoveChild, o
         if (newBirth !== (person.birthYear ?? null)) fields.birthYear = newBirth;
         const newDeath = editDeathYear ? parseInt(editDeathYear) : null;
         if (newDeath !== (person.deathYear ?? null)) fields.deathYear = newDeath;
+        // Whichever of the solar/lunar pair was edited drives the other
+        for (const [solarKey, lunarKey, yearKey] of [['birthDate', 'birthDateLunar', 'birthYear'], ['deathDate', 'deathDateLunar', 'deathYear']] as const) {
+            const solar = editDates[solarKey];
+            const lunar = editDates[lunarKey];
+            const lunarEdited = lunar !== (person[lunarKey] || '') && solar === (person[solarKey] || '');
+            const dates = lunarEdited ? bothDateForms(null, lunar) : bothDateForms(solar, lunar);
+            const newSolar = dates.solar ?? (solar.trim() || null);
+            if (newSolar !== (person[solarKey] ?? null)) fields[solarKey] = newSolar;
+            if (dates.lunar !== (person[lunarKey] ?? null)) fields[lunarKey] = dates.lunar;
+            const year = parseSolarDate(newSolar)?.year;
+            if (year && year !== person[yearKey]) fields[yearKey] = year;
+        }
         if (Object.keys(fields).length > 0) {
             onUpdatePerson(person.handle, fields);
         }
@@ -2157,6 +2224,23 @@ function EditorPanel({ selectedCard, treeData, onReorderChildren, onMoveChild, o
                             </div>
                         </div>
 
+                        {/* Solar / lunar dates — either side is converted on save */}
+                        {([['birthDate', 'birthDateLunar', 'Ngày sinh'], ['deathDate', 'deathDateLunar', 'Ngày mất']] as const).map(([solarKey, lunarKey, label]) => (
+                            <div key={solarKey} className="flex gap-2">
+                                <div className="flex-1">
+                                    <label className="text-xs text-muted-foreground">{label}</label>
+                                    <input className="w-full border rounded px-2 py-1 text-sm bg-background" value={editDates[solarKey]}
+                                        onChange={e => { setEditDates(prev => ({ ...prev, [solarKey]: e.target.value })); setDirty(true); }} placeholder="dd/mm/yyyy" />
+                                </div>
+                                <div className="flex-1">
+                                    <label className="text-xs text-muted-foreground">Âm lịch</label>
+                                    <input className="w-full border rounded px-2 py-1 text-sm bg-background" value={editDates[lunarKey]}
+                                        onChange={e => { setEditDates(prev => ({ ...prev, [lunarKey]: e.target.value })); setDirty(true); }}
+                                        placeholder="dd/mm/yyyy" title="Tháng nhuận thêm N, vd 15/02N/2023; có thể bỏ năm" />
+                                </div>
+                            </div>
+                        ))}
+
                         {/* Living status */}
                         <div className="flex items-center gap-2">
                             <span className="text-xs text-muted-foreground">Trạng thái:</span>
@@ -2180,6 +2264,13 @@ function EditorPanel({ selectedCard, treeData, onReorderChildren, onMoveChild, o
                                 <Save className="h-3.5 w-3.5" />{saving ? 'Đang lưu...' : 'Lưu thay đổi → Supabase'}
                             </button>
                         )}
+
+                        <button
+                            className="w-full flex items-center justify-center gap-1 px-3 py-1.5 text-xs font-medium rounded border border-red-200 text-red-600 hover:bg-red-50 transition-colors"
+                            onClick={() => onDeletePerson(person.handle)}
+                        >
+                            <Trash2 className="h-3.5 w-3.5" />Xóa thành viên...
+                        </button>
                     </div>
 
                     {/* Children reorder */}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '@/lib/supabase';
+import { fetchTreeData } from '@/lib/supabase-data';
+import { filterDescendants } from '@/lib/tree-layout';
+import { addDays, dayKey, expandEvents, localParts, type CalendarEvent, type EventOverride } from '@/lib/recurrence';
+import { memorialsBetween, type MemorialPerson } from '@/lib/memorials';
+import { vietnamToday } from '@/lib/lunar-calendar';
+import { buildCalendar, occurrenceToIcs, TYPE_CATEGORIES, type IcsEvent } from '@/lib/ical';
+
+/** The feed covers the last month and the next year */
+const PAST_DAYS = 31;
+const FUTURE_DAYS = 366;
+const FEED_TYPES = ['MEMORIAL', 'MEETING', 'FESTIVAL', 'OTHER'];
+
+function memorialUid(handle: string, date: string): string {
+    return `gio-${handle}-${date.replace(/-/g, '')}@giapha`;
+}
+
+/**
+ * GET — subscribable iCalendar feed of clan events.
+ *   ?type=MEMORIAL,MEETING  only these event types (default: all)
+ *   ?branch=<handle>        only giỗ of that person's descendants (and their
+ *                           spouses); events not tied to a person are clan-wide
+ *                           and always included
+ */
+export async function GET(req: NextRequest) {
+    const typeParam = req.nextUrl.searchParams.get('type');
+    const types = typeParam
+        ? typeParam.split(',').map(t => t.trim().toUpperCase()).filter(t => FEED_TYPES.includes(t))
+        : FEED_TYPES;
+    const branch = req.nextUrl.searchParams.get('branch');
+
+    const today = vietnamToday();
+    const from = addDays(today, -PAST_DAYS);
+    const to = addDays(today, FUTURE_DAYS);
+
+    const [{ data: events, error: eError }, { data: overrides, error: oError }, { data: people, error: pError }] = await Promise.all([
+        supabase.from('events').select('*').in('type', types),
+        supabase.from('event_overrides').select('*'),
+        types.includes('MEMORIAL')
+            ? supabase.from('people').select('handle, display_name, is_living, death_year, death_date_lunar').not('death_date_lunar', 'is', null)
+            : Promise.resolve({ data: [], error: null }),
+    ]);
+    if (eError || oError || pError) {
+        console.error('Failed to load calendar feed:', (eError || oError || pError)?.message);
+        return NextResponse.json({ error: 'Không tải được lịch sự kiện' }, { status: 500 });
+    }
+
+    let inBranch: (handle: string | null) => boolean = () => true;
+    if (branch) {
+        const tree = await fetchTreeData();
+        if (!tree.people.some(p => p.handle === branch)) {
+            return NextResponse.json({ error: `Không tìm thấy người ${branch}` }, { status: 404 });
+        }
+        const members = new Set(filterDescendants(branch, tree.people, tree.families).filteredPeople.map(p => p.handle));
+        inBranch = handle => !handle || members.has(handle);
+    }
+
+    const origin = req.nextUrl.origin;
+    const occurrences = expandEvents(
+        ((events || []) as CalendarEvent[]).filter(e => inBranch(e.person_handle)),
+        (overrides || []) as EventOverride[],
+        from,
+        to,
+    );
+    const feed: IcsEvent[] = occurrences.map(o => ({
+        ...occurrenceToIcs(o, origin),
+        // Stored and computed giỗ share a UID, so a subscriber's copy survives the yearly sync
+        ...(o.event.person_handle ? { uid: memorialUid(o.event.person_handle, o.date) } : {}),
+    }));
+
+    // `events` only stores the next giỗ of each person; the rest of the year
+    // comes from the lunar death date, skipping days already stored
+    const stored = new Set(occurrences.filter(o => o.event.person_handle).map(o => `${o.event.person_handle}:${o.date}`));
+    for (const person of (people || []) as MemorialPerson[]) {
+        if (!inBranch(person.handle)) continue;
+        for (const draft of memorialsBetween(person, from, to)) {
+            const date = dayKey(localParts(draft.start_at).date);
+            if (stored.has(`${person.handle}:${date}`)) continue;
+            feed.push({
+                uid: memorialUid(person.handle, date),
+                start: draft.start_at,
+                summary: draft.title,
+                description: draft.description,
+                url: `${origin}/people/${person.handle}`,
+                categories: [TYPE_CATEGORIES.MEMORIAL],
+            });
+        }
+    }
+    feed.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+    const body = buildCalendar({ name: 'Sự kiện dòng họ', events: feed, refresh: 'PT12H' });
+    return new NextResponse(body, {
+        headers: {
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Content-Disposition': 'inline; filename="su-kien-dong-ho.ics"',
+            'Cache-Control': 'public, max-age=900',
+        },
+    });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase';
+import { getRequestUser } from '@/lib/api-auth';
+import { storageFor } from '@/lib/media-storage';
+
+/** DELETE — remove a media row and its files (uploader or admin) */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    let service;
+    try {
+        service = createServiceClient();
+    } catch (err) {
+        console.error('Failed to delete media:', (err as Error).message);
+        return NextResponse.json({ error: 'Máy chủ chưa cấu hình lưu trữ' }, { status: 500 });
+    }
+
+    const user = await getRequestUser(req, service);
+    if (!user) return NextResponse.json({ error: 'Bạn cần đăng nhập' }, { status: 401 });
+
+    const { data: item } = await service.from('media')
+        .select('id, uploader_id, storage_backend, storage_path, thumbnail_path').eq('id', id).maybeSingle();
+    if (!item) return NextResponse.json({ error: 'Không tìm thấy tệp' }, { status: 404 });
+    if (!user.isAdmin && item.uploader_id !== user.id) {
+        return NextResponse.json({ error: 'Bạn không có quyền xóa tệp này' }, { status: 403 });
+    }
+
+    const { error } = await service.from('media').delete().eq('id', id);
+    if (error) {
+        console.error('Failed to delete media:', error.message);
+        return NextResponse.json({ error: 'Xóa thất bại' }, { status: 500 });
+    }
+    // The row is gone either way; a leftover file is only wasted space
+    await storageFor(item.storage_backend).remove([item.storage_path, item.thumbnail_path].filter(Boolean))
+        .catch(err => console.error('Failed to remove media files:', err.message));
+    return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import path from 'path';
+import { localMediaPath } from '@/lib/media-storage';
+import { MEDIA_TYPES } from '@/lib/media';
+
+const CONTENT_TYPES: Record<string, string> = Object.fromEntries(
+    Object.entries(MEDIA_TYPES).map(([mime, ext]) => [`.${ext}`, mime]),
+);
+
+/** GET — serve a file stored by the local storage backend */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+    const { path: segments } = await params;
+    const full = localMediaPath(segments.join('/'));
+    const type = full && CONTENT_TYPES[path.extname(full).toLowerCase()];
+    if (!full || !type) return NextResponse.json({ error: 'Không tìm thấy tệp' }, { status: 404 });
+
+    try {
+        const data = await fs.readFile(full);
+        return new NextResponse(new Uint8Array(data), {
+            headers: {
+                'Content-Type': type,
+                'Content-Length': String(data.length),
+                // Paths contain a random id and files are never overwritten
+                'Cache-Control': 'public, max-age=31536000, immutable',
+                'X-Content-Type-Options': 'nosniff',
+            },
+        });
+    } catch {
+        return NextResponse.json({ error: 'Không tìm thấy tệp' }, { status: 404 });
+    }
+}
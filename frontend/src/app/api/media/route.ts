@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase';
+import { getRequestUser } from '@/lib/api-auth';
+import { getMediaStorage } from '@/lib/media-storage';
+import { MediaError, processMedia } from '@/lib/media-processing';
+import { DEFAULT_MEDIA_SETTINGS, DOC_TYPE_LABELS, MEDIA_TYPES, defaultDocType, type DocType, type MediaSettings } from '@/lib/media';
+
+/** Stored under <year>/<month>/<id>.<ext>, thumbnails under thumbs/<id>.webp */
+function storagePaths(id: string, mimeType: string) {
+    const now = new Date();
+    const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+    return {
+        original: `${now.getUTCFullYear()}/${month}/${id}.${MEDIA_TYPES[mimeType]}`,
+        thumbnail: `thumbs/${id}.webp`,
+    };
+}
+
+/**
+ * POST — upload one file (multipart: file, title?, description?, doc_type?).
+ * Checks size and the actual file type, strips GPS data when the admin
+ * setting asks for it, stores the file and its thumbnail, then inserts the
+ * `media` row as PENDING.
+ */
+export async function POST(req: NextRequest) {
+    let service;
+    try {
+        service = createServiceClient();
+    } catch (err) {
+        console.error('Failed to upload media:', (err as Error).message);
+        return NextResponse.json({ error: 'Máy chủ chưa cấu hình lưu trữ' }, { status: 500 });
+    }
+
+    const user = await getRequestUser(req, service);
+    if (!user) return NextResponse.json({ error: 'Bạn cần đăng nhập để tải lên' }, { status: 401 });
+
+    const form = await req.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!(file instanceof File)) return NextResponse.json({ error: 'Không có tệp' }, { status: 400 });
+
+    const { data: settingsRow } = await service.from('app_settings').select('value').eq('key', 'media').maybeSingle();
+    const settings: MediaSettings = { ...DEFAULT_MEDIA_SETTINGS, ...(settingsRow?.value as Partial<MediaSettings> | undefined) };
+    if (file.size > settings.max_size_mb * 1048576) {
+        return NextResponse.json({ error: `Tệp quá lớn (tối đa ${settings.max_size_mb} MB)` }, { status: 413 });
+    }
+
+    let processed;
+    try {
+        processed = await processMedia(Buffer.from(await file.arrayBuffer()), { stripLocation: settings.strip_location });
+    } catch (err) {
+        if (err instanceof MediaError) return NextResponse.json({ error: err.message }, { status: err.status });
+        console.error('Failed to process media:', (err as Error).message);
+        return NextResponse.json({ error: 'Không xử lý được tệp' }, { status: 500 });
+    }
+
+    const storage = getMediaStorage();
+    const id = crypto.randomUUID();
+    const paths = storagePaths(id, processed.mimeType);
+    const stored: string[] = [];
+    try {
+        await storage.put(paths.original, processed.data, processed.mimeType);
+        stored.push(paths.original);
+        if (processed.thumbnail) {
+            await storage.put(paths.thumbnail, processed.thumbnail, 'image/webp');
+            stored.push(paths.thumbnail);
+        }
+    } catch (err) {
+        console.error('Failed to store media:', (err as Error).message);
+        await storage.remove(stored).catch(() => { });
+        return NextResponse.json({ error: 'Không lưu được tệp' }, { status: 500 });
+    }
+
+    const title = String(form?.get('title') ?? '').trim();
+    const description = String(form?.get('description') ?? '').trim();
+    const docType = String(form?.get('doc_type') ?? '');
+    const { data, error } = await service.from('media').insert({
+        id,
+        file_name: file.name,
+        mime_type: processed.mimeType,
+        file_size: processed.data.length,
+        title: title || null,
+        description: description || null,
+        state: 'PENDING',
+        uploader_id: user.id,
+        storage_backend: storage.name,
+        storage_path: paths.original,
+        thumbnail_path: processed.thumbnail ? paths.thumbnail : null,
+        width: processed.width,
+        height: processed.height,
+        location_removed: processed.locationRemoved,
+        doc_type: docType in DOC_TYPE_LABELS ? docType as DocType : defaultDocType(processed.mimeType),
+    }).select('*, uploader:profiles(display_name, email)').single();
+    if (error) {
+        console.error('Failed to insert media:', error.message);
+        await storage.remove(stored).catch(() => { });
+        return NextResponse.json({ error: 'Không lưu được thông tin tệp' }, { status: 500 });
+    }
+    return NextResponse.json(data, { status: 201 });
+}
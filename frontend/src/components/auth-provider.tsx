@@ -12,6 +12,7 @@ interface Profile {
     display_name: string | null;
     role: UserRole;
     person_handle: string | null;
+    claimed_handle: string | null;     // waiting for admin confirmation
     avatar_url: string | null;
 }
 
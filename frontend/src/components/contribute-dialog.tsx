@@ -1,22 +1,18 @@
 'use client';
 
-import { useState } from 'react';
-import { X, Send, MessageSquarePlus } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { X, Send, MessageSquarePlus, UserPlus, Pencil, Plus, Paperclip, FileText } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/components/auth-provider';
-
-const CONTRIBUTION_FIELDS = [
-    { key: 'birth_year', label: 'Năm sinh', type: 'number', placeholder: 'VD: 1950' },
-    { key: 'death_year', label: 'Năm mất', type: 'number', placeholder: 'VD: 2020' },
-    { key: 'display_name', label: 'Họ tên', type: 'text', placeholder: 'VD: Lê Văn A' },
-    { key: 'biography', label: 'Tiểu sử', type: 'textarea', placeholder: 'Thông tin tiểu sử...' },
-    { key: 'occupation', label: 'Nghề nghiệp', type: 'text', placeholder: 'VD: Giáo viên' },
-    { key: 'address', label: 'Địa chỉ', type: 'text', placeholder: 'VD: Hà Nội' },
-    { key: 'phone', label: 'Số điện thoại', type: 'text', placeholder: 'VD: 0901234567' },
-    { key: 'other', label: 'Thông tin khác', type: 'textarea', placeholder: 'Bổ sung thông tin...' },
-];
+import { fetchMediaSettings, fetchRelatives, submitContribution, type RelativeFamily } from '@/lib/supabase-data';
+import { MEDIA_ACCEPT, checkMediaFile, uploadMedia } from '@/lib/media';
+import {
+    CONTRIBUTION_FIELDS, RELATION_LABELS, changeSetFields, contributionField, currentFieldValue, proposalFields,
+    type FieldChange, type PersonProposal, type ProposalRelation,
+} from '@/lib/contributions';
 
 interface ContributeDialogProps {
     personHandle: string;
@@ -26,47 +22,105 @@ interface ContributeDialogProps {
 
 export function ContributeDialog({ personHandle, personName, onClose }: ContributeDialogProps) {
     const { user, profile, isLoggedIn } = useAuth();
-    const [selectedField, setSelectedField] = useState(CONTRIBUTION_FIELDS[0].key);
-    const [newValue, setNewValue] = useState('');
+    const [fields, setFields] = useState([CONTRIBUTION_FIELDS[0].key]);
+    const [values, setValues] = useState<Record<string, string>>({});
     const [note, setNote] = useState('');
-    const [sending, setSending] = useState(false);
-    const [sent, setSent] = useState(false);
+    const [files, setFiles] = useState<File[]>([]);
+    const [sending, setSending] = useState<string | null>(null);
+    const [sentId, setSentId] = useState<string | null>(null);
     const [error, setError] = useState('');
+    const [person, setPerson] = useState<Record<string, unknown> | null>(null);
+    const [mode, setMode] = useState<'field' | 'person'>('field');
+    const [families, setFamilies] = useState<RelativeFamily[]>([]);
+    const [relation, setRelation] = useState<ProposalRelation>('child');
+    const [family, setFamily] = useState('');
+    const [name, setName] = useState('');
+    const [gender, setGender] = useState(1);
+    const [birthYear, setBirthYear] = useState('');
+    const [deathYear, setDeathYear] = useState('');
+    const [deceased, setDeceased] = useState(false);
+    const [personNotes, setPersonNotes] = useState('');
+    const fileRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        supabase.from('people').select('*').eq('handle', personHandle).maybeSingle()
+            .then(({ data }) => setPerson(data));
+        fetchRelatives(personHandle).then(r => {
+            setFamilies(r?.families ?? []);
+            // A new child most likely belongs to the first (or only) couple
+            if (r?.families[0]) setFamily(r.families[0].handle);
+        });
+    }, [personHandle]);
 
-    const fieldInfo = CONTRIBUTION_FIELDS.find(f => f.key === selectedField)!;
+    const unusedFields = CONTRIBUTION_FIELDS.filter(f => !fields.includes(f.key));
 
     const handleSubmit = async () => {
-        if (!newValue.trim()) { setError('Vui lòng nhập thông tin'); return; }
+        const changes: FieldChange[] = fields.filter(k => values[k]?.trim()).map(k => {
+            const field = contributionField(k)!;
+            return {
+                field: k,
+                label: field.label,
+                // What the person showed when sent; approval is refused if it changed meanwhile
+                old_value: field.append ? null : currentFieldValue(person, field),
+                new_value: values[k].trim(),
+            };
+        });
+        if (mode === 'field' && changes.length === 0) { setError('Vui lòng nhập thông tin'); return; }
+        if (mode === 'person' && !name.trim()) { setError('Vui lòng nhập họ tên'); return; }
         if (!isLoggedIn || !user) { setError('Bạn cần đăng nhập để đóng góp'); return; }
 
-        setSending(true);
         setError('');
+        const settings = await fetchMediaSettings();
+        for (const file of files) {
+            const problem = checkMediaFile(file, settings);
+            if (problem) { setError(`${file.name}: ${problem}`); return; }
+        }
 
-        const { error: insertError } = await supabase.from('contributions').insert({
-            author_id: user.id,
-            author_email: profile?.email || user.email || '',
+        // Evidence goes into the library first (pending review like any upload), then gets linked
+        const evidence: string[] = [];
+        for (const file of files) {
+            setSending(`Đang tải ${file.name}...`);
+            const { item, error: uploadError } = await uploadMedia(file, { title: `Tư liệu đóng góp cho ${personName}` });
+            if (!item) {
+                setSending(null);
+                setError(`${file.name}: ${uploadError}`);
+                return;
+            }
+            evidence.push(item.id);
+        }
+
+        setSending('Đang gửi...');
+        const proposal: PersonProposal = {
+            relation,
+            family: relation === 'child' ? family || null : null,
+            person: {
+                display_name: name.trim(),
+                gender,
+                birth_year: parseInt(birthYear) || null,
+                death_year: parseInt(deathYear) || null,
+                is_living: !deceased && !deathYear,
+                notes: personNotes.trim() || null,
+            },
+        };
+        const { id, error: submitError } = await submitContribution({
             person_handle: personHandle,
             person_name: personName,
-            field_name: selectedField,
-            field_label: fieldInfo.label,
-            old_value: null,
-            new_value: newValue.trim(),
             note: note.trim() || null,
-            status: 'pending',
-        });
+            ...(mode === 'person' ? proposalFields(proposal) : changeSetFields(changes)),
+        }, { id: user.id, email: profile?.email || user.email || '' }, evidence);
 
-        setSending(false);
+        setSending(null);
 
-        if (insertError) {
-            setError(insertError.message);
+        if (submitError && !id) {
+            setError(submitError.message);
         } else {
-            setSent(true);
+            setSentId(id);
         }
     };
 
     return (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm" onClick={onClose}>
-            <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-[420px] max-w-[95vw] animate-in zoom-in-95 fade-in duration-200"
+            <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-[420px] max-w-[95vw] max-h-[90vh] overflow-y-auto animate-in zoom-in-95 fade-in duration-200"
                 onClick={e => e.stopPropagation()}>
                 {/* Header */}
                 <div className="flex items-center justify-between px-5 py-4 border-b">
@@ -80,15 +134,18 @@ export function ContributeDialog({ personHandle, personName, onClose }: Contribu
                     <button onClick={onClose} className="p-1 rounded-lg hover:bg-muted"><X className="w-4 h-4" /></button>
                 </div>
 
-                {sent ? (
+                {sentId ? (
                     /* Success state */
                     <div className="p-8 text-center space-y-3">
                         <div className="w-14 h-14 rounded-full bg-green-100 mx-auto flex items-center justify-center">
                             <Send className="w-6 h-6 text-green-600" />
                         </div>
                         <h4 className="font-semibold text-green-700">Đã gửi đóng góp!</h4>
-                        <p className="text-xs text-muted-foreground">Quản trị viên sẽ xem xét và phê duyệt.</p>
-                        <Button variant="outline" size="sm" onClick={onClose}>Đóng</Button>
+                        <p className="text-xs text-muted-foreground">Quản trị viên sẽ xem xét và phê duyệt. Bạn có thể theo dõi và trao đổi thêm ở trang đóng góp.</p>
+                        <div className="flex justify-center gap-2">
+                            <Button variant="outline" size="sm" asChild><Link href={`/contributions/${sentId}`}>Xem đóng góp</Link></Button>
+                            <Button variant="outline" size="sm" onClick={onClose}>Đóng</Button>
+                        </div>
                     </div>
                 ) : (
                     /* Form */
@@ -103,40 +160,127 @@ export function ContributeDialog({ personHandle, personName, onClose }: Contribu
                             <div className="rounded-lg bg-destructive/10 p-3 text-xs text-destructive">{error}</div>
                         )}
 
-                        {/* Field selector */}
-                        <div className="space-y-1.5">
-                            <label className="text-xs font-medium text-muted-foreground">Loại thông tin</label>
-                            <select
-                                value={selectedField}
-                                onChange={e => setSelectedField(e.target.value)}
-                                className="w-full rounded-lg border px-3 py-2 text-sm bg-background"
-                            >
-                                {CONTRIBUTION_FIELDS.map(f => (
-                                    <option key={f.key} value={f.key}>{f.label}</option>
-                                ))}
-                            </select>
+                        {/* Mode */}
+                        <div className="grid grid-cols-2 gap-1 rounded-lg border p-0.5 text-xs">
+                            {([['field', 'Sửa thông tin', Pencil], ['person', 'Thêm người thân', UserPlus]] as const).map(([m, label, Icon]) => (
+                                <button key={m} onClick={() => { setMode(m); setError(''); }}
+                                    className={`flex items-center justify-center gap-1.5 rounded-md px-2 py-1.5 font-medium transition-colors ${mode === m ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}>
+                                    <Icon className="w-3.5 h-3.5" /> {label}
+                                </button>
+                            ))}
                         </div>
 
-                        {/* Value input */}
-                        <div className="space-y-1.5">
-                            <label className="text-xs font-medium text-muted-foreground">{fieldInfo.label}</label>
-                            {fieldInfo.type === 'textarea' ? (
+                        {mode === 'person' ? (
+                            /* New relative */
+                            <div className="space-y-3">
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div className="space-y-1.5">
+                                        <label className="text-xs font-medium text-muted-foreground">Quan hệ với {personName}</label>
+                                        <select value={relation} onChange={e => setRelation(e.target.value as ProposalRelation)}
+                                            className="w-full rounded-lg border px-3 py-2 text-sm bg-background">
+                                            {(Object.keys(RELATION_LABELS) as ProposalRelation[]).map(r => (
+                                                <option key={r} value={r}>{RELATION_LABELS[r]}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="space-y-1.5">
+                                        <label className="text-xs font-medium text-muted-foreground">Giới tính</label>
+                                        <select value={gender} onChange={e => setGender(Number(e.target.value))}
+                                            className="w-full rounded-lg border px-3 py-2 text-sm bg-background">
+                                            <option value={1}>Nam</option>
+                                            <option value={2}>Nữ</option>
+                                        </select>
+                                    </div>
+                                </div>
+                                {relation === 'child' && (
+                                    <div className="space-y-1.5">
+                                        <label className="text-xs font-medium text-muted-foreground">Con của</label>
+                                        <select value={family} onChange={e => setFamily(e.target.value)}
+                                            className="w-full rounded-lg border px-3 py-2 text-sm bg-background">
+                                            {families.map(f => (
+                                                <option key={f.handle} value={f.handle}>
+                                                    {personName} & {f.partner?.display_name ?? 'chưa rõ'} ({f.children.length} con)
+                                                </option>
+                                            ))}
+                                            <option value="">{personName} & người chưa có trong cây</option>
+                                        </select>
+                                    </div>
+                                )}
+                                <Input value={name} onChange={e => setName(e.target.value)} placeholder="Họ tên, VD: Lê Văn B" />
+                                <div className="grid grid-cols-2 gap-2">
+                                    <Input type="number" value={birthYear} onChange={e => setBirthYear(e.target.value)} placeholder="Năm sinh" />
+                                    <Input type="number" value={deathYear} onChange={e => setDeathYear(e.target.value)} placeholder="Năm mất" />
+                                </div>
+                                <label className="flex items-center gap-2 text-xs">
+                                    <input type="checkbox" checked={deceased || !!deathYear} disabled={!!deathYear}
+                                        onChange={e => setDeceased(e.target.checked)} />
+                                    Đã mất (kể cả khi không rõ năm)
+                                </label>
                                 <textarea
-                                    value={newValue}
-                                    onChange={e => setNewValue(e.target.value)}
-                                    placeholder={fieldInfo.placeholder}
-                                    className="w-full rounded-lg border px-3 py-2 text-sm bg-background min-h-[80px] resize-y"
-                                    rows={3}
-                                />
-                            ) : (
-                                <Input
-                                    type={fieldInfo.type}
-                                    value={newValue}
-                                    onChange={e => setNewValue(e.target.value)}
-                                    placeholder={fieldInfo.placeholder}
+                                    value={personNotes}
+                                    onChange={e => setPersonNotes(e.target.value)}
+                                    placeholder="Thông tin thêm, VD: mất khi còn nhỏ"
+                                    className="w-full rounded-lg border px-3 py-2 text-sm bg-background min-h-[60px] resize-y"
+                                    rows={2}
                                 />
-                            )}
-                        </div>
+                            </div>
+                        ) : (
+                            <>
+                                {/* Fields */}
+                                {fields.map(key => {
+                                    const field = contributionField(key)!;
+                                    const current = currentFieldValue(person, field);
+                                    const setValue = (v: string) => setValues(prev => ({ ...prev, [key]: v }));
+                                    return (
+                                        <div key={key} className="space-y-1.5">
+                                            <div className="flex items-center justify-between">
+                                                <label className="text-xs font-medium text-muted-foreground">{field.label}</label>
+                                                {fields.length > 1 && (
+                                                    <button onClick={() => setFields(fields.filter(k => k !== key))} className="p-0.5 rounded hover:bg-muted" title="Bỏ thông tin này">
+                                                        <X className="w-3 h-3" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                            {current && (
+                                                <p className="text-xs text-muted-foreground line-clamp-3">
+                                                    {field.append ? 'Ghi chú hiện có' : 'Hiện tại'}: <span className="text-foreground">{current}</span>
+                                                </p>
+                                            )}
+                                            {field.type === 'textarea' ? (
+                                                <textarea
+                                                    value={values[key] ?? ''}
+                                                    onChange={e => setValue(e.target.value)}
+                                                    placeholder={field.placeholder}
+                                                    className="w-full rounded-lg border px-3 py-2 text-sm bg-background min-h-[80px] resize-y"
+                                                    rows={3}
+                                                />
+                                            ) : (
+                                                <Input
+                                                    type={field.type}
+                                                    value={values[key] ?? ''}
+                                                    onChange={e => setValue(e.target.value)}
+                                                    placeholder={field.placeholder}
+                                                />
+                                            )}
+                                        </div>
+                                    );
+                                })}
+
+                                {unusedFields.length > 0 && (
+                                    <div className="flex items-center gap-2">
+                                        <Plus className="w-3.5 h-3.5 text-muted-foreground" />
+                                        <select
+                                            value=""
+                                            onChange={e => e.target.value && setFields([...fields, e.target.value])}
+                                            className="flex-1 rounded-lg border px-3 py-1.5 text-xs bg-background"
+                                        >
+                                            <option value="">Thêm thông tin khác cần sửa...</option>
+                                            {unusedFields.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+                                        </select>
+                                    </div>
+                                )}
+                            </>
+                        )}
 
                         {/* Note */}
                         <div className="space-y-1.5">
@@ -148,9 +292,25 @@ export function ContributeDialog({ personHandle, personName, onClose }: Contribu
                             />
                         </div>
 
+                        {/* Evidence */}
+                        <div className="space-y-1.5">
+                            <input ref={fileRef} type="file" multiple accept={MEDIA_ACCEPT} className="hidden"
+                                onChange={e => { setFiles([...files, ...Array.from(e.target.files ?? [])]); e.target.value = ''; }} />
+                            {files.map((f, i) => (
+                                <div key={`${f.name}-${i}`} className="flex items-center gap-2 rounded-lg border px-2 py-1 text-xs">
+                                    <FileText className="w-3.5 h-3.5 text-muted-foreground shrink-0" />
+                                    <span className="flex-1 truncate">{f.name}</span>
+                                    <button onClick={() => setFiles(files.filter((_, j) => j !== i))} className="p-0.5 rounded hover:bg-muted"><X className="w-3 h-3" /></button>
+                                </div>
+                            ))}
+                            <Button variant="outline" size="sm" className="w-full text-xs" onClick={() => fileRef.current?.click()}>
+                                <Paperclip className="w-3.5 h-3.5 mr-1.5" /> Đính kèm ảnh, bản scan làm bằng chứng
+                            </Button>
+                        </div>
+
                         {/* Submit */}
-                        <Button className="w-full" disabled={sending || !isLoggedIn} onClick={handleSubmit}>
-                            {sending ? 'Đang gửi...' : <><Send className="w-4 h-4 mr-2" /> Gửi đóng góp</>}
+                        <Button className="w-full" disabled={!!sending || !isLoggedIn} onClick={handleSubmit}>
+                            {sending ?? <><Send className="w-4 h-4 mr-2" /> Gửi đóng góp</>}
                         </Button>
 
                         <p className="text-[10px] text-center text-muted-foreground">
@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { X, Trash2, Loader2, Users, ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { TreeNode, TreeFamily } from '@/lib/tree-layout';
+import { previewDeletion, emptiedFamilies, reparentTargets, type DeletionRefs } from '@/lib/person-deletion';
+import { deletePerson, fetchDeletionRefs } from '@/lib/supabase-data';
+
+interface DeletePersonDialogProps {
+    personHandle: string;
+    treeData: { people: TreeNode[]; families: TreeFamily[] };
+    onClose: () => void;
+    onDeleted: () => void;
+}
+
+/** Preview of a deletion (families, children, comments) with re-parent options; moves the person to the recycle bin */
+export function DeletePersonDialog({ personHandle, treeData, onClose, onDeleted }: DeletePersonDialogProps) {
+    const [refs, setRefs] = useState<DeletionRefs | null>(null);
+    const [reparent, setReparent] = useState<Record<string, string>>({});
+    const [moving, setMoving] = useState<Record<string, boolean>>({});
+    const [targetSearch, setTargetSearch] = useState<Record<string, string>>({});
+    const [removeEmpty, setRemoveEmpty] = useState(true);
+    const [deleting, setDeleting] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => { fetchDeletionRefs(personHandle).then(setRefs); }, [personHandle]);
+
+    const preview = useMemo(() => previewDeletion(personHandle, treeData), [personHandle, treeData]);
+    const targets = useMemo(() => (preview ? reparentTargets(preview, treeData) : []), [preview, treeData]);
+    if (!preview) return null;
+
+    const options = { reparent, removeEmptyFamilies: removeEmpty };
+    const emptied = emptiedFamilies(preview, options);
+    const name = (p: TreeNode | null) => p?.displayName ?? 'không rõ';
+    const missingTarget = Object.keys(moving).some(f => moving[f] && !reparent[f]);
+
+    const handleDelete = async () => {
+        setDeleting(true);
+        setError('');
+        const { error } = await deletePerson(personHandle, options);
+        setDeleting(false);
+        if (error) setError(error.message);
+        else onDeleted();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-[520px] max-w-[95vw] max-h-[90vh] flex flex-col animate-in zoom-in-95 fade-in duration-200"
+                onClick={e => e.stopPropagation()}>
+                {/* Header */}
+                <div className="flex items-center justify-between px-5 py-4 border-b">
+                    <div className="flex items-center gap-2">
+                        <Trash2 className="w-5 h-5 text-red-500" />
+                        <div>
+                            <h3 className="font-semibold text-sm">Xóa thành viên</h3>
+                            <p className="text-xs text-muted-foreground">{preview.person.displayName} · {preview.person.handle}</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-1 rounded-lg hover:bg-muted"><X className="w-4 h-4" /></button>
+                </div>
+
+                <div className="p-5 space-y-4 overflow-y-auto">
+                    {error && (
+                        <div className="rounded-lg bg-destructive/10 p-3 text-xs text-destructive">{error}</div>
+                    )}
+
+                    {/* Families as parent */}
+                    {preview.asParent.map(f => {
+                        const query = (targetSearch[f.family] ?? '').toLowerCase();
+                        const matches = query
+                            ? targets.filter(t => t.label.toLowerCase().includes(query) || t.handle.toLowerCase().includes(query)).slice(0, 30)
+                            : [];
+                        const target = targets.find(t => t.handle === reparent[f.family]);
+                        return (
+                            <div key={f.family} className="rounded-lg border p-3 space-y-2">
+                                <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide flex items-center gap-1">
+                                    <Users className="h-3.5 w-3.5" /> Gia đình {f.family}
+                                </p>
+                                <p className="text-sm">
+                                    {f.partner ? <>Vợ/chồng: <span className="font-medium">{name(f.partner)}</span> (giữ nguyên)</> : 'Không có vợ/chồng trong cây'}
+                                </p>
+                                {f.children.length > 0 ? (
+                                    <>
+                                        <p className="text-sm">
+                                            {f.children.length} con: <span className="text-muted-foreground">{f.children.map(c => c.displayName).join(', ')}</span>
+                                        </p>
+                                        <select
+                                            className="w-full rounded-lg border px-3 py-2 text-sm bg-background"
+                                            value={moving[f.family] ? 'move' : 'keep'}
+                                            onChange={e => {
+                                                const move = e.target.value === 'move';
+                                                setMoving(prev => ({ ...prev, [f.family]: move }));
+                                                if (!move) setReparent(prev => { const next = { ...prev }; delete next[f.family]; return next; });
+                                            }}
+                                        >
+                                            <option value="keep">{f.partner ? `Giữ con trong gia đình với ${name(f.partner)}` : 'Giữ con trong gia đình (không còn cha mẹ)'}</option>
+                                            <option value="move">Chuyển các con sang gia đình khác…</option>
+                                        </select>
+                                        {moving[f.family] && (
+                                            <div className="space-y-1">
+                                                {target ? (
+                                                    <p className="text-xs flex items-center gap-1 text-blue-700">
+                                                        <ArrowRight className="h-3 w-3" /> {target.label} ({target.handle})
+                                                    </p>
+                                                ) : (
+                                                    <p className="text-xs text-amber-600">Chọn gia đình nhận các con</p>
+                                                )}
+                                                <Input
+                                                    className="h-8 text-xs"
+                                                    placeholder="Tìm cha / mẹ mới theo tên..."
+                                                    value={targetSearch[f.family] ?? ''}
+                                                    onChange={e => setTargetSearch(prev => ({ ...prev, [f.family]: e.target.value }))}
+                                                />
+                                                {matches.length > 0 && (
+                                                    <div className="border rounded max-h-36 overflow-y-auto">
+                                                        {matches.map(t => (
+                                                            <button key={t.handle}
+                                                                className="w-full text-left px-2 py-1.5 text-xs hover:bg-blue-50 flex justify-between"
+                                                                onClick={() => {
+                                                                    setReparent(prev => ({ ...prev, [f.family]: t.handle }));
+                                                                    setTargetSearch(prev => ({ ...prev, [f.family]: '' }));
+                                                                }}>
+                                                                <span className="truncate">{t.label}</span>
+                                                                <span className="text-muted-foreground/60 shrink-0 ml-2">{t.handle}</span>
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        )}
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-muted-foreground">Không có con</p>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    {/* Families as child */}
+                    {preview.asChild.length > 0 && (
+                        <div className="text-sm space-y-1">
+                            <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">Bị gỡ khỏi danh sách con của</p>
+                            {preview.asChild.map(f => (
+                                <p key={f.family}>
+                                    {f.parents.length > 0 ? f.parents.map(p => p.displayName).join(' & ') : f.family}
+                                    <span className="text-muted-foreground"> · còn {f.siblings} anh chị em</span>
+                                </p>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Other references */}
+                    <div className="rounded-lg bg-muted/50 p-3 text-xs text-muted-foreground space-y-1">
+                        {refs ? (
+                            <>
+                                <p>{refs.comments} bình luận và {refs.contributions} đóng góp về người này sẽ được cất vào thùng rác cùng hồ sơ.</p>
+                                {refs.accounts.length > 0 && <p>Tài khoản đang liên kết sẽ bị gỡ: {refs.accounts.join(', ')}</p>}
+                            </>
+                        ) : (
+                            <p className="flex items-center gap-1"><Loader2 className="h-3 w-3 animate-spin" /> Đang đếm bình luận, đóng góp...</p>
+                        )}
+                        <p>Admin có thể khôi phục từ Quản trị → Thùng rác.</p>
+                    </div>
+
+                    <label className="flex items-start gap-2 text-sm">
+                        <input type="checkbox" className="mt-1" checked={removeEmpty} onChange={e => setRemoveEmpty(e.target.checked)} />
+                        <span>
+                            Xóa gia đình không còn thành viên
+                            {emptied.length > 0 && <span className="block text-xs text-muted-foreground">{emptied.join(', ')}</span>}
+                        </span>
+                    </label>
+                </div>
+
+                <div className="flex justify-end gap-2 px-5 py-3 border-t">
+                    <Button variant="outline" size="sm" onClick={onClose} disabled={deleting}>Hủy</Button>
+                    <Button variant="destructive" size="sm" onClick={handleDelete} disabled={deleting || !refs || missingTarget}>
+                        {deleting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Trash2 className="h-4 w-4 mr-1" />}
+                        Chuyển vào thùng rác
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { MapPin, Repeat } from 'lucide-react';
+import { solarToLunar, vietnamToday, type SolarDate } from '@/lib/lunar-calendar';
+import { addDays, dayKey, localParts, weekday, type Occurrence } from '@/lib/recurrence';
+import { zodiacYear } from '@/lib/genealogy-types';
+
+export type CalendarView = 'month' | 'week' | 'agenda';
+
+const WEEKDAY_LABELS = ['CN', 'T2', 'T3', 'T4', 'T5', 'T6', 'T7'];
+const WEEKDAY_NAMES = ['Chủ nhật', 'Thứ hai', 'Thứ ba', 'Thứ tư', 'Thứ năm', 'Thứ sáu', 'Thứ bảy'];
+const AGENDA_DAYS = 60;
+
+const TYPE_COLORS: Record<string, string> = {
+    MEMORIAL: 'bg-amber-100 text-amber-900 border-amber-300',
+    MEETING: 'bg-blue-100 text-blue-900 border-blue-300',
+    FESTIVAL: 'bg-rose-100 text-rose-900 border-rose-300',
+    OTHER: 'bg-slate-100 text-slate-800 border-slate-300',
+};
+
+// ═══ Ranges ═══
+
+/** Monday on or before a day */
+function weekStart(date: SolarDate): SolarDate {
+    return addDays(date, -((weekday(date) + 6) % 7));
+}
+
+/** First and last day shown by a view around `cursor` */
+export function viewRange(view: CalendarView, cursor: SolarDate): { from: SolarDate; to: SolarDate } {
+    if (view === 'week') {
+        const from = weekStart(cursor);
+        return { from, to: addDays(from, 6) };
+    }
+    if (view === 'agenda') return { from: cursor, to: addDays(cursor, AGENDA_DAYS - 1) };
+    const from = weekStart({ ...cursor, day: 1 });
+    const next = cursor.month === 12 ? { day: 1, month: 1, year: cursor.year + 1 } : { day: 1, month: cursor.month + 1, year: cursor.year };
+    const to = addDays(weekStart(addDays(next, -1)), 6);
+    return { from, to };
+}
+
+/** Move the cursor one view-length back or forward */
+export function shiftCursor(view: CalendarView, cursor: SolarDate, step: -1 | 1): SolarDate {
+    if (view === 'week') return addDays(cursor, 7 * step);
+    if (view === 'agenda') return addDays(cursor, AGENDA_DAYS * step);
+    const index = cursor.year * 12 + cursor.month - 1 + step;
+    return { day: 1, month: (index % 12) + 1, year: Math.floor(index / 12) };
+}
+
+/** "Tháng 10/2026 · tháng 8 – 9 Bính Ngọ âm lịch" */
+export function viewTitle(view: CalendarView, cursor: SolarDate): string {
+    const { from, to } = viewRange(view, cursor);
+    const solar = view === 'month'
+        ? `Tháng ${cursor.month}/${cursor.year}`
+        : `${from.day}/${from.month} – ${to.day}/${to.month}/${to.year}`;
+    const first = solarToLunar(view === 'month' ? { ...cursor, day: 1 } : from);
+    const last = solarToLunar(view === 'month' ? addDays(shiftCursor('month', { ...cursor, day: 1 }, 1), -1) : to);
+    const months = first.month === last.month && first.leap === last.leap
+        ? `tháng ${first.month}${first.leap ? ' nhuận' : ''}`
+        : `tháng ${first.month}${first.leap ? ' nhuận' : ''} – ${last.month}${last.leap ? ' nhuận' : ''}`;
+    return `${solar} · ${months} ${zodiacYear(last.year)} âm lịch`;
+}
+
+// ═══ Day Cells ═══
+
+/** Lunar label the way wall calendars print it: "1/9" on the first of a month, else the day */
+function lunarLabel(date: SolarDate): { text: string; highlight: boolean } {
+    const lunar = solarToLunar(date);
+    if (lunar.day === 1) return { text: `${lunar.day}/${lunar.month}${lunar.leap ? 'N' : ''}`, highlight: true };
+    return { text: `${lunar.day}`, highlight: lunar.day === 15 };
+}
+
+function groupByDay(occurrences: Occurrence[]): Map<string, Occurrence[]> {
+    const days = new Map<string, Occurrence[]>();
+    for (const o of occurrences) {
+        const key = dayKey(localParts(o.start).date);
+        days.set(key, [...(days.get(key) || []), o]);
+    }
+    return days;
+}
+
+function OccurrenceChip({ occurrence, onOpen, showTime }: { occurrence: Occurrence; onOpen: (o: Occurrence) => void; showTime?: boolean }) {
+    const color = TYPE_COLORS[occurrence.event.type] || TYPE_COLORS.OTHER;
+    return (
+        <button
+            className={`w-full text-left truncate rounded border px-1 py-0.5 text-[11px] leading-tight ${color} ${occurrence.cancelled ? 'line-through opacity-50' : ''}`}
+            onClick={() => onOpen(occurrence)}
+            title={occurrence.title}
+        >
+            {showTime && <span className="font-medium">{localParts(occurrence.start).time} </span>}
+            {occurrence.title}
+        </button>
+    );
+}
+
+interface ViewProps {
+    cursor: SolarDate;
+    occurrences: Occurrence[];
+    onOpen: (occurrence: Occurrence) => void;
+}
+
+export function MonthView({ cursor, occurrences, onOpen }: ViewProps) {
+    const { from, to } = viewRange('month', cursor);
+    const byDay = groupByDay(occurrences);
+    const today = dayKey(vietnamToday());
+    const days: SolarDate[] = [];
+    for (let d = from; dayKey(d) <= dayKey(to); d = addDays(d, 1)) days.push(d);
+
+    return (
+        <div className="rounded-lg border overflow-hidden">
+            <div className="grid grid-cols-7 bg-muted/50 text-xs font-medium text-muted-foreground">
+                {[1, 2, 3, 4, 5, 6, 0].map(wd => <div key={wd} className="px-2 py-1.5 text-center">{WEEKDAY_LABELS[wd]}</div>)}
+            </div>
+            <div className="grid grid-cols-7">
+                {days.map(d => {
+                    const key = dayKey(d);
+                    const lunar = lunarLabel(d);
+                    const items = byDay.get(key) || [];
+                    const outside = d.month !== cursor.month;
+                    return (
+                        <div key={key} className={`min-h-24 border-t border-l p-1 space-y-0.5 ${outside ? 'bg-muted/30 text-muted-foreground' : ''} ${key === today ? 'bg-amber-50' : ''}`}>
+                            <div className="flex items-baseline justify-between">
+                                <span className={`text-sm font-semibold ${weekday(d) === 0 ? 'text-red-600' : ''}`}>{d.day}</span>
+                                <span className={`text-[10px] ${lunar.highlight ? 'text-red-600 font-semibold' : 'text-muted-foreground'}`}>{lunar.text}</span>
+                            </div>
+                            {items.slice(0, 3).map(o => <OccurrenceChip key={`${o.event.id}:${o.date}`} occurrence={o} onOpen={onOpen} />)}
+                            {items.length > 3 && <p className="text-[10px] text-muted-foreground">+{items.length - 3} sự kiện</p>}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
+export function WeekView({ cursor, occurrences, onOpen }: ViewProps) {
+    const { from } = viewRange('week', cursor);
+    const byDay = groupByDay(occurrences);
+    const today = dayKey(vietnamToday());
+
+    return (
+        <div className="grid gap-2 md:grid-cols-7">
+            {Array.from({ length: 7 }, (_, i) => addDays(from, i)).map(d => {
+                const key = dayKey(d);
+                const lunar = solarToLunar(d);
+                const items = byDay.get(key) || [];
+                return (
+                    <div key={key} className={`rounded-lg border p-2 min-h-32 space-y-1 ${key === today ? 'border-amber-400 bg-amber-50' : ''}`}>
+                        <div className="text-center">
+                            <p className={`text-xs ${weekday(d) === 0 ? 'text-red-600' : 'text-muted-foreground'}`}>{WEEKDAY_NAMES[weekday(d)]}</p>
+                            <p className="text-2xl font-bold leading-tight">{d.day}</p>
+                            <p className="text-[10px] text-muted-foreground">
+                                {lunar.day}/{lunar.month}{lunar.leap ? ' nhuận' : ''} âm lịch
+                            </p>
+                        </div>
+                        {items.map(o => <OccurrenceChip key={`${o.event.id}:${o.date}`} occurrence={o} onOpen={onOpen} showTime />)}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+export function AgendaView({ occurrences, onOpen }: ViewProps) {
+    const byDay = groupByDay(occurrences);
+    if (byDay.size === 0) {
+        return <p className="text-sm text-muted-foreground text-center py-12">Không có sự kiện nào trong {AGENDA_DAYS} ngày này</p>;
+    }
+
+    return (
+        <div className="rounded-lg border divide-y">
+            {Array.from(byDay.entries()).map(([key, items]) => {
+                const d = localParts(items[0].start).date;
+                const lunar = solarToLunar(d);
+                return (
+                    <div key={key} className="flex gap-4 p-3">
+                        <div className="w-20 shrink-0 text-center">
+                            <p className="text-xs text-muted-foreground">{WEEKDAY_NAMES[weekday(d)]}</p>
+                            <p className="text-lg font-bold leading-tight">{d.day}/{d.month}</p>
+                            <p className="text-[10px] text-muted-foreground">{lunar.day}/{lunar.month}{lunar.leap ? 'N' : ''} ÂL</p>
+                        </div>
+                        <div className="flex-1 space-y-2 min-w-0">
+                            {items.map(o => (
+                                <button key={`${o.event.id}:${o.date}`} className="block w-full text-left rounded-md hover:bg-accent px-2 py-1" onClick={() => onOpen(o)}>
+                                    <p className={`text-sm font-medium ${o.cancelled ? 'line-through text-muted-foreground' : ''}`}>
+                                        {localParts(o.start).time} · {o.title}
+                                        {o.event.recurrence && <Repeat className="inline h-3 w-3 ml-1 text-muted-foreground" />}
+                                        {o.cancelled && <span className="ml-1 text-xs text-red-600 no-underline">(đã hủy)</span>}
+                                    </p>
+                                    {o.location && (
+                                        <p className="text-xs text-muted-foreground flex items-center gap-1"><MapPin className="h-3 w-3" />{o.location}</p>
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, X, HelpCircle, Download, Printer, UserCheck, Undo2, Users, Utensils, HandCoins } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+    MAX_PARTY_SIZE, RSVP_STATUS_LABELS, rsvpName, rsvpsToCsv, rsvpsToPrintHtml, sortRsvps, summarizeRsvps,
+    type Rsvp, type RsvpStatus,
+} from '@/lib/rsvp';
+import { checkInRsvp } from '@/lib/supabase-data';
+import { supabase } from '@/lib/supabase';
+
+const rsvpOptions = [
+    { status: 'GOING' as const, icon: Check, variant: 'default' as const },
+    { status: 'MAYBE' as const, icon: HelpCircle, variant: 'secondary' as const },
+    { status: 'NOT_GOING' as const, icon: X, variant: 'destructive' as const },
+];
+
+// ═══ Member response ═══
+
+interface RsvpFormProps {
+    eventId: string;
+    occurrenceDate: string | null;   // occurrence of a recurring event, null for a one-off
+    userId: string;
+    mine: Rsvp | null;
+    onSaved: () => void;
+}
+
+/** The signed-in member's response: status, how many people come, contribution and notes */
+export function RsvpForm({ eventId, occurrenceDate, userId, mine, onSaved }: RsvpFormProps) {
+    const [status, setStatus] = useState<RsvpStatus | null>(mine?.status ?? null);
+    const [partySize, setPartySize] = useState(mine?.party_size ?? 1);
+    const [contribution, setContribution] = useState(mine?.contribution ?? '');
+    const [note, setNote] = useState(mine?.note ?? '');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const dirty = !!status && (status !== mine?.status || partySize !== mine?.party_size
+        || contribution.trim() !== (mine?.contribution ?? '') || note.trim() !== (mine?.note ?? ''));
+
+    const save = async () => {
+        if (!status) return;
+        setSaving(true);
+        setError('');
+        const { error } = await supabase
+            .from('event_rsvps')
+            .upsert({
+                event_id: eventId,
+                occurrence_date: occurrenceDate,
+                user_id: userId,
+                status,
+                party_size: status === 'NOT_GOING' ? 1 : partySize,
+                contribution: contribution.trim() || null,
+                note: note.trim() || null,
+            }, { onConflict: 'event_id,occurrence_date,user_id' });
+        setSaving(false);
+        if (error) {
+            console.error('Failed to save rsvp:', error.message);
+            setError('Không lưu được phản hồi, vui lòng thử lại');
+            return;
+        }
+        onSaved();
+    };
+
+    return (
+        <div className="space-y-3 pt-4 border-t">
+            <div className="flex gap-2">
+                {rsvpOptions.map(opt => (
+                    <Button
+                        key={opt.status}
+                        variant={status === opt.status ? opt.variant : 'outline'}
+                        size="sm"
+                        onClick={() => setStatus(opt.status)}
+                    >
+                        <opt.icon className="mr-1 h-4 w-4" />{RSVP_STATUS_LABELS[opt.status]}
+                    </Button>
+                ))}
+            </div>
+            {status && status !== 'NOT_GOING' && (
+                <div className="grid gap-2 sm:grid-cols-[8rem_1fr]">
+                    <label className="flex items-center gap-2 text-sm">
+                        <Users className="h-4 w-4 text-muted-foreground" />
+                        <Input type="number" min={1} max={MAX_PARTY_SIZE} value={partySize}
+                            onChange={e => setPartySize(Math.min(MAX_PARTY_SIZE, Math.max(1, parseInt(e.target.value, 10) || 1)))} />
+                    </label>
+                    <p className="text-xs text-muted-foreground self-center">người trong hộ đi cùng (kể cả bạn)</p>
+                    <Input className="sm:col-span-2" placeholder="Đóng góp (tiền, lễ vật, mâm cỗ...)" value={contribution} onChange={e => setContribution(e.target.value)} />
+                    <Input className="sm:col-span-2" placeholder="Ghi chú (ăn chay, đến muộn...)" value={note} onChange={e => setNote(e.target.value)} />
+                </div>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            {dirty && (
+                <Button size="sm" onClick={save} disabled={saving}>{saving ? 'Đang lưu...' : mine ? 'Cập nhật phản hồi' : 'Gửi phản hồi'}</Button>
+            )}
+        </div>
+    );
+}
+
+// ═══ Organizer dashboard ═══
+
+function download(content: string, fileName: string, type: string) {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+interface RsvpDashboardProps {
+    title: string;
+    when: string;
+    rsvps: Rsvp[];
+    onChanged: () => void;
+}
+
+/** Headcount, contributions and check-in for the event creator or an admin */
+export function RsvpDashboard({ title, when, rsvps, onChanged }: RsvpDashboardProps) {
+    const [busy, setBusy] = useState<string | null>(null);
+    const [arrived, setArrived] = useState<Record<string, number>>({});
+    const [error, setError] = useState('');
+    const summary = summarizeRsvps(rsvps);
+    const rows = sortRsvps(rsvps);
+
+    const setCheckIn = async (r: Rsvp, count: number | null) => {
+        setBusy(r.id);
+        setError('');
+        const { error } = await checkInRsvp(r.id, count);
+        setBusy(null);
+        if (error) setError(error.message);
+        else onChanged();
+    };
+
+    const print = () => {
+        const win = window.open('', '_blank');
+        if (!win) return;
+        win.document.write(rsvpsToPrintHtml(title, when, rsvps));
+        win.document.close();
+        win.focus();
+        win.print();
+    };
+
+    const stats = [
+        { label: 'Tham dự', value: `${summary.people.GOING} người`, sub: `${summary.households.GOING} hộ` },
+        { label: 'Có thể', value: `${summary.people.MAYBE} người`, sub: `${summary.households.MAYBE} hộ` },
+        { label: 'Không đi', value: `${summary.households.NOT_GOING} hộ`, sub: '' },
+        { label: 'Đã đến', value: `${summary.checkedInPeople} người`, sub: `${summary.checkedInHouseholds}/${summary.households.GOING + summary.households.MAYBE} hộ` },
+    ];
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-2">
+                <div>
+                    <CardTitle className="text-base">Quản lý người tham dự</CardTitle>
+                    <CardDescription>Chỉ người tổ chức và admin thấy bảng này</CardDescription>
+                </div>
+                <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => download(rsvpsToCsv(rsvps), 'danh-sach-tham-du.csv', 'text/csv;charset=utf-8')}>
+                        <Download className="mr-1 h-4 w-4" />CSV
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={print}>
+                        <Printer className="mr-1 h-4 w-4" />In
+                    </Button>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    {stats.map(s => (
+                        <div key={s.label} className="rounded-lg border p-3">
+                            <p className="text-xs text-muted-foreground">{s.label}</p>
+                            <p className="text-lg font-semibold">{s.value}</p>
+                            {s.sub && <p className="text-xs text-muted-foreground">{s.sub}</p>}
+                        </div>
+                    ))}
+                </div>
+                {(summary.withContributions > 0 || summary.withNotes > 0) && (
+                    <p className="text-xs text-muted-foreground flex gap-4">
+                        <span className="flex items-center gap-1"><HandCoins className="h-3.5 w-3.5" />{summary.withContributions} hộ đăng ký đóng góp</span>
+                        <span className="flex items-center gap-1"><Utensils className="h-3.5 w-3.5" />{summary.withNotes} hộ có ghi chú</span>
+                    </p>
+                )}
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                {rows.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Chưa có ai phản hồi</p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Họ tên</TableHead>
+                                <TableHead>Phản hồi</TableHead>
+                                <TableHead className="text-right">Số người</TableHead>
+                                <TableHead>Đóng góp / ghi chú</TableHead>
+                                <TableHead>Điểm danh</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {rows.map(r => (
+                                <TableRow key={r.id} className={r.status === 'NOT_GOING' ? 'text-muted-foreground' : ''}>
+                                    <TableCell className="font-medium">{rsvpName(r)}</TableCell>
+                                    <TableCell><Badge variant="secondary">{RSVP_STATUS_LABELS[r.status]}</Badge></TableCell>
+                                    <TableCell className="text-right">{r.status === 'NOT_GOING' ? '—' : r.party_size}</TableCell>
+                                    <TableCell className="text-xs max-w-56">
+                                        {r.contribution && <p>{r.contribution}</p>}
+                                        {r.note && <p className="text-muted-foreground">{r.note}</p>}
+                                    </TableCell>
+                                    <TableCell>
+                                        {r.checked_in_at ? (
+                                            <div className="flex items-center gap-1">
+                                                <Badge className="bg-green-600">{r.checked_in_count ?? r.party_size} người đã đến</Badge>
+                                                <Button size="icon" variant="ghost" className="h-7 w-7" title="Bỏ điểm danh"
+                                                    disabled={busy === r.id} onClick={() => setCheckIn(r, null)}>
+                                                    <Undo2 className="h-3.5 w-3.5" />
+                                                </Button>
+                                            </div>
+                                        ) : r.status !== 'NOT_GOING' && (
+                                            <div className="flex items-center gap-1">
+                                                <Input type="number" min={0} max={MAX_PARTY_SIZE} className="h-7 w-14 px-1.5"
+                                                    value={arrived[r.id] ?? r.party_size}
+                                                    onChange={e => setArrived({ ...arrived, [r.id]: Math.max(0, parseInt(e.target.value, 10) || 0) })} />
+                                                <Button size="sm" variant="outline" className="h-7" disabled={busy === r.id}
+                                                    onClick={() => setCheckIn(r, arrived[r.id] ?? r.party_size)}>
+                                                    <UserCheck className="mr-1 h-3.5 w-3.5" />Đã đến
+                                                </Button>
+                                            </div>
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
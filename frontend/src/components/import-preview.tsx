@@ -0,0 +1,91 @@
+'use client';
+
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ImportBatch, ImportPreview as Preview } from '@/lib/tree-import';
+
+const MAX_ROWS = 200;
+
+interface ImportPreviewProps {
+    batch: ImportBatch;
+    preview: Preview;
+}
+
+/** Dry-run summary shown before an import is committed */
+export function ImportPreview({ batch, preview }: ImportPreviewProps) {
+    const counts = [
+        { label: 'Thành viên trong tệp', value: batch.people.length },
+        { label: 'Gia đình trong tệp', value: batch.families.length },
+        { label: 'Thành viên mới', value: preview.newPeople },
+        { label: 'Gia đình mới', value: preview.newFamilies },
+        { label: 'Trùng mã', value: preview.conflicts.length },
+        { label: 'Lỗi / Cảnh báo', value: `${preview.errors} / ${preview.warnings}` },
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {counts.map(c => (
+                    <div key={c.label} className="rounded-lg border p-3 text-center">
+                        <p className="text-2xl font-bold">{c.value}</p>
+                        <p className="text-xs text-muted-foreground">{c.label}</p>
+                    </div>
+                ))}
+            </div>
+
+            {preview.conflicts.length > 0 && (
+                <div className="space-y-2">
+                    <p className="text-sm font-medium">Trùng với dữ liệu hiện có</p>
+                    <div className="rounded-lg border max-h-64 overflow-y-auto">
+                        <Table>
+                            <TableHeader><TableRow>
+                                <TableHead>Loại</TableHead><TableHead>Mã</TableHead><TableHead>Trong tệp</TableHead><TableHead>Hiện có</TableHead>
+                            </TableRow></TableHeader>
+                            <TableBody>
+                                {preview.conflicts.slice(0, MAX_ROWS).map(c => (
+                                    <TableRow key={`${c.kind}-${c.handle}`}>
+                                        <TableCell><Badge variant="secondary">{c.kind === 'person' ? 'Thành viên' : 'Gia đình'}</Badge></TableCell>
+                                        <TableCell className="font-mono text-xs">{c.handle}</TableCell>
+                                        <TableCell>{c.incoming}</TableCell>
+                                        <TableCell className={c.incoming !== c.existing ? 'text-amber-600' : 'text-muted-foreground'}>{c.existing}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </div>
+            )}
+
+            {batch.issues.length > 0 && (
+                <div className="space-y-2">
+                    <p className="text-sm font-medium">Báo cáo từng bản ghi</p>
+                    <div className="rounded-lg border max-h-64 overflow-y-auto">
+                        <Table>
+                            <TableHeader><TableRow>
+                                <TableHead className="w-8" /><TableHead>Bản ghi</TableHead><TableHead>Dòng</TableHead><TableHead>Chi tiết</TableHead>
+                            </TableRow></TableHeader>
+                            <TableBody>
+                                {batch.issues.slice(0, MAX_ROWS).map((issue, i) => (
+                                    <TableRow key={i}>
+                                        <TableCell>
+                                            {issue.severity === 'error'
+                                                ? <XCircle className="h-4 w-4 text-red-500" />
+                                                : <AlertTriangle className="h-4 w-4 text-amber-500" />}
+                                        </TableCell>
+                                        <TableCell className="font-mono text-xs">{issue.record}</TableCell>
+                                        <TableCell className="text-xs text-muted-foreground">{issue.line ?? '—'}</TableCell>
+                                        <TableCell className="text-xs whitespace-normal">{issue.message}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                    {batch.issues.length > MAX_ROWS && (
+                        <p className="text-xs text-muted-foreground">… và {batch.issues.length - MAX_ROWS} mục khác</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
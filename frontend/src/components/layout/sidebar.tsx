@@ -17,6 +17,13 @@ import {
     Contact,
     Newspaper,
     CalendarDays,
+    FileUp,
+    ShieldCheck,
+    Trash2,
+    GitMerge,
+    HeartHandshake,
+    Wallet,
+    MessageSquarePlus,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -29,16 +36,23 @@ const navItems = [
     { href: '/directory', label: 'Danh bạ', icon: Contact },
     { href: '/events', label: 'Sự kiện', icon: CalendarDays },
     { href: '/tree', label: 'Cây gia phả', icon: TreePine },
+    { href: '/my-family', label: 'Gia đình tôi', icon: HeartHandshake },
     { href: '/book', label: 'Sách gia phả', icon: BookOpen },
     { href: '/people', label: 'Thành viên', icon: Users },
     { href: '/media', label: 'Thư viện', icon: Image },
+    { href: '/contributions', label: 'Đóng góp của tôi', icon: MessageSquarePlus },
 ];
 
 const adminItems = [
     { href: '/admin/users', label: 'Quản lý Users', icon: Shield },
     { href: '/admin/edits', label: 'Kiểm duyệt', icon: ClipboardCheck },
+    { href: '/admin/fund', label: 'Quỹ họ', icon: Wallet },
     { href: '/admin/audit', label: 'Audit Log', icon: FileText },
     { href: '/admin/backup', label: 'Backup', icon: Database },
+    { href: '/admin/import', label: 'Nhập dữ liệu', icon: FileUp },
+    { href: '/admin/integrity', label: 'Kiểm tra dữ liệu', icon: ShieldCheck },
+    { href: '/admin/duplicates', label: 'Hồ sơ trùng', icon: GitMerge },
+    { href: '/admin/trash', label: 'Thùng rác', icon: Trash2 },
 ];
 
 export function Sidebar() {
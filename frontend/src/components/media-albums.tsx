@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { CalendarDays, FileText, FolderOpen, Images, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/lib/supabase';
+import { fetchAlbums, saveAlbum, type AlbumDraft } from '@/lib/supabase-data';
+import { ALBUM_KIND_LABELS, DOC_TYPE_LABELS, isImage, thumbnailUrl, type AlbumKind, type MediaAlbum, type MediaItem } from '@/lib/media';
+
+// ═══ Thumbnails ═══
+
+/** Square preview: the WebP thumbnail for images, an icon and the document type otherwise */
+export function MediaThumb({ item, className = '' }: { item: MediaItem; className?: string }) {
+    const thumb = thumbnailUrl(item);
+    if (thumb && isImage(item.mime_type)) {
+        return (
+            // Thumbnails are resized WebP made on upload
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={thumb} alt={item.title || item.file_name} loading="lazy" className={`h-full w-full object-cover ${className}`} />
+        );
+    }
+    return (
+        <div className={`h-full w-full flex flex-col items-center justify-center gap-2 p-2 text-center text-muted-foreground ${className}`}>
+            <FileText className="h-10 w-10" />
+            <span className="text-xs">{DOC_TYPE_LABELS[item.doc_type] ?? item.mime_type}</span>
+        </div>
+    );
+}
+
+// ═══ Album card ═══
+
+export function AlbumCard({ album }: { album: MediaAlbum }) {
+    const count = album.items?.[0]?.count ?? 0;
+    const Icon = album.kind === 'COLLECTION' ? FolderOpen : Images;
+    return (
+        <Link href={`/media/albums/${album.id}`}>
+            <Card className="overflow-hidden py-0 gap-0 hover:shadow-md transition-shadow h-full">
+                <div className="aspect-[4/3] bg-muted">
+                    {album.cover ? <MediaThumb item={album.cover} /> : (
+                        <div className="h-full w-full flex items-center justify-center text-muted-foreground"><Icon className="h-12 w-12" /></div>
+                    )}
+                </div>
+                <CardContent className="p-3 space-y-1">
+                    <p className="font-medium text-sm truncate">{album.title}</p>
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                        <Icon className="h-3 w-3" />{ALBUM_KIND_LABELS[album.kind]} · {count} tư liệu
+                    </p>
+                    {album.event && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1 truncate">
+                            <CalendarDays className="h-3 w-3 flex-shrink-0" />{album.event.title}
+                        </p>
+                    )}
+                </CardContent>
+            </Card>
+        </Link>
+    );
+}
+
+// ═══ Create / edit ═══
+
+interface EventOption {
+    id: string;
+    title: string;
+    start_at: string;
+}
+
+interface AlbumDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    userId: string;
+    /** Album being edited; a new one is created when omitted */
+    album?: MediaAlbum;
+    /** Event preselected for a new album */
+    eventId?: string;
+    onSaved: (id: string) => void;
+}
+
+export function AlbumDialog({ open, onOpenChange, userId, album, eventId: initialEventId, onSaved }: AlbumDialogProps) {
+    const [title, setTitle] = useState(album?.title ?? '');
+    const [description, setDescription] = useState(album?.description ?? '');
+    const [kind, setKind] = useState<AlbumKind>(album?.kind ?? 'ALBUM');
+    const [eventId, setEventId] = useState(album?.event_id ?? initialEventId ?? '');
+    const [events, setEvents] = useState<EventOption[]>([]);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!open) return;
+        supabase.from('events').select('id, title, start_at').order('start_at', { ascending: false }).limit(200)
+            .then(({ data }) => setEvents((data || []) as EventOption[]));
+    }, [open]);
+
+    const save = async () => {
+        if (!title.trim()) return;
+        setSaving(true);
+        setError('');
+        const draft: AlbumDraft = {
+            id: album?.id,
+            title: title.trim(),
+            description: description.trim() || null,
+            kind,
+            event_id: eventId || null,
+        };
+        const { id, error } = await saveAlbum(draft, userId);
+        setSaving(false);
+        if (error || !id) {
+            setError(error?.message ?? 'Không lưu được album');
+            return;
+        }
+        onOpenChange(false);
+        onSaved(id);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader><DialogTitle>{album ? 'Sửa album' : 'Tạo album'}</DialogTitle></DialogHeader>
+                <div className="space-y-3">
+                    <div className="flex rounded-md border p-0.5 w-fit">
+                        {(Object.keys(ALBUM_KIND_LABELS) as AlbumKind[]).map(k => (
+                            <Button key={k} size="sm" variant={kind === k ? 'secondary' : 'ghost'} onClick={() => setKind(k)}>
+                                {ALBUM_KIND_LABELS[k]}
+                            </Button>
+                        ))}
+                    </div>
+                    <Input placeholder="Tên album (vd. Giỗ tổ 2024, Văn tự ruộng đất)" value={title} onChange={e => setTitle(e.target.value)} />
+                    <Textarea placeholder="Mô tả" value={description} onChange={e => setDescription(e.target.value)} rows={3} />
+                    <select className="w-full rounded-md border px-3 py-2 text-sm bg-background" value={eventId} onChange={e => setEventId(e.target.value)}>
+                        <option value="">— Không gắn với sự kiện —</option>
+                        {events.map(ev => (
+                            <option key={ev.id} value={ev.id}>{new Date(ev.start_at).toLocaleDateString('vi-VN')} · {ev.title}</option>
+                        ))}
+                    </select>
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                    <Button className="w-full" onClick={save} disabled={saving || !title.trim()}>
+                        {saving ? 'Đang lưu...' : album ? 'Lưu' : 'Tạo album'}
+                    </Button>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+// ═══ Event albums ═══
+
+/** Albums linked to an event, shown on the event page */
+export function EventAlbums({ eventId, userId }: { eventId: string; userId?: string }) {
+    const router = useRouter();
+    const [albums, setAlbums] = useState<MediaAlbum[]>([]);
+    const [creating, setCreating] = useState(false);
+
+    useEffect(() => {
+        fetchAlbums(eventId).then(setAlbums);
+    }, [eventId]);
+
+    if (albums.length === 0 && !userId) return null;
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="text-base">Album ảnh & tư liệu</CardTitle>
+                {userId && (
+                    <Button size="sm" variant="outline" onClick={() => setCreating(true)}>
+                        <Plus className="mr-1 h-4 w-4" />Tạo album
+                    </Button>
+                )}
+            </CardHeader>
+            <CardContent>
+                {albums.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Chưa có album nào cho sự kiện này</p>
+                ) : (
+                    <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+                        {albums.map(a => <AlbumCard key={a.id} album={a} />)}
+                    </div>
+                )}
+            </CardContent>
+            {creating && userId && (
+                <AlbumDialog open onOpenChange={setCreating} userId={userId} eventId={eventId} onSaved={id => router.push(`/media/albums/${id}`)} />
+            )}
+        </Card>
+    );
+}
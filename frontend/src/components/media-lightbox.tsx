@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ChevronLeft, ChevronRight, Download, FileText, Info, MapPinOff, Star, Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/components/auth-provider';
+import { TaggedImage } from '@/components/tagged-image';
+import { addMediaTag, fetchMediaTags, fetchPeople, removeMediaTag, setPrimaryPhoto } from '@/lib/supabase-data';
+import { formatSize, isImage, mediaUrl, type MediaItem, type MediaTag, type TagRegion } from '@/lib/media';
+import type { TreeNode } from '@/lib/tree-layout';
+
+interface MediaLightboxProps {
+    items: MediaItem[];
+    /** Index into `items`, or null when closed */
+    index: number | null;
+    onIndexChange: (index: number | null) => void;
+    /** Called after tags change, so a profile gallery can refresh */
+    onTagsChanged?: () => void;
+}
+
+/** Tagging steps: draw a face region (images only), then pick the person */
+type TagMode = null | 'draw' | 'pick';
+
+/**
+ * Full-size viewer for the gallery: arrow keys or buttons step through
+ * `items`. Signed-in members can tag people, with or without a face region.
+ */
+export function MediaLightbox({ items, index, onIndexChange, onTagsChanged }: MediaLightboxProps) {
+    const { user, isAdmin, isLoggedIn } = useAuth();
+    const item = index !== null ? items[index] : null;
+    const url = item ? mediaUrl(item) : null;
+    const [loaded, setLoaded] = useState<{ mediaId: string; tags: MediaTag[] } | null>(null);
+    const [people, setPeople] = useState<TreeNode[]>([]);
+    const [mode, setMode] = useState<TagMode>(null);
+    const [pending, setPending] = useState<TagRegion | null>(null);
+    const [search, setSearch] = useState('');
+    const [activeTag, setActiveTag] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    const tags = loaded && loaded.mediaId === item?.id ? loaded.tags : [];
+    const image = !!item && isImage(item.mime_type);
+
+    useEffect(() => {
+        if (!item) return;
+        fetchMediaTags(item.id).then(t => setLoaded({ mediaId: item.id, tags: t }));
+    }, [item]);
+
+    const reset = () => {
+        setMode(null);
+        setPending(null);
+        setSearch('');
+        setError('');
+    };
+
+    const step = (delta: number) => {
+        if (index === null || items.length === 0) return;
+        reset();
+        onIndexChange((index + delta + items.length) % items.length);
+    };
+
+    const startTagging = () => {
+        if (people.length === 0) fetchPeople().then(setPeople);
+        setError('');
+        setMode(image && url ? 'draw' : 'pick');
+    };
+
+    const reload = async () => {
+        if (!item) return;
+        setLoaded({ mediaId: item.id, tags: await fetchMediaTags(item.id) });
+        onTagsChanged?.();
+    };
+
+    const tagPerson = async (handle: string) => {
+        if (!item || !user) return;
+        const { error } = await addMediaTag(item.id, handle, pending, user.id);
+        if (error) {
+            setError(/duplicate/i.test(error.message) ? 'Người này đã được gắn trong tư liệu này' : error.message);
+            return;
+        }
+        reset();
+        await reload();
+    };
+
+    const untag = async (tag: MediaTag) => {
+        const { error } = await removeMediaTag(tag.id);
+        if (error) setError(error.message);
+        else await reload();
+    };
+
+    const makePrimary = async (tag: MediaTag) => {
+        const { error } = await setPrimaryPhoto(tag.id);
+        if (error) setError(error.message);
+        else await reload();
+    };
+
+    const tagged = new Set(tags.map(t => t.person_handle));
+    const q = search.trim().toLowerCase();
+    const matches = q ? people.filter(p => !tagged.has(p.handle) && p.displayName.toLowerCase().includes(q)).slice(0, 8) : [];
+
+    return (
+        <Dialog open={!!item} onOpenChange={open => { if (!open) { reset(); onIndexChange(null); } }}>
+            <DialogContent
+                className="sm:max-w-5xl p-3 gap-2"
+                onKeyDown={e => {
+                    if (e.target instanceof HTMLInputElement) return;
+                    if (e.key === 'ArrowLeft') step(-1);
+                    if (e.key === 'ArrowRight') step(1);
+                }}
+            >
+                {item && (
+                    <>
+                        <div className="relative flex items-center justify-center bg-muted/40 rounded-md min-h-64">
+                            {!url ? (
+                                <p className="text-sm text-muted-foreground py-24">Tệp này được tạo trước khi có lưu trữ, không có bản xem trước</p>
+                            ) : image ? (
+                                <TaggedImage
+                                    src={url}
+                                    alt={item.title || item.file_name}
+                                    tags={tags}
+                                    activeTagId={activeTag}
+                                    pending={pending}
+                                    onDraw={mode === 'draw' ? region => { setPending(region); setMode('pick'); } : undefined}
+                                />
+                            ) : item.mime_type === 'application/pdf' ? (
+                                <iframe src={url} title={item.title || item.file_name} className="w-full h-[70vh] rounded-md bg-white" />
+                            ) : (
+                                <FileText className="h-16 w-16 text-muted-foreground my-24" />
+                            )}
+                            {items.length > 1 && !mode && (
+                                <>
+                                    <Button size="icon" variant="secondary" className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full opacity-80"
+                                        onClick={() => step(-1)} title="Trước">
+                                        <ChevronLeft className="h-5 w-5" />
+                                    </Button>
+                                    <Button size="icon" variant="secondary" className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full opacity-80"
+                                        onClick={() => step(1)} title="Sau">
+                                        <ChevronRight className="h-5 w-5" />
+                                    </Button>
+                                </>
+                            )}
+                        </div>
+                        <div className="flex items-start justify-between gap-4 px-1">
+                            <div className="min-w-0">
+                                <DialogTitle className="text-base truncate">{item.title || item.file_name}</DialogTitle>
+                                <DialogDescription className="text-xs">
+                                    {[
+                                        item.width && item.height ? `${item.width}×${item.height}` : null,
+                                        formatSize(item.file_size),
+                                        new Date(item.created_at).toLocaleDateString('vi-VN'),
+                                        `${index! + 1}/${items.length}`,
+                                    ].filter(Boolean).join(' · ')}
+                                </DialogDescription>
+                                {item.description && <p className="text-sm mt-1">{item.description}</p>}
+                                {item.location_removed && (
+                                    <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                                        <MapPinOff className="h-3 w-3" />Đã xóa vị trí GPS khỏi ảnh
+                                    </p>
+                                )}
+                            </div>
+                            <div className="flex gap-2 flex-shrink-0">
+                                {isLoggedIn && !mode && (
+                                    <Button size="sm" variant="outline" onClick={startTagging}>
+                                        <Tag className="mr-1 h-4 w-4" />Gắn người
+                                    </Button>
+                                )}
+                                <Button size="sm" variant="outline" asChild>
+                                    <Link href={`/media/${item.id}`}><Info className="mr-1 h-4 w-4" />Chi tiết</Link>
+                                </Button>
+                                {url && (
+                                    <Button size="sm" variant="outline" asChild>
+                                        <a href={url} download={item.file_name} target="_blank" rel="noreferrer">
+                                            <Download className="mr-1 h-4 w-4" />Tải về
+                                        </a>
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+
+                        {mode === 'draw' && (
+                            <div className="flex items-center justify-between gap-2 rounded-md border border-dashed px-3 py-2 text-sm">
+                                <span className="text-muted-foreground">Kéo chuột quanh khuôn mặt trên ảnh</span>
+                                <div className="flex gap-2">
+                                    <Button size="sm" variant="ghost" onClick={() => setMode('pick')}>Không khoanh vùng</Button>
+                                    <Button size="sm" variant="ghost" onClick={reset}>Hủy</Button>
+                                </div>
+                            </div>
+                        )}
+                        {mode === 'pick' && (
+                            <div className="space-y-2 rounded-md border px-3 py-2">
+                                <div className="flex gap-2">
+                                    <Input autoFocus placeholder="Tìm người trong gia phả..." value={search} onChange={e => setSearch(e.target.value)} />
+                                    <Button size="sm" variant="ghost" onClick={reset}>Hủy</Button>
+                                </div>
+                                {matches.length > 0 && (
+                                    <div className="flex flex-wrap gap-1">
+                                        {matches.map(p => (
+                                            <Button key={p.handle} size="sm" variant="secondary" onClick={() => tagPerson(p.handle)}>
+                                                {p.displayName}
+                                                <span className="ml-1 text-xs text-muted-foreground">Đời {p.generation}</span>
+                                            </Button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        {error && <p className="text-sm text-destructive px-1">{error}</p>}
+
+                        {tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5 px-1">
+                                {tags.map(t => {
+                                    const canRemove = isAdmin || (!!user && t.tagged_by === user.id);
+                                    return (
+                                        <Badge key={t.id} variant="secondary" className="gap-1 pr-1"
+                                            onMouseEnter={() => setActiveTag(t.id)} onMouseLeave={() => setActiveTag(null)}>
+                                            <Link href={`/people/${t.person_handle}`} className="hover:underline">
+                                                {t.person?.display_name ?? t.person_handle}
+                                            </Link>
+                                            {t.is_primary ? (
+                                                <Star className="h-3 w-3 fill-amber-400 text-amber-400" aria-label="Ảnh đại diện" />
+                                            ) : image && isLoggedIn && item.state === 'PUBLISHED' && (
+                                                <button type="button" title="Đặt làm ảnh đại diện" onClick={() => makePrimary(t)}>
+                                                    <Star className="h-3 w-3 text-muted-foreground hover:text-amber-500" />
+                                                </button>
+                                            )}
+                                            {canRemove && (
+                                                <button type="button" title="Bỏ gắn" onClick={() => untag(t)}>
+                                                    <X className="h-3 w-3 text-muted-foreground hover:text-destructive" />
+                                                </button>
+                                            )}
+                                        </Badge>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
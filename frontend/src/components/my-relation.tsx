@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { UserCheck, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/components/auth-provider';
+import { kinship, type Kinship } from '@/lib/kinship';
+import { fetchTreeData, claimPerson } from '@/lib/supabase-data';
+
+interface MyRelationProps {
+    handle: string;
+    displayName: string;
+}
+
+/** How a person relates to the signed-in member; offers "this is me" when the account is not linked yet */
+export function MyRelation({ handle, displayName }: MyRelationProps) {
+    const { isLoggedIn, profile, refreshProfile } = useAuth();
+    const myHandle = profile?.person_handle ?? null;
+    const [relation, setRelation] = useState<Kinship | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (!myHandle || myHandle === handle) return;
+        fetchTreeData().then(tree => setRelation(kinship(myHandle, handle, tree)));
+    }, [myHandle, handle]);
+
+    if (!isLoggedIn || !profile) return null;
+
+    const submitClaim = async (person: string | null) => {
+        setSaving(true);
+        setError('');
+        const { error } = await claimPerson(person);
+        if (error) setError(error.message);
+        await refreshProfile();
+        setSaving(false);
+    };
+
+    if (myHandle === handle) {
+        return (
+            <div className="rounded-md bg-emerald-500/10 border border-emerald-500/20 p-3 text-sm text-emerald-700 dark:text-emerald-400 flex items-center gap-2">
+                <UserCheck className="h-4 w-4" /> Đây là hồ sơ của bạn · <Link href="/my-family" className="underline">Gia đình tôi</Link>
+            </div>
+        );
+    }
+
+    if (myHandle) {
+        if (!relation || relation.kind === 'none') return null;
+        return (
+            <div className="rounded-md bg-blue-500/10 border border-blue-500/20 p-3 text-sm text-blue-800 dark:text-blue-300">
+                {relation.kind === 'distant' ? (
+                    <>Bạn và {displayName} là {relation.term}</>
+                ) : (
+                    <>
+                        {displayName} là <span className="font-semibold">{relation.term}</span> của bạn
+                        <span className="text-blue-700/70 dark:text-blue-300/70"> · bạn là {relation.reciprocal} của {displayName}</span>
+                    </>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className="rounded-md border p-3 text-sm flex flex-wrap items-center justify-between gap-2">
+            {profile.claimed_handle === handle ? (
+                <>
+                    <span className="text-muted-foreground">Bạn đã nhận đây là mình — đang chờ admin xác nhận</span>
+                    <Button size="sm" variant="ghost" onClick={() => submitClaim(null)} disabled={saving}>Hủy yêu cầu</Button>
+                </>
+            ) : profile.claimed_handle ? (
+                <span className="text-muted-foreground">Bạn đang chờ xác nhận với một hồ sơ khác</span>
+            ) : (
+                <>
+                    <span className="text-muted-foreground">Tài khoản của bạn chưa gắn với ai trong gia phả</span>
+                    <Button size="sm" variant="outline" onClick={() => submitClaim(handle)} disabled={saving}>
+                        {saving ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <UserCheck className="h-3.5 w-3.5 mr-1" />}
+                        Đây là tôi
+                    </Button>
+                </>
+            )}
+            {error && <p className="w-full text-xs text-destructive">{error}</p>}
+        </div>
+    );
+}
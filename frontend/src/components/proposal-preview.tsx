@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { fetchRelatives, type RelativeFamily, type RelativePerson } from '@/lib/supabase-data';
+import type { PersonProposal } from '@/lib/contributions';
+
+// ═══ Nodes ═══
+
+interface PreviewNode {
+    display_name: string;
+    gender: number;
+    birth_year: number | null;
+    death_year: number | null;
+}
+
+function years(p: PreviewNode) {
+    if (!p.birth_year && !p.death_year) return null;
+    return `${p.birth_year ?? '?'}${p.death_year ? ` – ${p.death_year}` : ''}`;
+}
+
+/** A person box in tree colours; the proposed person is dashed and marked "Mới" */
+function Node({ person, proposed = false }: { person: PreviewNode | null; proposed?: boolean }) {
+    if (!person) {
+        return <div className="rounded-md border border-dashed px-2 py-1.5 text-xs text-muted-foreground">Chưa rõ</div>;
+    }
+    const colour = person.gender === 1 ? 'bg-blue-50 border-blue-300' : 'bg-pink-50 border-pink-300';
+    return (
+        <div className={`relative rounded-md border px-2 py-1.5 text-xs min-w-24 text-center ${proposed ? 'border-2 border-dashed border-green-500 bg-green-50 dark:bg-green-950/30' : colour}`}>
+            {proposed && <span className="absolute -top-2 -right-2 rounded-full bg-green-600 px-1.5 text-[9px] font-semibold text-white">Mới</span>}
+            <p className="font-medium leading-tight">{person.display_name}</p>
+            {years(person) && <p className="text-[10px] text-muted-foreground">{years(person)}</p>}
+        </div>
+    );
+}
+
+function Couple({ person, partner, proposedPartner = false }: { person: RelativePerson; partner: PreviewNode | null; proposedPartner?: boolean }) {
+    return (
+        <div className="flex items-center gap-1.5">
+            <Node person={person} />
+            <span className="text-red-500 text-xs">❤</span>
+            <Node person={partner} proposed={proposedPartner} />
+        </div>
+    );
+}
+
+function Children({ items, proposed }: { items: RelativePerson[]; proposed?: PreviewNode }) {
+    if (items.length === 0 && !proposed) return <p className="text-[11px] text-muted-foreground">Chưa có con</p>;
+    return (
+        <div className="flex flex-wrap justify-center gap-1.5 border-t pt-2">
+            {items.map(c => <Node key={c.handle} person={c} />)}
+            {proposed && <Node person={proposed} proposed />}
+        </div>
+    );
+}
+
+// ═══ Preview ═══
+
+/**
+ * Where a proposed person lands in the tree: the relative's couple with the
+ * new child among the existing ones, or the new spouse next to the current
+ * spouses, so reviewers can spot duplicates before approving.
+ */
+export function ProposalPreview({ personHandle, proposal }: { personHandle: string; proposal: PersonProposal }) {
+    const [relatives, setRelatives] = useState<{ person: RelativePerson; families: RelativeFamily[] } | null | undefined>(undefined);
+
+    useEffect(() => {
+        fetchRelatives(personHandle).then(setRelatives);
+    }, [personHandle]);
+
+    if (relatives === undefined) return <div className="flex justify-center py-4"><Loader2 className="h-4 w-4 animate-spin" /></div>;
+    if (relatives === null) return <p className="text-xs text-destructive">Không tìm thấy thành viên {personHandle} trong cây</p>;
+
+    const { person, families } = relatives;
+    const added = proposal.person;
+
+    if (proposal.relation === 'spouse') {
+        return (
+            <div className="space-y-2">
+                {families.map(f => (
+                    <div key={f.handle} className="flex items-center gap-3">
+                        <Couple person={person} partner={f.partner} />
+                        <span className="text-[11px] text-muted-foreground">{f.children.length} con</span>
+                    </div>
+                ))}
+                <Couple person={person} partner={added} proposedPartner />
+            </div>
+        );
+    }
+
+    const family = families.find(f => f.handle === proposal.family);
+    if (proposal.family && !family) {
+        return <p className="text-xs text-destructive">Gia đình được chọn khi gửi không còn trong cây; đề xuất này không thể duyệt</p>;
+    }
+    return (
+        <div className="inline-flex flex-col items-center gap-2">
+            {family ? <Couple person={person} partner={family.partner} /> : <Node person={person} />}
+            <Children items={family?.children ?? []} proposed={added} />
+            {!family && <p className="text-[11px] text-muted-foreground">Chưa rõ cha/mẹ còn lại — tạo gia đình mới</p>}
+        </div>
+    );
+}
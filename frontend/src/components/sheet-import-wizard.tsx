@@ -0,0 +1,250 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { Upload, Check, Loader2, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ImportPreview } from '@/components/import-preview';
+import { readSpreadsheet, type SheetTable } from '@/lib/spreadsheet';
+import {
+    SHEET_FIELDS, guessMapping, headerRowIndex, planSheetImport, buildSheetImport, unresolvedRefs,
+    type ColumnMapping, type SheetField, type SheetPlan, type ParentChoices,
+} from '@/lib/sheet-import';
+import { previewImport, type ImportIssue } from '@/lib/tree-import';
+import type { PersonRow, FamilyRow } from '@/lib/genealogy-types';
+import { fetchPeopleDetails, fetchFamilies, importSheet } from '@/lib/supabase-data';
+
+const SELECT_CLASS = 'w-full rounded-md border px-2 py-1.5 text-sm bg-background';
+
+/** CSV / XLSX bulk import: pick file → map columns → resolve parents → confirm */
+export function SheetImportWizard() {
+    const fileRef = useRef<HTMLInputElement>(null);
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [tables, setTables] = useState<SheetTable[]>([]);
+    const [readIssues, setReadIssues] = useState<ImportIssue[]>([]);
+    const [sheetIndex, setSheetIndex] = useState(0);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [existing, setExisting] = useState<{ people: PersonRow[]; families: FamilyRow[] } | null>(null);
+    const [plan, setPlan] = useState<SheetPlan | null>(null);
+    const [choices, setChoices] = useState<ParentChoices>({});
+    const [analyzing, setAnalyzing] = useState(false);
+    const [importing, setImporting] = useState(false);
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+    const table = tables[sheetIndex] as SheetTable | undefined;
+    const headerRow = table ? headerRowIndex(table) : 0;
+    const headers = table?.rows[headerRow] ?? [];
+    const sample = table?.rows.slice(headerRow + 1).find(r => r.some(c => c !== '')) ?? [];
+
+    const ambiguous = plan ? plan.refs.filter(r => r.candidates.length > 1) : [];
+    const pending = plan ? unresolvedRefs(plan, choices).length : 0;
+    const result = useMemo(
+        () => (plan && existing && fileName ? buildSheetImport(plan, choices, existing, `Bảng tính ${fileName}`) : null),
+        [plan, existing, choices, fileName],
+    );
+    const preview = useMemo(() => {
+        if (!result || !existing) return null;
+        return previewImport(result.batch, {
+            people: new Map(existing.people.map(p => [p.handle, p.display_name])),
+            families: new Set(existing.families.map(f => f.handle)),
+        });
+    }, [result, existing]);
+
+    const selectTable = (list: SheetTable[], index: number) => {
+        const t = list[index];
+        setSheetIndex(index);
+        setMapping(t ? guessMapping(t.rows[headerRowIndex(t)] ?? []) : {});
+        setPlan(null);
+        setChoices({});
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const { tables: read, issues } = readSpreadsheet(new Uint8Array(await file.arrayBuffer()), file.name);
+        setFileName(file.name);
+        setTables(read);
+        setReadIssues(issues);
+        setMessage(null);
+        selectTable(read, 0);
+        if (fileRef.current) fileRef.current.value = '';
+    };
+
+    const setColumn = (field: SheetField, value: string) => {
+        setMapping(prev => {
+            const next = { ...prev };
+            if (value === '') delete next[field];
+            else next[field] = parseInt(value, 10);
+            return next;
+        });
+        setPlan(null);
+        setChoices({});
+    };
+
+    const handleAnalyze = async () => {
+        if (!table) return;
+        setAnalyzing(true);
+        const [details, families] = await Promise.all([fetchPeopleDetails(), fetchFamilies()]);
+        const current = {
+            people: Array.from(details.values()),
+            families: families.map(f => ({ handle: f.handle, father_handle: f.fatherHandle ?? null, mother_handle: f.motherHandle ?? null, children: f.children })),
+        };
+        setExisting(current);
+        setPlan(planSheetImport(table, mapping, current.people));
+        setChoices({});
+        setAnalyzing(false);
+    };
+
+    const handleImport = async () => {
+        if (!result) return;
+        setImporting(true);
+        const { error } = await importSheet(result);
+        setImporting(false);
+        if (error) {
+            setMessage({ ok: false, text: `Lỗi khi nhập: ${error}` });
+        } else {
+            setMessage({ ok: true, text: `Đã nhập ${result.batch.people.length} thành viên, tạo ${result.batch.families.length} gia đình mới từ ${fileName}` });
+            setTables([]);
+            setPlan(null);
+            setExisting(null);
+        }
+    };
+
+    const hasName = mapping.display_name !== undefined || mapping.surname !== undefined || mapping.first_name !== undefined;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">Mỗi dòng là một người; cột Cha / Mẹ ghi mã, Gramps ID hoặc họ tên chính xác</p>
+                <div>
+                    <input ref={fileRef} type="file" accept=".csv,.xlsx,text/csv" className="hidden" onChange={handleFile} />
+                    <Button onClick={() => fileRef.current?.click()} disabled={importing}>
+                        <Upload className="mr-2 h-4 w-4" />
+                        Chọn tệp CSV / Excel
+                    </Button>
+                </div>
+            </div>
+
+            {message && (
+                <div className={`rounded-lg p-3 text-sm ${message.ok ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                    {message.text}
+                </div>
+            )}
+
+            {readIssues.length > 0 && (
+                <div className="rounded-lg p-3 text-sm bg-red-50 text-red-700">
+                    {readIssues.map((i, idx) => <p key={idx}>{i.message}</p>)}
+                </div>
+            )}
+
+            {table && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="text-base">Ghép cột: {fileName}</CardTitle>
+                        <CardDescription>
+                            {table.rows.length - headerRow - 1} dòng dữ liệu · đời và chính tộc / ngoại tộc được tính từ quan hệ cha mẹ
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        {tables.length > 1 && (
+                            <div className="space-y-1.5">
+                                <label className="text-xs font-medium text-muted-foreground">Trang tính</label>
+                                <select className={`${SELECT_CLASS} md:w-80`} value={sheetIndex} onChange={e => selectTable(tables, parseInt(e.target.value, 10))}>
+                                    {tables.map((t, i) => <option key={i} value={i}>{t.name}</option>)}
+                                </select>
+                            </div>
+                        )}
+
+                        <div className="grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+                            {(Object.keys(SHEET_FIELDS) as SheetField[]).map(field => {
+                                const col = mapping[field];
+                                return (
+                                    <div key={field} className="space-y-1">
+                                        <label className="text-xs font-medium text-muted-foreground">{SHEET_FIELDS[field].label}</label>
+                                        <select className={SELECT_CLASS} value={col ?? ''} onChange={e => setColumn(field, e.target.value)}>
+                                            <option value="">— Bỏ qua —</option>
+                                            {headers.map((h, i) => <option key={i} value={i}>{h || `Cột ${i + 1}`}</option>)}
+                                        </select>
+                                        {col !== undefined && sample[col] && (
+                                            <p className="text-xs text-muted-foreground truncate">VD: {sample[col]}</p>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+
+                        {!hasName && <p className="text-sm text-amber-600">Cần ghép ít nhất cột Họ tên (hoặc Họ và Tên)</p>}
+                        <Button onClick={handleAnalyze} disabled={!hasName || analyzing}>
+                            {analyzing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+                            {analyzing ? 'Đang phân tích...' : 'Phân tích'}
+                        </Button>
+                    </CardContent>
+                </Card>
+            )}
+
+            {plan && ambiguous.length > 0 && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="text-base">Chọn cha mẹ trùng tên</CardTitle>
+                        <CardDescription>{ambiguous.length} tham chiếu khớp nhiều người · còn {pending} chưa chọn</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="rounded-lg border max-h-96 overflow-y-auto">
+                            <Table>
+                                <TableHeader><TableRow>
+                                    <TableHead>Dòng</TableHead><TableHead>Người</TableHead><TableHead>Vai trò</TableHead><TableHead>Chọn</TableHead>
+                                </TableRow></TableHeader>
+                                <TableBody>
+                                    {ambiguous.map(ref => (
+                                        <TableRow key={ref.key}>
+                                            <TableCell className="text-xs text-muted-foreground">{ref.row}</TableCell>
+                                            <TableCell>{plan.people.find(p => p.handle === ref.child)?.display_name}</TableCell>
+                                            <TableCell>{ref.role === 'father' ? 'Cha' : 'Mẹ'}: {ref.value}</TableCell>
+                                            <TableCell>
+                                                <select
+                                                    className={SELECT_CLASS}
+                                                    value={ref.key in choices ? choices[ref.key] ?? '' : '?'}
+                                                    onChange={e => setChoices(prev => ({ ...prev, [ref.key]: e.target.value || null }))}
+                                                >
+                                                    <option value="?" disabled>— Chọn —</option>
+                                                    {ref.candidates.map(c => (
+                                                        <option key={c.handle} value={c.handle}>{c.label}{c.inSheet ? ' · trong bảng' : ''}</option>
+                                                    ))}
+                                                    <option value="">Không liên kết</option>
+                                                </select>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            {result && preview && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="text-base">Xem trước</CardTitle>
+                        <CardDescription>
+                            Gắn vào {result.familyUpdates.length} gia đình có sẵn · {result.parentUpdates.length} người có sẵn thêm gia đình mới — chưa có dữ liệu nào được ghi
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <ImportPreview batch={result.batch} preview={preview} />
+                        <div className="flex gap-2">
+                            <Button onClick={handleImport} disabled={importing || pending > 0 || result.batch.people.length === 0}>
+                                {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                                {importing ? 'Đang nhập...' : pending > 0 ? `Còn ${pending} mục chưa chọn` : 'Xác nhận nhập'}
+                            </Button>
+                            <Button variant="outline" onClick={() => { setPlan(null); setChoices({}); }} disabled={importing}>
+                                Huỷ
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { regionFromPoints, type MediaTag, type TagRegion } from '@/lib/media';
+
+interface TaggedImageProps {
+    src: string;
+    alt: string;
+    tags: MediaTag[];
+    /** Tag whose region is outlined more strongly (hovered in the tag list) */
+    activeTagId: string | null;
+    /** When set, dragging on the image draws a new region */
+    onDraw?: (region: TagRegion) => void;
+    /** Region drawn but not saved yet */
+    pending: TagRegion | null;
+}
+
+const boxStyle = (r: TagRegion) => ({
+    left: `${r.x * 100}%`,
+    top: `${r.y * 100}%`,
+    width: `${r.w * 100}%`,
+    height: `${r.h * 100}%`,
+});
+
+/** An image with its face regions drawn on top; regions are stored as fractions so they survive resizing */
+export function TaggedImage({ src, alt, tags, activeTagId, onDraw, pending }: TaggedImageProps) {
+    const layerRef = useRef<HTMLDivElement>(null);
+    const [start, setStart] = useState<{ x: number; y: number } | null>(null);
+    const [current, setCurrent] = useState<{ x: number; y: number } | null>(null);
+
+    const point = (e: React.PointerEvent) => {
+        const rect = layerRef.current!.getBoundingClientRect();
+        return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+    };
+
+    const drawing = start && current ? regionFromPoints(start, current) : null;
+
+    return (
+        <div className="relative inline-block max-w-full">
+            {/* Full-size original from storage; not worth routing through next/image */}
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={src} alt={alt} className="block max-h-[70vh] max-w-full w-auto rounded-md select-none" draggable={false} />
+            <div
+                ref={layerRef}
+                className={`absolute inset-0 ${onDraw ? 'cursor-crosshair touch-none' : ''}`}
+                onPointerDown={onDraw ? e => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    setStart(point(e));
+                    setCurrent(point(e));
+                } : undefined}
+                onPointerMove={onDraw && start ? e => setCurrent(point(e)) : undefined}
+                onPointerUp={onDraw && start ? e => {
+                    const region = regionFromPoints(start, point(e));
+                    setStart(null);
+                    setCurrent(null);
+                    if (region) onDraw(region);
+                } : undefined}
+            >
+                {tags.filter(t => t.region).map(t => (
+                    <div key={t.id} style={boxStyle(t.region!)}
+                        className={`group absolute rounded-sm border-2 transition-colors ${t.id === activeTagId ? 'border-amber-400' : 'border-white/70 hover:border-white'}`}>
+                        <span className={`absolute left-0 top-full mt-0.5 whitespace-nowrap rounded bg-black/70 px-1.5 py-0.5 text-[11px] text-white
+                            ${t.id === activeTagId ? 'block' : 'hidden group-hover:block'}`}>
+                            {t.person?.display_name ?? t.person_handle}
+                        </span>
+                    </div>
+                ))}
+                {(drawing || pending) && (
+                    <div style={boxStyle((drawing || pending)!)} className="absolute rounded-sm border-2 border-dashed border-amber-400 bg-amber-400/10" />
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Flame, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/components/auth-provider';
+import { daysUntil, type MemorialEvent } from '@/lib/memorials';
+import { vietnamToday } from '@/lib/lunar-calendar';
+import { fetchUpcomingMemorials, syncMemorialEvents } from '@/lib/supabase-data';
+
+interface UpcomingMemorialsProps {
+    days?: number;
+    limit?: number;
+    /** Called when the sync changed any event, so the page can reload its own lists */
+    onSynced?: () => void;
+}
+
+/** One sync per page load is enough; later mounts reuse it */
+let syncing: ReturnType<typeof syncMemorialEvents> | null = null;
+
+function countdown(days: number): string {
+    if (days === 0) return 'Hôm nay';
+    if (days === 1) return 'Ngày mai';
+    return `Còn ${days} ngày`;
+}
+
+/** Giỗ coming up in the next `days` days; signed-in members keep the list in sync */
+export function UpcomingMemorials({ days = 60, limit, onSynced }: UpcomingMemorialsProps) {
+    const { isLoggedIn, loading: authLoading } = useAuth();
+    const [memorials, setMemorials] = useState<MemorialEvent[] | null>(null);
+
+    const load = useCallback(() => {
+        let sync: Promise<unknown> = Promise.resolve();
+        if (isLoggedIn && !syncing) {
+            syncing = syncMemorialEvents();
+            sync = syncing.then(r => { if (r.created + r.updated + r.removed > 0) onSynced?.(); });
+        } else if (syncing) {
+            sync = syncing;
+        }
+        return sync.then(() => fetchUpcomingMemorials(days)).then(setMemorials);
+    }, [isLoggedIn, days, onSynced]);
+
+    useEffect(() => {
+        if (!authLoading) load();
+    }, [authLoading, load]);
+
+    const today = vietnamToday();
+    const rows = limit ? memorials?.slice(0, limit) : memorials;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                    <Flame className="h-4 w-4 text-amber-500" />
+                    Giỗ sắp tới
+                </CardTitle>
+                <CardDescription>Tính theo ngày mất âm lịch, trong {days} ngày tới</CardDescription>
+            </CardHeader>
+            <CardContent>
+                {!rows ? (
+                    <div className="flex justify-center py-4"><Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /></div>
+                ) : rows.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Không có ngày giỗ nào sắp tới</p>
+                ) : (
+                    <div className="divide-y">
+                        {rows.map(m => {
+                            const start = new Date(m.start_at);
+                            const left = daysUntil(m.start_at, today);
+                            return (
+                                <div key={m.id} className="flex items-center gap-3 py-2">
+                                    <div className="w-12 shrink-0 rounded-md border text-center py-1">
+                                        <div className="text-sm font-bold leading-none">{start.toLocaleDateString('vi-VN', { day: '2-digit', timeZone: 'Asia/Ho_Chi_Minh' })}</div>
+                                        <div className="text-[10px] text-muted-foreground">th {start.toLocaleDateString('vi-VN', { month: 'numeric', timeZone: 'Asia/Ho_Chi_Minh' })}</div>
+                                    </div>
+                                    <div className="min-w-0 flex-1">
+                                        <Link href={`/events/${m.id}`} className="text-sm font-medium hover:underline">{m.title}</Link>
+                                        <p className="text-xs text-muted-foreground truncate">
+                                            {m.description?.split('\n')[0]}
+                                            {' · '}
+                                            <Link href={`/people/${m.person_handle}`} className="hover:underline">Hồ sơ</Link>
+                                        </p>
+                                    </div>
+                                    <Badge variant={left <= 7 ? 'default' : 'secondary'} className="shrink-0">{countdown(left)}</Badge>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
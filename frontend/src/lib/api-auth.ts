@@ -0,0 +1,17 @@
+import type { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface RequestUser {
+    id: string;
+    isAdmin: boolean;
+}
+
+/** Signed-in user of an API request, from the `Authorization: Bearer <access token>` header */
+export async function getRequestUser(req: NextRequest, service: SupabaseClient): Promise<RequestUser | null> {
+    const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token) return null;
+    const { data, error } = await service.auth.getUser(token);
+    if (error || !data.user) return null;
+    const { data: profile } = await service.from('profiles').select('role').eq('id', data.user.id).maybeSingle();
+    return { id: data.user.id, isAdmin: profile?.role === 'admin' };
+}
@@ -0,0 +1,305 @@
+/**
+ * Backup archives — a zip with a manifest, one JSON file per table and,
+ * optionally, the media files from storage.
+ *
+ *   manifest.json          format/schema version, row counts, media index and
+ *                          the tables that could not be exported
+ *   tables/<table>.json    rows exactly as returned by select('*')
+ *   media/<storage path>   original files (only when requested)
+ *
+ * Plain `giapha-backup-*.json` files from earlier versions are still readable.
+ */
+
+import { zipSync, unzipSync, strToU8, strFromU8, type Zippable } from 'fflate';
+import { MEDIA_BUCKET } from './media';
+
+export { MEDIA_BUCKET };
+
+// ═══ Versions ═══
+
+/**
+ * Bump together with the "Schema version" line at the top of
+ * supabase/database-setup.sql whenever a table changes shape:
+ *   1  people, families, profiles (plain JSON backups)
+ *   2  every application table
+ *   3  deleted_people
+ *   4  profiles.claimed_handle, claimed_at
+ *   5  people.birth_date_lunar, death_date_lunar
+ *   6  events.person_handle
+ *   7  events.recurrence, event_overrides
+ *   8  event_rsvps party size, note, contribution and check-in columns
+ *   9  fund_entries, fund_dues
+ *   10 media storage columns, app_settings
+ *   11 media_people
+ *   12 media_albums, media_album_items, media archive columns
+ *   13 contributions.kind, payload
+ *   14 contributions.changes, contribution_media, contribution_messages
+ *   15 event_rsvps.occurrence_date
+ */
+export const SCHEMA_VERSION = 15;
+/** Layout of the archive itself */
+export const BACKUP_FORMAT_VERSION = 2;
+
+// ═══ Types ═══
+
+export type BackupRow = Record<string, unknown>;
+export type RestoreMode = 'merge' | 'replace';
+
+interface TableSpec {
+    key: string;
+    required: string[];
+    title: string;
+    label: (row: BackupRow) => string;
+}
+
+/** Every application table, in restore order (referenced tables first) */
+export const BACKUP_TABLES = {
+    people: { key: 'handle', required: ['handle', 'display_name'], title: 'Thành viên', label: r => `${r.display_name ?? ''} (${r.handle})` },
+    families: { key: 'handle', required: ['handle'], title: 'Gia đình', label: r => String(r.handle) },
+    profiles: { key: 'id', required: ['id', 'email'], title: 'Tài khoản', label: r => String(r.display_name || r.email) },
+    invite_links: { key: 'id', required: ['id', 'code'], title: 'Link mời', label: r => String(r.code) },
+    contributions: { key: 'id', required: ['id', 'person_handle'], title: 'Đóng góp', label: r => `${r.person_name || r.person_handle} → ${r.field_label || r.field_name}` },
+    comments: { key: 'id', required: ['id', 'content'], title: 'Bình luận', label: r => String(r.content).slice(0, 60) },
+    deleted_people: { key: 'id', required: ['id', 'person_handle'], title: 'Thùng rác', label: r => `${r.display_name ?? ''} (${r.person_handle})` },
+    posts: { key: 'id', required: ['id'], title: 'Bài viết', label: r => String(r.title || r.content || r.id).slice(0, 60) },
+    events: { key: 'id', required: ['id', 'title'], title: 'Sự kiện', label: r => String(r.title) },
+    event_rsvps: { key: 'id', required: ['id', 'event_id'], title: 'Phản hồi sự kiện', label: r => `${r.event_id}${r.occurrence_date ? ` (${r.occurrence_date})` : ''} · ${r.status}` },
+    event_overrides: { key: 'id', required: ['id', 'event_id', 'occurrence_date'], title: 'Ngoại lệ sự kiện', label: r => `${r.event_id} · ${r.occurrence_date}${r.cancelled ? ' (hủy)' : ''}` },
+    app_settings: { key: 'key', required: ['key', 'value'], title: 'Cài đặt', label: r => String(r.key) },
+    media: { key: 'id', required: ['id', 'file_name'], title: 'Tư liệu', label: r => String(r.title || r.file_name) },
+    media_people: { key: 'id', required: ['id', 'media_id', 'person_handle'], title: 'Gắn thẻ tư liệu', label: r => `${r.person_handle} · ${r.media_id}${r.is_primary ? ' (ảnh đại diện)' : ''}` },
+    media_albums: { key: 'id', required: ['id', 'title'], title: 'Album', label: r => String(r.title) },
+    media_album_items: { key: 'id', required: ['id', 'album_id', 'media_id'], title: 'Tư liệu trong album', label: r => `${r.album_id} · ${r.media_id}` },
+    contribution_media: { key: 'id', required: ['id', 'contribution_id', 'media_id'], title: 'Bằng chứng đóng góp', label: r => `${r.contribution_id} · ${r.media_id}` },
+    contribution_messages: { key: 'id', required: ['id', 'contribution_id', 'body'], title: 'Trao đổi về đóng góp', label: r => String(r.body).slice(0, 60) },
+    notifications: { key: 'id', required: ['id'], title: 'Thông báo', label: r => String(r.title || r.id) },
+    audit_logs: { key: 'id', required: ['id', 'action'], title: 'Audit log', label: r => `${r.action} ${r.entity_type ?? ''}` },
+    fund_dues: { key: 'year', required: ['year', 'amount'], title: 'Niên liễm', label: r => `Năm ${r.year}: ${r.amount}` },
+    fund_entries: { key: 'id', required: ['id', 'kind', 'amount'], title: 'Sổ quỹ', label: r => `${r.entry_date} · ${r.kind === 'INCOME' ? 'Thu' : 'Chi'} ${r.amount}${r.description ? ` · ${r.description}` : ''}` },
+} satisfies Record<string, TableSpec>;
+
+export type BackupTable = keyof typeof BACKUP_TABLES;
+export const BACKUP_TABLE_NAMES = Object.keys(BACKUP_TABLES) as BackupTable[];
+
+export interface BackupManifest {
+    format: 'giapha-backup';
+    format_version: number;
+    schema_version: number;
+    exported_at: string;
+    tables: Partial<Record<BackupTable, { file: string; rows: number }>>;
+    media: { path: string; size: number }[];
+    /** Tables left out because reading them failed, with the error */
+    missing?: { table: BackupTable; error: string }[];
+}
+
+export interface BackupData {
+    manifest: BackupManifest;
+    tables: Partial<Record<BackupTable, BackupRow[]>>;
+    media: { path: string; bytes: Uint8Array }[];
+}
+
+export interface TableDiff {
+    added: BackupRow[];
+    changed: { before: BackupRow; after: BackupRow; fields: string[] }[];
+    removed: BackupRow[];
+    unchanged: number;
+}
+
+export type BackupDiff = Partial<Record<BackupTable, TableDiff>>;
+
+// Bookkeeping columns that differ between any two snapshots
+const IGNORED_FIELDS = new Set(['created_at', 'updated_at']);
+
+// ═══ Writing ═══
+
+/**
+ * Build the zip archive from table rows and (optionally) media files.
+ * `schemaVersion` keeps the version of rows rewritten from an older backup.
+ */
+export function buildBackupArchive(
+    tables: Partial<Record<BackupTable, BackupRow[]>>,
+    media: { path: string; bytes: Uint8Array }[] = [],
+    { exportedAt = new Date(), missing = [], schemaVersion = SCHEMA_VERSION }:
+        { exportedAt?: Date; missing?: BackupManifest['missing']; schemaVersion?: number } = {},
+): Uint8Array {
+    const manifest: BackupManifest = {
+        format: 'giapha-backup',
+        format_version: BACKUP_FORMAT_VERSION,
+        schema_version: schemaVersion,
+        exported_at: exportedAt.toISOString(),
+        tables: {},
+        media: media.map(m => ({ path: m.path, size: m.bytes.length })),
+        missing,
+    };
+    const files: Zippable = {};
+
+    for (const name of BACKUP_TABLE_NAMES) {
+        const rows = tables[name];
+        if (!rows) continue;
+        const file = `tables/${name}.json`;
+        files[file] = strToU8(JSON.stringify(rows, null, 2));
+        manifest.tables[name] = { file, rows: rows.length };
+    }
+    for (const m of media) {
+        // Already-compressed formats gain nothing from deflate
+        files[`media/${m.path}`] = [m.bytes, { level: 0 }];
+    }
+    files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+
+    return zipSync(files, { level: 6 });
+}
+
+// ═══ Reading & validation ═══
+
+function fail(...errors: string[]): { data: null; errors: string[] } {
+    return { data: null, errors };
+}
+
+/** Legacy v1 backup: { exported_at, people, families, profiles } */
+function readLegacyJson(text: string): { data: BackupData | null; errors: string[] } {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        return fail('Tệp không phải JSON hợp lệ');
+    }
+    if (!json || typeof json !== 'object' || Array.isArray(json)) return fail('Tệp backup phải là một đối tượng JSON');
+    const obj = json as Record<string, unknown>;
+    if (typeof obj.exported_at !== 'string' || isNaN(Date.parse(obj.exported_at))) return fail('Thiếu hoặc sai trường exported_at');
+
+    const tables: BackupData['tables'] = {};
+    const manifest: BackupManifest = {
+        format: 'giapha-backup', format_version: 1, schema_version: 1,
+        exported_at: obj.exported_at, tables: {}, media: [],
+    };
+    for (const name of ['people', 'families', 'profiles'] as const) {
+        if (!Array.isArray(obj[name])) return fail(`Thiếu bảng "${name}"`);
+        tables[name] = obj[name] as BackupRow[];
+        manifest.tables[name] = { file: name, rows: (obj[name] as unknown[]).length };
+    }
+    return { data: { manifest, tables, media: [] }, errors: [] };
+}
+
+function readArchive(bytes: Uint8Array): { data: BackupData | null; errors: string[] } {
+    let files: Record<string, Uint8Array>;
+    try {
+        files = unzipSync(bytes);
+    } catch {
+        return fail('Không giải nén được tệp backup');
+    }
+    if (!files['manifest.json']) return fail('Thiếu manifest.json');
+
+    let manifest: BackupManifest;
+    try {
+        manifest = JSON.parse(strFromU8(files['manifest.json']));
+    } catch {
+        return fail('manifest.json không hợp lệ');
+    }
+    if (manifest.format !== 'giapha-backup') return fail('Không phải tệp backup gia phả');
+    if (manifest.format_version > BACKUP_FORMAT_VERSION) {
+        return fail(`Backup định dạng v${manifest.format_version} mới hơn phiên bản ứng dụng (v${BACKUP_FORMAT_VERSION})`);
+    }
+
+    const errors: string[] = [];
+    const tables: BackupData['tables'] = {};
+    for (const [name, entry] of Object.entries(manifest.tables || {})) {
+        if (!(name in BACKUP_TABLES)) {
+            errors.push(`Bảng không xác định: ${name}`);
+            continue;
+        }
+        const raw = entry && files[entry.file];
+        if (!raw) {
+            errors.push(`Thiếu tệp ${entry?.file ?? name}`);
+            continue;
+        }
+        try {
+            const rows = JSON.parse(strFromU8(raw));
+            if (!Array.isArray(rows)) throw new Error();
+            if (rows.length !== entry.rows) errors.push(`${name}: manifest ghi ${entry.rows} dòng, tệp có ${rows.length}`);
+            tables[name as BackupTable] = rows;
+        } catch {
+            errors.push(`${entry.file} không phải mảng JSON hợp lệ`);
+        }
+    }
+
+    const media = (manifest.media || []).map(m => ({ path: m.path, bytes: files[`media/${m.path}`] }));
+    for (const m of media) if (!m.bytes) errors.push(`Thiếu tệp media/${m.path}`);
+
+    if (errors.length > 0) return { data: null, errors };
+    return { data: { manifest, tables, media }, errors: [] };
+}
+
+function validateRows(data: BackupData): string[] {
+    const errors: string[] = [];
+    for (const name of BACKUP_TABLE_NAMES) {
+        const rows = data.tables[name];
+        if (!rows) continue;
+        const spec: TableSpec = BACKUP_TABLES[name];
+        const keys = new Set<string>();
+        rows.forEach((row, i) => {
+            if (!row || typeof row !== 'object' || Array.isArray(row)) {
+                errors.push(`${name}[${i}]: không phải một bản ghi`);
+                return;
+            }
+            const missing = spec.required.filter(f => row[f] === undefined || row[f] === null || row[f] === '');
+            if (missing.length > 0) errors.push(`${name}[${i}]: thiếu ${missing.join(', ')}`);
+            const key = String(row[spec.key]);
+            if (keys.has(key)) errors.push(`${name}[${i}]: trùng khóa ${key}`);
+            keys.add(key);
+        });
+    }
+    return errors;
+}
+
+/** Read a backup (zip archive or legacy JSON) and check its shape */
+export function readBackupFile(bytes: Uint8Array): { data: BackupData | null; errors: string[] } {
+    const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;   // "PK"
+    const result = isZip ? readArchive(bytes) : readLegacyJson(strFromU8(bytes));
+    if (!result.data) return result;
+    if (result.data.manifest.schema_version > SCHEMA_VERSION) {
+        return fail(`Backup dùng lược đồ v${result.data.manifest.schema_version}, cơ sở dữ liệu hiện tại là v${SCHEMA_VERSION}. Hãy cập nhật database trước.`);
+    }
+    const errors = validateRows(result.data);
+    return errors.length > 0 ? fail(...errors) : result;
+}
+
+// ═══ Diff ═══
+
+function sameValue(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if ((a === null || a === undefined) && (b === null || b === undefined)) return true;
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function diffTable(table: BackupTable, incoming: BackupRow[], current: BackupRow[]): TableDiff {
+    const { key } = BACKUP_TABLES[table];
+    const currentMap = new Map(current.map(r => [String(r[key]), r]));
+    const incomingKeys = new Set(incoming.map(r => String(r[key])));
+    const diff: TableDiff = { added: [], changed: [], removed: [], unchanged: 0 };
+
+    for (const row of incoming) {
+        const before = currentMap.get(String(row[key]));
+        if (!before) {
+            diff.added.push(row);
+            continue;
+        }
+        const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(row)]))
+            .filter(f => !IGNORED_FIELDS.has(f) && !sameValue(before[f], row[f]));
+        if (fields.length > 0) diff.changed.push({ before, after: row, fields });
+        else diff.unchanged++;
+    }
+    for (const row of current) {
+        if (!incomingKeys.has(String(row[key]))) diff.removed.push(row);
+    }
+    return diff;
+}
+
+/** Compare the tables present in a backup with the current database */
+export function diffBackup(backup: BackupData, current: Partial<Record<BackupTable, BackupRow[]>>): BackupDiff {
+    const diff: BackupDiff = {};
+    for (const name of BACKUP_TABLE_NAMES) {
+        const rows = backup.tables[name];
+        if (rows) diff[name] = diffTable(name, rows, current[name] || []);
+    }
+    return diff;
+}
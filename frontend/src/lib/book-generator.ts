@@ -6,6 +6,7 @@
  */
 
 import type { TreeNode, TreeFamily } from './tree-layout';
+import { parseLunarDate, formatLunarDate } from './lunar-calendar';
 
 // ═══ Book Data Types ═══
 
@@ -15,6 +16,8 @@ export interface BookPerson {
     gender: number;
     birthYear?: number;
     deathYear?: number;
+    birthLunar?: string;  // "Mùng 5 tháng Giêng năm Canh Ngọ (1990)"
+    deathLunar?: string;  // giỗ
     isLiving: boolean;
     isPatrilineal: boolean;
     generation: number;
@@ -70,6 +73,11 @@ function formatYears(birth?: number, death?: number, isLiving?: boolean): string
     return `${birth}`;
 }
 
+function lunarLabel(text?: string): string | undefined {
+    const date = parseLunarDate(text);
+    return date ? formatLunarDate(date) : undefined;
+}
+
 // ═══ Main Generator ═══
 
 export function generateBookData(
@@ -203,6 +211,8 @@ export function generateBookData(
             gender: p.gender,
             birthYear: p.birthYear,
             deathYear: p.deathYear,
+            birthLunar: lunarLabel(p.birthDateLunar),
+            deathLunar: p.isLiving ? undefined : lunarLabel(p.deathDateLunar),
             isLiving: p.isLiving,
             isPatrilineal: p.isPatrilineal,
             generation: gen,
@@ -0,0 +1,192 @@
+/**
+ * Member contributions, reviewed on /admin/edits and /contributions/[id]:
+ * changes to one or several fields of a person (FIELD, FIELDS), or a new
+ * person with their relationship to an existing one (PERSON), backed by a
+ * note, attached media and a discussion with the reviewers. Approval goes
+ * through review_contribution (database-setup.sql §20), which keeps its own
+ * copy of the field → column map below.
+ */
+
+// ═══ Types ═══
+
+export type ContributionStatus = 'pending' | 'approved' | 'rejected';
+
+/** FIELD is the single-field form older contributions used; new ones send FIELDS */
+export type ContributionKind = 'FIELD' | 'FIELDS' | 'PERSON';
+
+/** One suggested field change; `status` records the reviewer's decision */
+export interface FieldChange {
+    field: string;
+    label: string;
+    old_value: string | null;
+    new_value: string;
+    status?: 'approved' | 'rejected';
+}
+
+export type ProposalRelation = 'child' | 'spouse';
+
+/** Payload of a PERSON contribution */
+export interface PersonProposal {
+    relation: ProposalRelation;
+    /** For a child: the relative's family (with the other parent); null when the other parent is unknown */
+    family?: string | null;
+    person: {
+        display_name: string;
+        gender: number;
+        birth_year: number | null;
+        death_year: number | null;
+        is_living: boolean;
+        notes: string | null;
+    };
+    /** Handle of the created person, set on approval */
+    handle?: string;
+}
+
+export interface Contribution {
+    id: string;
+    author_id: string;
+    author_email: string;
+    person_handle: string;
+    person_name: string;
+    kind: ContributionKind;
+    field_name: string;
+    field_label: string;
+    /** The person's value when the suggestion was sent, for the staleness check */
+    old_value: string | null;
+    /** FIELD: the suggested value; FIELDS: the changed field labels; PERSON: the new person's name */
+    new_value: string;
+    changes: FieldChange[] | null;
+    payload: PersonProposal | null;
+    note: string | null;
+    status: ContributionStatus;
+    admin_note: string | null;
+    created_at: string;
+    reviewed_at: string | null;
+}
+
+export interface ContributionMessage {
+    id: string;
+    contribution_id: string;
+    author_id: string | null;
+    body: string;
+    created_at: string;
+    author: { display_name: string | null; email: string | null; role: string | null } | null;
+}
+
+export interface ContributionField {
+    key: string;
+    label: string;
+    type: 'text' | 'number' | 'textarea';
+    placeholder: string;
+    /** `people` column the value is written to */
+    column: string;
+    /** Appended to the column instead of replacing it (free-form notes) */
+    append?: boolean;
+}
+
+// ═══ Fields ═══
+
+export const CONTRIBUTION_FIELDS: ContributionField[] = [
+    { key: 'birth_year', label: 'Năm sinh', type: 'number', placeholder: 'VD: 1950', column: 'birth_year' },
+    { key: 'death_year', label: 'Năm mất', type: 'number', placeholder: 'VD: 2020', column: 'death_year' },
+    { key: 'display_name', label: 'Họ tên', type: 'text', placeholder: 'VD: Lê Văn A', column: 'display_name' },
+    { key: 'biography', label: 'Tiểu sử', type: 'textarea', placeholder: 'Thông tin tiểu sử...', column: 'notes' },
+    { key: 'occupation', label: 'Nghề nghiệp', type: 'text', placeholder: 'VD: Giáo viên', column: 'occupation' },
+    { key: 'address', label: 'Địa chỉ', type: 'text', placeholder: 'VD: Hà Nội', column: 'current_address' },
+    { key: 'phone', label: 'Số điện thoại', type: 'text', placeholder: 'VD: 0901234567', column: 'phone' },
+    { key: 'other', label: 'Thông tin khác', type: 'textarea', placeholder: 'Bổ sung thông tin...', column: 'notes', append: true },
+];
+
+export function contributionField(key: string): ContributionField | undefined {
+    return CONTRIBUTION_FIELDS.find(f => f.key === key);
+}
+
+/**
+ * The field's current value in a `people` row, as text the way the database
+ * compares it (`to_jsonb(row) ->> column`); null when empty
+ */
+export function currentFieldValue(row: Record<string, unknown> | null, field: ContributionField): string | null {
+    const value = row?.[field.column];
+    if (value === null || value === undefined || value === '') return null;
+    return String(value);
+}
+
+/** The field changes a contribution carries, whatever its kind (none for PERSON) */
+export function contributionChanges(c: Contribution): FieldChange[] {
+    if (c.kind === 'FIELDS') return c.changes ?? [];
+    if (c.kind === 'PERSON') return [];
+    return [{ field: c.field_name, label: c.field_label || c.field_name, old_value: c.old_value, new_value: c.new_value }];
+}
+
+/** Contribution row fields for a set of field changes */
+export function changeSetFields(changes: FieldChange[]) {
+    return {
+        kind: 'FIELDS' as const,
+        field_name: 'fields',
+        field_label: changes.length === 1 ? changes[0].label : `${changes.length} thông tin`,
+        old_value: null,
+        new_value: changes.map(ch => ch.label).join(', '),
+        changes,
+    };
+}
+
+// ═══ Diff ═══
+
+export interface DiffPart {
+    text: string;
+    /** 'same' on both sides, 'removed' only on the old side, 'added' only on the new side */
+    kind: 'same' | 'removed' | 'added';
+}
+
+/**
+ * Word-level diff (longest common subsequence over words and whitespace) for
+ * the side-by-side review; long texts fall back to a whole replacement.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+    const a = before.split(/(\s+)/).filter(Boolean);
+    const b = after.split(/(\s+)/).filter(Boolean);
+    if (a.length * b.length > 1_000_000) {
+        return [{ text: before, kind: 'removed' }, { text: after, kind: 'added' }];
+    }
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+    const parts: DiffPart[] = [];
+    const push = (text: string, kind: DiffPart['kind']) => {
+        const last = parts[parts.length - 1];
+        if (last?.kind === kind) last.text += text;
+        else parts.push({ text, kind });
+    };
+    let i = 0, j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) { push(a[i], 'same'); i++; j++; }
+        else if (lcs[i + 1][j] >= lcs[i][j + 1]) push(a[i++], 'removed');
+        else push(b[j++], 'added');
+    }
+    while (i < a.length) push(a[i++], 'removed');
+    while (j < b.length) push(b[j++], 'added');
+    return parts;
+}
+
+// ═══ New people ═══
+
+export const RELATION_LABELS: Record<ProposalRelation, string> = {
+    child: 'Con',
+    spouse: 'Vợ / chồng',
+};
+
+/** Contribution row fields for a proposed person (field_name and field_label describe the relation) */
+export function proposalFields(proposal: PersonProposal) {
+    return {
+        kind: 'PERSON' as const,
+        field_name: proposal.relation,
+        field_label: `Thêm ${RELATION_LABELS[proposal.relation].toLowerCase()}`,
+        old_value: null,
+        new_value: proposal.person.display_name,
+        payload: proposal,
+    };
+}
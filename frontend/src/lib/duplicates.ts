@@ -0,0 +1,200 @@
+/**
+ * Duplicate people — candidate pairs share a given name (last word, without
+ * diacritics) and gender, and are scored on full-name similarity, birth and
+ * death year, parents and spouses. Merging is tree_merge_people
+ * (database-setup.sql §10): the chosen fields are written to the surviving
+ * person and every reference to the other handle is moved onto it.
+ */
+
+import { foldName, type PersonRow, type FamilyRow } from './genealogy-types';
+
+// ═══ Types ═══
+
+export interface DuplicateCandidate {
+    a: PersonRow;
+    b: PersonRow;
+    score: number;             // 0–100
+    reasons: string[];         // Vietnamese, for the review list
+}
+
+export const DUPLICATE_THRESHOLD = 60;
+
+/** Person columns the merge screen lets the admin pick between */
+export const MERGE_FIELDS = [
+    { key: 'display_name', label: 'Họ tên' },
+    { key: 'surname', label: 'Họ' },
+    { key: 'first_name', label: 'Tên' },
+    { key: 'nick_name', label: 'Tên thường gọi' },
+    { key: 'gender', label: 'Giới tính' },
+    { key: 'birth_year', label: 'Năm sinh' },
+    { key: 'birth_date', label: 'Ngày sinh' },
+    { key: 'birth_date_lunar', label: 'Ngày sinh âm lịch' },
+    { key: 'birth_place', label: 'Nơi sinh' },
+    { key: 'is_living', label: 'Còn sống' },
+    { key: 'death_year', label: 'Năm mất' },
+    { key: 'death_date', label: 'Ngày mất' },
+    { key: 'death_date_lunar', label: 'Ngày giỗ (âm lịch)' },
+    { key: 'death_place', label: 'Nơi mất' },
+    { key: 'phone', label: 'Điện thoại' },
+    { key: 'email', label: 'Email' },
+    { key: 'zalo', label: 'Zalo' },
+    { key: 'facebook', label: 'Facebook' },
+    { key: 'current_address', label: 'Nơi ở hiện tại' },
+    { key: 'hometown', label: 'Quê quán' },
+    { key: 'occupation', label: 'Nghề nghiệp' },
+    { key: 'company', label: 'Nơi công tác' },
+    { key: 'education', label: 'Học vấn' },
+    { key: 'notes', label: 'Ghi chú' },
+] as const satisfies readonly { key: keyof PersonRow; label: string }[];
+
+export type MergeField = (typeof MERGE_FIELDS)[number]['key'];
+/** Which side each field is taken from; missing = survivor */
+export type MergeChoices = Partial<Record<MergeField, 'survivor' | 'duplicate'>>;
+
+// ═══ Scoring ═══
+
+/** Levenshtein similarity of two folded strings, 0–1 */
+function similarity(x: string, y: string): number {
+    if (x === y) return 1;
+    if (!x || !y) return 0;
+    let prev = Array.from({ length: y.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= x.length; i++) {
+        const row = [i];
+        for (let j = 1; j <= y.length; j++) {
+            row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (x[i - 1] === y[j - 1] ? 0 : 1));
+        }
+        prev = row;
+    }
+    return 1 - prev[y.length] / Math.max(x.length, y.length);
+}
+
+function givenName(folded: string): string {
+    return folded.slice(folded.lastIndexOf(' ') + 1);
+}
+
+/** Score every pair of people that share gender and folded given name */
+export function findDuplicates(
+    people: PersonRow[],
+    families: FamilyRow[],
+    threshold = DUPLICATE_THRESHOLD,
+): DuplicateCandidate[] {
+    const names = new Map(people.map(p => [p.handle, foldName(p.display_name || '')]));
+    const childOf = new Map<string, FamilyRow[]>();
+    const parentIn = new Map<string, FamilyRow[]>();
+    for (const f of families) {
+        for (const c of f.children || []) childOf.set(c, [...(childOf.get(c) || []), f]);
+        for (const h of [f.father_handle, f.mother_handle]) {
+            if (h) parentIn.set(h, [...(parentIn.get(h) || []), f]);
+        }
+    }
+    const parentsOf = (h: string) => (childOf.get(h) || []).flatMap(f => [f.father_handle, f.mother_handle]).filter((x): x is string => !!x);
+    const spousesOf = (h: string) => (parentIn.get(h) || []).map(f => (f.father_handle === h ? f.mother_handle : f.father_handle)).filter((x): x is string => !!x);
+    const childrenOf = (h: string) => (parentIn.get(h) || []).flatMap(f => f.children || []);
+
+    const blocks = new Map<string, PersonRow[]>();
+    for (const p of people) {
+        const key = `${p.gender}:${givenName(names.get(p.handle)!)}`;
+        blocks.set(key, [...(blocks.get(key) || []), p]);
+    }
+
+    const result: DuplicateCandidate[] = [];
+    for (const block of blocks.values()) {
+        for (let i = 0; i < block.length; i++) {
+            for (let j = i + 1; j < block.length; j++) {
+                const candidate = scorePair(block[i], block[j]);
+                if (candidate && candidate.score >= threshold) result.push(candidate);
+            }
+        }
+    }
+    return result.sort((x, y) => y.score - x.score);
+
+    function scorePair(a: PersonRow, b: PersonRow): DuplicateCandidate | null {
+        const nameA = names.get(a.handle)!;
+        const nameB = names.get(b.handle)!;
+        const nameSim = similarity(nameA, nameB);
+        if (nameSim < 0.75) return null;
+        // A parent and their own child are never the same person
+        if (parentsOf(a.handle).includes(b.handle) || childrenOf(a.handle).includes(b.handle)) return null;
+
+        const reasons: string[] = [];
+        let score = Math.round(nameSim * 50);
+        reasons.push(nameA === nameB ? 'Trùng họ tên' : `Tên gần giống (${Math.round(nameSim * 100)}%)`);
+
+        if (a.birth_year && b.birth_year) {
+            const diff = Math.abs(a.birth_year - b.birth_year);
+            if (diff === 0) { score += 20; reasons.push(`Cùng năm sinh ${a.birth_year}`); }
+            else if (diff <= 2) { score += 10; reasons.push(`Năm sinh lệch ${diff} năm`); }
+            else if (diff > 5) { score -= 30; reasons.push(`Năm sinh khác xa (${a.birth_year} / ${b.birth_year})`); }
+        }
+        if (a.death_year && b.death_year) {
+            if (a.death_year === b.death_year) { score += 5; reasons.push(`Cùng năm mất ${a.death_year}`); }
+            else if (Math.abs(a.death_year - b.death_year) > 2) { score -= 20; reasons.push('Năm mất khác nhau'); }
+        }
+
+        const parentsA = parentsOf(a.handle);
+        const parentsB = parentsOf(b.handle);
+        if (parentsA.some(h => parentsB.includes(h))) {
+            score += 30;
+            reasons.push('Cùng cha/mẹ');
+        } else if (parentsA.length > 0 && parentsB.length > 0) {
+            const parentNamesB = new Set(parentsB.map(h => names.get(h)));
+            if (parentsA.some(h => parentNamesB.has(names.get(h)))) {
+                score += 20;
+                reasons.push('Cha/mẹ cùng tên');
+            } else {
+                score -= 15;
+                reasons.push('Cha mẹ khác nhau');
+            }
+        }
+
+        const spousesA = spousesOf(a.handle);
+        const spousesB = spousesOf(b.handle);
+        if (spousesA.some(h => spousesB.includes(h))) {
+            score += 30;
+            reasons.push('Cùng vợ/chồng');
+        } else {
+            const spouseNamesB = new Set(spousesB.map(h => names.get(h)));
+            if (spousesA.some(h => spouseNamesB.has(names.get(h)))) {
+                score += 20;
+                reasons.push('Vợ/chồng cùng tên');
+            }
+        }
+
+        return { a, b, score: Math.max(0, Math.min(100, score)), reasons };
+    }
+}
+
+// ═══ Merge ═══
+
+function isEmpty(value: unknown): boolean {
+    return value === null || value === undefined || value === '';
+}
+
+/** Default choices: the survivor's value, unless it is empty and the duplicate has one */
+export function defaultMergeChoices(survivor: PersonRow, duplicate: PersonRow): MergeChoices {
+    const choices: MergeChoices = {};
+    for (const { key } of MERGE_FIELDS) {
+        if (isEmpty(survivor[key]) && !isEmpty(duplicate[key])) choices[key] = 'duplicate';
+    }
+    return choices;
+}
+
+/** Fields that differ between the two records */
+export function conflictingFields(survivor: PersonRow, duplicate: PersonRow): MergeField[] {
+    return MERGE_FIELDS.map(f => f.key).filter(key => !isEmpty(duplicate[key]) && survivor[key] !== duplicate[key]);
+}
+
+/** Column values to write onto the survivor */
+export function mergedFields(duplicate: PersonRow, choices: MergeChoices): Partial<PersonRow> {
+    const fields: Record<string, unknown> = {};
+    for (const { key } of MERGE_FIELDS) {
+        if (choices[key] === 'duplicate') fields[key] = duplicate[key] ?? null;
+    }
+    return fields as Partial<PersonRow>;
+}
+
+/** The record with more family links survives by default */
+export function defaultSurvivor(pair: DuplicateCandidate): PersonRow {
+    const links = (p: PersonRow) => (p.families?.length || 0) + (p.parent_families?.length || 0);
+    return links(pair.b) > links(pair.a) ? pair.b : pair.a;
+}
@@ -0,0 +1,267 @@
+/**
+ * Quỹ họ — the clan fund ledger. Income and expense entries in VND, yearly
+ * dues (niên liễm) per household, balances carried from year to year and a
+ * printable yearly report. Tables and audit triggers: database-setup.sql §16.
+ *
+ * A household (hộ) is a family in the tree with at least one living parent.
+ */
+
+import type { TreeNode, TreeFamily } from './tree-layout';
+import { escapeHtml } from './utils';
+
+// ═══ Types ═══
+
+export type FundKind = 'INCOME' | 'EXPENSE';
+
+export interface FundEntry {
+    id: string;
+    kind: FundKind;
+    amount: number;
+    entry_date: string;         // YYYY-MM-DD
+    category: string;
+    description: string | null;
+    person_handle: string | null;
+    household_handle: string | null;
+    event_id: string | null;
+    dues_year: number | null;
+    receipt_no: string | null;
+    recorded_by: string | null;
+    created_at: string;
+    voided_at: string | null;
+    void_reason: string | null;
+}
+
+export type FundEntryDraft = Omit<FundEntry, 'id' | 'recorded_by' | 'created_at' | 'voided_at' | 'void_reason'> & { id?: string };
+
+export interface FundDues {
+    year: number;
+    amount: number;
+    note: string | null;
+}
+
+export interface Household {
+    handle: string;             // family handle
+    label: string;              // "Hộ Trần Văn A"
+    members: string[];          // living parents' handles
+}
+
+export interface YearSummary {
+    year: number;
+    opening: number;
+    income: number;
+    expense: number;
+    closing: number;
+    byCategory: { category: string; kind: FundKind; total: number; count: number }[];
+}
+
+export interface DuesRow {
+    household: Household;
+    due: number;
+    paid: number;
+    outstanding: number;
+}
+
+// ═══ Categories ═══
+
+export const DUES_CATEGORY = 'dues';
+
+export const FUND_CATEGORIES: Record<string, { label: string; kind: FundKind }> = {
+    dues: { label: 'Niên liễm (đóng góp hằng năm)', kind: 'INCOME' },
+    donation: { label: 'Công đức, ủng hộ', kind: 'INCOME' },
+    'other-income': { label: 'Thu khác', kind: 'INCOME' },
+    'ancestor-memorial': { label: 'Giỗ tổ', kind: 'EXPENSE' },
+    'hall-repair': { label: 'Tu sửa nhà thờ họ', kind: 'EXPENSE' },
+    'tomb-repair': { label: 'Tu sửa mồ mả', kind: 'EXPENSE' },
+    scholarship: { label: 'Khuyến học', kind: 'EXPENSE' },
+    welfare: { label: 'Thăm hỏi, hiếu hỉ', kind: 'EXPENSE' },
+    'other-expense': { label: 'Chi khác', kind: 'EXPENSE' },
+};
+
+export function categoryLabel(category: string): string {
+    return FUND_CATEGORIES[category]?.label ?? category;
+}
+
+export function categoriesOf(kind: FundKind): string[] {
+    return Object.keys(FUND_CATEGORIES).filter(c => FUND_CATEGORIES[c].kind === kind);
+}
+
+// ═══ Money ═══
+
+/** 1500000 → "1.500.000 ₫" */
+export function formatVnd(amount: number): string {
+    return `${amount.toLocaleString('vi-VN')} ₫`;
+}
+
+/** "1.500.000", "1,5tr", "200k", "2 triệu" → đồng; null when unreadable */
+export function parseVnd(text: string): number | null {
+    const value = text.trim().toLowerCase().replace(/\s+/g, '').replace(/₫|đ|vnd$/g, '');
+    const unit = /^([\d.,]+)(k|nghìn|ngàn|tr|triệu|m)?$/.exec(value);
+    if (!unit) return null;
+    if (unit[2]) {
+        // With a unit, "," or "." is a decimal mark: 1,5tr
+        const n = parseFloat(unit[1].replace(',', '.'));
+        const factor = unit[2] === 'k' || unit[2] === 'nghìn' || unit[2] === 'ngàn' ? 1000 : 1000000;
+        return Number.isFinite(n) ? Math.round(n * factor) : null;
+    }
+    const n = parseInt(unit[1].replace(/[.,]/g, ''), 10);
+    return Number.isFinite(n) ? n : null;
+}
+
+// ═══ Households ═══
+
+export function householdsOf(people: TreeNode[], families: TreeFamily[]): Household[] {
+    const byHandle = new Map(people.map(p => [p.handle, p]));
+    const households: Household[] = [];
+    for (const f of families) {
+        const parents = [f.fatherHandle, f.motherHandle]
+            .map(h => (h ? byHandle.get(h) : undefined))
+            .filter((p): p is TreeNode => !!p);
+        const living = parents.filter(p => p.isLiving);
+        if (living.length === 0) continue;
+        // The household goes by the living husband, else the living wife
+        households.push({ handle: f.handle, label: `Hộ ${living[0].displayName}`, members: living.map(p => p.handle) });
+    }
+    return households.sort((a, b) => a.label.localeCompare(b.label, 'vi'));
+}
+
+// ═══ Reports ═══
+
+const active = (e: FundEntry) => !e.voided_at;
+const signed = (e: FundEntry) => (e.kind === 'INCOME' ? e.amount : -e.amount);
+const yearOf = (e: FundEntry) => parseInt(e.entry_date.slice(0, 4), 10);
+
+/** Totals for a calendar year; the opening balance carries every earlier year */
+export function summarizeYear(entries: FundEntry[], year: number): YearSummary {
+    const live = entries.filter(active);
+    const opening = live.filter(e => yearOf(e) < year).reduce((sum, e) => sum + signed(e), 0);
+    const inYear = live.filter(e => yearOf(e) === year);
+    const categories = new Map<string, YearSummary['byCategory'][number]>();
+    for (const e of inYear) {
+        const key = `${e.kind}:${e.category}`;
+        const row = categories.get(key) ?? { category: e.category, kind: e.kind, total: 0, count: 0 };
+        row.total += e.amount;
+        row.count++;
+        categories.set(key, row);
+    }
+    const income = inYear.filter(e => e.kind === 'INCOME').reduce((sum, e) => sum + e.amount, 0);
+    const expense = inYear.filter(e => e.kind === 'EXPENSE').reduce((sum, e) => sum + e.amount, 0);
+    return {
+        year,
+        opening,
+        income,
+        expense,
+        closing: opening + income - expense,
+        byCategory: [...categories.values()].sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'INCOME' ? -1 : 1) || b.total - a.total),
+    };
+}
+
+/** Dues owed and paid per household for a year; paid counts entries tagged with that dues year */
+export function duesStatus(households: Household[], entries: FundEntry[], dues: FundDues | undefined, year: number): DuesRow[] {
+    const paid = new Map<string, number>();
+    for (const e of entries) {
+        if (!active(e) || e.category !== DUES_CATEGORY || e.dues_year !== year || !e.household_handle) continue;
+        paid.set(e.household_handle, (paid.get(e.household_handle) ?? 0) + e.amount);
+    }
+    const due = dues?.amount ?? 0;
+    return households.map(household => {
+        const p = paid.get(household.handle) ?? 0;
+        return { household, due, paid: p, outstanding: Math.max(0, due - p) };
+    });
+}
+
+/** Years that have entries or a dues rate, newest first, always including `current` */
+export function fundYears(entries: FundEntry[], dues: FundDues[], current: number): number[] {
+    const years = new Set([current, ...entries.map(yearOf), ...dues.map(d => d.year)]);
+    return [...years].sort((a, b) => b - a);
+}
+
+// ═══ Print ═══
+
+interface ReportInput {
+    summary: YearSummary;
+    entries: FundEntry[];
+    duesRows: DuesRow[];
+    names: Map<string, string>;     // person / household handle → label
+    printedBy: string;
+}
+
+/** Standalone printable yearly report: totals, by category, the ledger and dues */
+export function fundReportHtml({ summary, entries, duesRows, names, printedBy }: ReportInput): string {
+    const { year } = summary;
+    const ledger = entries
+        .filter(e => yearOf(e) === year)
+        .sort((a, b) => a.entry_date.localeCompare(b.entry_date) || a.created_at.localeCompare(b.created_at));
+    let balance = summary.opening;
+    const ledgerRows = ledger.map(e => {
+        if (active(e)) balance += signed(e);
+        const who = [e.household_handle && names.get(e.household_handle), e.person_handle && names.get(e.person_handle)].filter(Boolean).join(' · ');
+        return `
+        <tr class="${e.voided_at ? 'void' : ''}">
+            <td>${e.entry_date.split('-').reverse().join('/')}</td>
+            <td>${escapeHtml(e.receipt_no || '')}</td>
+            <td>${escapeHtml(categoryLabel(e.category))}${e.voided_at ? ' (đã hủy)' : ''}</td>
+            <td>${escapeHtml([e.description, who].filter(Boolean).join(' — '))}</td>
+            <td class="num">${e.kind === 'INCOME' ? e.amount.toLocaleString('vi-VN') : ''}</td>
+            <td class="num">${e.kind === 'EXPENSE' ? e.amount.toLocaleString('vi-VN') : ''}</td>
+            <td class="num">${balance.toLocaleString('vi-VN')}</td>
+        </tr>`;
+    }).join('');
+    const categoryRows = summary.byCategory.map(c => `
+        <tr><td>${c.kind === 'INCOME' ? 'Thu' : 'Chi'}</td><td>${escapeHtml(categoryLabel(c.category))}</td><td class="num">${c.count}</td><td class="num">${c.total.toLocaleString('vi-VN')}</td></tr>`).join('');
+    const owing = duesRows.filter(r => r.due > 0);
+    const duesSection = owing.length === 0 ? '' : `
+<h2>Niên liễm năm ${year}</h2>
+<p>Mức đóng: ${formatVnd(owing[0].due)}/hộ · Đã đóng đủ: ${owing.filter(r => r.outstanding === 0).length}/${owing.length} hộ · Còn thiếu: ${formatVnd(owing.reduce((s, r) => s + r.outstanding, 0))}</p>
+<table>
+    <thead><tr><th>Hộ</th><th class="num">Đã đóng</th><th class="num">Còn thiếu</th></tr></thead>
+    <tbody>${owing.map(r => `<tr><td>${escapeHtml(r.household.label)}</td><td class="num">${r.paid.toLocaleString('vi-VN')}</td><td class="num">${r.outstanding ? r.outstanding.toLocaleString('vi-VN') : '✓'}</td></tr>`).join('')}</tbody>
+</table>`;
+
+    return `<!DOCTYPE html>
+<html lang="vi">
+<head>
+<meta charset="utf-8">
+<title>Báo cáo quỹ họ năm ${year}</title>
+<style>
+    body { font-family: 'Noto Serif', Georgia, serif; margin: 16mm; color: #111; font-size: 10.5pt; }
+    h1 { font-size: 18pt; margin: 0 0 2px; text-align: center; }
+    h2 { font-size: 13pt; margin: 18px 0 6px; }
+    .sub { text-align: center; margin: 0 0 14px; color: #444; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 8px; }
+    th, td { border: 1px solid #999; padding: 3px 6px; text-align: left; vertical-align: top; }
+    th { background: #f1f1f1; }
+    .num { text-align: right; white-space: nowrap; }
+    tr.void td { color: #999; text-decoration: line-through; }
+    tr { page-break-inside: avoid; }
+    .totals td { font-weight: bold; }
+    .sign { display: flex; justify-content: space-around; margin-top: 28px; text-align: center; }
+    .sign div { min-height: 70px; }
+</style>
+</head>
+<body>
+<h1>BÁO CÁO THU CHI QUỸ HỌ NĂM ${year}</h1>
+<p class="sub">Tính đến ngày 31/12/${year}</p>
+<table>
+    <tbody>
+        <tr><td>Tồn quỹ đầu năm</td><td class="num">${formatVnd(summary.opening)}</td></tr>
+        <tr><td>Tổng thu trong năm</td><td class="num">${formatVnd(summary.income)}</td></tr>
+        <tr><td>Tổng chi trong năm</td><td class="num">${formatVnd(summary.expense)}</td></tr>
+        <tr class="totals"><td>Tồn quỹ cuối năm</td><td class="num">${formatVnd(summary.closing)}</td></tr>
+    </tbody>
+</table>
+<h2>Theo hạng mục</h2>
+<table>
+    <thead><tr><th>Loại</th><th>Hạng mục</th><th class="num">Số khoản</th><th class="num">Số tiền (₫)</th></tr></thead>
+    <tbody>${categoryRows}</tbody>
+</table>
+<h2>Sổ thu chi</h2>
+<table>
+    <thead><tr><th>Ngày</th><th>Số phiếu</th><th>Hạng mục</th><th>Nội dung</th><th class="num">Thu</th><th class="num">Chi</th><th class="num">Tồn</th></tr></thead>
+    <tbody>${ledgerRows}</tbody>
+</table>
+${duesSection}
+<p class="sub" style="margin-top:16px">In lúc ${new Date().toLocaleString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' })} bởi ${escapeHtml(printedBy)}</p>
+<div class="sign"><div>Người lập biểu</div><div>Thủ quỹ</div><div>Trưởng họ</div></div>
+</body>
+</html>`;
+}
@@ -0,0 +1,428 @@
+/**
+ * GEDCOM 5.5.1 / 7.0 support — parses INDI and FAM records into
+ * `people` and `families` rows, and writes the tree back out.
+ *
+ * Other record types (SOUR, OBJE, REPO, NOTE...) are skipped on import and
+ * counted in the issue report so nothing is dropped silently.
+ */
+
+import type { PersonRow, FamilyRow } from './genealogy-types';
+import { filterAncestors, filterDescendants, type TreeNode, type TreeFamily } from './tree-layout';
+import { deriveTreeFields, dropMissingMembers, type ImportBatch, type ImportIssue } from './tree-import';
+
+// ═══ Line tree ═══
+
+interface GedcomNode {
+    level: number;
+    xref?: string;
+    tag: string;
+    value: string;
+    line: number;
+    children: GedcomNode[];
+}
+
+const LINE_RE = /^\s*(\d+)\s+(?:(@[^@\s]+@)\s+)?([A-Za-z0-9_]+)(?:\s(.*))?$/;
+
+function parseLines(text: string, issues: ImportIssue[]): GedcomNode[] {
+    const roots: GedcomNode[] = [];
+    const stack: GedcomNode[] = [];
+    const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+
+    lines.forEach((raw, i) => {
+        if (!raw.trim()) return;
+        const m = LINE_RE.exec(raw);
+        if (!m) {
+            issues.push({ record: '—', line: i + 1, severity: 'error', message: `Dòng không hợp lệ: "${raw.slice(0, 60)}"` });
+            return;
+        }
+        const node: GedcomNode = {
+            level: parseInt(m[1], 10),
+            xref: m[2],
+            tag: m[3].toUpperCase(),
+            value: m[4] ?? '',
+            line: i + 1,
+            children: [],
+        };
+        while (stack.length > 0 && stack[stack.length - 1].level >= node.level) stack.pop();
+        if (node.level === 0) {
+            roots.push(node);
+        } else if (stack.length === 0 || stack[stack.length - 1].level !== node.level - 1) {
+            issues.push({ record: '—', line: node.line, severity: 'error', message: `Cấp độ ${node.level} không có dòng cha` });
+            return;
+        } else {
+            stack[stack.length - 1].children.push(node);
+        }
+        stack.push(node);
+    });
+    return roots;
+}
+
+function child(node: GedcomNode, tag: string): GedcomNode | undefined {
+    return node.children.find(c => c.tag === tag);
+}
+
+function childrenOf(node: GedcomNode, tag: string): GedcomNode[] {
+    return node.children.filter(c => c.tag === tag);
+}
+
+/** Value with CONT/CONC continuation lines joined (CONC is 5.5.1 only) */
+function fullText(node: GedcomNode): string {
+    let text = node.value;
+    for (const c of node.children) {
+        if (c.tag === 'CONT') text += '\n' + c.value;
+        else if (c.tag === 'CONC') text += c.value;
+    }
+    return text;
+}
+
+/** "@I12@" → "I12"; GEDCOM 7 "@VOID@" → null */
+function pointer(value: string): string | null {
+    const m = /^@([^@]+)@$/.exec(value.trim());
+    if (!m || m[1] === 'VOID') return null;
+    return m[1];
+}
+
+// ═══ Dates ═══
+
+const MONTHS: Record<string, number> = {
+    JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6, JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12,
+};
+
+const QUALIFIERS: Record<string, string> = {
+    ABT: 'Khoảng', CAL: 'Khoảng', EST: 'Khoảng', BEF: 'Trước', AFT: 'Sau',
+};
+
+function formatDatePart(part: string): string | null {
+    const m = /^(?:(\d{1,2})\s+)?(?:([A-Z]{3})\s+)?(\d{1,4})(?:\s+B\.?C\.?)?$/.exec(part.trim());
+    if (!m) return null;
+    const [, day, mon, year] = m;
+    if (mon && !MONTHS[mon]) return null;
+    const pad = (n: number) => String(n).padStart(2, '0');
+    if (day && mon) return `${pad(parseInt(day, 10))}/${pad(MONTHS[mon])}/${year}`;
+    if (mon) return `${pad(MONTHS[mon])}/${year}`;
+    return year;
+}
+
+/**
+ * Convert a GEDCOM date to the app's free-text format (dd/mm/yyyy, mm/yyyy, yyyy)
+ * and extract the year. Ranges and qualifiers are translated; anything
+ * unrecognised is kept verbatim.
+ */
+export function parseGedcomDate(value: string): { text: string; year: number | null } {
+    const raw = value.trim().toUpperCase()
+        .replace(/^@#D[A-Z ]+@\s*/, '')      // 5.5.1 calendar escape
+        .replace(/^(GREGORIAN|JULIAN)\s+/, '');  // 7.0 calendar keyword
+    const years = raw.match(/\d{3,4}/g);
+    const year = years ? parseInt(years[0], 10) : null;
+
+    let m = /^(ABT|CAL|EST|BEF|AFT)\s+(.+)$/.exec(raw);
+    if (m) {
+        const inner = formatDatePart(m[2]);
+        if (inner) return { text: `${QUALIFIERS[m[1]]} ${inner}`, year };
+    }
+    m = /^BET\s+(.+)\s+AND\s+(.+)$/.exec(raw) || /^FROM\s+(.+)\s+TO\s+(.+)$/.exec(raw);
+    if (m) {
+        const a = formatDatePart(m[1]);
+        const b = formatDatePart(m[2]);
+        if (a && b) return { text: `${a} – ${b}`, year };
+    }
+    const plain = formatDatePart(raw);
+    return { text: plain ?? value.trim(), year };
+}
+
+// ═══ Names ═══
+
+/**
+ * "Văn An /Nguyễn/" → surname Nguyễn, given Văn An. Display names follow
+ * Vietnamese order (surname first). GIVN/SURN sub-tags win when present.
+ */
+function parseName(node: GedcomNode): { surname: string | null; firstName: string | null; displayName: string; nickName: string | null } {
+    const value = node.value;
+    const m = /^([^/]*)\/([^/]*)\/?(.*)$/.exec(value);
+    let given = (m ? `${m[1]} ${m[3]}` : value).replace(/\s+/g, ' ').trim();
+    let surname = (m ? m[2] : '').trim();
+    const givn = child(node, 'GIVN');
+    const surn = child(node, 'SURN');
+    if (givn?.value) given = givn.value.trim();
+    if (surn?.value) surname = surn.value.trim();
+    const nick = child(node, 'NICK')?.value.trim() || null;
+    const displayName = [surname, given].filter(Boolean).join(' ');
+    return { surname: surname || null, firstName: given || null, displayName, nickName: nick };
+}
+
+// ═══ Import ═══
+
+const SKIPPED_RECORDS = new Set(['HEAD', 'TRLR', 'SUBM', 'SUBN']);
+// Person columns read from the file (see parseIndividual); the rest are entered in the app
+const COLUMNS: (keyof PersonRow)[] = [
+    'gramps_id', 'gender', 'display_name', 'surname', 'first_name', 'nick_name',
+    'birth_year', 'birth_date', 'birth_place', 'death_year', 'death_date', 'death_place',
+    'is_living', 'occupation', 'notes',
+];
+
+/** Parse a GEDCOM file into an import batch (nothing is written) */
+export function parseGedcom(text: string): ImportBatch {
+    const issues: ImportIssue[] = [];
+    const roots = parseLines(text, issues);
+
+    const head = roots.find(r => r.tag === 'HEAD');
+    const gedc = head && child(head, 'GEDC');
+    const version = gedc ? child(gedc, 'VERS')?.value.trim() || null : null;
+    const charset = head ? child(head, 'CHAR')?.value.trim().toUpperCase() : undefined;
+    if (!head) {
+        issues.push({ record: 'HEAD', severity: 'warning', message: 'Thiếu phần HEAD, có thể không phải tệp GEDCOM' });
+    }
+    if (charset && !['UTF-8', 'UTF8', 'UNICODE', 'ASCII'].includes(charset)) {
+        issues.push({ record: 'HEAD', severity: 'warning', message: `Bảng mã ${charset} không được hỗ trợ, dấu tiếng Việt có thể bị lỗi. Hãy xuất lại với UTF-8.` });
+    }
+
+    const people: PersonRow[] = [];
+    const families: FamilyRow[] = [];
+    const seen = new Set<string>();
+    const skipped = new Map<string, number>();
+
+    for (const rec of roots) {
+        if (SKIPPED_RECORDS.has(rec.tag)) continue;
+        if (rec.tag !== 'INDI' && rec.tag !== 'FAM') {
+            skipped.set(rec.tag, (skipped.get(rec.tag) || 0) + 1);
+            continue;
+        }
+        const handle = rec.xref ? pointer(rec.xref) : null;
+        if (!handle) {
+            issues.push({ record: rec.tag, line: rec.line, severity: 'error', message: 'Bản ghi không có mã định danh (xref)' });
+            continue;
+        }
+        if (seen.has(handle)) {
+            issues.push({ record: handle, line: rec.line, severity: 'error', message: 'Mã định danh bị trùng, bản ghi sau bị bỏ qua' });
+            continue;
+        }
+        seen.add(handle);
+
+        if (rec.tag === 'INDI') people.push(parseIndividual(rec, handle, issues));
+        else families.push(parseFamily(rec, handle));
+    }
+
+    for (const [tag, count] of skipped) {
+        issues.push({ record: tag, severity: 'warning', message: `Bỏ qua ${count} bản ghi ${tag} (chưa hỗ trợ)` });
+    }
+
+    dropMissingMembers(people, families, issues);
+    deriveTreeFields(people, families, issues);
+
+    return {
+        source: version ? `GEDCOM ${version}` : 'GEDCOM',
+        people,
+        families,
+        columns: COLUMNS,
+        issues,
+    };
+}
+
+function parseIndividual(rec: GedcomNode, handle: string, issues: ImportIssue[]): PersonRow {
+    const nameNode = child(rec, 'NAME');
+    const name = nameNode ? parseName(nameNode) : null;
+    if (!name || !name.displayName) {
+        issues.push({ record: handle, line: rec.line, severity: 'warning', message: 'Không có tên, dùng tên tạm "Chưa rõ tên"' });
+    }
+
+    const sex = child(rec, 'SEX')?.value.trim().toUpperCase();
+    const birt = child(rec, 'BIRT');
+    const deat = child(rec, 'DEAT');
+    const birthDate = birt && child(birt, 'DATE') ? parseGedcomDate(child(birt, 'DATE')!.value) : null;
+    const deathDate = deat && child(deat, 'DATE') ? parseGedcomDate(child(deat, 'DATE')!.value) : null;
+    const notes = childrenOf(rec, 'NOTE').map(n => fullText(n)).filter(n => n && !pointer(n));
+
+    return {
+        handle,
+        gramps_id: child(rec, 'REFN')?.value.trim() || handle,
+        gender: sex === 'M' ? 1 : sex === 'F' ? 2 : 0,
+        display_name: name?.displayName || 'Chưa rõ tên',
+        surname: name?.surname ?? null,
+        first_name: name?.firstName ?? null,
+        nick_name: name?.nickName ?? null,
+        generation: 1,
+        chi: null,
+        birth_year: birthDate?.year ?? null,
+        birth_date: birthDate?.text ?? null,
+        birth_place: (birt && child(birt, 'PLAC')?.value.trim()) || null,
+        death_year: deathDate?.year ?? null,
+        death_date: deathDate?.text ?? null,
+        death_place: (deat && child(deat, 'PLAC')?.value.trim()) || null,
+        is_living: !deat,
+        is_privacy_filtered: false,
+        is_patrilineal: true,
+        occupation: child(rec, 'OCCU')?.value.trim() || null,
+        notes: notes.length > 0 ? notes.join('\n\n') : null,
+        families: childrenOf(rec, 'FAMS').map(n => pointer(n.value)).filter((h): h is string => !!h),
+        parent_families: childrenOf(rec, 'FAMC').map(n => pointer(n.value)).filter((h): h is string => !!h),
+    };
+}
+
+function parseFamily(rec: GedcomNode, handle: string): FamilyRow {
+    const husb = child(rec, 'HUSB');
+    const wife = child(rec, 'WIFE');
+    return {
+        handle,
+        father_handle: husb ? pointer(husb.value) : null,
+        mother_handle: wife ? pointer(wife.value) : null,
+        children: childrenOf(rec, 'CHIL').map(n => pointer(n.value)).filter((h): h is string => !!h),
+    };
+}
+
+// ═══ Export ═══
+
+export type GedcomVersion = '5.5.1' | '7.0';
+export type ExportScope = 'all' | 'descendants' | 'ancestors';
+
+export interface GedcomExportOptions {
+    version?: GedcomVersion;
+    scope?: ExportScope;
+    rootHandle?: string;       // required for 'descendants' / 'ancestors'
+    exportDate?: Date;
+}
+
+const MONTH_NAMES = Object.keys(MONTHS);
+const REVERSE_QUALIFIERS: Record<string, string> = { 'Khoảng': 'ABT', 'Trước': 'BEF', 'Sau': 'AFT' };
+const MAX_LINE = 200;
+
+function gedcomDatePart(text: string): string | null {
+    let m = /^(\d{1,2})\/(\d{1,2})\/(\d{1,4})$/.exec(text);
+    if (m) return `${parseInt(m[1], 10)} ${MONTH_NAMES[parseInt(m[2], 10) - 1]} ${m[3]}`;
+    m = /^(\d{1,2})\/(\d{1,4})$/.exec(text);
+    if (m) return `${MONTH_NAMES[parseInt(m[1], 10) - 1]} ${m[2]}`;
+    m = /^(\d{1,4})$/.exec(text);
+    return m ? m[1] : null;
+}
+
+/** Inverse of parseGedcomDate; falls back to the bare year */
+export function toGedcomDate(text: string | null | undefined, year: number | null | undefined): string | null {
+    const t = text?.trim();
+    if (t) {
+        const plain = gedcomDatePart(t);
+        if (plain) return plain;
+        const q = /^(Khoảng|Trước|Sau)\s+(.+)$/.exec(t);
+        if (q) {
+            const inner = gedcomDatePart(q[2]);
+            if (inner) return `${REVERSE_QUALIFIERS[q[1]]} ${inner}`;
+        }
+        const range = /^(.+?)\s+[–-]\s+(.+)$/.exec(t);
+        if (range) {
+            const a = gedcomDatePart(range[1]);
+            const b = gedcomDatePart(range[2]);
+            if (a && b) return `BET ${a} AND ${b}`;
+        }
+    }
+    return year ? `${year}` : null;
+}
+
+/** Emit a text value, splitting long lines (CONC, 5.5.1 only) and newlines (CONT) */
+function textLines(level: number, tag: string, value: string, version: GedcomVersion): string[] {
+    const out: string[] = [];
+    value.split(/\r?\n/).forEach((line, i) => {
+        const chunks = version === '5.5.1' && line.length > MAX_LINE
+            ? line.match(new RegExp(`.{1,${MAX_LINE}}`, 'g')) || [line]
+            : [line];
+        chunks.forEach((chunk, j) => {
+            if (i === 0 && j === 0) out.push(`${level} ${tag} ${chunk}`.trimEnd());
+            else out.push(`${level + 1} ${j === 0 ? 'CONT' : 'CONC'} ${chunk}`.trimEnd());
+        });
+    });
+    return out;
+}
+
+function splitName(row: PersonRow | undefined, node: TreeNode): { surname: string; given: string } {
+    const display = (row?.display_name || node.displayName).trim();
+    if (row?.surname) {
+        const given = row.first_name || (display.startsWith(row.surname) ? display.slice(row.surname.length).trim() : display);
+        return { surname: row.surname, given };
+    }
+    // Vietnamese order: first word is the surname
+    const [surname, ...rest] = display.split(/\s+/);
+    return { surname: rest.length > 0 ? surname : '', given: rest.length > 0 ? rest.join(' ') : display };
+}
+
+/**
+ * Serialize the tree (or one branch of it) as GEDCOM. Living people with
+ * is_privacy_filtered are redacted: only the surname, sex and family links remain.
+ */
+export function writeGedcom(
+    tree: { people: TreeNode[]; families: TreeFamily[] },
+    details: Map<string, PersonRow>,
+    options: GedcomExportOptions = {},
+): string {
+    const version = options.version ?? '5.5.1';
+    const scope = options.scope ?? 'all';
+    let { people, families } = tree;
+    if (scope !== 'all' && options.rootHandle) {
+        const filtered = scope === 'descendants'
+            ? filterDescendants(options.rootHandle, people, families)
+            : filterAncestors(options.rootHandle, people, families);
+        people = filtered.filteredPeople;
+        families = filtered.filteredFamilies;
+    }
+
+    const personSet = new Set(people.map(p => p.handle));
+    const familySet = new Set(families.map(f => f.handle));
+    const date = options.exportDate ?? new Date();
+    const out: string[] = [
+        '0 HEAD',
+        '1 SOUR GIAPHA',
+        '2 NAME Gia Phả Điện Tử',
+        '1 GEDC',
+        `2 VERS ${version}`,
+    ];
+    if (version === '5.5.1') out.push('2 FORM LINEAGE-LINKED', '1 CHAR UTF-8');
+    out.push(`1 DATE ${date.getDate()} ${MONTH_NAMES[date.getMonth()]} ${date.getFullYear()}`);
+
+    for (const node of people) {
+        const row = details.get(node.handle);
+        const redacted = node.isLiving && (row?.is_privacy_filtered ?? node.isPrivacyFiltered);
+        const { surname, given } = splitName(row, node);
+
+        out.push(`0 @${node.handle}@ INDI`);
+        if (redacted) {
+            out.push(`1 NAME (Thông tin ẩn) /${surname}/`);
+            out.push(version === '5.5.1' ? '1 RESN privacy' : '1 RESN PRIVACY');
+        } else {
+            out.push(`1 NAME ${given} /${surname}/`.replace(/\s+/g, ' '));
+            if (given) out.push(`2 GIVN ${given}`);
+            if (surname) out.push(`2 SURN ${surname}`);
+            if (row?.nick_name) out.push(`2 NICK ${row.nick_name}`);
+        }
+        out.push(`1 SEX ${node.gender === 1 ? 'M' : node.gender === 2 ? 'F' : 'U'}`);
+
+        if (!redacted) {
+            const birth = toGedcomDate(row?.birth_date, row?.birth_year ?? node.birthYear);
+            if (birth || row?.birth_place) {
+                out.push('1 BIRT');
+                if (birth) out.push(`2 DATE ${birth}`);
+                if (row?.birth_place) out.push(`2 PLAC ${row.birth_place}`);
+            }
+            if (!node.isLiving) {
+                const death = toGedcomDate(row?.death_date, row?.death_year ?? node.deathYear);
+                if (death || row?.death_place) {
+                    out.push('1 DEAT');
+                    if (death) out.push(`2 DATE ${death}`);
+                    if (row?.death_place) out.push(`2 PLAC ${row.death_place}`);
+                } else {
+                    out.push('1 DEAT Y');
+                }
+            }
+            if (row?.occupation) out.push(`1 OCCU ${row.occupation}`);
+            if (row?.notes) out.push(...textLines(1, 'NOTE', row.notes, version));
+        }
+        if (row?.gramps_id && row.gramps_id !== node.handle) out.push(`1 REFN ${row.gramps_id}`);
+        for (const f of node.parentFamilies) if (familySet.has(f)) out.push(`1 FAMC @${f}@`);
+        for (const f of node.families) if (familySet.has(f)) out.push(`1 FAMS @${f}@`);
+    }
+
+    for (const fam of families) {
+        out.push(`0 @${fam.handle}@ FAM`);
+        if (fam.fatherHandle && personSet.has(fam.fatherHandle)) out.push(`1 HUSB @${fam.fatherHandle}@`);
+        if (fam.motherHandle && personSet.has(fam.motherHandle)) out.push(`1 WIFE @${fam.motherHandle}@`);
+        for (const ch of fam.children) if (personSet.has(ch)) out.push(`1 CHIL @${ch}@`);
+    }
+
+    out.push('0 TRLR');
+    return out.join('\n') + '\n';
+}
@@ -14,9 +14,11 @@ export interface PersonDetail {
     chi?: number;
     birthYear?: number;
     birthDate?: string;
+    birthDateLunar?: string;
     birthPlace?: string;
     deathYear?: number;
     deathDate?: string;
+    deathDateLunar?: string;
     deathPlace?: string;
     isLiving: boolean;
     isPrivacyFiltered: boolean;
@@ -40,6 +42,57 @@ export interface PersonDetail {
     _privacyNote?: string;
 }
 
+// ═══ Database Row Types (snake_case, as stored in Supabase) ═══
+export interface PersonRow {
+    handle: string;
+    gramps_id: string | null;
+    gender: number;
+    display_name: string;
+    surname: string | null;
+    first_name: string | null;
+    generation: number;
+    chi: number | null;
+    birth_year: number | null;
+    birth_date: string | null;
+    birth_place: string | null;
+    death_year: number | null;
+    death_date: string | null;
+    death_place: string | null;
+    is_living: boolean;
+    is_privacy_filtered: boolean;
+    is_patrilineal: boolean;
+    families: string[];
+    parent_families: string[];
+    phone?: string | null;
+    email?: string | null;
+    zalo?: string | null;
+    facebook?: string | null;
+    current_address?: string | null;
+    hometown?: string | null;
+    occupation?: string | null;
+    company?: string | null;
+    education?: string | null;
+    nick_name?: string | null;
+    notes?: string | null;
+    birth_date_lunar?: string | null;
+    death_date_lunar?: string | null;
+}
+
+export interface FamilyRow {
+    handle: string;
+    father_handle: string | null;
+    mother_handle: string | null;
+    children: string[];
+}
+
+// ═══ Name Helper ═══
+
+/** Lowercase, no diacritics, single spaces — "Nguyễn  Văn Đức" → "nguyen van duc" */
+export function foldName(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[đĐ]/g, 'd')
+        .toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
 // ═══ Zodiac Year Helper ═══
 const CAN = ['Canh', 'Tân', 'Nhâm', 'Quý', 'Giáp', 'Ất', 'Bính', 'Đinh', 'Mậu', 'Kỷ'];
 const CHI_ZD = ['Thân', 'Dậu', 'Tuất', 'Hợi', 'Tý', 'Sửu', 'Dần', 'Mão', 'Thìn', 'Tỵ', 'Ngọ', 'Mùi'];
@@ -0,0 +1,256 @@
+/**
+ * Gramps XML (.gramps) import — persons, families, events, places and notes
+ * are mapped onto `people` and `families` rows.
+ *
+ * Gramps handles and IDs are kept as-is (handle → handle, id → gramps_id), so
+ * importing a newer export of the same database updates records in place.
+ */
+
+import { gunzipSync, strFromU8 } from 'fflate';
+import type { PersonRow, FamilyRow } from './genealogy-types';
+import { deriveTreeFields, dropMissingMembers, type ImportBatch, type ImportIssue } from './tree-import';
+import { parseXml, child, childrenOf, type XmlElement } from './xml';
+
+// ═══ Helpers ═══
+
+function hlinks(el: XmlElement, name: string): string[] {
+    return childrenOf(el, name).map(c => c.attrs.hlink).filter((h): h is string => !!h);
+}
+
+// ═══ Dates ═══
+
+const DATE_TYPES: Record<string, string> = { about: 'Khoảng', before: 'Trước', after: 'Sau' };
+
+/** "1990-05-12" → 12/05/1990, "1990-05" → 05/1990; zero parts count as unknown */
+function formatDatePart(value: string | undefined): string | null {
+    const m = value ? /^(-?\d{1,4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/.exec(value.trim()) : null;
+    if (!m) return null;
+    const pad = (n: string) => n.padStart(2, '0');
+    const [, year, month, day] = m;
+    const hasMonth = month && parseInt(month, 10) > 0;
+    const hasDay = hasMonth && day && parseInt(day, 10) > 0;
+    if (hasDay) return `${pad(day)}/${pad(month)}/${year}`;
+    if (hasMonth) return `${pad(month)}/${year}`;
+    return year;
+}
+
+/** Convert the date element of a Gramps event to the app's dd/mm/yyyy text */
+function parseGrampsDate(event: XmlElement): { text: string; year: number | null } | null {
+    const val = child(event, 'dateval');
+    const range = child(event, 'daterange') || child(event, 'datespan');
+    const str = child(event, 'datestr');
+    const source = val?.attrs.val || range?.attrs.start || str?.attrs.val || '';
+    const years = source.match(/\d{3,4}/);
+    const year = years ? parseInt(years[0], 10) : null;
+
+    if (val) {
+        const text = formatDatePart(val.attrs.val);
+        if (!text) return { text: val.attrs.val, year };
+        const qualifier = DATE_TYPES[val.attrs.type] || (val.attrs.quality ? 'Khoảng' : null);
+        return { text: qualifier ? `${qualifier} ${text}` : text, year };
+    }
+    if (range) {
+        const a = formatDatePart(range.attrs.start);
+        const b = formatDatePart(range.attrs.stop);
+        if (a && b) return { text: `${a} – ${b}`, year };
+        return null;
+    }
+    if (str?.attrs.val) return { text: str.attrs.val, year };
+    return null;
+}
+
+// ═══ Import ═══
+
+interface GrampsEvent {
+    type: string;
+    date: { text: string; year: number | null } | null;
+    place: string | null;
+    description: string | null;
+}
+
+// Fallbacks when a person has no Birth / Death event
+const BIRTH_TYPES = ['Birth', 'Baptism', 'Christening'];
+const DEATH_TYPES = ['Death', 'Burial', 'Cremation'];
+const USED_SECTIONS = new Set(['header', 'people', 'families', 'events', 'places', 'notes', 'name-formats', 'namemaps', 'bookmarks']);
+// Person columns read from the file (see parsePerson); the rest are entered in the app
+const COLUMNS: (keyof PersonRow)[] = [
+    'gramps_id', 'gender', 'display_name', 'surname', 'first_name', 'nick_name',
+    'birth_year', 'birth_date', 'birth_place', 'death_year', 'death_date', 'death_place',
+    'is_living', 'is_privacy_filtered', 'occupation', 'notes',
+];
+
+/** Parse a .gramps file (gzip-compressed or plain XML) into an import batch */
+export function parseGramps(bytes: Uint8Array): ImportBatch {
+    const issues: ImportIssue[] = [];
+    const empty: ImportBatch = { source: 'Gramps XML', people: [], families: [], columns: COLUMNS, issues };
+
+    let text: string;
+    try {
+        const isGzip = bytes[0] === 0x1f && bytes[1] === 0x8b;
+        text = strFromU8(isGzip ? gunzipSync(bytes) : bytes).replace(/^\uFEFF/, '');
+    } catch {
+        issues.push({ record: 'Tệp', severity: 'error', message: 'Không giải nén được tệp .gramps' });
+        return empty;
+    }
+
+    const db = parseXml(text, issues);
+    if (!db) return empty;
+    if (db.name !== 'database') {
+        issues.push({ record: db.name, line: db.line, severity: 'error', message: 'Không phải tệp Gramps XML (thiếu thẻ <database>)' });
+        return empty;
+    }
+    const version = /gramps-project\.org\/xml\/([\d.]+)/.exec(db.attrs.xmlns || '')?.[1];
+
+    for (const section of db.children) {
+        if (!USED_SECTIONS.has(section.name) && section.children.length > 0) {
+            issues.push({ record: section.name, severity: 'warning', message: `Bỏ qua ${section.children.length} bản ghi ${section.name} (chưa hỗ trợ)` });
+        }
+    }
+
+    const places = readPlaces(db);
+    const notes = new Map<string, string>();
+    for (const n of childrenOf(child(db, 'notes') ?? db, 'note')) {
+        const body = child(n, 'text')?.text.trim();
+        if (n.attrs.handle && body) notes.set(n.attrs.handle, body);
+    }
+    const events = new Map<string, GrampsEvent>();
+    for (const e of childrenOf(child(db, 'events') ?? db, 'event')) {
+        if (!e.attrs.handle) continue;
+        const placeRef = child(e, 'place')?.attrs.hlink;
+        events.set(e.attrs.handle, {
+            type: child(e, 'type')?.text.trim() || '',
+            date: parseGrampsDate(e),
+            place: (placeRef && places.get(placeRef)) || null,
+            description: child(e, 'description')?.text.trim() || null,
+        });
+    }
+
+    const people: PersonRow[] = [];
+    const families: FamilyRow[] = [];
+    const seen = new Set<string>();
+    const accept = (el: XmlElement): string | null => {
+        const handle = el.attrs.handle;
+        if (!handle) {
+            issues.push({ record: el.attrs.id || el.name, line: el.line, severity: 'error', message: 'Bản ghi không có handle' });
+            return null;
+        }
+        if (seen.has(handle)) {
+            issues.push({ record: handle, line: el.line, severity: 'error', message: 'Handle bị trùng, bản ghi sau bị bỏ qua' });
+            return null;
+        }
+        seen.add(handle);
+        return handle;
+    };
+
+    for (const el of childrenOf(child(db, 'people') ?? db, 'person')) {
+        const handle = accept(el);
+        if (handle) people.push(parsePerson(el, handle, events, notes, issues));
+    }
+    for (const el of childrenOf(child(db, 'families') ?? db, 'family')) {
+        const handle = accept(el);
+        if (!handle) continue;
+        families.push({
+            handle,
+            father_handle: child(el, 'father')?.attrs.hlink || null,
+            mother_handle: child(el, 'mother')?.attrs.hlink || null,
+            children: hlinks(el, 'childref'),
+        });
+    }
+
+    dropMissingMembers(people, families, issues);
+    deriveTreeFields(people, families, issues);
+
+    return {
+        source: version ? `Gramps XML ${version}` : 'Gramps XML',
+        people,
+        families,
+        columns: COLUMNS,
+        issues,
+    };
+}
+
+/** Place handle → full title ("Xã, Huyện, Tỉnh"), following enclosing places */
+function readPlaces(db: XmlElement): Map<string, string> {
+    const elements = new Map(childrenOf(child(db, 'places') ?? db, 'placeobj').map(p => [p.attrs.handle, p]));
+    const titles = new Map<string, string>();
+
+    for (const [handle, el] of elements) {
+        const title = child(el, 'ptitle')?.text.trim();
+        if (title) {
+            titles.set(handle, title);
+            continue;
+        }
+        const parts: string[] = [];
+        const visited = new Set<string>();
+        let current: XmlElement | undefined = el;
+        while (current && !visited.has(current.attrs.handle)) {
+            visited.add(current.attrs.handle);
+            const name = child(current, 'pname')?.attrs.value;
+            if (name) parts.push(name);
+            const parent: string | undefined = child(current, 'placeref')?.attrs.hlink;
+            current = parent ? elements.get(parent) : undefined;
+        }
+        if (parts.length > 0) titles.set(handle, parts.join(', '));
+    }
+    return titles;
+}
+
+function parsePerson(
+    el: XmlElement,
+    handle: string,
+    events: Map<string, GrampsEvent>,
+    notes: Map<string, string>,
+    issues: ImportIssue[],
+): PersonRow {
+    // Primary name is the first one not flagged as alternate
+    const nameEl = el.children.find(c => c.name === 'name' && c.attrs.alt !== '1');
+    const surnames = nameEl ? childrenOf(nameEl, 'surname') : [];
+    const surname = (surnames.find(s => s.attrs.prim === '1') ?? surnames[0])?.text.trim() || null;
+    const firstName = (nameEl && child(nameEl, 'first')?.text.trim()) || null;
+    const nick = (nameEl && child(nameEl, 'nick')?.text.trim()) || child(el, 'nick')?.text.trim() || null;
+    const displayName = [surname, firstName].filter(Boolean).join(' ');
+    if (!displayName) {
+        issues.push({ record: handle, line: el.line, severity: 'warning', message: 'Không có tên, dùng tên tạm "Chưa rõ tên"' });
+    }
+
+    const personEvents = childrenOf(el, 'eventref')
+        .filter(r => !r.attrs.role || r.attrs.role === 'Primary')
+        .map(r => {
+            const e = events.get(r.attrs.hlink);
+            if (!e) issues.push({ record: handle, line: r.line, severity: 'warning', message: `Không tìm thấy sự kiện ${r.attrs.hlink}` });
+            return e;
+        })
+        .filter((e): e is GrampsEvent => !!e);
+    const firstOf = (types: string[]) => types.map(t => personEvents.find(e => e.type === t)).find(Boolean);
+    const birth = firstOf(BIRTH_TYPES);
+    const death = firstOf(DEATH_TYPES);
+    const occupation = personEvents.find(e => e.type === 'Occupation')?.description ?? null;
+    const personNotes = hlinks(el, 'noteref').map(h => notes.get(h)).filter((n): n is string => !!n);
+
+    const gender = child(el, 'gender')?.text.trim();
+
+    return {
+        handle,
+        gramps_id: el.attrs.id || handle,
+        gender: gender === 'M' ? 1 : gender === 'F' ? 2 : 0,
+        display_name: displayName || 'Chưa rõ tên',
+        surname,
+        first_name: firstName,
+        nick_name: nick,
+        generation: 1,
+        chi: null,
+        birth_year: birth?.date?.year ?? null,
+        birth_date: birth?.date?.text ?? null,
+        birth_place: birth?.place ?? null,
+        death_year: death?.date?.year ?? null,
+        death_date: death?.date?.text ?? null,
+        death_place: death?.place ?? null,
+        is_living: !death,
+        is_privacy_filtered: el.attrs.priv === '1',
+        is_patrilineal: true,
+        occupation,
+        notes: personNotes.length > 0 ? personNotes.join('\n\n') : null,
+        families: hlinks(el, 'parentin'),
+        parent_families: hlinks(el, 'childof'),
+    };
+}
@@ -0,0 +1,176 @@
+/**
+ * iCalendar (RFC 5545) writer for clan events — the subscribable feed served
+ * by /api/events/ical and the single-event .ics download on the event page.
+ * Times are written in UTC so no VTIMEZONE block is needed.
+ */
+
+import { effectiveRule, type CalendarEvent, type Occurrence } from './recurrence';
+
+// ═══ Types ═══
+
+export type PartStat = 'ACCEPTED' | 'TENTATIVE' | 'DECLINED' | 'NEEDS-ACTION';
+
+export interface IcsAttendee {
+    name: string;
+    email: string | null;
+    partstat: PartStat;
+}
+
+export interface IcsEvent {
+    uid: string;
+    start: string;              // ISO
+    end?: string | null;        // ISO; defaults to two hours after start
+    summary: string;
+    description?: string | null;
+    location?: string | null;
+    url?: string | null;
+    categories?: string[];
+    cancelled?: boolean;
+    rrule?: string | null;
+    attendees?: IcsAttendee[];
+}
+
+export interface IcsCalendar {
+    name: string;
+    events: IcsEvent[];
+    /** How often subscribers should refetch, ISO 8601 duration */
+    refresh?: string;
+}
+
+/** RSVP status → ATTENDEE;PARTSTAT */
+export const RSVP_PARTSTAT: Record<string, PartStat> = {
+    GOING: 'ACCEPTED',
+    MAYBE: 'TENTATIVE',
+    NOT_GOING: 'DECLINED',
+};
+
+export const TYPE_CATEGORIES: Record<string, string> = {
+    MEMORIAL: 'Giỗ',
+    MEETING: 'Họp họ',
+    FESTIVAL: 'Lễ hội',
+    OTHER: 'Khác',
+};
+
+const UID_DOMAIN = 'giapha';
+const DEFAULT_DURATION_MS = 2 * 3600 * 1000;
+
+// ═══ Formatting ═══
+
+/** 20260314T010000Z */
+export function icsTime(iso: string | Date): string {
+    return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** TEXT value escaping (RFC 5545 §3.3.11) */
+export function icsText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Quoted parameter value; DQUOTE is not allowed inside, so it is dropped */
+function icsParam(text: string): string {
+    return `"${text.replace(/"/g, '')}"`;
+}
+
+/** Fold a content line at 75 octets without splitting a UTF-8 character */
+export function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const ch of line) {
+        const size = encoder.encode(ch).length;
+        // Continuation lines start with a space, which counts toward their 75
+        if (octets + size > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += ch;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+// ═══ Writer ═══
+
+function eventLines(event: IcsEvent, stamp: string): string[] {
+    const end = event.end ?? new Date(new Date(event.start).getTime() + DEFAULT_DURATION_MS).toISOString();
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsTime(event.start)}`,
+        `DTEND:${icsTime(end)}`,
+        `SUMMARY:${icsText(event.summary)}`,
+    ];
+    if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+    if (event.description) lines.push(`DESCRIPTION:${icsText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${icsText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(icsText).join(',')}`);
+    if (event.cancelled) lines.push('STATUS:CANCELLED');
+    for (const a of event.attendees || []) {
+        // Members without an email still show up, under a placeholder address
+        const address = a.email ? `mailto:${a.email}` : `urn:${UID_DOMAIN}:member`;
+        lines.push(`ATTENDEE;CN=${icsParam(a.name)};ROLE=REQ-PARTICIPANT;PARTSTAT=${a.partstat}:${address}`);
+    }
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+export function buildCalendar(calendar: IcsCalendar, now = new Date()): string {
+    const stamp = icsTime(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Gia Pha Dien Tu//Su kien dong ho//VI',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${icsText(calendar.name)}`,
+        'X-WR-TIMEZONE:Asia/Ho_Chi_Minh',
+    ];
+    if (calendar.refresh) {
+        lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${calendar.refresh}`, `X-PUBLISHED-TTL:${calendar.refresh}`);
+    }
+    for (const event of calendar.events) lines.push(...eventLines(event, stamp));
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ═══ Events → VEVENT ═══
+
+/** Stable per-occurrence UID, so re-fetching the feed updates rather than duplicates */
+export function occurrenceUid(eventId: string, date: string): string {
+    return `${eventId}-${date.replace(/-/g, '')}@${UID_DOMAIN}`;
+}
+
+export function occurrenceToIcs(o: Occurrence, baseUrl?: string): IcsEvent {
+    return {
+        uid: occurrenceUid(o.event.id, o.date),
+        start: o.start,
+        end: o.end,
+        summary: o.title,
+        description: [o.event.description, o.override?.note].filter(Boolean).join('\n\n') || null,
+        location: o.location,
+        url: baseUrl ? `${baseUrl}/events/${o.event.id}?date=${o.date}` : null,
+        categories: [TYPE_CATEGORIES[o.event.type] || TYPE_CATEGORIES.OTHER],
+        cancelled: o.cancelled,
+    };
+}
+
+/**
+ * The RRULE for a whole series, or null when it cannot be written as one —
+ * lunar yearly dates drift against the solar calendar.
+ */
+export function seriesRRule(event: CalendarEvent): string | null {
+    const rule = effectiveRule(event);
+    if (!rule) return null;
+    const until = rule.until ? `;UNTIL=${rule.until.replace(/-/g, '')}T165959Z` : '';
+    switch (rule.kind) {
+        case 'yearly': return `FREQ=YEARLY${until}`;
+        case 'monthly': return `FREQ=MONTHLY${until}`;
+        case 'rrule': return rule.rrule && !/UNTIL=|COUNT=/i.test(rule.rrule) ? `${rule.rrule}${until}` : rule.rrule || null;
+        case 'yearly-lunar': return null;
+    }
+}
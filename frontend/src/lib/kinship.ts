@@ -0,0 +1,470 @@
+/**
+ * Kinship terms (xưng hô) — what person A calls person B and what B calls
+ * A back. Blood relatives are placed from their nearest common ancestor:
+ * generations on each side, gender, paternal or maternal side, and which
+ * branch is senior (birth order in families.children, then birth year).
+ * In-laws are resolved one marriage away on either side. Terms follow
+ * Northern usage: a parent's elder siblings are all "bác".
+ */
+
+import type { TreeNode, TreeFamily } from './tree-layout';
+
+// ═══ Types ═══
+
+export interface KinTree {
+    people: TreeNode[];
+    families: TreeFamily[];
+}
+
+export type KinshipKind = 'self' | 'spouse' | 'blood' | 'in-law' | 'distant' | 'none';
+
+export interface Kinship {
+    kind: KinshipKind;
+    term: string;              // what A calls B: "B là {term} của A"
+    reciprocal: string;        // what B calls A
+    path: string[];            // A … B; through the common ancestor for blood relatives
+    ancestor?: string;         // nearest common ancestor (blood relatives)
+    uncertain?: boolean;       // birth order unknown, term lists both readings
+}
+
+/** One way two people are connected */
+export interface RelationPath {
+    kind: 'blood' | 'marriage';
+    path: string[];            // A … B
+    ancestors: string[];       // apex of a blood path (both of a couple when shared)
+    term?: string;             // what A calls B along a marriage path
+}
+
+export interface RelationshipAnalysis {
+    kinship: Kinship;
+    commonAncestors: string[]; // nearest common ancestors
+    up: number | null;         // generations from A to them
+    down: number | null;       // generations from B to them
+    degree: number | null;     // bậc: up + down
+    generationSpan: number | null;  // "trong phạm vi N đời" as in the Marriage and Family Law: max(up, down) + 1
+    coefficient: number;       // Wright's coefficient of relationship, 0–1
+    paths: RelationPath[];     // blood paths first, then marriage paths, shortest first
+}
+
+/** Two blood relatives seen from their nearest common ancestor */
+interface BloodLink {
+    up: string[];              // A, parent, …, common ancestor
+    down: string[];            // B, parent, …, common ancestor
+    seniority: -1 | 0 | 1;     // -1: A's branch is senior, 1: B's branch, 0: unknown
+}
+
+interface KinIndex {
+    people: Map<string, TreeNode>;
+    childOf: Map<string, TreeFamily[]>;
+    parentIn: Map<string, TreeFamily[]>;
+}
+
+// ═══ Graph ═══
+
+function buildIndex(tree: KinTree): KinIndex {
+    const childOf = new Map<string, TreeFamily[]>();
+    const parentIn = new Map<string, TreeFamily[]>();
+    for (const f of tree.families) {
+        for (const c of f.children) childOf.set(c, [...(childOf.get(c) || []), f]);
+        for (const h of [f.fatherHandle, f.motherHandle]) {
+            if (h) parentIn.set(h, [...(parentIn.get(h) || []), f]);
+        }
+    }
+    return { people: new Map(tree.people.map(p => [p.handle, p])), childOf, parentIn };
+}
+
+function parentsOf(ix: KinIndex, h: string): string[] {
+    return (ix.childOf.get(h) || []).flatMap(f => [f.fatherHandle, f.motherHandle]).filter((x): x is string => !!x);
+}
+
+function spousesOf(ix: KinIndex, h: string): string[] {
+    return (ix.parentIn.get(h) || []).map(f => (f.fatherHandle === h ? f.motherHandle : f.fatherHandle)).filter((x): x is string => !!x);
+}
+
+function childrenOf(ix: KinIndex, h: string): string[] {
+    return (ix.parentIn.get(h) || []).flatMap(f => f.children);
+}
+
+const isMale = (ix: KinIndex, h: string) => ix.people.get(h)?.gender === 1;
+
+/** Every ancestor of `start` (and itself) with the shortest path up to it */
+function climb(ix: KinIndex, start: string): Map<string, string[]> {
+    const paths = new Map<string, string[]>([[start, [start]]]);
+    const queue = [start];
+    while (queue.length > 0) {
+        const h = queue.shift()!;
+        for (const p of parentsOf(ix, h)) {
+            if (paths.has(p)) continue;
+            paths.set(p, [...paths.get(h)!, p]);
+            queue.push(p);
+        }
+    }
+    return paths;
+}
+
+/** Which of two children of `parent` is the elder: -1 = x, 1 = y, 0 = unknown */
+function compareSeniority(ix: KinIndex, parent: string, x: string, y: string): -1 | 0 | 1 {
+    const families = ix.parentIn.get(parent) || [];
+    const fx = families.find(f => f.children.includes(x));
+    const fy = families.find(f => f.children.includes(y));
+    if (fx && fx === fy) return fx.children.indexOf(x) < fx.children.indexOf(y) ? -1 : 1;
+    const bx = ix.people.get(x)?.birthYear;
+    const by = ix.people.get(y)?.birthYear;
+    if (bx && by && bx !== by) return bx < by ? -1 : 1;
+    // Children of an earlier marriage count as the senior branch
+    if (fx && fy) return families.indexOf(fx) < families.indexOf(fy) ? -1 : 1;
+    return 0;
+}
+
+/** Nearest common ancestor of a and b, or null when they are not blood relatives */
+function bloodLink(ix: KinIndex, a: string, b: string): BloodLink | null {
+    const upA = climb(ix, a);
+    const upB = climb(ix, b);
+    let best: BloodLink | null = null;
+    for (const [ancestor, up] of upA) {
+        const down = upB.get(ancestor);
+        if (!down) continue;
+        if (!best || up.length + down.length < best.up.length + best.down.length) best = { up, down, seniority: 0 };
+    }
+    if (best && best.up.length > 1 && best.down.length > 1) {
+        best.seniority = compareSeniority(ix, best.up[best.up.length - 1], best.up[best.up.length - 2], best.down[best.down.length - 2]);
+    }
+    return best;
+}
+
+/** Shortest path over parent, child and spouse links */
+function shortestPath(ix: KinIndex, from: string, to: string): string[] | null {
+    const prev = new Map<string, string>([[from, from]]);
+    const queue = [from];
+    while (queue.length > 0) {
+        const h = queue.shift()!;
+        if (h === to) {
+            const path = [to];
+            while (path[0] !== from) path.unshift(prev.get(path[0])!);
+            return path;
+        }
+        for (const next of [...parentsOf(ix, h), ...spousesOf(ix, h), ...childrenOf(ix, h)]) {
+            if (prev.has(next)) continue;
+            prev.set(next, h);
+            queue.push(next);
+        }
+    }
+    return null;
+}
+
+// ═══ Terms ═══
+
+const DESCENDANT_WORDS = ['', 'con', 'cháu', 'chắt', 'chút', 'chít'];
+
+/** Elder/younger role of a relative one generation above: bác, chú, cô, cậu, dì */
+type Role = 'bac' | 'chu' | 'co' | 'cau' | 'di';
+
+const ROLE_TERMS: Record<Role, { term: string; spouse: (male: boolean) => string }> = {
+    bac: { term: 'bác', spouse: male => (male ? 'bác trai' : 'bác gái') },
+    chu: { term: 'chú', spouse: () => 'thím' },
+    co: { term: 'cô', spouse: () => 'dượng' },
+    cau: { term: 'cậu', spouse: () => 'mợ' },
+    di: { term: 'dì', spouse: () => 'dượng' },
+};
+
+function ancestorTerm(generations: number, male: boolean, paternal: boolean): string {
+    const side = paternal ? 'nội' : 'ngoại';
+    if (generations === 1) return male ? 'cha' : 'mẹ';
+    if (generations === 2) return `${male ? 'ông' : 'bà'} ${side}`;
+    if (generations === 3) return `cụ ${side}`;
+    if (generations === 4) return `kỵ ${side}`;
+    return `tổ tiên ${generations} đời`;
+}
+
+function descendantTerm(generations: number, male: boolean, viaSon: boolean): string {
+    if (generations === 1) return male ? 'con trai' : 'con gái';
+    if (generations <= 3) return `${DESCENDANT_WORDS[generations]} ${viaSon ? 'nội' : 'ngoại'}`;
+    return DESCENDANT_WORDS[generations] ?? `cháu đời thứ ${generations}`;
+}
+
+/** Word for a collateral relative `generations` below (cháu, chắt …) */
+function collateralDescendant(generations: number): string {
+    return generations <= 2 ? 'cháu' : DESCENDANT_WORDS[generations] ?? `cháu đời thứ ${generations}`;
+}
+
+/**
+ * Roles B may hold over A when B is in an older generation: "bác" when B's
+ * branch is senior, otherwise chú/cô on the father's side and cậu/dì on the
+ * mother's. Both are returned when birth order is unknown.
+ */
+function elderRoles(ix: KinIndex, link: BloodLink): Role[] {
+    const generations = link.up.length - link.down.length;
+    const paternal = isMale(ix, link.up[generations]);   // A's ancestor in B's generation
+    const male = isMale(ix, link.down[0]);
+    const junior: Role = paternal ? (male ? 'chu' : 'co') : (male ? 'cau' : 'di');
+    if (link.seniority === 1) return ['bac'];
+    if (link.seniority === -1) return [junior];
+    return ['bac', junior];
+}
+
+/** Ông/bà prefix for relatives two or more generations above */
+function elderPrefix(generations: number, male: boolean): string {
+    if (generations === 1) return '';
+    if (generations === 2) return male ? 'ông ' : 'bà ';
+    return 'cụ ';
+}
+
+/** What A calls blood relative B */
+function bloodTerm(ix: KinIndex, link: BloodLink): string {
+    const a = link.up.length - 1;
+    const b = link.down.length - 1;
+    const male = isMale(ix, link.down[0]);
+    if (b === 0) return ancestorTerm(a, male, isMale(ix, link.up[1]));
+    if (a === 0) return descendantTerm(b, male, isMale(ix, link.down[b - 1]));
+
+    if (a === b) {
+        const suffix = a > 1 ? ' họ' : male ? ' trai' : ' gái';
+        const elder = male ? 'anh' : 'chị';
+        const term = link.seniority === 1 ? elder + suffix
+            : link.seniority === -1 ? 'em' + suffix
+            : `${elder}/em${suffix}`;
+        return a === 1 ? term + halfSiblingNote(ix, link) : term;
+    }
+    const cousin = a > 1 && b > 1 ? ' họ' : '';
+    if (a > b) {
+        const prefix = elderPrefix(a - b, male);
+        return elderRoles(ix, link).map(r => prefix + ROLE_TERMS[r].term).join('/') + cousin;
+    }
+    return collateralDescendant(b - a) + (a > 1 ? ' họ' : '');
+}
+
+/** "(cùng cha khác mẹ)" for siblings who share only one parent */
+function halfSiblingNote(ix: KinIndex, link: BloodLink): string {
+    const pa = parentsOf(ix, link.up[0]);
+    const pb = parentsOf(ix, link.down[0]);
+    if (pa.length === pb.length && pa.every(h => pb.includes(h))) return '';
+    return isMale(ix, link.up[1]) ? ' (cùng cha khác mẹ)' : ' (cùng mẹ khác cha)';
+}
+
+/** What A calls B when B is married to A's blood relative (link is A → that relative) */
+function spouseOfRelativeTerm(ix: KinIndex, link: BloodLink, spouse: string): string {
+    const a = link.up.length - 1;
+    const b = link.down.length - 1;
+    const male = isMale(ix, spouse);
+    const inLaw = male ? 'rể' : 'dâu';
+    if (b === 0) return a === 1 ? (male ? 'cha dượng' : 'mẹ kế') : `${ancestorTerm(a, male, isMale(ix, link.up[1]))} (kế)`;
+    if (a === 0) return `${DESCENDANT_WORDS[b] ?? 'cháu'} ${inLaw}`;
+
+    const cousin = a > 1 && b > 1 ? ' họ' : '';
+    if (a === b) {
+        const elder = male ? 'anh' : 'chị';
+        const head = link.seniority === 1 ? elder : link.seniority === -1 ? 'em' : `${elder}/em`;
+        return `${head} ${inLaw}${cousin}`;
+    }
+    if (a > b) {
+        const prefix = elderPrefix(a - b, male);
+        return elderRoles(ix, link).map(r => prefix + ROLE_TERMS[r].spouse(male)).join('/') + cousin;
+    }
+    return `${collateralDescendant(b - a)} ${inLaw}${a > 1 ? ' họ' : ''}`;
+}
+
+/** What A calls B when B is a blood relative of A's spouse (link is spouse → B) */
+function relativeOfSpouseTerm(ix: KinIndex, link: BloodLink, self: string): string {
+    const a = link.up.length - 1;
+    const b = link.down.length - 1;
+    const side = isMale(ix, self) ? 'vợ' : 'chồng';
+    const male = isMale(ix, link.down[0]);
+    if (a === 1 && b === 0) return `${male ? 'bố' : 'mẹ'} ${side}`;
+    if (a === 0 && b === 1) return `con riêng của ${side}`;
+    if (a === 1 && b === 1) {
+        const elder = male ? 'anh' : 'chị';
+        const head = link.seniority === 1 ? elder : link.seniority === -1 ? 'em' : `${elder}/em`;
+        return `${head} ${side}`;
+    }
+    // Further relatives are addressed the way the spouse addresses them
+    return `${bloodTerm(ix, link)} (bên ${side})`;
+}
+
+// ═══ Kinship ═══
+
+/**
+ * Ways `to` is related to `from` through one marriage, shortest first: B
+ * married to A's blood relative, B a blood relative of A's spouse, or B a
+ * parent of A's child-in-law (thông gia).
+ */
+function marriageLinks(ix: KinIndex, from: string, to: string): Omit<Kinship, 'reciprocal'>[] {
+    const found: Omit<Kinship, 'reciprocal'>[] = [];
+    const uncertain = (link: BloodLink) => link.seniority === 0 && link.up.length > 1 && link.down.length > 1;
+    // An ancestor's spouse who is also an ancestor, or a spouse's child who is also one's own, is not an in-law
+    const lineal = climb(ix, from).has(to) || climb(ix, to).has(from);
+    for (const relative of spousesOf(ix, to)) {
+        if (relative === from || lineal) continue;
+        const link = bloodLink(ix, from, relative);
+        if (!link) continue;
+        found.push({
+            kind: 'in-law',
+            term: spouseOfRelativeTerm(ix, link, to),
+            path: [...link.up, ...link.down.slice(0, -1).reverse(), to],
+            uncertain: uncertain(link),
+        });
+    }
+    for (const spouse of spousesOf(ix, from)) {
+        if (spouse === to || lineal) continue;
+        const link = bloodLink(ix, spouse, to);
+        if (!link) continue;
+        found.push({
+            kind: 'in-law',
+            term: relativeOfSpouseTerm(ix, link, from),
+            path: [from, ...link.up, ...link.down.slice(0, -1).reverse()],
+            uncertain: uncertain(link),
+        });
+    }
+    for (const child of childrenOf(ix, from)) {
+        for (const childSpouse of spousesOf(ix, child)) {
+            if (parentsOf(ix, childSpouse).includes(to)) {
+                found.push({ kind: 'in-law', term: `${isMale(ix, to) ? 'ông' : 'bà'} thông gia`, path: [from, child, childSpouse, to] });
+            }
+        }
+    }
+    return found.sort((x, y) => x.path.length - y.path.length);
+}
+
+/** One-directional term: what `from` calls `to` */
+function describe(ix: KinIndex, from: string, to: string): Omit<Kinship, 'reciprocal'> | null {
+    if (from === to) return { kind: 'self', term: 'chính mình', path: [from] };
+    if (spousesOf(ix, from).includes(to)) {
+        return { kind: 'spouse', term: isMale(ix, to) ? 'chồng' : 'vợ', path: [from, to] };
+    }
+
+    const blood = bloodLink(ix, from, to);
+    if (blood) {
+        return {
+            kind: 'blood',
+            term: bloodTerm(ix, blood),
+            path: [...blood.up, ...blood.down.slice(0, -1).reverse()],
+            ancestor: blood.up[blood.up.length - 1],
+            uncertain: blood.seniority === 0 && blood.up.length > 1 && blood.down.length > 1,
+        };
+    }
+
+    const marriage = marriageLinks(ix, from, to);
+    if (marriage.length > 0) return marriage[0];
+
+    const path = shortestPath(ix, from, to);
+    if (path) return { kind: 'distant', term: `họ hàng xa (cách ${path.length - 1} bậc)`, path };
+    return null;
+}
+
+/** What A calls B and what B calls A back */
+export function kinship(a: string, b: string, tree: KinTree): Kinship {
+    return kinshipIn(buildIndex(tree), a, b);
+}
+
+function kinshipIn(ix: KinIndex, a: string, b: string): Kinship {
+    const forward = describe(ix, a, b);
+    if (!forward) return { kind: 'none', term: '', reciprocal: '', path: [] };
+    const backward = describe(ix, b, a);
+    return {
+        ...forward,
+        reciprocal: backward?.term ?? '',
+        uncertain: forward.uncertain || backward?.uncertain || undefined,
+    };
+}
+
+/**
+ * Everyone within `maxSteps` parent, child or spouse links of `handle`, with
+ * what `handle` calls them — the "my family" list, nearest first.
+ */
+export function relativesOf(handle: string, tree: KinTree, maxSteps = 4): { person: TreeNode; kinship: Kinship }[] {
+    const ix = buildIndex(tree);
+    const steps = new Map<string, number>([[handle, 0]]);
+    const queue = [handle];
+    while (queue.length > 0) {
+        const h = queue.shift()!;
+        const n = steps.get(h)!;
+        if (n === maxSteps) continue;
+        for (const next of [...parentsOf(ix, h), ...spousesOf(ix, h), ...childrenOf(ix, h)]) {
+            if (steps.has(next)) continue;
+            steps.set(next, n + 1);
+            queue.push(next);
+        }
+    }
+    return [...steps.keys()]
+        .filter(h => h !== handle && ix.people.has(h))
+        .map(h => ({ person: ix.people.get(h)!, kinship: kinshipIn(ix, handle, h) }));
+}
+
+// ═══ Analysis ═══
+
+/** Cap on ancestor chains walked per person, against pedigree collapse */
+const MAX_CHAINS = 5000;
+const MAX_PATHS = 12;
+
+/** Every chain from `start` up to each ancestor; collapsed pedigrees give several per ancestor */
+function allChains(ix: KinIndex, start: string): Map<string, string[][]> {
+    const chains = new Map<string, string[][]>();
+    const stack = [[start]];
+    for (let n = 0; stack.length > 0 && n < MAX_CHAINS; n++) {
+        const chain = stack.pop()!;
+        const top = chain[chain.length - 1];
+        chains.set(top, [...(chains.get(top) || []), chain]);
+        for (const p of parentsOf(ix, top)) {
+            if (!chain.includes(p)) stack.push([...chain, p]);
+        }
+    }
+    return chains;
+}
+
+/**
+ * Nearest common ancestors, degree, every blood path and the marriage links
+ * between A and B. The coefficient sums (1/2)^n over blood paths whose two
+ * sides meet only at the apex (Wright's path method, ancestors assumed not
+ * inbred): 0.5 for siblings, 0.125 for first cousins.
+ */
+export function analyzeRelationship(a: string, b: string, tree: KinTree): RelationshipAnalysis {
+    const ix = buildIndex(tree);
+    const result = kinshipIn(ix, a, b);
+    const chainsA = allChains(ix, a);
+    const chainsB = allChains(ix, b);
+
+    const blood: { path: string[]; ancestor: string; up: number; down: number }[] = [];
+    let coefficient = 0;
+    if (a !== b) {
+        for (const [ancestor, ups] of chainsA) {
+            const downs = chainsB.get(ancestor);
+            if (!downs) continue;
+            for (const up of ups) {
+                const below = new Set(up.slice(0, -1));
+                for (const down of downs) {
+                    if (down.slice(0, -1).some(h => below.has(h))) continue;
+                    const steps = up.length + down.length - 2;
+                    coefficient += Math.pow(0.5, steps);
+                    blood.push({ path: [...up, ...down.slice(0, -1).reverse()], ancestor, up: up.length - 1, down: down.length - 1 });
+                }
+            }
+        }
+    }
+    blood.sort((x, y) => x.path.length - y.path.length);
+
+    // A path through a father and one through the mother of the same children is one route
+    const routes = new Map<string, RelationPath>();
+    for (const p of blood) {
+        const key = p.path.filter(h => h !== p.ancestor).join('>');
+        const route = routes.get(key);
+        if (route) route.ancestors.push(p.ancestor);
+        else routes.set(key, { kind: 'blood', path: p.path, ancestors: [p.ancestor] });
+    }
+
+    const nearest = blood[0];
+    const commonAncestors = nearest ? blood.filter(p => p.path.length === nearest.path.length).map(p => p.ancestor) : [];
+    const marriage: RelationPath[] = a === b ? [] : [
+        ...(spousesOf(ix, a).includes(b) ? [{ kind: 'marriage' as const, path: [a, b], ancestors: [], term: isMale(ix, b) ? 'chồng' : 'vợ' }] : []),
+        ...marriageLinks(ix, a, b).map(m => ({ kind: 'marriage' as const, path: m.path, ancestors: [], term: m.term })),
+    ];
+
+    return {
+        kinship: result,
+        commonAncestors: [...new Set(commonAncestors)],
+        up: nearest?.up ?? null,
+        down: nearest?.down ?? null,
+        degree: nearest ? nearest.up + nearest.down : null,
+        generationSpan: nearest ? Math.max(nearest.up, nearest.down) + 1 : null,
+        coefficient,
+        paths: [...routes.values(), ...marriage].slice(0, MAX_PATHS),
+    };
+}
@@ -0,0 +1,295 @@
+/**
+ * Vietnamese lunar calendar (âm lịch) — solar ↔ lunar conversion after
+ * Hồ Ngọc Đức's astronomical algorithm, computed for UTC+7 so that new moons
+ * and the winter solstice fall on the same days as the official Vietnamese
+ * calendar (which differs from the Chinese one, e.g. Tết 1985). Runs offline.
+ *
+ * Stored text forms (people.birth_date / death_date and the *_lunar columns):
+ *   solar  "dd/mm/yyyy"
+ *   lunar  "dd/mm/yyyy", a leap month marked with N — "15/02N/2023";
+ *          the year may be left out ("10/03") when only the giỗ day is known.
+ */
+
+import { zodiacYear } from './genealogy-types';
+
+// ═══ Types ═══
+
+export interface SolarDate {
+    day: number;
+    month: number;
+    year: number;
+}
+
+export interface LunarDate {
+    day: number;
+    month: number;
+    year?: number;     // missing when only the day and month are known
+    leap: boolean;     // tháng nhuận
+}
+
+const TIME_ZONE = 7;
+const SYNODIC_MONTH = 29.530588853;
+/** Julian day of the new moon of 1900-01-01, the epoch of newMoon() */
+const NEW_MOON_EPOCH = 2415021.076998695;
+
+// ═══ Astronomy ═══
+
+/** Julian day number of a Gregorian (or, before 1582-10-15, Julian) date */
+export function jdFromDate(day: number, month: number, year: number): number {
+    const a = Math.floor((14 - month) / 12);
+    const y = year + 4800 - a;
+    const m = month + 12 * a - 3;
+    const jd = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+    if (jd < 2299161) return day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - 32083;
+    return jd;
+}
+
+export function jdToDate(jd: number): SolarDate {
+    let b: number, c: number;
+    if (jd > 2299160) {
+        const a = jd + 32044;
+        b = Math.floor((4 * a + 3) / 146097);
+        c = a - Math.floor((b * 146097) / 4);
+    } else {
+        b = 0;
+        c = jd + 32082;
+    }
+    const d = Math.floor((4 * c + 3) / 1461);
+    const e = c - Math.floor((1461 * d) / 4);
+    const m = Math.floor((5 * e + 2) / 153);
+    return {
+        day: e - Math.floor((153 * m + 2) / 5) + 1,
+        month: m + 3 - 12 * Math.floor(m / 10),
+        year: b * 100 + d - 4800 + Math.floor(m / 10),
+    };
+}
+
+/** Julian date (fractional, UTC) of the k-th new moon after 1900-01-01 */
+function newMoon(k: number): number {
+    const T = k / 1236.85;
+    const T2 = T * T;
+    const T3 = T2 * T;
+    const dr = Math.PI / 180;
+    let jd1 = 2415020.75933 + 29.53058868 * k + 0.0001178 * T2 - 0.000000155 * T3;
+    jd1 += 0.00033 * Math.sin((166.56 + 132.87 * T - 0.009173 * T2) * dr);
+    const M = 359.2242 + 29.10535608 * k - 0.0000333 * T2 - 0.00000347 * T3;     // sun's mean anomaly
+    const Mpr = 306.0253 + 385.81691806 * k + 0.0107306 * T2 + 0.00001236 * T3;  // moon's mean anomaly
+    const F = 21.2964 + 390.67050646 * k - 0.0016528 * T2 - 0.00000239 * T3;     // moon's argument of latitude
+    let c1 = (0.1734 - 0.000393 * T) * Math.sin(M * dr) + 0.0021 * Math.sin(2 * dr * M);
+    c1 = c1 - 0.4068 * Math.sin(Mpr * dr) + 0.0161 * Math.sin(dr * 2 * Mpr);
+    c1 = c1 - 0.0004 * Math.sin(dr * 3 * Mpr);
+    c1 = c1 + 0.0104 * Math.sin(dr * 2 * F) - 0.0051 * Math.sin(dr * (M + Mpr));
+    c1 = c1 - 0.0074 * Math.sin(dr * (M - Mpr)) + 0.0004 * Math.sin(dr * (2 * F + M));
+    c1 = c1 - 0.0004 * Math.sin(dr * (2 * F - M)) - 0.0006 * Math.sin(dr * (2 * F + Mpr));
+    c1 = c1 + 0.0010 * Math.sin(dr * (2 * F - Mpr)) + 0.0005 * Math.sin(dr * (2 * Mpr + M));
+    const deltaT = T < -11
+        ? 0.001 + 0.000839 * T + 0.0002261 * T2 - 0.00000845 * T3 - 0.000000081 * T * T3
+        : -0.000278 + 0.000265 * T + 0.000262 * T2;
+    return jd1 + c1 - deltaT;
+}
+
+/** Sun's apparent longitude in radians at a Julian date */
+function sunLongitude(jdn: number): number {
+    const T = (jdn - 2451545.0) / 36525;
+    const T2 = T * T;
+    const dr = Math.PI / 180;
+    const M = 357.52910 + 35999.05030 * T - 0.0001559 * T2 - 0.00000048 * T * T2;
+    const L0 = 280.46645 + 36000.76983 * T + 0.0003032 * T2;
+    let DL = (1.914600 - 0.004817 * T - 0.000014 * T2) * Math.sin(dr * M);
+    DL += (0.019993 - 0.000101 * T) * Math.sin(dr * 2 * M) + 0.000290 * Math.sin(dr * 3 * M);
+    const L = (L0 + DL) * dr;
+    return L - Math.PI * 2 * Math.floor(L / (Math.PI * 2));
+}
+
+/** Day number (local time) of the k-th new moon */
+function newMoonDay(k: number): number {
+    return Math.floor(newMoon(k) + 0.5 + TIME_ZONE / 24);
+}
+
+/** Solar term section 0–11 at local midnight of a day; 9 = after the winter solstice */
+function sunSection(dayNumber: number): number {
+    return Math.floor((sunLongitude(dayNumber - 0.5 - TIME_ZONE / 24) / Math.PI) * 6);
+}
+
+/** First day of the 11th lunar month (the one holding the winter solstice) of a solar year */
+function lunarMonth11(year: number): number {
+    const k = Math.floor((jdFromDate(31, 12, year) - 2415021) / SYNODIC_MONTH);
+    const nm = newMoonDay(k);
+    return sunSection(nm) >= 9 ? newMoonDay(k - 1) : nm;
+}
+
+/** Index (after month 11) of the first month without a major solar term — the leap month */
+function leapMonthOffset(a11: number): number {
+    const k = Math.floor((a11 - NEW_MOON_EPOCH) / SYNODIC_MONTH + 0.5);
+    let i = 1;
+    let arc = sunSection(newMoonDay(k + i));
+    let last: number;
+    do {
+        last = arc;
+        i++;
+        arc = sunSection(newMoonDay(k + i));
+    } while (arc !== last && i < 14);
+    return i - 1;
+}
+
+// ═══ Conversion ═══
+
+export function solarToLunar({ day, month, year }: SolarDate): LunarDate & { year: number } {
+    const dayNumber = jdFromDate(day, month, year);
+    const k = Math.floor((dayNumber - NEW_MOON_EPOCH) / SYNODIC_MONTH);
+    let monthStart = newMoonDay(k + 1);
+    if (monthStart > dayNumber) monthStart = newMoonDay(k);
+
+    let a11 = lunarMonth11(year);
+    let b11 = a11;
+    let lunarYear: number;
+    if (a11 >= monthStart) {
+        lunarYear = year;
+        a11 = lunarMonth11(year - 1);
+    } else {
+        lunarYear = year + 1;
+        b11 = lunarMonth11(year + 1);
+    }
+
+    const diff = Math.floor((monthStart - a11) / 29);
+    let lunarMonth = diff + 11;
+    let leap = false;
+    if (b11 - a11 > 365) {
+        const leapDiff = leapMonthOffset(a11);
+        if (diff >= leapDiff) {
+            lunarMonth = diff + 10;
+            leap = diff === leapDiff;
+        }
+    }
+    if (lunarMonth > 12) lunarMonth -= 12;
+    if (lunarMonth >= 11 && diff < 4) lunarYear -= 1;
+
+    return { day: dayNumber - monthStart + 1, month: lunarMonth, year: lunarYear, leap };
+}
+
+/**
+ * Solar date of a lunar date; null when the leap month does not exist that
+ * year or the day is past the end of the month (day 30 of a 29-day month)
+ */
+export function lunarToSolar({ day, month, year, leap }: LunarDate & { year: number }): SolarDate | null {
+    const [a11, b11] = month < 11
+        ? [lunarMonth11(year - 1), lunarMonth11(year)]
+        : [lunarMonth11(year), lunarMonth11(year + 1)];
+    const k = Math.floor(0.5 + (a11 - NEW_MOON_EPOCH) / SYNODIC_MONTH);
+    let offset = month - 11;
+    if (offset < 0) offset += 12;
+
+    if (b11 - a11 > 365) {
+        const leapOffset = leapMonthOffset(a11);
+        let leapMonth = leapOffset - 2;
+        if (leapMonth < 0) leapMonth += 12;
+        if (leap && month !== leapMonth) return null;
+        if (leap || offset >= leapOffset) offset += 1;
+    } else if (leap) {
+        return null;
+    }
+
+    if (day < 1 || day > 30) return null;
+    const solar = jdToDate(newMoonDay(k + offset) + day - 1);
+    // A day past the month's end lands in the next month (or in the leap month after it)
+    const check = solarToLunar(solar);
+    return check.month === month && check.leap === !!leap ? solar : null;
+}
+
+/** Which month is doubled in a lunar year, or null */
+export function leapMonthOf(lunarYear: number): number | null {
+    const a11 = lunarMonth11(lunarYear - 1);
+    const b11 = lunarMonth11(lunarYear);
+    if (b11 - a11 <= 365) return null;
+    const leapMonth = leapMonthOffset(a11) - 2;
+    return leapMonth < 0 ? leapMonth + 12 : leapMonth;
+}
+
+/** Today's date in Vietnam (UTC+7), whatever the device's time zone */
+export function vietnamToday(now = new Date()): SolarDate {
+    const local = new Date(now.getTime() + TIME_ZONE * 3600 * 1000);
+    return { day: local.getUTCDate(), month: local.getUTCMonth() + 1, year: local.getUTCFullYear() };
+}
+
+/**
+ * Solar date of the next yearly anniversary of a lunar day/month on or after
+ * `from`. Like most families, a date in a leap month is kept in the regular
+ * month of the same number, and day 30 falls back to 29 in short months.
+ */
+export function nextAnniversary(date: LunarDate, from: SolarDate): { solar: SolarDate; lunarYear: number } {
+    const fromJd = jdFromDate(from.day, from.month, from.year);
+    const startYear = solarToLunar(from).year;
+    for (let year = startYear - 1; ; year++) {
+        const solar = lunarToSolar({ day: date.day, month: date.month, year, leap: false })
+            ?? lunarToSolar({ day: 29, month: date.month, year, leap: false })!;
+        if (jdFromDate(solar.day, solar.month, solar.year) >= fromJd) return { solar, lunarYear: year };
+    }
+}
+
+// ═══ Text Forms ═══
+
+const SOLAR_RE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/;
+const ISO_RE = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+const LUNAR_RE = /^(\d{1,2})[/.-](\d{1,2})\s*(n|N|nhuận)?(?:[/.-](\d{4}))?$/;
+
+/** "dd/mm/yyyy" or ISO "yyyy-mm-dd" → date; null for partial or invalid text */
+export function parseSolarDate(text?: string | null): SolarDate | null {
+    const value = text?.trim() || '';
+    const iso = ISO_RE.exec(value);
+    const m = iso ? [iso[0], iso[3], iso[2], iso[1]] : SOLAR_RE.exec(value);
+    if (!m) return null;
+    const date = { day: parseInt(m[1], 10), month: parseInt(m[2], 10), year: parseInt(m[3], 10) };
+    const check = jdToDate(jdFromDate(date.day, date.month, date.year));
+    return check.day === date.day && check.month === date.month ? date : null;
+}
+
+export function parseLunarDate(text?: string | null): LunarDate | null {
+    const m = LUNAR_RE.exec(text?.trim() || '');
+    if (!m) return null;
+    const date: LunarDate = {
+        day: parseInt(m[1], 10),
+        month: parseInt(m[2], 10),
+        year: m[4] ? parseInt(m[4], 10) : undefined,
+        leap: !!m[3],
+    };
+    if (date.day < 1 || date.day > 30 || date.month < 1 || date.month > 12) return null;
+    return date;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export function solarDateText({ day, month, year }: SolarDate): string {
+    return `${pad(day)}/${pad(month)}/${year}`;
+}
+
+export function lunarDateText({ day, month, year, leap }: LunarDate): string {
+    return `${pad(day)}/${pad(month)}${leap ? 'N' : ''}${year ? `/${year}` : ''}`;
+}
+
+/** "Rằm tháng 2 nhuận năm Quý Mão" style label for display */
+export function formatLunarDate(date: LunarDate): string {
+    const day = date.day === 15 ? 'Rằm' : date.day <= 10 ? `Mùng ${date.day}` : `Ngày ${date.day}`;
+    const month = date.month === 1 ? 'Giêng' : date.month === 12 ? 'Chạp' : `${date.month}`;
+    const year = date.year ? ` năm ${zodiacYear(date.year)} (${date.year})` : '';
+    return `${day} tháng ${month}${date.leap ? ' nhuận' : ''}${year}`;
+}
+
+/** Short "15/2 nhuận Quý Mão" label for tooltips and lists */
+export function formatLunarShort(date: LunarDate): string {
+    return `${date.day}/${date.month}${date.leap ? ' nhuận' : ''}${date.year ? ` ${zodiacYear(date.year)}` : ''} ÂL`;
+}
+
+/**
+ * Fill in whichever form is missing. A lunar date converts back only when it
+ * carries a year; when both are given the solar date wins.
+ */
+export function bothDateForms(solarText?: string | null, lunarText?: string | null): { solar: string | null; lunar: string | null } {
+    const solar = parseSolarDate(solarText);
+    if (solar) return { solar: solarDateText(solar), lunar: lunarDateText(solarToLunar(solar)) };
+    const lunar = parseLunarDate(lunarText);
+    if (lunar?.year) {
+        const converted = lunarToSolar({ ...lunar, year: lunar.year });
+        if (converted) return { solar: solarDateText(converted), lunar: lunarDateText(lunar) };
+    }
+    return { solar: solarText?.trim() || null, lunar: lunar ? lunarDateText(lunar) : lunarText?.trim() || null };
+}
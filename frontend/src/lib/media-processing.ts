@@ -0,0 +1,143 @@
+/**
+ * Server-side checks and transforms for uploads: detect the real file type
+ * from its bytes, drop GPS location data and render a WebP thumbnail.
+ */
+
+import sharp from 'sharp';
+import { MEDIA_TYPES, THUMBNAIL_SIZE } from './media';
+
+export interface ProcessedMedia {
+    data: Buffer;
+    mimeType: string;
+    thumbnail: Buffer | null;
+    width: number | null;
+    height: number | null;
+    locationRemoved: boolean;
+}
+
+export class MediaError extends Error {
+    constructor(message: string, public status = 415) {
+        super(message);
+        this.name = 'MediaError';
+    }
+}
+
+// ═══ JPEG location data ═══
+
+/** Byte size of each TIFF field type */
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+const GPS_IFD_TAG = 0x8825;
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+/** Blank the GPS IFD of an Exif segment in place; returns whether it had any entries */
+function clearGpsIfd(buf: Buffer, tiff: number, end: number): boolean {
+    const little = buf.toString('ascii', tiff, tiff + 2) === 'II';
+    const u16 = (at: number) => (little ? buf.readUInt16LE(at) : buf.readUInt16BE(at));
+    const u32 = (at: number) => (little ? buf.readUInt32LE(at) : buf.readUInt32BE(at));
+    const inside = (at: number, size: number) => at >= tiff && at + size <= end;
+
+    const ifd0 = tiff + u32(tiff + 4);
+    if (!inside(ifd0, 2)) return false;
+    for (let i = 0, n = u16(ifd0); i < n; i++) {
+        const entry = ifd0 + 2 + i * 12;
+        if (!inside(entry, 12) || u16(entry) !== GPS_IFD_TAG) continue;
+        const gps = tiff + u32(entry + 8);
+        if (!inside(gps, 2)) return false;
+        const count = u16(gps);
+        if (count === 0 || !inside(gps, 2 + count * 12 + 4)) return false;
+        for (let k = 0; k < count; k++) {
+            const field = gps + 2 + k * 12;
+            const size = (TIFF_TYPE_SIZES[u16(field + 2)] ?? 1) * u32(field + 4);
+            const value = tiff + u32(field + 8);
+            if (size > 4 && inside(value, size)) buf.fill(0, value, value + size);
+        }
+        // An empty IFD (zero entries, no next IFD) is still valid Exif
+        buf.fill(0, gps, gps + 2 + count * 12 + 4);
+        return true;
+    }
+    return false;
+}
+
+/**
+ * Remove location from a JPEG without re-encoding it: the Exif GPS block is
+ * blanked and XMP packets that mention GPS are dropped. Other metadata
+ * (date taken, camera, orientation) is kept.
+ */
+export function stripJpegLocation(input: Buffer): { data: Buffer; removed: boolean } {
+    if (input.length < 4 || input[0] !== 0xff || input[1] !== 0xd8) return { data: input, removed: false };
+    const buf = Buffer.from(input);
+    const keep: Buffer[] = [buf.subarray(0, 2)];
+    let removed = false;
+    let at = 2;
+    while (at + 4 <= buf.length && buf[at] === 0xff) {
+        const marker = buf[at + 1];
+        // Start of scan: the rest is image data
+        if (marker === 0xda || marker === 0xd9) break;
+        const end = at + 2 + buf.readUInt16BE(at + 2);
+        if (end > buf.length) break;
+        let drop = false;
+        if (marker === 0xe1) {
+            if (buf.toString('latin1', at + 4, at + 10) === EXIF_HEADER) {
+                removed = clearGpsIfd(buf, at + 10, end) || removed;
+            } else if (buf.toString('latin1', at + 4, at + 4 + XMP_HEADER.length) === XMP_HEADER
+                && buf.toString('utf8', at + 4, end).includes('GPS')) {
+                drop = removed = true;
+            }
+        }
+        if (!drop) keep.push(buf.subarray(at, end));
+        at = end;
+    }
+    keep.push(buf.subarray(at));
+    return { data: removed ? Buffer.concat(keep) : input, removed };
+}
+
+// ═══ Processing ═══
+
+const SHARP_FORMATS: Record<string, string> = { jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp', gif: 'image/gif' };
+
+/** Validate the bytes and prepare what gets stored; throws MediaError for unsupported files */
+export async function processMedia(bytes: Buffer, options: { stripLocation: boolean }): Promise<ProcessedMedia> {
+    if (bytes.subarray(0, 5).toString('latin1') === '%PDF-') {
+        return { data: bytes, mimeType: 'application/pdf', thumbnail: null, width: null, height: null, locationRemoved: false };
+    }
+
+    let meta: sharp.Metadata;
+    try {
+        meta = await sharp(bytes).metadata();
+    } catch {
+        throw new MediaError('Tệp không phải ảnh hoặc PDF hợp lệ');
+    }
+    const mimeType = meta.format ? SHARP_FORMATS[meta.format] : undefined;
+    if (!mimeType || !MEDIA_TYPES[mimeType]) throw new MediaError(`Định dạng ${meta.format ?? 'này'} chưa được hỗ trợ`);
+
+    let data = bytes;
+    let locationRemoved = false;
+    if (options.stripLocation) {
+        if (mimeType === 'image/jpeg') {
+            ({ data, removed: locationRemoved } = stripJpegLocation(bytes));
+        } else if ((meta.exif || meta.xmp) && (mimeType === 'image/png' || mimeType === 'image/webp')) {
+            // No in-place editor for these containers: re-encode without Exif/XMP
+            data = await sharp(bytes, { animated: true }).keepIccProfile()
+                .toFormat(meta.format as 'png' | 'webp', mimeType === 'image/webp' ? { quality: 92 } : {}).toBuffer();
+            locationRemoved = true;
+        }
+    }
+
+    const thumbnail = await sharp(data)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 78 })
+        .toBuffer();
+
+    // Orientations 5–8 are rotated by 90°, so the displayed size is swapped
+    const swap = (meta.orientation ?? 1) >= 5;
+    return {
+        data,
+        mimeType,
+        thumbnail,
+        width: (swap ? meta.height : meta.width) ?? null,
+        height: (swap ? meta.width : meta.height) ?? null,
+        locationRemoved,
+    };
+}
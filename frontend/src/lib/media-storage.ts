@@ -0,0 +1,78 @@
+/**
+ * Storage backends for media files (server only). Chosen with MEDIA_STORAGE:
+ *   supabase (default)  public bucket `media` in Supabase Storage
+ *   local               files under MEDIA_LOCAL_DIR (default ./data/media),
+ *                       served by /api/media/file/… — for self-hosting
+ * Backups (admin/backup) only copy the Supabase bucket; back up the local
+ * directory together with the server.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createServiceClient } from './supabase';
+import { MEDIA_BUCKET, type StorageBackend } from './media';
+
+export interface MediaStorage {
+    name: StorageBackend;
+    put(filePath: string, data: Buffer, contentType: string): Promise<void>;
+    remove(filePaths: string[]): Promise<void>;
+}
+
+// ═══ Supabase Storage ═══
+
+const supabaseStorage: MediaStorage = {
+    name: 'supabase',
+    async put(filePath, data, contentType) {
+        const { error } = await createServiceClient().storage.from(MEDIA_BUCKET)
+            .upload(filePath, data, { contentType, cacheControl: '31536000', upsert: false });
+        if (error) throw new Error(error.message);
+    },
+    async remove(filePaths) {
+        if (filePaths.length === 0) return;
+        const { error } = await createServiceClient().storage.from(MEDIA_BUCKET).remove(filePaths);
+        if (error) throw new Error(error.message);
+    },
+};
+
+// ═══ Local filesystem ═══
+
+const LOCAL_ROOT = path.resolve(process.env.MEDIA_LOCAL_DIR || path.join(process.cwd(), 'data', 'media'));
+
+/** Absolute path inside the media directory, or null if `filePath` tries to leave it */
+export function localMediaPath(filePath: string): string | null {
+    const full = path.resolve(LOCAL_ROOT, filePath);
+    return full.startsWith(LOCAL_ROOT + path.sep) ? full : null;
+}
+
+const fileSystemStorage: MediaStorage = {
+    name: 'local',
+    async put(filePath, data) {
+        const full = localMediaPath(filePath);
+        if (!full) throw new Error(`Invalid media path: ${filePath}`);
+        await fs.mkdir(path.dirname(full), { recursive: true });
+        await fs.writeFile(full, data, { flag: 'wx' });
+    },
+    async remove(filePaths) {
+        for (const filePath of filePaths) {
+            const full = localMediaPath(filePath);
+            if (full) await fs.rm(full, { force: true });
+        }
+    },
+};
+
+// ═══ Selection ═══
+
+const BACKENDS: Record<StorageBackend, MediaStorage> = {
+    supabase: supabaseStorage,
+    local: fileSystemStorage,
+};
+
+/** Backend for new uploads */
+export function getMediaStorage(): MediaStorage {
+    return process.env.MEDIA_STORAGE === 'local' ? fileSystemStorage : supabaseStorage;
+}
+
+/** Backend that holds an existing row's files */
+export function storageFor(name: StorageBackend | null): MediaStorage {
+    return BACKENDS[name ?? 'supabase'];
+}
@@ -0,0 +1,254 @@
+/**
+ * Media library — shared between the /media page and the upload API.
+ * Files live in a pluggable storage backend (src/lib/media-storage.ts);
+ * rows in `media` remember which backend holds them so switching backends
+ * later does not break older uploads.
+ */
+
+import { supabase } from './supabase';
+import { foldName } from './genealogy-types';
+
+// ═══ Types ═══
+
+export type MediaState = 'PENDING' | 'PUBLISHED' | 'REJECTED';
+export type StorageBackend = 'supabase' | 'local';
+export type DocType = 'PHOTO' | 'MANUSCRIPT' | 'LAND_DEED' | 'CERTIFICATE' | 'LETTER' | 'DOCUMENT';
+export type AlbumKind = 'ALBUM' | 'COLLECTION';
+
+export interface MediaItem {
+    id: string;
+    file_name: string;
+    mime_type: string | null;
+    file_size: number | null;
+    title: string | null;
+    description: string | null;
+    state: MediaState;
+    uploader_id: string | null;
+    created_at: string;
+    storage_backend: StorageBackend | null;
+    storage_path: string | null;
+    thumbnail_path: string | null;
+    width: number | null;
+    height: number | null;
+    location_removed: boolean | null;
+    doc_type: DocType;
+    /** Date of the document itself, free text ("1942", "tháng Chạp năm Giáp Thân") */
+    doc_date: string | null;
+    source: string | null;
+    transcription: string | null;
+    uploader?: { display_name: string | null; email: string };
+}
+
+/** Fields the uploader (or an admin) can edit after upload */
+export type MediaDetails = Pick<MediaItem, 'title' | 'description' | 'doc_type' | 'doc_date' | 'source' | 'transcription'>;
+
+/** Photo album or document collection (table media_albums) */
+export interface MediaAlbum {
+    id: string;
+    title: string;
+    description: string | null;
+    kind: AlbumKind;
+    event_id: string | null;
+    cover_media_id: string | null;
+    created_by: string | null;
+    created_at: string;
+    event?: { id: string; title: string; start_at: string } | null;
+    cover?: MediaItem | null;
+    items?: { count: number }[];
+}
+
+/** Admin policy for uploads, stored in app_settings under the key 'media' */
+export interface MediaSettings {
+    max_size_mb: number;
+    strip_location: boolean;
+}
+
+export const DEFAULT_MEDIA_SETTINGS: MediaSettings = {
+    max_size_mb: 20,
+    strip_location: true,
+};
+
+/** Face region as fractions (0–1) of the image width and height */
+export interface TagRegion {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+/** A person tagged in a media item (table media_people) */
+export interface MediaTag {
+    id: string;
+    media_id: string;
+    person_handle: string;
+    region: TagRegion | null;
+    is_primary: boolean;
+    tagged_by: string | null;
+    created_at: string;
+    person?: { display_name: string } | null;
+}
+
+/** What the tree card needs to draw a person's avatar */
+export interface PersonAvatar {
+    url: string;
+    region: TagRegion | null;
+    width: number | null;
+    height: number | null;
+}
+
+export const DOC_TYPE_LABELS: Record<DocType, string> = {
+    PHOTO: 'Ảnh',
+    MANUSCRIPT: 'Gia phả chép tay',
+    LAND_DEED: 'Văn tự, địa bạ',
+    CERTIFICATE: 'Bằng, giấy chứng nhận',
+    LETTER: 'Thư từ',
+    DOCUMENT: 'Tài liệu khác',
+};
+
+export const ALBUM_KIND_LABELS: Record<AlbumKind, string> = {
+    ALBUM: 'Album ảnh',
+    COLLECTION: 'Bộ sưu tập tài liệu',
+};
+
+// ═══ Limits ═══
+
+export const MEDIA_BUCKET = 'media';
+export const LOCAL_MEDIA_ROUTE = '/api/media/file';
+export const THUMBNAIL_SIZE = 480;
+
+/** Accepted file types and the extension they are stored under */
+export const MEDIA_TYPES: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'application/pdf': 'pdf',
+};
+
+export const MEDIA_ACCEPT = Object.keys(MEDIA_TYPES).join(',');
+
+export function isImage(mime: string | null): boolean {
+    return !!mime && mime.startsWith('image/');
+}
+
+export function formatSize(bytes: number | null): string {
+    if (!bytes) return '—';
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1048576) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1048576).toFixed(1)} MB`;
+}
+
+/** Quick check before sending; the server checks the actual bytes again */
+export function checkMediaFile(file: { type: string; size: number }, settings: MediaSettings): string | null {
+    if (file.type && !MEDIA_TYPES[file.type]) return 'Chỉ nhận ảnh JPEG, PNG, WebP, GIF hoặc tệp PDF';
+    if (file.size > settings.max_size_mb * 1048576) return `Tệp quá lớn (tối đa ${settings.max_size_mb} MB)`;
+    if (file.size === 0) return 'Tệp rỗng';
+    return null;
+}
+
+/** Default document type for a newly uploaded file */
+export function defaultDocType(mime: string): DocType {
+    return isImage(mime) ? 'PHOTO' : 'DOCUMENT';
+}
+
+// ═══ Search ═══
+
+/** True if every word of `query` appears in the item's text fields or the names of the people tagged in it */
+export function matchesMedia(item: MediaItem, query: string, taggedNames: string[] = []): boolean {
+    const words = foldName(query).split(' ').filter(Boolean);
+    if (words.length === 0) return true;
+    const haystack = foldName([
+        item.title, item.file_name, item.description, item.source, item.doc_date, item.transcription, ...taggedNames,
+    ].filter(Boolean).join(' '));
+    return words.every(w => haystack.includes(w));
+}
+
+// ═══ URLs ═══
+
+function fileUrl(backend: StorageBackend | null, path: string): string {
+    if (backend === 'local') return `${LOCAL_MEDIA_ROUTE}/${path.split('/').map(encodeURIComponent).join('/')}`;
+    const base = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+    return `${base}/storage/v1/object/public/${MEDIA_BUCKET}/${path}`;
+}
+
+/** URL of the stored file, or null for rows created before files were stored */
+export function mediaUrl(item: MediaItem): string | null {
+    return item.storage_path ? fileUrl(item.storage_backend, item.storage_path) : null;
+}
+
+export function thumbnailUrl(item: MediaItem): string | null {
+    return item.thumbnail_path ? fileUrl(item.storage_backend, item.thumbnail_path) : mediaUrl(item);
+}
+
+// ═══ Face regions ═══
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+/** Region spanned by two corner points (any order), or null if too small to be a face */
+export function regionFromPoints(a: { x: number; y: number }, b: { x: number; y: number }): TagRegion | null {
+    const x = clamp01(Math.min(a.x, b.x));
+    const y = clamp01(Math.min(a.y, b.y));
+    const w = clamp01(Math.max(a.x, b.x)) - x;
+    const h = clamp01(Math.max(a.y, b.y)) - y;
+    return w < 0.02 || h < 0.02 ? null : { x, y, w, h };
+}
+
+/**
+ * CSS background for a round avatar cropped to `region`. The region is
+ * widened to a square in pixels (centered, kept inside the image) so the
+ * photo is scaled evenly.
+ */
+export function avatarStyle(avatar: PersonAvatar): Record<string, string> {
+    const base = { backgroundImage: `url("${avatar.url}")`, backgroundRepeat: 'no-repeat' };
+    const { region, width, height } = avatar;
+    if (!region || !width || !height) return { ...base, backgroundSize: 'cover', backgroundPosition: 'center 25%' };
+
+    const side = Math.min(Math.max(region.w * width, region.h * height), width, height);
+    const w = side / width;
+    const h = side / height;
+    const x = clamp01(region.x + region.w / 2 - w / 2);
+    const y = clamp01(region.y + region.h / 2 - h / 2);
+    const pos = (start: number, size: number) => (size >= 1 ? 0 : (Math.min(start, 1 - size) / (1 - size)) * 100);
+    return {
+        ...base,
+        backgroundSize: `${100 / w}% ${100 / h}%`,
+        backgroundPosition: `${pos(x, w)}% ${pos(y, h)}%`,
+    };
+}
+
+// ═══ API calls ═══
+
+async function authHeader(): Promise<Record<string, string>> {
+    const { data } = await supabase.auth.getSession();
+    return data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {};
+}
+
+/** Upload through /api/media, which validates, strips location data and makes the thumbnail */
+export async function uploadMedia(file: File, meta: { title?: string; description?: string; docType?: DocType } = {}): Promise<{ item?: MediaItem; error?: string }> {
+    const form = new FormData();
+    form.append('file', file);
+    if (meta.title) form.append('title', meta.title);
+    if (meta.description) form.append('description', meta.description);
+    if (meta.docType) form.append('doc_type', meta.docType);
+    try {
+        const res = await fetch('/api/media', { method: 'POST', headers: await authHeader(), body: form });
+        const body = await res.json();
+        return res.ok ? { item: body as MediaItem } : { error: body.error || 'Tải lên thất bại' };
+    } catch (err) {
+        console.error('Failed to upload media:', err);
+        return { error: 'Không kết nối được máy chủ' };
+    }
+}
+
+/** Delete the row and its files (uploader or admin) */
+export async function deleteMedia(id: string): Promise<{ error?: string }> {
+    try {
+        const res = await fetch(`/api/media/${id}`, { method: 'DELETE', headers: await authHeader() });
+        if (res.ok) return {};
+        const body = await res.json().catch(() => ({}));
+        return { error: body.error || 'Xóa thất bại' };
+    } catch (err) {
+        console.error('Failed to delete media:', err);
+        return { error: 'Không kết nối được máy chủ' };
+    }
+}
@@ -0,0 +1,125 @@
+/**
+ * Giỗ (death anniversaries) — every deceased person with a lunar death date
+ * keeps exactly one upcoming MEMORIAL event, dated on the solar day of the
+ * next anniversary. Past giỗ stay as history; the upcoming one is created,
+ * moved or removed to follow the person's record. The plan is written by
+ * apply_memorial_sync (database-setup.sql §13).
+ */
+
+import type { PersonRow } from './genealogy-types';
+import { parseLunarDate, nextAnniversary, formatLunarDate, jdFromDate, jdToDate, type SolarDate } from './lunar-calendar';
+
+// ═══ Types ═══
+
+export type MemorialPerson = Pick<PersonRow, 'handle' | 'display_name' | 'is_living' | 'death_year' | 'death_date_lunar'>;
+
+/** An automatic giỗ event as stored (events row with person_handle) */
+export interface MemorialEvent {
+    id: string;
+    person_handle: string;
+    title: string;
+    description: string | null;
+    start_at: string;
+}
+
+export type MemorialDraft = Omit<MemorialEvent, 'id'>;
+
+export interface MemorialPlan {
+    create: MemorialDraft[];
+    update: (Omit<MemorialDraft, 'person_handle'> & { id: string })[];
+    remove: string[];
+}
+
+/** Giỗ start at 8 a.m. Vietnam time */
+const MEMORIAL_TIME = 'T08:00:00+07:00';
+
+// ═══ Planning ═══
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export function memorialStart(date: SolarDate): string {
+    return `${date.year}-${pad(date.month)}-${pad(date.day)}${MEMORIAL_TIME}`;
+}
+
+/** Midnight of a day in Vietnam, for "upcoming" range queries */
+export function dayStart(date: SolarDate): string {
+    return `${date.year}-${pad(date.month)}-${pad(date.day)}T00:00:00+07:00`;
+}
+
+/** "Giỗ đầu", "Giỗ hết", "Giỗ lần thứ 12" */
+export function memorialOrdinal(n: number): string {
+    if (n === 1) return 'Giỗ đầu';
+    if (n === 2) return 'Giỗ hết (đại tường)';
+    return `Giỗ lần thứ ${n}`;
+}
+
+/** The upcoming giỗ event for a person, or null when none should exist */
+export function memorialDraft(person: MemorialPerson, today: SolarDate): MemorialDraft | null {
+    const lunar = person.is_living ? null : parseLunarDate(person.death_date_lunar);
+    if (!lunar) return null;
+    const { solar, lunarYear } = nextAnniversary(lunar, today);
+    const deathYear = lunar.year ?? person.death_year;
+    const count = deathYear ? lunarYear - deathYear : 0;
+    const lines = [`Ngày giỗ: ${formatLunarDate({ ...lunar, year: undefined, leap: false })} âm lịch`];
+    if (count > 0) lines.push(memorialOrdinal(count));
+    return {
+        person_handle: person.handle,
+        title: `Giỗ ${person.display_name}`,
+        description: lines.join('\n'),
+        start_at: memorialStart(solar),
+    };
+}
+
+/**
+ * Every giỗ of a person falling within [from, to] — what the calendar feed
+ * publishes, since `events` only keeps the upcoming one.
+ */
+export function memorialsBetween(person: MemorialPerson, from: SolarDate, to: SolarDate): MemorialDraft[] {
+    const toJd = jdFromDate(to.day, to.month, to.year);
+    const drafts: MemorialDraft[] = [];
+    for (let day = from; ;) {
+        const draft = memorialDraft(person, day);
+        if (!draft) break;
+        const start = draft.start_at.slice(0, 10).split('-').map(Number);
+        const jd = jdFromDate(start[2], start[1], start[0]);
+        if (jd > toJd) break;
+        drafts.push(draft);
+        day = jdToDate(jd + 1);
+    }
+    return drafts;
+}
+
+/**
+ * Compare what each person needs with the upcoming automatic giỗ already in
+ * `events` (start on or after today) and list the writes to reconcile them.
+ */
+export function planMemorials(people: MemorialPerson[], upcoming: MemorialEvent[], today: SolarDate): MemorialPlan {
+    const plan: MemorialPlan = { create: [], update: [], remove: [] };
+    const byPerson = new Map<string, MemorialEvent[]>();
+    for (const e of upcoming) byPerson.set(e.person_handle, [...(byPerson.get(e.person_handle) || []), e]);
+
+    for (const person of people) {
+        const draft = memorialDraft(person, today);
+        const [first, ...extra] = byPerson.get(person.handle) || [];
+        byPerson.delete(person.handle);
+        plan.remove.push(...extra.map(e => e.id));
+        if (!draft) {
+            if (first) plan.remove.push(first.id);
+        } else if (!first) {
+            plan.create.push(draft);
+        } else if (first.title !== draft.title || first.description !== draft.description
+            || new Date(first.start_at).getTime() !== new Date(draft.start_at).getTime()) {
+            plan.update.push({ id: first.id, title: draft.title, description: draft.description, start_at: draft.start_at });
+        }
+    }
+    // Events whose person no longer has a lunar death date on record
+    for (const events of byPerson.values()) plan.remove.push(...events.map(e => e.id));
+    return plan;
+}
+
+/** Whole days from today (Vietnam time) until an event, 0 = today */
+export function daysUntil(startAt: string, today: SolarDate): number {
+    const start = new Date(new Date(startAt).getTime() + 7 * 3600 * 1000);
+    const from = Date.UTC(today.year, today.month - 1, today.day);
+    return Math.round((Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()) - from) / 86400000);
+}
@@ -0,0 +1,126 @@
+/**
+ * Person deletion — preview of what removing one person does to the
+ * families around them, computed from the loaded tree before anything is
+ * written. The write is tree_delete_person (database-setup.sql §9), which
+ * moves the person, their comments and contributions into the recycle bin
+ * (deleted_people) so an admin can restore them later.
+ */
+
+import type { TreeNode, TreeFamily } from './tree-layout';
+import type { PersonRow, FamilyRow } from './genealogy-types';
+
+// ═══ Types ═══
+
+/** Rows outside the tree that point at the person */
+export interface DeletionRefs {
+    comments: number;
+    contributions: number;
+    accounts: string[];        // emails of profiles claiming this person
+}
+
+/** A family the person is father or mother in */
+export interface ParentFamilyImpact {
+    family: string;
+    partner: TreeNode | null;
+    children: TreeNode[];
+}
+
+/** A family the person is a child in */
+export interface ChildFamilyImpact {
+    family: string;
+    parents: TreeNode[];
+    siblings: number;
+}
+
+export interface DeletionPreview {
+    person: TreeNode;
+    asParent: ParentFamilyImpact[];
+    asChild: ChildFamilyImpact[];
+}
+
+export interface DeletionOptions {
+    /** family the person is a parent in → family its children move to */
+    reparent: Record<string, string>;
+    /** drop families left with no father, mother or children */
+    removeEmptyFamilies: boolean;
+}
+
+/** A recycle bin row (deleted_people) */
+export interface DeletedPersonEntry {
+    id: string;
+    person_handle: string;
+    display_name: string | null;
+    deleted_at: string;
+    deleter: { display_name: string | null; email: string } | null;
+    snapshot: {
+        person: PersonRow;
+        families: FamilyRow[];
+        comments: unknown[];
+        contributions: unknown[];
+        profiles: string[];
+        /** Photo tags; missing in entries deleted before tags existed */
+        media_people?: unknown[];
+        /** Evidence and discussion of the contributions; missing in older entries */
+        contribution_media?: unknown[];
+        contribution_messages?: unknown[];
+        reparented: Record<string, string>;
+        removed_families: string[];
+    };
+}
+
+// ═══ Preview ═══
+
+/** Families the person is a parent or child in, with the people around them */
+export function previewDeletion(
+    handle: string,
+    data: { people: TreeNode[]; families: TreeFamily[] },
+): DeletionPreview | null {
+    const byHandle = new Map(data.people.map(p => [p.handle, p]));
+    const person = byHandle.get(handle);
+    if (!person) return null;
+
+    const asParent: ParentFamilyImpact[] = [];
+    const asChild: ChildFamilyImpact[] = [];
+    for (const f of data.families) {
+        if (f.fatherHandle === handle || f.motherHandle === handle) {
+            const partner = f.fatherHandle === handle ? f.motherHandle : f.fatherHandle;
+            asParent.push({
+                family: f.handle,
+                partner: (partner && byHandle.get(partner)) || null,
+                children: f.children.map(c => byHandle.get(c)).filter((c): c is TreeNode => !!c),
+            });
+        } else if (f.children.includes(handle)) {
+            asChild.push({
+                family: f.handle,
+                parents: [f.fatherHandle, f.motherHandle].map(h => h && byHandle.get(h)).filter((p): p is TreeNode => !!p),
+                siblings: f.children.filter(c => c !== handle).length,
+            });
+        }
+    }
+    return { person, asParent, asChild };
+}
+
+/** Families that end up with no father, mother or children (mirrors the SQL) */
+export function emptiedFamilies(preview: DeletionPreview, options: DeletionOptions): string[] {
+    return [
+        ...preview.asParent
+            .filter(f => !f.partner && (f.children.length === 0 || options.reparent[f.family]))
+            .map(f => f.family),
+        ...preview.asChild.filter(f => f.parents.length === 0 && f.siblings === 0).map(f => f.family),
+    ];
+}
+
+/** Families the children of `family` may move to: any family with a parent, except the person's own */
+export function reparentTargets(
+    preview: DeletionPreview,
+    data: { people: TreeNode[]; families: TreeFamily[] },
+): { handle: string; label: string }[] {
+    const own = new Set(preview.asParent.map(f => f.family));
+    const names = new Map(data.people.map(p => [p.handle, p.displayName]));
+    return data.families
+        .filter(f => !own.has(f.handle) && (f.fatherHandle || f.motherHandle))
+        .map(f => ({
+            handle: f.handle,
+            label: [f.fatherHandle, f.motherHandle].map(h => h && names.get(h)).filter(Boolean).join(' & ') || f.handle,
+        }));
+}
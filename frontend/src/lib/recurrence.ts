@@ -0,0 +1,355 @@
+/**
+ * Recurring events — the rule in events.recurrence (database-setup.sql §14)
+ * is expanded into occurrences for a window of days, then the per-occurrence
+ * rows of event_overrides (moved, renamed or cancelled) are applied on top.
+ * Every date here is a Vietnam (UTC+7) calendar day.
+ *
+ * Custom rules take an RFC 5545 RRULE subset: FREQ (DAILY / WEEKLY / MONTHLY /
+ * YEARLY), INTERVAL, COUNT, UNTIL, BYDAY (with ordinals such as 1SU or -1FR in
+ * MONTHLY and YEARLY), BYMONTHDAY and BYMONTH. YEARLY without BYMONTH stays in
+ * the month of the first occurrence.
+ */
+
+import { solarToLunar, nextAnniversary, jdFromDate, jdToDate, formatLunarDate, type SolarDate } from './lunar-calendar';
+
+// ═══ Types ═══
+
+export type RecurrenceKind = 'yearly' | 'yearly-lunar' | 'monthly' | 'rrule';
+
+export interface RecurrenceRule {
+    kind: RecurrenceKind;
+    rrule?: string;             // kind = 'rrule', without the "RRULE:" prefix
+    until?: string | null;      // last day, YYYY-MM-DD
+}
+
+export const RECURRENCE_LABELS: Record<RecurrenceKind, string> = {
+    yearly: 'Hằng năm (dương lịch)',
+    'yearly-lunar': 'Hằng năm (âm lịch)',
+    monthly: 'Hằng tháng',
+    rrule: 'Tùy chỉnh (RRULE)',
+};
+
+/** The events columns the calendar needs */
+export interface CalendarEvent {
+    id: string;
+    title: string;
+    description: string | null;
+    start_at: string;
+    end_at: string | null;
+    location: string | null;
+    type: string;
+    is_recurring: boolean;
+    recurrence: RecurrenceRule | null;
+    person_handle: string | null;
+    creator_id: string | null;
+}
+
+export interface EventOverride {
+    id: string;
+    event_id: string;
+    occurrence_date: string;    // original day of the occurrence, YYYY-MM-DD
+    cancelled: boolean;
+    start_at: string | null;    // moved to
+    title: string | null;
+    location: string | null;
+    note: string | null;
+}
+
+export interface Occurrence {
+    event: CalendarEvent;
+    date: string;               // original day, the override key
+    start: string;              // ISO, after overrides
+    end: string | null;
+    title: string;
+    location: string | null;
+    cancelled: boolean;
+    override: EventOverride | null;
+}
+
+// ═══ Day Helpers ═══
+
+const TZ_MS = 7 * 3600 * 1000;
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+export function dayKey(date: SolarDate): string {
+    return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+export function parseDayKey(key: string): SolarDate {
+    const [year, month, day] = key.split('-').map(n => parseInt(n, 10));
+    return { day, month, year };
+}
+
+const jdOf = (d: SolarDate) => jdFromDate(d.day, d.month, d.year);
+
+/** 0 = Sunday … 6 = Saturday */
+export function weekday(date: SolarDate): number {
+    return (jdOf(date) + 1) % 7;
+}
+
+export function addDays(date: SolarDate, days: number): SolarDate {
+    return jdToDate(jdOf(date) + days);
+}
+
+export function daysInMonth(month: number, year: number): number {
+    return jdFromDate(1, month === 12 ? 1 : month + 1, month === 12 ? year + 1 : year) - jdFromDate(1, month, year);
+}
+
+/** Vietnam-local day and "HH:MM" of an ISO timestamp */
+export function localParts(iso: string): { date: SolarDate; time: string } {
+    const d = new Date(new Date(iso).getTime() + TZ_MS);
+    return {
+        date: { day: d.getUTCDate(), month: d.getUTCMonth() + 1, year: d.getUTCFullYear() },
+        time: `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}`,
+    };
+}
+
+export function localIso(date: SolarDate, time: string): string {
+    return `${dayKey(date)}T${time}:00+07:00`;
+}
+
+// ═══ RRULE ═══
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQS = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'] as const;
+
+interface ParsedRRule {
+    freq: (typeof FREQS)[number];
+    interval: number;
+    count?: number;
+    until?: SolarDate;
+    byDay: { weekday: number; nth: number }[];    // nth 0 = every
+    byMonthDay: number[];
+    byMonth: number[];
+}
+
+/** Parse an RRULE, throwing a Vietnamese message on anything outside the supported subset */
+export function parseRRule(text: string): ParsedRRule {
+    const parts = new Map<string, string>();
+    for (const piece of text.trim().replace(/^RRULE:/i, '').split(';')) {
+        if (!piece) continue;
+        const [key, value] = piece.split('=');
+        if (!value) throw new Error(`Thành phần RRULE không hợp lệ: ${piece}`);
+        parts.set(key.toUpperCase(), value.toUpperCase());
+    }
+    const freq = parts.get('FREQ') as ParsedRRule['freq'];
+    if (!FREQS.includes(freq)) throw new Error('RRULE cần FREQ=DAILY, WEEKLY, MONTHLY hoặc YEARLY');
+    const ints = (key: string, min: number, max: number) => (parts.get(key)?.split(',') ?? []).map(v => {
+        const n = parseInt(v, 10);
+        if (isNaN(n) || n === 0 || n < min || n > max) throw new Error(`Giá trị ${key} không hợp lệ: ${v}`);
+        return n;
+    });
+    const rule: ParsedRRule = {
+        freq,
+        interval: parts.has('INTERVAL') ? ints('INTERVAL', 1, 1000)[0] : 1,
+        byMonthDay: ints('BYMONTHDAY', -31, 31),
+        byMonth: ints('BYMONTH', 1, 12),
+        byDay: (parts.get('BYDAY')?.split(',') ?? []).map(v => {
+            const m = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(v);
+            if (!m) throw new Error(`Giá trị BYDAY không hợp lệ: ${v}`);
+            return { weekday: WEEKDAYS.indexOf(m[2]), nth: m[1] ? parseInt(m[1], 10) : 0 };
+        }),
+    };
+    if (parts.has('COUNT')) rule.count = ints('COUNT', 1, 10000)[0];
+    const until = parts.get('UNTIL');
+    if (until) {
+        const m = /^(\d{4})(\d{2})(\d{2})/.exec(until);
+        if (!m) throw new Error(`Giá trị UNTIL không hợp lệ: ${until}`);
+        rule.until = { year: parseInt(m[1], 10), month: parseInt(m[2], 10), day: parseInt(m[3], 10) };
+    }
+    for (const key of parts.keys()) {
+        if (!['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST'].includes(key)) {
+            throw new Error(`Chưa hỗ trợ ${key} trong RRULE`);
+        }
+    }
+    return rule;
+}
+
+/** null if the RRULE is usable, else the reason */
+export function rruleError(text: string): string | null {
+    try {
+        parseRRule(text);
+        return null;
+    } catch (e) {
+        return (e as Error).message;
+    }
+}
+
+/** Days of one month matching BYMONTHDAY / BYDAY, or the start's day of month */
+function monthCandidates(rule: ParsedRRule, month: number, year: number, startDay: number): number[] {
+    const length = daysInMonth(month, year);
+    let days = rule.byMonthDay.length > 0
+        ? rule.byMonthDay.map(d => (d > 0 ? d : length + d + 1)).filter(d => d >= 1 && d <= length)
+        : rule.byDay.length > 0 ? Array.from({ length }, (_, i) => i + 1) : [startDay].filter(d => d <= length);
+    if (rule.byDay.length > 0) {
+        days = days.filter(day => {
+            const wd = weekday({ day, month, year });
+            return rule.byDay.some(b => {
+                if (b.weekday !== wd) return false;
+                if (b.nth === 0) return true;
+                return b.nth > 0 ? Math.ceil(day / 7) === b.nth : Math.ceil((length - day + 1) / 7) === -b.nth;
+            });
+        });
+    }
+    return Array.from(new Set(days)).sort((a, b) => a - b);
+}
+
+/** Occurrence days (Julian day numbers) of an RRULE from `start` up to `toJd` */
+function expandRRule(rule: ParsedRRule, start: SolarDate, toJd: number): number[] {
+    const startJd = jdOf(start);
+    const lastJd = Math.min(toJd, rule.until ? jdOf(rule.until) : Infinity);
+    const result: number[] = [];
+    const take = (jd: number) => {
+        if (jd < startJd || jd > lastJd) return true;
+        if (rule.count !== undefined && result.length >= rule.count) return false;
+        if (rule.byMonth.length > 0 && !rule.byMonth.includes(jdToDate(jd).month)) return true;
+        result.push(jd);
+        return true;
+    };
+
+    for (let period = 0; period < 100000; period++) {
+        let candidates: number[] = [];
+        let periodStart: number;
+        if (rule.freq === 'DAILY') {
+            periodStart = startJd + period * rule.interval;
+            const d = jdToDate(periodStart);
+            const okDay = rule.byDay.length === 0 || rule.byDay.some(b => b.weekday === weekday(d));
+            const okMonthDay = rule.byMonthDay.length === 0 || monthCandidates({ ...rule, byDay: [] }, d.month, d.year, d.day).includes(d.day);
+            if (okDay && okMonthDay) candidates = [periodStart];
+        } else if (rule.freq === 'WEEKLY') {
+            const monday = startJd - ((weekday(start) + 6) % 7);
+            periodStart = monday + period * 7 * rule.interval;
+            const days = rule.byDay.length > 0 ? rule.byDay.map(b => b.weekday) : [weekday(start)];
+            candidates = days.map(wd => periodStart + ((wd + 6) % 7)).sort((a, b) => a - b);
+        } else {
+            const months = rule.freq === 'MONTHLY' ? period * rule.interval : period * rule.interval * 12;
+            const index = start.year * 12 + start.month - 1 + months;
+            const year = Math.floor(index / 12);
+            periodStart = jdFromDate(1, (index % 12) + 1, year);
+            const inMonths = rule.freq === 'YEARLY' && rule.byMonth.length > 0 ? rule.byMonth : [(index % 12) + 1];
+            for (const month of [...inMonths].sort((a, b) => a - b)) {
+                candidates.push(...monthCandidates(rule, month, year, start.day).map(day => jdFromDate(day, month, year)));
+            }
+        }
+        if (periodStart > lastJd) break;
+        for (const jd of candidates) {
+            if (!take(jd)) return result;
+        }
+    }
+    return result;
+}
+
+// ═══ Expansion ═══
+
+/** Events marked recurring before rules existed repeat yearly; automatic giỗ rows never do */
+export function effectiveRule(event: CalendarEvent): RecurrenceRule | null {
+    if (event.recurrence) return event.recurrence;
+    return event.is_recurring && !event.person_handle ? { kind: 'yearly' } : null;
+}
+
+/** Original days (Julian day numbers) on which an event occurs within [fromJd, toJd] */
+function occurrenceDays(event: CalendarEvent, fromJd: number, toJd: number): number[] {
+    const start = localParts(event.start_at).date;
+    const startJd = jdOf(start);
+    const rule = effectiveRule(event);
+    if (!rule) return startJd >= fromJd && startJd <= toJd ? [startJd] : [];
+
+    const untilJd = Math.min(toJd, rule.until ? jdOf(parseDayKey(rule.until)) : Infinity);
+    const firstYear = jdToDate(Math.max(fromJd, startJd)).year;
+    const lastYear = jdToDate(toJd).year;
+    const days: number[] = [];
+
+    switch (rule.kind) {
+        case 'yearly':
+            for (let year = firstYear; year <= lastYear; year++) {
+                // 29/2 falls on 28/2 in common years
+                days.push(jdFromDate(Math.min(start.day, daysInMonth(start.month, year)), start.month, year));
+            }
+            break;
+        case 'monthly':
+            for (let index = firstYear * 12; index < (lastYear + 1) * 12; index++) {
+                const year = Math.floor(index / 12);
+                const month = (index % 12) + 1;
+                days.push(jdFromDate(Math.min(start.day, daysInMonth(month, year)), month, year));
+            }
+            break;
+        case 'yearly-lunar': {
+            const lunar = solarToLunar(start);
+            let from = Math.max(fromJd, startJd);
+            while (from <= untilJd) {
+                const next = jdOf(nextAnniversary(lunar, jdToDate(from)).solar);
+                days.push(next);
+                from = next + 1;
+            }
+            break;
+        }
+        case 'rrule':
+            days.push(...expandRRule(parseRRule(rule.rrule || ''), start, untilJd));
+            break;
+    }
+    return days.filter(jd => jd >= Math.max(fromJd, startJd) && jd <= untilJd);
+}
+
+/** How far an override may move an occurrence and still be picked up */
+const MOVE_MARGIN_DAYS = 62;
+
+/**
+ * Every occurrence that starts within [from, to] (inclusive days), overrides
+ * applied, sorted by start. Cancelled occurrences are kept and flagged.
+ */
+export function expandEvents(events: CalendarEvent[], overrides: EventOverride[], from: SolarDate, to: SolarDate): Occurrence[] {
+    const byKey = new Map(overrides.map(o => [`${o.event_id}:${o.occurrence_date}`, o]));
+    const fromJd = jdOf(from);
+    const toJd = jdOf(to);
+    const result: Occurrence[] = [];
+
+    for (const event of events) {
+        const { time } = localParts(event.start_at);
+        const duration = event.end_at ? new Date(event.end_at).getTime() - new Date(event.start_at).getTime() : null;
+        let days: number[];
+        try {
+            days = occurrenceDays(event, fromJd - MOVE_MARGIN_DAYS, toJd + MOVE_MARGIN_DAYS);
+        } catch {
+            days = [];  // a broken RRULE hides the event rather than the calendar
+        }
+        for (const jd of days) {
+            const date = dayKey(jdToDate(jd));
+            const override = byKey.get(`${event.id}:${date}`) ?? null;
+            const start = override?.start_at ?? localIso(jdToDate(jd), time);
+            const startJd = jdOf(localParts(start).date);
+            if (startJd < fromJd || startJd > toJd) continue;
+            result.push({
+                event,
+                date,
+                start,
+                end: duration !== null ? new Date(new Date(start).getTime() + duration).toISOString() : null,
+                title: override?.title || event.title,
+                location: override?.location ?? event.location,
+                cancelled: override?.cancelled ?? false,
+                override,
+            });
+        }
+    }
+    return result.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+}
+
+/** "Hằng năm vào ngày 10 tháng 3 âm lịch", for the event page */
+export function describeRecurrence(event: CalendarEvent): string | null {
+    const rule = effectiveRule(event);
+    if (!rule) return null;
+    const start = localParts(event.start_at).date;
+    const until = rule.until ? ` đến ${rule.until.split('-').reverse().join('/')}` : '';
+    switch (rule.kind) {
+        case 'yearly':
+            return `Hằng năm vào ngày ${start.day}/${start.month}${until}`;
+        case 'yearly-lunar': {
+            const lunar = solarToLunar(start);
+            const label = formatLunarDate({ ...lunar, year: undefined, leap: false });
+            return `Hằng năm vào ${label[0].toLowerCase()}${label.slice(1)} âm lịch${until}`;
+        }
+        case 'monthly':
+            return `Hằng tháng vào ngày ${start.day}${until}`;
+        case 'rrule':
+            return `Lặp theo quy tắc ${rule.rrule}${until}`;
+    }
+}
@@ -0,0 +1,148 @@
+/**
+ * RSVPs as households — one response per account and occurrence, bringing
+ * `party_size` people. Headcount, CSV and print helpers for the organizer
+ * dashboard on /events/[id]; check-in is written by event_check_in
+ * (database-setup.sql §15).
+ */
+
+import { escapeHtml } from './utils';
+
+// ═══ Types ═══
+
+export type RsvpStatus = 'GOING' | 'MAYBE' | 'NOT_GOING';
+
+export interface Rsvp {
+    id: string;
+    event_id: string;
+    occurrence_date: string | null;  // YYYY-MM-DD of a recurring event's occurrence, null for one-off events
+    user_id: string;
+    status: RsvpStatus;
+    party_size: number;
+    note: string | null;
+    contribution: string | null;
+    checked_in_at: string | null;
+    checked_in_count: number | null;
+    created_at: string;
+    updated_at: string | null;
+    user: { display_name: string | null; email: string | null } | null;
+}
+
+export interface RsvpSummary {
+    households: Record<RsvpStatus, number>;
+    /** Headcount (sum of party sizes) per status */
+    people: Record<RsvpStatus, number>;
+    checkedInHouseholds: number;
+    checkedInPeople: number;
+    withNotes: number;
+    withContributions: number;
+}
+
+export const RSVP_STATUS_LABELS: Record<RsvpStatus, string> = {
+    GOING: 'Tham dự',
+    MAYBE: 'Có thể',
+    NOT_GOING: 'Không đi',
+};
+
+export const MAX_PARTY_SIZE = 50;
+
+// ═══ Summary ═══
+
+export function rsvpName(r: Rsvp): string {
+    return r.user?.display_name || r.user?.email?.split('@')[0] || 'Thành viên';
+}
+
+export function summarizeRsvps(rsvps: Rsvp[]): RsvpSummary {
+    const summary: RsvpSummary = {
+        households: { GOING: 0, MAYBE: 0, NOT_GOING: 0 },
+        people: { GOING: 0, MAYBE: 0, NOT_GOING: 0 },
+        checkedInHouseholds: 0,
+        checkedInPeople: 0,
+        withNotes: 0,
+        withContributions: 0,
+    };
+    for (const r of rsvps) {
+        summary.households[r.status]++;
+        summary.people[r.status] += r.party_size;
+        if (r.checked_in_at) {
+            summary.checkedInHouseholds++;
+            summary.checkedInPeople += r.checked_in_count ?? r.party_size;
+        }
+        if (r.note) summary.withNotes++;
+        if (r.contribution) summary.withContributions++;
+    }
+    return summary;
+}
+
+/** Going first, then maybe, then not going; by name within each */
+export function sortRsvps(rsvps: Rsvp[]): Rsvp[] {
+    const order: Record<RsvpStatus, number> = { GOING: 0, MAYBE: 1, NOT_GOING: 2 };
+    return [...rsvps].sort((a, b) => order[a.status] - order[b.status] || rsvpName(a).localeCompare(rsvpName(b), 'vi'));
+}
+
+// ═══ Export ═══
+
+const EXPORT_HEADERS = ['Họ tên', 'Email', 'Phản hồi', 'Số người', 'Đóng góp', 'Ghi chú', 'Đã đến', 'Số người đến'];
+
+function exportRow(r: Rsvp): string[] {
+    return [
+        rsvpName(r),
+        r.user?.email || '',
+        RSVP_STATUS_LABELS[r.status],
+        String(r.party_size),
+        r.contribution || '',
+        r.note || '',
+        r.checked_in_at ? new Date(r.checked_in_at).toLocaleString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' }) : '',
+        r.checked_in_at ? String(r.checked_in_count ?? r.party_size) : '',
+    ];
+}
+
+function csvCell(value: string): string {
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** CSV with a BOM so Excel opens the Vietnamese text as UTF-8 */
+export function rsvpsToCsv(rsvps: Rsvp[]): string {
+    const rows = [EXPORT_HEADERS, ...sortRsvps(rsvps).map(exportRow)];
+    return '\uFEFF' + rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/** Standalone printable page: summary line, then a table with a blank column to tick on paper */
+export function rsvpsToPrintHtml(title: string, when: string, rsvps: Rsvp[]): string {
+    const s = summarizeRsvps(rsvps);
+    const rows = sortRsvps(rsvps).filter(r => r.status !== 'NOT_GOING').map((r, i) => `
+        <tr>
+            <td>${i + 1}</td>
+            <td>${escapeHtml(rsvpName(r))}</td>
+            <td>${RSVP_STATUS_LABELS[r.status]}</td>
+            <td class="num">${r.party_size}</td>
+            <td>${escapeHtml(r.contribution || '')}</td>
+            <td>${escapeHtml(r.note || '')}</td>
+            <td>${r.checked_in_at ? '✓' : ''}</td>
+        </tr>`).join('');
+    return `<!DOCTYPE html>
+<html lang="vi">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} — danh sách tham dự</title>
+<style>
+    body { font-family: 'Noto Serif', Georgia, serif; margin: 16mm; color: #111; }
+    h1 { font-size: 18pt; margin: 0 0 4px; }
+    p { margin: 0 0 12px; }
+    table { width: 100%; border-collapse: collapse; font-size: 10.5pt; }
+    th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; vertical-align: top; }
+    th { background: #f1f1f1; }
+    td.num { text-align: right; }
+    tr { page-break-inside: avoid; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(when)}</p>
+<p>Tham dự: ${s.households.GOING} hộ, ${s.people.GOING} người · Có thể: ${s.households.MAYBE} hộ, ${s.people.MAYBE} người</p>
+<table>
+    <thead><tr><th>#</th><th>Họ tên</th><th>Phản hồi</th><th>Số người</th><th>Đóng góp</th><th>Ghi chú</th><th>Đã đến</th></tr></thead>
+    <tbody>${rows}</tbody>
+</table>
+</body>
+</html>`;
+}
@@ -0,0 +1,353 @@
+/**
+ * Spreadsheet bulk import — one row per person, columns mapped to `people`
+ * fields by the admin. Father / mother columns are resolved against the
+ * sheet and the database (handle → gramps_id → exact name); ambiguous name
+ * matches are left for the admin to pick before anything is written.
+ */
+
+import { foldName, type PersonRow, type FamilyRow } from './genealogy-types';
+import { deriveTreeFields, type ImportBatch, type ImportIssue } from './tree-import';
+import type { SheetTable } from './spreadsheet';
+import { bothDateForms } from './lunar-calendar';
+
+// ═══ Column mapping ═══
+
+export const SHEET_FIELDS = {
+    handle: { label: 'Mã (handle)', aliases: ['handle', 'ma', 'id', 'ma thanh vien'] },
+    gramps_id: { label: 'Gramps ID', aliases: ['gramps_id', 'gramps id'] },
+    display_name: { label: 'Họ tên', aliases: ['display_name', 'ho ten', 'ho va ten', 'ten day du', 'name', 'full name'] },
+    surname: { label: 'Họ', aliases: ['surname', 'ho'] },
+    first_name: { label: 'Tên', aliases: ['first_name', 'ten', 'ten dem va ten'] },
+    nick_name: { label: 'Tên thường gọi', aliases: ['nick_name', 'ten thuong goi', 'biet danh', 'ten huy'] },
+    gender: { label: 'Giới tính', aliases: ['gender', 'gioi tinh', 'sex'] },
+    chi: { label: 'Chi', aliases: ['chi', 'nhanh'] },
+    birth_date: { label: 'Ngày sinh', aliases: ['birth_date', 'ngay sinh'] },
+    birth_date_lunar: { label: 'Ngày sinh âm lịch', aliases: ['birth_date_lunar', 'ngay sinh am lich', 'ngay sinh al'] },
+    birth_year: { label: 'Năm sinh', aliases: ['birth_year', 'nam sinh'] },
+    birth_place: { label: 'Nơi sinh', aliases: ['birth_place', 'noi sinh'] },
+    death_date: { label: 'Ngày mất', aliases: ['death_date', 'ngay mat'] },
+    death_date_lunar: { label: 'Ngày giỗ (âm lịch)', aliases: ['death_date_lunar', 'ngay gio', 'ngay mat am lich', 'ngay gio am lich'] },
+    death_year: { label: 'Năm mất', aliases: ['death_year', 'nam mat'] },
+    death_place: { label: 'Nơi mất', aliases: ['death_place', 'noi mat', 'noi an tang', 'mo phan'] },
+    phone: { label: 'Điện thoại', aliases: ['phone', 'dien thoai', 'sdt', 'so dien thoai'] },
+    email: { label: 'Email', aliases: ['email', 'e-mail'] },
+    zalo: { label: 'Zalo', aliases: ['zalo'] },
+    facebook: { label: 'Facebook', aliases: ['facebook'] },
+    current_address: { label: 'Địa chỉ hiện tại', aliases: ['current_address', 'dia chi', 'dia chi hien tai', 'noi o'] },
+    hometown: { label: 'Quê quán', aliases: ['hometown', 'que quan', 'que'] },
+    occupation: { label: 'Nghề nghiệp', aliases: ['occupation', 'nghe nghiep', 'nghe'] },
+    company: { label: 'Nơi công tác', aliases: ['company', 'noi cong tac', 'co quan'] },
+    education: { label: 'Học vấn', aliases: ['education', 'hoc van', 'trinh do'] },
+    notes: { label: 'Ghi chú', aliases: ['notes', 'ghi chu', 'tieu su'] },
+    father: { label: 'Cha (mã / tên)', aliases: ['father', 'cha', 'bo', 'ten cha', 'id cha', 'ma cha', 'father_handle'] },
+    mother: { label: 'Mẹ (mã / tên)', aliases: ['mother', 'me', 'ten me', 'id me', 'ma me', 'mother_handle'] },
+} satisfies Record<string, { label: string; aliases: string[] }>;
+
+export type SheetField = keyof typeof SHEET_FIELDS;
+export type ColumnMapping = Partial<Record<SheetField, number>>;
+
+/** Exact name key: same letters and accents, case and spacing ignored */
+function nameKey(text: string): string {
+    return text.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/** Index of the header row: the first row with any content */
+export function headerRowIndex(table: SheetTable): number {
+    const i = table.rows.findIndex(r => r.some(c => c !== ''));
+    return i < 0 ? 0 : i;
+}
+
+/** Map columns whose header matches a known field name */
+export function guessMapping(headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    headers.forEach((h, col) => {
+        const key = foldName(h);
+        const field = (Object.keys(SHEET_FIELDS) as SheetField[])
+            .find(f => mapping[f] === undefined && (SHEET_FIELDS[f].aliases as string[]).includes(key));
+        if (field) mapping[field] = col;
+    });
+    return mapping;
+}
+
+// ═══ Rows → people ═══
+
+export interface ParentCandidate {
+    handle: string;
+    label: string;               // "Nguyễn Văn An (I0001, đời 3)" or "(I17…, dòng 12)" for sheet rows
+    inSheet: boolean;
+}
+
+export interface ParentRef {
+    key: string;                 // `${row}:${role}`, used for manual choices
+    row: number;                 // 1-based sheet row
+    child: string;               // handle of the person on that row
+    role: 'father' | 'mother';
+    value: string;               // cell content
+    candidates: ParentCandidate[];
+}
+
+export interface SheetPlan {
+    people: PersonRow[];
+    refs: ParentRef[];
+    issues: ImportIssue[];
+}
+
+/** Manual picks for ambiguous refs: handle, or null to leave unlinked */
+export type ParentChoices = Record<string, string | null>;
+
+function parseGender(value: string): number | null {
+    const v = foldName(value);
+    if (['1', 'nam', 'm', 'male', 'trai'].includes(v)) return 1;
+    if (['2', 'nu', 'f', 'female', 'gai'].includes(v)) return 2;
+    return null;
+}
+
+/** "1990-05-12" → 12/05/1990; other formats are kept as typed */
+function normalizeDate(value: string): string {
+    const m = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+    return m ? `${m[3].padStart(2, '0')}/${m[2].padStart(2, '0')}/${m[1]}` : value;
+}
+
+function yearOf(value: string): number | null {
+    const years = value.match(/\d{4}/g);
+    return years ? parseInt(years[years.length - 1], 10) : null;
+}
+
+/** Candidate label; sheet rows have no generation yet, so show the row number instead */
+function describe(p: PersonRow, row?: number): string {
+    const meta = [p.gramps_id || p.handle, row ? `dòng ${row}` : `đời ${p.generation}`, p.birth_year ? `s. ${p.birth_year}` : null];
+    return `${p.display_name} (${meta.filter(Boolean).join(', ')})`;
+}
+
+/**
+ * Turn sheet rows into new people and collect their parent references.
+ * `existing` is the current database; rows whose handle is already taken are dropped.
+ */
+export function planSheetImport(table: SheetTable, mapping: ColumnMapping, existing: PersonRow[]): SheetPlan {
+    const issues: ImportIssue[] = [];
+    const headerRow = headerRowIndex(table);
+    const taken = new Set(existing.map(p => p.handle));
+    const base = Date.now();
+    let seq = 0;
+    const people: PersonRow[] = [];
+    const parentCells: { row: number; person: PersonRow; father: string; mother: string }[] = [];
+
+    table.rows.slice(headerRow + 1).forEach((cells, i) => {
+        const row = headerRow + i + 2;
+        if (cells.every(c => c === '')) return;
+        const get = (field: SheetField) => {
+            const col = mapping[field];
+            return col === undefined ? '' : cells[col] ?? '';
+        };
+
+        let surname = get('surname') || null;
+        let firstName = get('first_name') || null;
+        let displayName = get('display_name').replace(/\s+/g, ' ');
+        if (!displayName) displayName = [surname, firstName].filter(Boolean).join(' ');
+        if (!displayName) {
+            issues.push({ record: `Dòng ${row}`, line: row, severity: 'error', message: 'Không có họ tên, dòng bị bỏ qua' });
+            return;
+        }
+        if (!surname && !firstName) {
+            // Vietnamese order: first word is the family name
+            const parts = displayName.split(' ');
+            surname = parts.length > 1 ? parts[0] : null;
+            firstName = parts.length > 1 ? parts.slice(1).join(' ') : displayName;
+        }
+
+        let handle = get('handle');
+        if (!handle) {
+            do handle = `I${base + seq++}`; while (taken.has(handle));
+        } else if (taken.has(handle)) {
+            issues.push({ record: handle, line: row, severity: 'error', message: `Mã ${handle} đã tồn tại, dòng bị bỏ qua` });
+            return;
+        }
+        taken.add(handle);
+
+        const genderCell = get('gender');
+        const gender = genderCell ? parseGender(genderCell) : null;
+        if (genderCell && gender === null) {
+            issues.push({ record: handle, line: row, severity: 'warning', message: `Giới tính "${genderCell}" không rõ, để trống` });
+        }
+        const birth = bothDateForms(normalizeDate(get('birth_date')), get('birth_date_lunar'));
+        const death = bothDateForms(normalizeDate(get('death_date')), get('death_date_lunar'));
+        const birthDate = birth.solar || '';
+        const deathDate = death.solar || '';
+        const birthYear = get('birth_year') ? yearOf(get('birth_year')) : birthDate ? yearOf(birthDate) : null;
+        const deathYear = get('death_year') ? yearOf(get('death_year')) : deathDate ? yearOf(deathDate) : null;
+        const chi = get('chi') ? parseInt(get('chi'), 10) : NaN;
+        const optional = (field: SheetField) => get(field) || null;
+
+        const person: PersonRow = {
+            handle,
+            gramps_id: get('gramps_id') || handle,
+            gender: gender ?? 0,
+            display_name: displayName,
+            surname,
+            first_name: firstName,
+            nick_name: optional('nick_name'),
+            generation: 1,
+            chi: isNaN(chi) ? null : chi,
+            birth_year: birthYear,
+            birth_date: birthDate || null,
+            birth_place: optional('birth_place'),
+            death_year: deathYear,
+            death_date: deathDate || null,
+            death_place: optional('death_place'),
+            birth_date_lunar: birth.lunar,
+            death_date_lunar: death.lunar,
+            is_living: !deathYear && !deathDate && !death.lunar && !get('death_place'),
+            is_privacy_filtered: false,
+            is_patrilineal: true,
+            phone: optional('phone'),
+            email: optional('email'),
+            zalo: optional('zalo'),
+            facebook: optional('facebook'),
+            current_address: optional('current_address'),
+            hometown: optional('hometown'),
+            occupation: optional('occupation'),
+            company: optional('company'),
+            education: optional('education'),
+            notes: optional('notes'),
+            families: [],
+            parent_families: [],
+        };
+        people.push(person);
+        parentCells.push({ row, person, father: get('father'), mother: get('mother') });
+    });
+
+    // Lookup indexes over sheet + database
+    const all = [...existing.map(p => ({ p, inSheet: false })), ...people.map(p => ({ p, inSheet: true }))];
+    const byHandle = new Map(all.map(e => [e.p.handle, e]));
+    const byGrampsId = new Map<string, typeof all>();
+    const byName = new Map<string, typeof all>();
+    for (const e of all) {
+        if (e.p.gramps_id) byGrampsId.set(e.p.gramps_id, [...(byGrampsId.get(e.p.gramps_id) || []), e]);
+        const key = nameKey(e.p.display_name);
+        byName.set(key, [...(byName.get(key) || []), e]);
+    }
+
+    const sheetRows = new Map(parentCells.map(c => [c.person.handle, c.row]));
+    const refs: ParentRef[] = [];
+    for (const { row, person, father, mother } of parentCells) {
+        for (const [role, value] of [['father', father], ['mother', mother]] as const) {
+            if (!value) continue;
+            const wrongGender = role === 'father' ? 2 : 1;
+            let matches = byHandle.has(value) ? [byHandle.get(value)!] : byGrampsId.get(value) || byName.get(nameKey(value)) || [];
+            matches = matches.filter(e => e.p.handle !== person.handle && e.p.gender !== wrongGender);
+            refs.push({
+                key: `${row}:${role}`,
+                row,
+                child: person.handle,
+                role,
+                value,
+                candidates: matches.map(e => ({ handle: e.p.handle, label: describe(e.p, sheetRows.get(e.p.handle)), inSheet: e.inSheet })),
+            });
+            if (matches.length === 0) {
+                issues.push({ record: person.handle, line: row, severity: 'warning', message: `Không tìm thấy ${role === 'father' ? 'cha' : 'mẹ'} "${value}", bỏ liên kết` });
+            }
+        }
+    }
+
+    return { people, refs, issues };
+}
+
+// ═══ Plan → batch ═══
+
+export interface SheetImport {
+    batch: ImportBatch;                                      // new people and new families
+    familyUpdates: { handle: string; children: string[] }[]; // existing families gaining children
+    parentUpdates: { handle: string; families: string[] }[]; // existing people gaining a family
+}
+
+/** Refs that still need a manual choice */
+export function unresolvedRefs(plan: SheetPlan, choices: ParentChoices): ParentRef[] {
+    return plan.refs.filter(r => r.candidates.length > 1 && !(r.key in choices));
+}
+
+/**
+ * Build the families for the plan. Children join the family of the same
+ * father/mother pair when one exists; with only one parent given, the
+ * parent's single family is reused.
+ */
+export function buildSheetImport(
+    plan: SheetPlan,
+    choices: ParentChoices,
+    existing: { people: PersonRow[]; families: FamilyRow[] },
+    source: string,
+): SheetImport {
+    const issues = [...plan.issues];
+    const resolved = new Map<string, string | null>();
+    for (const ref of plan.refs) {
+        if (ref.candidates.length === 1) resolved.set(ref.key, ref.candidates[0].handle);
+        else if (ref.candidates.length > 1) resolved.set(ref.key, choices[ref.key] ?? null);
+    }
+
+    const families: FamilyRow[] = existing.families.map(f => ({ ...f, children: [...f.children] }));
+    const base = Date.now();
+    let created = 0;
+
+    const findFamily = (father: string | null, mother: string | null, row: number, child: string): FamilyRow => {
+        let fam = families.find(f => f.father_handle === father && f.mother_handle === mother);
+        if (!fam && (!father || !mother)) {
+            const parent = (father || mother)!;
+            const own = families.filter(f => f.father_handle === parent || f.mother_handle === parent);
+            fam = own.find(f => !f.father_handle || !f.mother_handle) ?? own[0];
+            if (own.length > 1) {
+                issues.push({ record: child, line: row, severity: 'warning', message: `${parent} có ${own.length} gia đình, đã xếp vào ${fam.handle}` });
+            }
+        }
+        if (!fam) {
+            let handle: string;
+            do handle = `F${base + created++}`; while (families.some(f => f.handle === handle));
+            fam = { handle, father_handle: father, mother_handle: mother, children: [] };
+            families.push(fam);
+        }
+        return fam;
+    };
+
+    for (const person of plan.people) {
+        const refs = plan.refs.filter(r => r.child === person.handle);
+        if (refs.length === 0) continue;
+        const row = refs[0].row;
+        const father = resolved.get(refs.find(r => r.role === 'father')?.key ?? '') ?? null;
+        const mother = resolved.get(refs.find(r => r.role === 'mother')?.key ?? '') ?? null;
+        for (const r of refs) {
+            if (r.candidates.length > 1 && resolved.get(r.key) === null) {
+                issues.push({ record: person.handle, line: row, severity: 'warning', message: `Chưa chọn ${r.role === 'father' ? 'cha' : 'mẹ'} cho "${r.value}", bỏ liên kết` });
+            }
+        }
+        if (!father && !mother) continue;
+        const fam = findFamily(father, mother, row, person.handle);
+        if (!fam.children.includes(person.handle)) fam.children.push(person.handle);
+    }
+
+    // Recompute links, generation and chính tộc over the whole tree (on copies, so the plan can be rebuilt)
+    const people = plan.people.map(p => ({ ...p, families: [], parent_families: [] }));
+    const snapshot = existing.people.map(p => ({ ...p, families: [...(p.families || [])], parent_families: [...(p.parent_families || [])] }));
+    const newHandles = new Set(people.map(p => p.handle));
+    const deriveIssues: ImportIssue[] = [];
+    deriveTreeFields([...snapshot, ...people], families, deriveIssues);
+    issues.push(...deriveIssues.filter(i => newHandles.has(i.record)));
+
+    const original = new Map(existing.families.map(f => [f.handle, f]));
+    const familyUpdates = families
+        .filter(f => original.has(f.handle) && f.children.length !== original.get(f.handle)!.children.length)
+        .map(f => ({ handle: f.handle, children: f.children }));
+    const newFamilies = families.filter(f => !original.has(f.handle));
+
+    const parentUpdates = new Map<string, string[]>();
+    const existingPeople = new Map(existing.people.map(p => [p.handle, p]));
+    for (const f of newFamilies) {
+        for (const h of [f.father_handle, f.mother_handle]) {
+            const parent = h ? existingPeople.get(h) : undefined;
+            if (parent) parentUpdates.set(h!, [...(parentUpdates.get(h!) ?? parent.families ?? []), f.handle]);
+        }
+    }
+
+    return {
+        batch: { source, people, families: newFamilies, columns: [], issues },
+        familyUpdates,
+        parentUpdates: Array.from(parentUpdates, ([handle, fams]) => ({ handle, families: fams })),
+    };
+}
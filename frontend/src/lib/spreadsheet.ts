@@ -0,0 +1,183 @@
+/**
+ * Spreadsheet reading for bulk import — CSV (comma, semicolon or tab
+ * separated) and XLSX are both turned into a grid of trimmed strings.
+ */
+
+import { unzipSync, strFromU8 } from 'fflate';
+import { parseXml, child, childrenOf, type XmlElement } from './xml';
+import type { ImportIssue } from './tree-import';
+
+export interface SheetTable {
+    name: string;
+    rows: string[][];        // rows[0] is the header row
+}
+
+// ═══ CSV ═══
+
+/** Pick the delimiter that occurs most often in the first line */
+function detectDelimiter(text: string): string {
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    const counts = [',', ';', '\t'].map(d => [d, firstLine.split(d).length] as const);
+    return counts.reduce((best, c) => (c[1] > best[1] ? c : best))[0];
+}
+
+/** RFC 4180 CSV: quoted fields, "" escapes, line breaks inside quotes */
+export function parseCsv(text: string): string[][] {
+    text = text.replace(/^\uFEFF/, '');
+    const delimiter = detectDelimiter(text);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else field += ch;
+        } else if (ch === '"' && field === '') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+// ═══ XLSX ═══
+
+// Built-in number formats that display a date
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+function xmlPart(files: Record<string, Uint8Array>, path: string, issues: ImportIssue[]): XmlElement | null {
+    const bytes = files[path];
+    return bytes ? parseXml(strFromU8(bytes), issues) : null;
+}
+
+/** All text of an element and its descendants (rich-text runs), skipping phonetic hints */
+function innerText(el: XmlElement): string {
+    if (el.name === 'rPh') return '';
+    if (el.name === 't') return el.text;
+    return el.children.map(innerText).join('');
+}
+
+/** Cell reference "AB12" → 0-based column index 27 */
+function columnIndex(ref: string): number {
+    const letters = /^[A-Z]+/.exec(ref)?.[0] ?? 'A';
+    let n = 0;
+    for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+    return n - 1;
+}
+
+/** Excel serial day (1900 date system) → dd/mm/yyyy */
+function serialToDate(serial: number): string {
+    const d = new Date(Math.round((serial - 25569) * 86400000));
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${pad(d.getUTCDate())}/${pad(d.getUTCMonth() + 1)}/${d.getUTCFullYear()}`;
+}
+
+/** Style index → true when the cell format shows a date */
+function readDateStyles(styles: XmlElement | null): boolean[] {
+    if (!styles) return [];
+    const customDates = new Set(
+        childrenOf(child(styles, 'numFmts') ?? styles, 'numFmt')
+            .filter(f => /[dy]/i.test(f.attrs.formatCode.replace(/\[[^\]]*\]|"[^"]*"/g, '')))
+            .map(f => parseInt(f.attrs.numFmtId, 10)),
+    );
+    return childrenOf(child(styles, 'cellXfs') ?? styles, 'xf').map(xf => {
+        const id = parseInt(xf.attrs.numFmtId || '0', 10);
+        return DATE_FORMAT_IDS.has(id) || customDates.has(id);
+    });
+}
+
+function readXlsx(bytes: Uint8Array, issues: ImportIssue[]): SheetTable[] {
+    const files = unzipSync(bytes);
+    const workbook = xmlPart(files, 'xl/workbook.xml', issues);
+    if (!workbook) {
+        issues.push({ record: 'XLSX', severity: 'error', message: 'Không tìm thấy xl/workbook.xml' });
+        return [];
+    }
+    const rels = xmlPart(files, 'xl/_rels/workbook.xml.rels', issues);
+    const targets = new Map((rels ? childrenOf(rels, 'Relationship') : []).map(r => [r.attrs.Id, r.attrs.Target]));
+    const sharedRoot = xmlPart(files, 'xl/sharedStrings.xml', issues);
+    const shared = sharedRoot ? childrenOf(sharedRoot, 'si').map(innerText) : [];
+    const dateStyles = readDateStyles(xmlPart(files, 'xl/styles.xml', issues));
+
+    const tables: SheetTable[] = [];
+    for (const sheet of childrenOf(child(workbook, 'sheets') ?? workbook, 'sheet')) {
+        const target = targets.get(sheet.attrs.id);
+        if (!target) continue;
+        const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+        const root = xmlPart(files, path, issues);
+        const data = root && child(root, 'sheetData');
+        if (!data) continue;
+
+        const rows: string[][] = [];
+        for (const r of childrenOf(data, 'row')) {
+            const index = parseInt(r.attrs.r || String(rows.length + 1), 10) - 1;
+            const cells: string[] = [];
+            childrenOf(r, 'c').forEach((c, i) => {
+                const col = c.attrs.r ? columnIndex(c.attrs.r) : i;
+                const v = child(c, 'v')?.text ?? '';
+                let value: string;
+                switch (c.attrs.t) {
+                    case 's': value = shared[parseInt(v, 10)] ?? ''; break;
+                    case 'inlineStr': value = innerText(child(c, 'is') ?? c); break;
+                    case 'b': value = v === '1' ? 'TRUE' : 'FALSE'; break;
+                    case 'e': value = ''; break;
+                    case 'str': value = v; break;
+                    default: {
+                        const num = parseFloat(v);
+                        value = v !== '' && dateStyles[parseInt(c.attrs.s || '0', 10)] && !isNaN(num) ? serialToDate(num) : v;
+                    }
+                }
+                while (cells.length < col) cells.push('');
+                cells[col] = value;
+            });
+            while (rows.length < index) rows.push([]);
+            rows[index] = cells;
+        }
+        tables.push({ name: sheet.attrs.name || `Sheet${tables.length + 1}`, rows });
+    }
+    return tables;
+}
+
+// ═══ Entry point ═══
+
+/** Read a .csv / .xlsx file; every cell is trimmed and fully empty rows are kept for row numbering */
+export function readSpreadsheet(bytes: Uint8Array, fileName: string): { tables: SheetTable[]; issues: ImportIssue[] } {
+    const issues: ImportIssue[] = [];
+    const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;   // "PK"
+    let tables: SheetTable[];
+
+    if (isZip) {
+        try {
+            tables = readXlsx(bytes, issues);
+        } catch {
+            issues.push({ record: fileName, severity: 'error', message: 'Không đọc được tệp XLSX' });
+            return { tables: [], issues };
+        }
+    } else if (/\.xls$/i.test(fileName)) {
+        issues.push({ record: fileName, severity: 'error', message: 'Định dạng .xls cũ không được hỗ trợ, hãy lưu lại thành .xlsx hoặc .csv' });
+        return { tables: [], issues };
+    } else {
+        tables = [{ name: fileName, rows: parseCsv(strFromU8(bytes)) }];
+    }
+
+    for (const t of tables) t.rows = t.rows.map(r => Array.from(r, c => (c ?? '').trim()));
+    return { tables, issues };
+}
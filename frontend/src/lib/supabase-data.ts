@@ -4,6 +4,19 @@
  */
 import { supabase } from './supabase';
 import type { TreeNode, TreeFamily } from './tree-layout';
+import type { PersonRow, FamilyRow } from './genealogy-types';
+import type { ImportBatch, ExistingHandles, ConflictMode } from './tree-import';
+import type { SheetImport } from './sheet-import';
+import type { IntegrityPerson, RepairPlan } from './tree-integrity';
+import type { DeletionRefs, DeletionOptions, DeletedPersonEntry } from './person-deletion';
+import { planMemorials, dayStart, type MemorialEvent, type MemorialPerson } from './memorials';
+import { vietnamToday, jdFromDate, jdToDate } from './lunar-calendar';
+import type { FundEntry, FundEntryDraft, FundDues } from './fund';
+import type { Contribution, ContributionMessage } from './contributions';
+import {
+    DEFAULT_MEDIA_SETTINGS, thumbnailUrl,
+    type MediaAlbum, type MediaDetails, type MediaItem, type MediaSettings, type MediaTag, type PersonAvatar, type TagRegion,
+} from './media';
 
 export type { TreeNode, TreeFamily };
 
@@ -16,6 +29,10 @@ function dbRowToTreeNode(row: Record<string, unknown>): TreeNode {
         gender: row.gender as number,
         birthYear: row.birth_year as number | undefined,
         deathYear: row.death_year as number | undefined,
+        birthDate: (row.birth_date as string | null) ?? undefined,
+        birthDateLunar: (row.birth_date_lunar as string | null) ?? undefined,
+        deathDate: (row.death_date as string | null) ?? undefined,
+        deathDateLunar: (row.death_date_lunar as string | null) ?? undefined,
         generation: row.generation as number,
         isLiving: row.is_living as boolean,
         isPrivacyFiltered: row.is_privacy_filtered as boolean,
@@ -36,11 +53,30 @@ function dbRowToTreeFamily(row: Record<string, unknown>): TreeFamily {
 
 // ── Read operations ──
 
+const PAGE_SIZE = 1000;
+
+/**
+ * Every row of a query, page by page: PostgREST caps a response at its
+ * max-rows setting (1000 by default). `page` must order by a unique key.
+ */
+async function fetchAllPages<T>(
+    page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string; hint?: string | null } | null }>,
+): Promise<{ rows: T[]; error: { message: string; hint?: string | null } | null }> {
+    const rows: T[] = [];
+    for (;;) {
+        const { data, error } = await page(rows.length, rows.length + PAGE_SIZE - 1);
+        if (error) return { rows, error };
+        // The server may cap pages below PAGE_SIZE, so only an empty page ends the query
+        if (!data || data.length === 0) return { rows, error: null };
+        rows.push(...data);
+    }
+}
+
 /** Fetch all people from Supabase */
 export async function fetchPeople(): Promise<TreeNode[]> {
     const { data, error } = await supabase
         .from('people')
-        .select('handle, display_name, gender, birth_year, death_year, generation, is_living, is_privacy_filtered, is_patrilineal, families, parent_families')
+        .select('handle, display_name, gender, birth_year, death_year, birth_date, birth_date_lunar, death_date, death_date_lunar, generation, is_living, is_privacy_filtered, is_patrilineal, families, parent_families')
         .order('generation')
         .order('handle');
 
@@ -71,8 +107,59 @@ export async function fetchTreeData(): Promise<{ people: TreeNode[]; families: T
     return { people, families };
 }
 
+/** Fetch every column of every person, keyed by handle (exports, reports) */
+export async function fetchPeopleDetails(): Promise<Map<string, PersonRow>> {
+    const { data, error } = await supabase.from('people').select('*');
+    if (error) {
+        console.error('Failed to fetch people details:', error.message);
+        return new Map();
+    }
+    return new Map(((data || []) as PersonRow[]).map(r => [r.handle, r]));
+}
+
+/** Fetch every family as stored (snake_case rows) */
+export async function fetchFamilyRows(): Promise<FamilyRow[]> {
+    const { data, error } = await supabase.from('families').select('handle, father_handle, mother_handle, children');
+    if (error) {
+        console.error('Failed to fetch family rows:', error.message);
+        return [];
+    }
+    return (data || []) as FamilyRow[];
+}
+
 // ── Write operations (editor mode) ──
 
+/** Error codes raised by the tree_* database functions (see database-setup.sql §7) */
+export type TreeErrorCode =
+    | 'NOT_AUTHENTICATED'
+    | 'FORBIDDEN'
+    | 'PERSON_NOT_FOUND'
+    | 'FAMILY_NOT_FOUND'
+    | 'NOT_A_CHILD'
+    | 'SAME_FAMILY'
+    | 'CYCLE'
+    | 'DUPLICATE_HANDLE'
+    | 'INVALID_INPUT'
+    | 'STALE'
+    | 'UNKNOWN';
+
+export interface TreeError {
+    code: TreeErrorCode;
+    message: string;
+}
+
+const TREE_ERROR_CODES = new Set<string>([
+    'NOT_AUTHENTICATED', 'FORBIDDEN', 'PERSON_NOT_FOUND', 'FAMILY_NOT_FOUND',
+    'NOT_A_CHILD', 'SAME_FAMILY', 'CYCLE', 'DUPLICATE_HANDLE', 'INVALID_INPUT', 'STALE',
+]);
+
+function treeResult(error: { message: string; hint?: string | null } | null, action: string): { error: TreeError | null } {
+    if (!error) return { error: null };
+    console.error(`Failed to ${action}:`, error.message);
+    const code = TREE_ERROR_CODES.has(error.message) ? error.message as TreeErrorCode : 'UNKNOWN';
+    return { error: { code, message: (code !== 'UNKNOWN' && error.hint) || error.message } };
+}
+
 /** Update children order for a family */
 export async function updateFamilyChildren(
     familyHandle: string,
@@ -86,79 +173,27 @@ export async function updateFamilyChildren(
     if (error) console.error('Failed to update family children:', error.message);
 }
 
-/** Move a child from one family to another */
+/** Move a child from one family to another (atomic, see tree_move_child) */
 export async function moveChildToFamily(
     childHandle: string,
     fromFamilyHandle: string,
-    toFamilyHandle: string,
-    currentFamilies: TreeFamily[]
-): Promise<void> {
-    const fromFam = currentFamilies.find(f => f.handle === fromFamilyHandle);
-    const toFam = currentFamilies.find(f => f.handle === toFamilyHandle);
-
-    const updates: Promise<unknown>[] = [];
-
-    // Update families.children on both families
-    if (fromFam) {
-        updates.push(
-            updateFamilyChildren(fromFamilyHandle, fromFam.children.filter(ch => ch !== childHandle))
-        );
-    }
-    if (toFam) {
-        updates.push(
-            updateFamilyChildren(toFamilyHandle, [...toFam.children.filter(ch => ch !== childHandle), childHandle])
-        );
-    }
-
-    // Update people.parent_families on the child
-    const { data: personData } = await supabase
-        .from('people')
-        .select('parent_families')
-        .eq('handle', childHandle)
-        .single();
-
-    if (personData) {
-        const currentPF = (personData.parent_families as string[]) || [];
-        const newPF = [...currentPF.filter(pf => pf !== fromFamilyHandle), toFamilyHandle];
-        updates.push(
-            (async () => { await supabase.from('people').update({ parent_families: newPF, updated_at: new Date().toISOString() }).eq('handle', childHandle); })()
-        );
-    }
-
-    await Promise.all(updates);
+    toFamilyHandle: string
+): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.rpc('tree_move_child', {
+        child: childHandle,
+        from_family: fromFamilyHandle,
+        to_family: toFamilyHandle,
+    });
+    return treeResult(error, 'move child');
 }
 
-/** Remove a child from a family */
+/** Remove a child from a family (atomic, see tree_remove_child) */
 export async function removeChildFromFamily(
     childHandle: string,
-    familyHandle: string,
-    currentFamilies: TreeFamily[]
-): Promise<void> {
-    const fam = currentFamilies.find(f => f.handle === familyHandle);
-    const updates: Promise<unknown>[] = [];
-
-    if (fam) {
-        updates.push(
-            updateFamilyChildren(familyHandle, fam.children.filter(ch => ch !== childHandle))
-        );
-    }
-
-    // Also update people.parent_families on the child
-    const { data: personData } = await supabase
-        .from('people')
-        .select('parent_families')
-        .eq('handle', childHandle)
-        .single();
-
-    if (personData) {
-        const currentPF = (personData.parent_families as string[]) || [];
-        const newPF = currentPF.filter(pf => pf !== familyHandle);
-        updates.push(
-            (async () => { await supabase.from('people').update({ parent_families: newPF, updated_at: new Date().toISOString() }).eq('handle', childHandle); })()
-        );
-    }
-
-    await Promise.all(updates);
+    familyHandle: string
+): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.rpc('tree_remove_child', { child: childHandle, family: familyHandle });
+    return treeResult(error, 'remove child');
 }
 
 /** Update a person's isLiving status */
@@ -181,6 +216,10 @@ export async function updatePerson(
         displayName?: string;
         birthYear?: number | null;
         deathYear?: number | null;
+        birthDate?: string | null;
+        birthDateLunar?: string | null;
+        deathDate?: string | null;
+        deathDateLunar?: string | null;
         isLiving?: boolean;
         phone?: string | null;
         email?: string | null;
@@ -196,6 +235,10 @@ export async function updatePerson(
     if (fields.displayName !== undefined) dbFields.display_name = fields.displayName;
     if (fields.birthYear !== undefined) dbFields.birth_year = fields.birthYear;
     if (fields.deathYear !== undefined) dbFields.death_year = fields.deathYear;
+    if (fields.birthDate !== undefined) dbFields.birth_date = fields.birthDate;
+    if (fields.birthDateLunar !== undefined) dbFields.birth_date_lunar = fields.birthDateLunar;
+    if (fields.deathDate !== undefined) dbFields.death_date = fields.deathDate;
+    if (fields.deathDateLunar !== undefined) dbFields.death_date_lunar = fields.deathDateLunar;
     if (fields.isLiving !== undefined) dbFields.is_living = fields.isLiving;
     if (fields.phone !== undefined) dbFields.phone = fields.phone;
     if (fields.email !== undefined) dbFields.email = fields.email;
@@ -214,74 +257,712 @@ export async function updatePerson(
     if (error) console.error('Failed to update person:', error.message);
 }
 
-/** Add a new person to the tree */
-export async function addPerson(person: {
+/** Fields for a person created by addChild / addSpouse */
+export interface NewPerson {
     handle: string;
     displayName: string;
     gender: number;
-    generation: number;
     birthYear?: number | null;
     deathYear?: number | null;
     isLiving?: boolean;
-    families?: string[];
-    parentFamilies?: string[];
-}): Promise<{ error: string | null }> {
-    const { error } = await supabase
-        .from('people')
-        .insert({
-            handle: person.handle,
-            display_name: person.displayName,
-            gender: person.gender,
-            generation: person.generation,
-            birth_year: person.birthYear || null,
-            death_year: person.deathYear || null,
-            is_living: person.isLiving ?? true,
-            is_privacy_filtered: false,
-            is_patrilineal: person.gender === 1,
-            families: person.families || [],
-            parent_families: person.parentFamilies || [],
-        });
+}
+
+function newPersonPayload(person: NewPerson): Record<string, unknown> {
+    return {
+        handle: person.handle,
+        display_name: person.displayName,
+        gender: person.gender,
+        birth_year: person.birthYear || null,
+        death_year: person.deathYear || null,
+        is_living: person.isLiving ?? true,
+    };
+}
+
+/** Add a new person as a child of a family; generation follows the parents */
+export async function addChild(
+    familyHandle: string,
+    person: NewPerson
+): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.rpc('tree_add_child', { family: familyHandle, person: newPersonPayload(person) });
+    return treeResult(error, 'add child');
+}
+
+/**
+ * The family of an existing couple (or a single known parent), created with
+ * `familyHandle` when the tree has none yet; see tree_add_family
+ */
+export async function addFamily(
+    fatherHandle: string | null,
+    motherHandle: string | null,
+    familyHandle: string
+): Promise<{ family: string | null; error: TreeError | null }> {
+    const { data, error } = await supabase.rpc('tree_add_family', {
+        family: familyHandle,
+        father: fatherHandle,
+        mother: motherHandle,
+    });
+    return { family: (data as string) ?? null, ...treeResult(error, 'add family') };
+}
+
+/**
+ * Add a spouse for a person. Fills an open father/mother slot in one of the
+ * person's families, otherwise creates a new family with `familyHandle`.
+ * Returns the handle of the family the couple ends up in.
+ */
+export async function addSpouse(
+    personHandle: string,
+    spouse: NewPerson,
+    familyHandle: string
+): Promise<{ family: string | null; error: TreeError | null }> {
+    const { data, error } = await supabase.rpc('tree_add_spouse', {
+        partner: personHandle,
+        spouse: newPersonPayload(spouse),
+        family: familyHandle,
+    });
+    return { family: (data as string) ?? null, ...treeResult(error, 'add spouse') };
+}
+
+/**
+ * Delete a person into the recycle bin (admin only, see tree_delete_person):
+ * optionally re-parent their children first, unlink them from every family
+ * and park their comments and contributions with the bin entry.
+ */
+export async function deletePerson(
+    handle: string,
+    options: DeletionOptions
+): Promise<{ entry: string | null; error: TreeError | null }> {
+    const { data, error } = await supabase.rpc('tree_delete_person', {
+        person: handle,
+        options: { reparent: options.reparent, remove_empty_families: options.removeEmptyFamilies },
+    });
+    return { entry: (data as string) ?? null, ...treeResult(error, 'delete person') };
+}
+
+/** Count the comments, contributions and accounts that point at a person */
+export async function fetchDeletionRefs(handle: string): Promise<DeletionRefs> {
+    const [comments, contributions, profiles] = await Promise.all([
+        supabase.from('comments').select('id', { count: 'exact', head: true }).eq('person_handle', handle),
+        supabase.from('contributions').select('id', { count: 'exact', head: true }).eq('person_handle', handle),
+        supabase.from('profiles').select('email').eq('person_handle', handle),
+    ]);
+    const error = comments.error || contributions.error || profiles.error;
+    if (error) console.error('Failed to fetch deletion references:', error.message);
+    return {
+        comments: comments.count ?? 0,
+        contributions: contributions.count ?? 0,
+        accounts: (profiles.data || []).map((r: Record<string, unknown>) => r.email as string),
+    };
+}
+
+// ── Recycle bin ──
+
+/** Fetch deleted people, newest first (admin only) */
+export async function fetchDeletedPeople(): Promise<DeletedPersonEntry[]> {
+    const { data, error } = await supabase
+        .from('deleted_people')
+        .select('id, person_handle, display_name, snapshot, deleted_at, deleter:profiles(display_name, email)')
+        .order('deleted_at', { ascending: false });
 
     if (error) {
-        console.error('Failed to add person:', error.message);
+        console.error('Failed to fetch deleted people:', error.message);
+        return [];
+    }
+    return (data || []) as unknown as DeletedPersonEntry[];
+}
+
+/**
+ * Put a deleted person back (see tree_restore_person). `skipped` lists the
+ * families whose father/mother slot was taken in the meantime.
+ */
+export async function restoreDeletedPerson(
+    entryId: string
+): Promise<{ skipped: string[]; error: TreeError | null }> {
+    const { data, error } = await supabase.rpc('tree_restore_person', { entry: entryId });
+    return { skipped: (data as { skipped?: string[] } | null)?.skipped ?? [], ...treeResult(error, 'restore person') };
+}
+
+/** Permanently drop a recycle bin entry */
+export async function purgeDeletedPerson(entryId: string): Promise<{ error: string | null }> {
+    const { error } = await supabase.from('deleted_people').delete().eq('id', entryId);
+    if (error) {
+        console.error('Failed to purge deleted person:', error.message);
         return { error: error.message };
     }
     return { error: null };
 }
 
-/** Delete a person from the tree */
-export async function deletePerson(handle: string): Promise<{ error: string | null }> {
-    const { error } = await supabase
-        .from('people')
-        .delete()
-        .eq('handle', handle);
+/**
+ * Merge `duplicate` into `survivor` (admin only, see tree_merge_people):
+ * `fields` are written to the survivor, then every family link, comment,
+ * contribution, account claim and photo tag moves over and the duplicate is removed.
+ */
+export async function mergePeople(
+    survivorHandle: string,
+    duplicateHandle: string,
+    fields: Partial<PersonRow>
+): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.rpc('tree_merge_people', {
+        survivor: survivorHandle,
+        duplicate: duplicateHandle,
+        fields,
+    });
+    return treeResult(error, 'merge people');
+}
+
+// ── Person claims ──
+
+/** An account waiting for an admin to confirm which person it is */
+export interface PersonClaim {
+    id: string;
+    email: string;
+    display_name: string | null;
+    person_handle: string | null;
+    claimed_handle: string;
+    claimed_at: string;
+}
+
+/**
+ * Ask to link the signed-in account to a person (see tree_claim_person);
+ * null withdraws the request. The link takes effect once an admin confirms.
+ */
+export async function claimPerson(handle: string | null): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.rpc('tree_claim_person', { person: handle });
+    return treeResult(error, 'claim person');
+}
+
+/** Pending claims, oldest first (admin only) */
+export async function fetchPendingClaims(): Promise<PersonClaim[]> {
+    const { data, error } = await supabase
+        .from('profiles')
+        .select('id, email, display_name, person_handle, claimed_handle, claimed_at')
+        .not('claimed_handle', 'is', null)
+        .order('claimed_at', { ascending: true });
+
+    if (error) {
+        console.error('Failed to fetch person claims:', error.message);
+        return [];
+    }
+    return (data || []) as PersonClaim[];
+}
+
+/** Confirm or reject an account's claim (admin only, see tree_resolve_claim) */
+export async function resolveClaim(accountId: string, approve: boolean): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.rpc('tree_resolve_claim', { account: accountId, approve });
+    return treeResult(error, 'resolve person claim');
+}
 
+/** Remove an account's confirmed link to a person (admin only) */
+export async function unlinkAccount(accountId: string): Promise<{ error: string | null }> {
+    const { error } = await supabase.from('profiles').update({ person_handle: null }).eq('id', accountId);
     if (error) {
-        console.error('Failed to delete person:', error.message);
+        console.error('Failed to unlink account:', error.message);
         return { error: error.message };
     }
     return { error: null };
 }
 
-/** Add a new family */
-export async function addFamily(family: {
-    handle: string;
-    fatherHandle?: string;
-    motherHandle?: string;
-    children?: string[];
-}): Promise<{ error: string | null }> {
+// ── Contributions ──
+
+/** Fields of a new contribution row; author and status are filled in by submitContribution */
+export type ContributionDraft = Pick<Contribution, 'person_handle' | 'person_name' | 'kind' | 'field_name' | 'field_label' | 'old_value' | 'new_value' | 'note'>
+    & Partial<Pick<Contribution, 'changes' | 'payload'>>;
+
+/** Send a contribution with the library items attached as evidence; returns its id */
+export async function submitContribution(
+    draft: ContributionDraft,
+    author: { id: string; email: string },
+    evidence: string[] = []
+): Promise<{ id: string | null; error: TreeError | null }> {
+    const { data, error } = await supabase
+        .from('contributions')
+        .insert({ ...draft, author_id: author.id, author_email: author.email, status: 'pending' })
+        .select('id')
+        .single();
+    if (error) return { id: null, ...treeResult(error, 'submit contribution') };
+    if (evidence.length > 0) {
+        const { error: evidenceError } = await supabase
+            .from('contribution_media')
+            .insert(evidence.map(media_id => ({ contribution_id: data.id, media_id })));
+        if (evidenceError) return { id: data.id, ...treeResult(evidenceError, 'attach contribution evidence') };
+    }
+    return { id: data.id as string, error: null };
+}
+
+/** One contribution with its evidence, in the order it was attached */
+export async function fetchContribution(id: string): Promise<{ contribution: Contribution; evidence: MediaItem[] } | null> {
+    const { data, error } = await supabase
+        .from('contributions')
+        .select('*, evidence:contribution_media(created_at, media:media(*))')
+        .eq('id', id)
+        .maybeSingle();
+    if (error) console.error('Failed to fetch contribution:', error.message);
+    if (!data) return null;
+    const { evidence, ...contribution } = data as Contribution & { evidence: { created_at: string; media: MediaItem | null }[] };
+    return {
+        contribution,
+        evidence: evidence
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+            .map(e => e.media)
+            .filter((m): m is MediaItem => !!m),
+    };
+}
+
+/** The signed-in member's contributions, newest first */
+export async function fetchMyContributions(userId: string): Promise<Contribution[]> {
+    const { data, error } = await supabase
+        .from('contributions')
+        .select('*')
+        .eq('author_id', userId)
+        .order('created_at', { ascending: false });
+    if (error) {
+        console.error('Failed to fetch contributions:', error.message);
+        return [];
+    }
+    return (data || []) as Contribution[];
+}
+
+/**
+ * Approve (writing the values to the person) or reject a pending contribution,
+ * admin only, see review_contribution. `decisions` accepts or drops single
+ * fields of a FIELDS contribution. Approval fails with STALE when the person
+ * changed since the suggestion was sent, unless `force` is set.
+ */
+export async function reviewContribution(
+    id: string,
+    approve: boolean,
+    note: string | null,
+    force = false,
+    decisions?: Record<string, boolean>
+): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.rpc('review_contribution', {
+        contribution: id, approve, note, force, decisions: decisions ?? null,
+    });
+    return treeResult(error, 'review contribution');
+}
+
+/** Discussion between the submitter and the reviewers, oldest first */
+export async function fetchContributionMessages(contributionId: string): Promise<ContributionMessage[]> {
+    const { data, error } = await supabase
+        .from('contribution_messages')
+        .select('*, author:profiles(display_name, email, role)')
+        .eq('contribution_id', contributionId)
+        .order('created_at');
+    if (error) {
+        console.error('Failed to fetch contribution messages:', error.message);
+        return [];
+    }
+    return (data || []) as ContributionMessage[];
+}
+
+export async function postContributionMessage(contributionId: string, userId: string, body: string): Promise<{ error: TreeError | null }> {
     const { error } = await supabase
+        .from('contribution_messages')
+        .insert({ contribution_id: contributionId, author_id: userId, body });
+    return treeResult(error, 'post contribution message');
+}
+
+export interface RelativePerson {
+    handle: string;
+    display_name: string;
+    gender: number;
+    birth_year: number | null;
+    death_year: number | null;
+}
+
+export interface RelativeFamily {
+    handle: string;
+    /** The other parent, null when unknown */
+    partner: RelativePerson | null;
+    children: RelativePerson[];
+}
+
+/** A person with their spouses and children, family by family (for proposing and previewing new relatives) */
+export async function fetchRelatives(handle: string): Promise<{ person: RelativePerson; families: RelativeFamily[] } | null> {
+    const { data: families, error } = await supabase
         .from('families')
-        .insert({
-            handle: family.handle,
-            father_handle: family.fatherHandle || null,
-            mother_handle: family.motherHandle || null,
-            children: family.children || [],
-        });
+        .select('handle, father_handle, mother_handle, children')
+        .or(`father_handle.eq.${handle},mother_handle.eq.${handle}`)
+        .order('handle');
+    if (error) {
+        console.error('Failed to fetch relatives:', error.message);
+        return null;
+    }
+    const rows = (families || []) as FamilyRow[];
+    const handles = new Set([handle]);
+    for (const f of rows) {
+        for (const h of [f.father_handle, f.mother_handle, ...(f.children || [])]) if (h) handles.add(h);
+    }
+    const { data: people } = await supabase
+        .from('people')
+        .select('handle, display_name, gender, birth_year, death_year')
+        .in('handle', [...handles]);
+    const byHandle = new Map(((people || []) as RelativePerson[]).map(p => [p.handle, p]));
+    const person = byHandle.get(handle);
+    if (!person) return null;
+    return {
+        person,
+        families: rows.map(f => {
+            const partner = f.father_handle === handle ? f.mother_handle : f.father_handle;
+            return {
+                handle: f.handle,
+                partner: (partner && byHandle.get(partner)) || null,
+                children: (f.children || []).map(c => byHandle.get(c)).filter((c): c is RelativePerson => !!c),
+            };
+        }),
+    };
+}
+
+// ── Giỗ (automatic memorial events) ──
+
+const MEMORIAL_COLUMNS = 'id, person_handle, title, description, start_at';
+
+/**
+ * Create, move or remove the upcoming automatic giỗ so every deceased person
+ * with a lunar death date has exactly one (see memorials.ts, apply_memorial_sync).
+ */
+export async function syncMemorialEvents(): Promise<{ created: number; updated: number; removed: number; error: TreeError | null }> {
+    const none = { created: 0, updated: 0, removed: 0 };
+    const today = vietnamToday();
+    // Every page: a person missing from a partial load would have their giỗ removed
+    const [people, events] = await Promise.all([
+        fetchAllPages<MemorialPerson>((from, to) => supabase.from('people')
+            .select('handle, display_name, is_living, death_year, death_date_lunar').not('death_date_lunar', 'is', null)
+            .order('handle').range(from, to)),
+        fetchAllPages<MemorialEvent>((from, to) => supabase.from('events')
+            .select(MEMORIAL_COLUMNS).eq('type', 'MEMORIAL').not('person_handle', 'is', null).gte('start_at', dayStart(today))
+            .order('id').range(from, to)),
+    ]);
+    if (people.error || events.error) {
+        return { ...none, ...treeResult(people.error || events.error, 'load memorial events') };
+    }
+
+    const plan = planMemorials(people.rows, events.rows, today);
+    if (plan.create.length + plan.update.length + plan.remove.length === 0) return { ...none, error: null };
+    const { data, error } = await supabase.rpc('apply_memorial_sync', { payload: plan });
+    return { ...none, ...(data as typeof none | null), ...treeResult(error, 'sync memorial events') };
+}
+
+/** Automatic giỗ in the next `days` days, soonest first */
+export async function fetchUpcomingMemorials(days = 60): Promise<MemorialEvent[]> {
+    const today = vietnamToday();
+    const until = jdToDate(jdFromDate(today.day, today.month, today.year) + days);
+    const { data, error } = await supabase
+        .from('events')
+        .select(MEMORIAL_COLUMNS)
+        .eq('type', 'MEMORIAL')
+        .not('person_handle', 'is', null)
+        .gte('start_at', dayStart(today))
+        .lt('start_at', dayStart(until))
+        .order('start_at');
 
     if (error) {
-        console.error('Failed to add family:', error.message);
-        return { error: error.message };
+        console.error('Failed to fetch upcoming memorials:', error.message);
+        return [];
     }
-    return { error: null };
+    return (data || []) as MemorialEvent[];
+}
+
+// ── Event RSVPs ──
+
+/** Mark a household as arrived with `arrived` people, or clear it (null); organizer or admin only */
+export async function checkInRsvp(rsvpId: string, arrived: number | null): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.rpc('event_check_in', { rsvp: rsvpId, arrived });
+    return treeResult(error, 'check in rsvp');
+}
+
+// ── Clan fund (quỹ họ) ──
+
+/** Every ledger entry, voided ones included (the report shows them struck out) */
+export async function fetchFundEntries(): Promise<FundEntry[]> {
+    const { data, error } = await supabase.from('fund_entries').select('*').order('entry_date').order('created_at');
+    if (error) {
+        console.error('Failed to fetch fund entries:', error.message);
+        return [];
+    }
+    return (data || []) as FundEntry[];
+}
+
+export async function fetchFundDues(): Promise<FundDues[]> {
+    const { data, error } = await supabase.from('fund_dues').select('year, amount, note').order('year');
+    if (error) {
+        console.error('Failed to fetch fund dues:', error.message);
+        return [];
+    }
+    return (data || []) as FundDues[];
+}
+
+/** Insert (no id) or update an entry; audit_logs is written by the fund_audit trigger */
+export async function saveFundEntry(entry: FundEntryDraft, userId: string): Promise<{ error: TreeError | null }> {
+    const { id, ...fields } = entry;
+    const { error } = id
+        ? await supabase.from('fund_entries').update(fields).eq('id', id)
+        : await supabase.from('fund_entries').insert({ ...fields, recorded_by: userId });
+    return treeResult(error, 'save fund entry');
+}
+
+export async function voidFundEntry(id: string, reason: string, userId: string): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase
+        .from('fund_entries')
+        .update({ voided_at: new Date().toISOString(), voided_by: userId, void_reason: reason })
+        .eq('id', id);
+    return treeResult(error, 'void fund entry');
+}
+
+export async function setFundDues(dues: FundDues, userId: string): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase
+        .from('fund_dues')
+        .upsert({ ...dues, updated_by: userId, updated_at: new Date().toISOString() }, { onConflict: 'year' });
+    return treeResult(error, 'set fund dues');
+}
+
+/** Record an action that changes no row, such as printing a report (admin only; see write_audit_log) */
+export async function writeAuditLog(action: 'EXPORT', entityType: string, entityId: string | null, metadata?: Record<string, unknown>): Promise<void> {
+    const { error } = await supabase.rpc('write_audit_log', {
+        action, entity_type: entityType, entity_id: entityId, metadata: metadata ?? null,
+    });
+    if (error) console.error('Failed to write audit log:', error.message);
+}
+
+// ── Media settings ──
+
+export async function fetchMediaSettings(): Promise<MediaSettings> {
+    const { data, error } = await supabase.from('app_settings').select('value').eq('key', 'media').maybeSingle();
+    if (error) console.error('Failed to fetch media settings:', error.message);
+    return { ...DEFAULT_MEDIA_SETTINGS, ...(data?.value as Partial<MediaSettings> | undefined) };
+}
+
+export async function saveMediaSettings(settings: MediaSettings, userId: string): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase
+        .from('app_settings')
+        .upsert({ key: 'media', value: settings, updated_by: userId, updated_at: new Date().toISOString() }, { onConflict: 'key' });
+    return treeResult(error, 'save media settings');
+}
+
+// ── Media tags ──
+
+const MEDIA_TAG_COLUMNS = 'id, media_id, person_handle, region, is_primary, tagged_by, created_at, person:people(display_name)';
+
+export async function fetchMediaTags(mediaId: string): Promise<MediaTag[]> {
+    const { data, error } = await supabase.from('media_people').select(MEDIA_TAG_COLUMNS).eq('media_id', mediaId).order('created_at');
+    if (error) {
+        console.error('Failed to fetch media tags:', error.message);
+        return [];
+    }
+    return (data || []) as unknown as MediaTag[];
+}
+
+export async function addMediaTag(mediaId: string, personHandle: string, region: TagRegion | null, userId: string): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase
+        .from('media_people')
+        .insert({ media_id: mediaId, person_handle: personHandle, region, tagged_by: userId });
+    return treeResult(error, 'tag media');
+}
+
+export async function removeMediaTag(tagId: string): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.from('media_people').delete().eq('id', tagId);
+    return treeResult(error, 'remove media tag');
+}
+
+/** Make this tagged photo the person's avatar (clears the previous one) */
+export async function setPrimaryPhoto(tagId: string): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.rpc('set_primary_photo', { tag: tagId });
+    return treeResult(error, 'set primary photo');
+}
+
+/** Photos and documents a person is tagged in, newest first; rejected items are left out */
+export async function fetchPersonMedia(handle: string): Promise<{ tag: MediaTag; media: MediaItem }[]> {
+    const { data, error } = await supabase
+        .from('media_people')
+        .select(`${MEDIA_TAG_COLUMNS}, media:media!inner(*)`)
+        .eq('person_handle', handle)
+        .neq('media.state', 'REJECTED');
+    if (error) {
+        console.error('Failed to fetch person media:', error.message);
+        return [];
+    }
+    return ((data || []) as unknown as (MediaTag & { media: MediaItem })[])
+        .map(({ media, ...tag }) => ({ tag, media }))
+        .sort((a, b) => b.media.created_at.localeCompare(a.media.created_at));
+}
+
+/** Avatar of every person with a primary photo, keyed by handle (tree cards) */
+export async function fetchPersonAvatars(): Promise<Map<string, PersonAvatar>> {
+    const { data, error } = await supabase
+        .from('media_people')
+        .select('person_handle, region, media:media!inner(*)')
+        .eq('is_primary', true)
+        .eq('media.state', 'PUBLISHED');
+    if (error) {
+        console.error('Failed to fetch avatars:', error.message);
+        return new Map();
+    }
+    const avatars = new Map<string, PersonAvatar>();
+    for (const row of (data || []) as unknown as { person_handle: string; region: TagRegion | null; media: MediaItem }[]) {
+        const url = thumbnailUrl(row.media);
+        if (url) avatars.set(row.person_handle, { url, region: row.region, width: row.media.width, height: row.media.height });
+    }
+    return avatars;
+}
+
+// ── Albums & document archive ──
+
+export async function updateMediaDetails(id: string, details: MediaDetails): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.from('media').update(details).eq('id', id);
+    return treeResult(error, 'update media details');
+}
+
+/** Names of the people tagged in each media item, for searching the library */
+export async function fetchMediaTagNames(): Promise<Map<string, string[]>> {
+    const { data, error } = await supabase.from('media_people').select('media_id, person:people(display_name)');
+    if (error) {
+        console.error('Failed to fetch media tag names:', error.message);
+        return new Map();
+    }
+    const names = new Map<string, string[]>();
+    for (const row of (data || []) as unknown as { media_id: string; person: { display_name: string } | null }[]) {
+        if (!row.person) continue;
+        names.set(row.media_id, [...(names.get(row.media_id) ?? []), row.person.display_name]);
+    }
+    return names;
+}
+
+const ALBUM_COLUMNS = '*, event:events(id, title, start_at), cover:media!cover_media_id(*), items:media_album_items(count)';
+
+export async function fetchAlbums(eventId?: string): Promise<MediaAlbum[]> {
+    let query = supabase.from('media_albums').select(ALBUM_COLUMNS).order('created_at', { ascending: false });
+    if (eventId) query = query.eq('event_id', eventId);
+    const { data, error } = await query;
+    if (error) {
+        console.error('Failed to fetch albums:', error.message);
+        return [];
+    }
+    return (data || []) as MediaAlbum[];
+}
+
+/** One album and its items in album order */
+export async function fetchAlbum(id: string): Promise<{ album: MediaAlbum; items: MediaItem[] } | null> {
+    const [{ data: album, error }, { data: rows, error: itemsError }] = await Promise.all([
+        supabase.from('media_albums').select(ALBUM_COLUMNS).eq('id', id).maybeSingle(),
+        supabase.from('media_album_items').select('position, media:media(*)').eq('album_id', id).order('position').order('created_at'),
+    ]);
+    if (error || itemsError) {
+        console.error('Failed to fetch album:', (error || itemsError)?.message);
+        return null;
+    }
+    if (!album) return null;
+    return { album: album as MediaAlbum, items: ((rows || []) as unknown as { media: MediaItem }[]).map(r => r.media) };
+}
+
+/** Albums that contain a media item */
+export async function fetchAlbumsOf(mediaId: string): Promise<MediaAlbum[]> {
+    const { data, error } = await supabase.from('media_album_items').select('album:media_albums(*)').eq('media_id', mediaId);
+    if (error) {
+        console.error('Failed to fetch albums of media:', error.message);
+        return [];
+    }
+    return ((data || []) as unknown as { album: MediaAlbum }[]).map(r => r.album);
+}
+
+export type AlbumDraft = Pick<MediaAlbum, 'title' | 'description' | 'kind' | 'event_id'> & { id?: string; cover_media_id?: string | null };
+
+/** Insert (no id) or update an album; returns its id */
+export async function saveAlbum(album: AlbumDraft, userId: string): Promise<{ id: string | null; error: TreeError | null }> {
+    const { id, ...fields } = album;
+    const { data, error } = id
+        ? await supabase.from('media_albums').update(fields).eq('id', id).select('id').single()
+        : await supabase.from('media_albums').insert({ ...fields, created_by: userId }).select('id').single();
+    return { id: data?.id ?? null, ...treeResult(error, 'save album') };
+}
+
+export async function deleteAlbum(id: string): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.from('media_albums').delete().eq('id', id);
+    return treeResult(error, 'delete album');
+}
+
+/** Append media to the end of an album; items already in it are skipped */
+export async function addToAlbum(albumId: string, mediaIds: string[], userId: string): Promise<{ error: TreeError | null }> {
+    const { data: last } = await supabase
+        .from('media_album_items').select('position').eq('album_id', albumId)
+        .order('position', { ascending: false }).limit(1).maybeSingle();
+    const start = (last?.position ?? -1) + 1;
+    const { error } = await supabase
+        .from('media_album_items')
+        .upsert(mediaIds.map((mediaId, i) => ({ album_id: albumId, media_id: mediaId, position: start + i, added_by: userId })),
+            { onConflict: 'album_id,media_id', ignoreDuplicates: true });
+    return treeResult(error, 'add to album');
+}
+
+export async function removeFromAlbum(albumId: string, mediaId: string): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.from('media_album_items').delete().eq('album_id', albumId).eq('media_id', mediaId);
+    return treeResult(error, 'remove from album');
+}
+
+// ── Bulk import ──
+
+/** Fetch every person handle (with display name) and family handle, for import conflict checks */
+export async function fetchExistingHandles(): Promise<ExistingHandles> {
+    const [people, families] = await Promise.all([
+        fetchAllPages<{ handle: string; display_name: string }>((from, to) => supabase.from('people')
+            .select('handle, display_name').order('handle').range(from, to)),
+        fetchAllPages<{ handle: string }>((from, to) => supabase.from('families')
+            .select('handle').order('handle').range(from, to)),
+    ]);
+    const error = people.error || families.error;
+    if (error) console.error('Failed to fetch existing handles:', error.message);
+    return {
+        people: new Map(people.rows.map(r => [r.handle, r.display_name])),
+        families: new Set(families.rows.map(r => r.handle)),
+    };
+}
+
+/**
+ * Write an import batch in one transaction (import_tree_batch). Existing
+ * people are kept as-is ('skip') or get the batch's file columns
+ * ('overwrite'); family members and link arrays are merged server-side.
+ */
+export async function importTreeBatch(
+    batch: ImportBatch,
+    mode: ConflictMode,
+): Promise<{ error: string | null }> {
+    const { error } = await supabase.rpc('import_tree_batch', {
+        payload: { people: batch.people, families: batch.families, columns: batch.columns },
+        mode,
+    });
+    return { error: treeResult(error, 'import tree').error?.message ?? null };
+}
+
+/**
+ * Write a spreadsheet import: new people and families, plus the new children
+ * of existing families (merged into their current list server-side).
+ */
+export async function importSheet(sheet: SheetImport): Promise<{ error: string | null }> {
+    const updates = sheet.familyUpdates.map(f => ({ handle: f.handle, father_handle: null, mother_handle: null, children: f.children }));
+    return importTreeBatch({ ...sheet.batch, families: [...sheet.batch.families, ...updates] }, 'skip');
+}
+
+// ── Integrity ──
+
+/**
+ * Load just the link columns of every person and family for the integrity
+ * checker. Any failed page is an error: a partial load would make valid
+ * links look dangling.
+ */
+export async function fetchIntegrityData(): Promise<{ people: IntegrityPerson[]; families: FamilyRow[]; error: TreeError | null }> {
+    const [people, families] = await Promise.all([
+        fetchAllPages<IntegrityPerson>((from, to) => supabase.from('people')
+            .select('handle, display_name, gender, families, parent_families').order('handle').range(from, to)),
+        fetchAllPages<FamilyRow>((from, to) => supabase.from('families')
+            .select('handle, father_handle, mother_handle, children').order('handle').range(from, to)),
+    ]);
+    const { error } = treeResult(people.error || families.error, 'fetch integrity data');
+    if (error) return { people: [], families: [], error };
+    return { people: people.rows, families: families.rows, error: null };
+}
+
+/** Write a repair plan in one transaction (see apply_integrity_repairs) */
+export async function applyIntegrityRepairs(plan: RepairPlan): Promise<{ error: TreeError | null }> {
+    const { error } = await supabase.rpc('apply_integrity_repairs', {
+        payload: { people: plan.people, families: plan.families, delete_families: plan.deleteFamilies },
+    });
+    return treeResult(error, 'apply integrity repairs');
 }
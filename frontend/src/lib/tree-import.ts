@@ -0,0 +1,181 @@
+/**
+ * Shared import pipeline — every importer produces an ImportBatch, which is
+ * previewed against the live database (dry run) before anything is written.
+ */
+
+import type { PersonRow, FamilyRow } from './genealogy-types';
+
+// ═══ Types ═══
+
+export interface ImportIssue {
+    record: string;                  // handle, xref or row label the issue belongs to
+    line?: number;                   // source line / row number when known
+    severity: 'error' | 'warning';   // error = record was dropped, warning = imported with changes
+    message: string;
+}
+
+export interface ImportBatch {
+    source: string;                  // "GEDCOM 5.5.1", "Gramps XML 1.7.1"...
+    people: PersonRow[];
+    families: FamilyRow[];
+    columns: (keyof PersonRow)[];    // person columns the format carries; only these overwrite existing rows
+    issues: ImportIssue[];
+}
+
+export interface ImportConflict {
+    kind: 'person' | 'family';
+    handle: string;
+    incoming: string;                // label of the imported record
+    existing: string;                // label of the record already in the database
+}
+
+export interface ImportPreview {
+    newPeople: number;
+    newFamilies: number;
+    conflicts: ImportConflict[];
+    errors: number;
+    warnings: number;
+}
+
+export interface ExistingHandles {
+    people: Map<string, string>;     // handle → display_name
+    families: Set<string>;
+}
+
+export type ConflictMode = 'skip' | 'overwrite';
+
+// ═══ Derived fields ═══
+
+/** Unlink family members that are not in the batch (dangling references in the source file) */
+export function dropMissingMembers(people: PersonRow[], families: FamilyRow[], issues: ImportIssue[]): void {
+    const personHandles = new Set(people.map(p => p.handle));
+    for (const f of families) {
+        for (const key of ['father_handle', 'mother_handle'] as const) {
+            const h = f[key];
+            if (h && !personHandles.has(h)) {
+                issues.push({ record: f.handle, severity: 'warning', message: `Không tìm thấy cá nhân ${h}, đã bỏ liên kết` });
+                f[key] = null;
+            }
+        }
+        const missing = f.children.filter(ch => !personHandles.has(ch));
+        if (missing.length > 0) {
+            issues.push({ record: f.handle, severity: 'warning', message: `Không tìm thấy con: ${missing.join(', ')}` });
+            f.children = f.children.filter(ch => personHandles.has(ch));
+        }
+    }
+}
+
+/**
+ * Rebuild the denormalized arrays and computed columns from the family rows:
+ * people.families / parent_families, generation (1 = oldest) and is_patrilineal.
+ * Families are the source of truth; person-side links that disagree are reported.
+ */
+export function deriveTreeFields(people: PersonRow[], families: FamilyRow[], issues: ImportIssue[]): void {
+    const personMap = new Map(people.map(p => [p.handle, p]));
+    const asParent = new Map<string, string[]>();
+    const asChild = new Map<string, string[]>();
+    const push = (map: Map<string, string[]>, key: string, value: string) => {
+        const list = map.get(key) || [];
+        if (!list.includes(value)) list.push(value);
+        map.set(key, list);
+    };
+
+    for (const f of families) {
+        if (f.father_handle) push(asParent, f.father_handle, f.handle);
+        if (f.mother_handle) push(asParent, f.mother_handle, f.handle);
+        for (const ch of f.children) push(asChild, ch, f.handle);
+    }
+
+    for (const p of people) {
+        const fams = asParent.get(p.handle) || [];
+        const parentFams = asChild.get(p.handle) || [];
+        const missing = [...p.families.filter(f => !fams.includes(f)), ...p.parent_families.filter(f => !parentFams.includes(f))];
+        if (missing.length > 0) {
+            issues.push({ record: p.handle, severity: 'warning', message: `Liên kết gia đình không khớp, đã bỏ qua: ${missing.join(', ')}` });
+        }
+        p.families = fams;
+        p.parent_families = parentFams;
+    }
+
+    // Generation: BFS from people with no parents, spouses share a generation
+    const gens = new Map<string, number>();
+    const familyMap = new Map(families.map(f => [f.handle, f]));
+    const queue: string[] = [];
+    for (const p of people) {
+        if (p.parent_families.length === 0) { gens.set(p.handle, 1); queue.push(p.handle); }
+    }
+    while (queue.length > 0) {
+        const h = queue.shift()!;
+        const gen = gens.get(h)!;
+        for (const famId of personMap.get(h)?.families || []) {
+            const fam = familyMap.get(famId);
+            if (!fam || gen >= people.length) continue;   // guard against ancestry cycles
+            for (const ch of fam.children) {
+                const current = gens.get(ch);
+                if (current === undefined || current < gen + 1) {
+                    gens.set(ch, gen + 1);
+                    queue.push(ch);
+                }
+            }
+        }
+    }
+    // Married-in spouses take their partner's generation
+    for (const f of families) {
+        const gf = f.father_handle ? gens.get(f.father_handle) : undefined;
+        const gm = f.mother_handle ? gens.get(f.mother_handle) : undefined;
+        const gen = Math.max(gf ?? 0, gm ?? 0);
+        if (gen === 0) continue;
+        const father = f.father_handle ? personMap.get(f.father_handle) : undefined;
+        const mother = f.mother_handle ? personMap.get(f.mother_handle) : undefined;
+        if (father && father.parent_families.length === 0) gens.set(father.handle, gen);
+        if (mother && mother.parent_families.length === 0) gens.set(mother.handle, gen);
+    }
+
+    for (const p of people) {
+        p.generation = gens.get(p.handle) ?? 1;
+        p.is_patrilineal = isBornIntoTree(p, personMap, familyMap);
+    }
+}
+
+/**
+ * Chính tộc = has parents in the tree. Without parents, a person married to
+ * someone who does is ngoại tộc; in a founder couple the husband is chính tộc.
+ */
+function isBornIntoTree(p: PersonRow, personMap: Map<string, PersonRow>, familyMap: Map<string, FamilyRow>): boolean {
+    if (p.parent_families.length > 0) return true;
+    const spouses = p.families
+        .map(fid => familyMap.get(fid))
+        .map(fam => fam && (fam.father_handle === p.handle ? fam.mother_handle : fam.father_handle))
+        .map(h => (h ? personMap.get(h) : undefined))
+        .filter((s): s is PersonRow => !!s);
+    if (spouses.length === 0) return true;
+    if (spouses.some(s => s.parent_families.length > 0)) return false;
+    return p.gender === 1;
+}
+
+// ═══ Dry run ═══
+
+/** Compare a batch with what is already in the database */
+export function previewImport(batch: ImportBatch, existing: ExistingHandles): ImportPreview {
+    const conflicts: ImportConflict[] = [];
+    let newPeople = 0;
+    let newFamilies = 0;
+
+    for (const p of batch.people) {
+        const current = existing.people.get(p.handle);
+        if (current === undefined) newPeople++;
+        else conflicts.push({ kind: 'person', handle: p.handle, incoming: p.display_name, existing: current });
+    }
+    for (const f of batch.families) {
+        if (!existing.families.has(f.handle)) newFamilies++;
+        else conflicts.push({ kind: 'family', handle: f.handle, incoming: f.handle, existing: f.handle });
+    }
+
+    return {
+        newPeople,
+        newFamilies,
+        conflicts,
+        errors: batch.issues.filter(i => i.severity === 'error').length,
+        warnings: batch.issues.filter(i => i.severity === 'warning').length,
+    };
+}
@@ -0,0 +1,296 @@
+/**
+ * Tree integrity checks — the links between people and families are stored
+ * three times (families.father/mother/children, people.families,
+ * people.parent_families) and drift apart. Every check explains the problem
+ * and, where the fix is unambiguous, carries the repair operations for it.
+ *
+ * The `families` table is treated as the source of truth: person-side links
+ * are added or dropped to match it. Pure functions — used by the admin page
+ * and by scripts/check-integrity.ts against a backup file.
+ */
+
+import type { FamilyRow } from './genealogy-types';
+
+// ═══ Types ═══
+
+/** The columns the checks need; full PersonRow objects are accepted too */
+export interface IntegrityPerson {
+    handle: string;
+    display_name: string;
+    gender: number;
+    families: string[] | null;
+    parent_families: string[] | null;
+}
+
+export type IntegrityKind =
+    | 'dangling_person'        // family points at a person that does not exist
+    | 'dangling_family'        // person points at a family that does not exist
+    | 'missing_parent_link'    // family.children has X, X.parent_families lacks the family
+    | 'stale_parent_link'      // X.parent_families has F, F.children lacks X
+    | 'missing_spouse_link'    // family father/mother is X, X.families lacks the family
+    | 'stale_spouse_link'      // X.families has F, F has another father/mother
+    | 'duplicate_entry'        // same handle twice in one array
+    | 'empty_family'           // no father, mother or children
+    | 'parent_is_child'        // someone is both parent and child of one family
+    | 'ancestry_cycle'         // someone is their own ancestor
+    | 'gender_role';           // father recorded as female or mother as male
+
+export type RepairOp =
+    | { table: 'people'; handle: string; field: 'families' | 'parent_families'; add?: string; remove?: string; dedupe?: true }
+    | { table: 'families'; handle: string; field: 'children'; add?: string; remove?: string; dedupe?: true }
+    | { table: 'families'; handle: string; field: 'father_handle' | 'mother_handle'; clear: true }
+    | { table: 'families'; handle: string; delete: true };
+
+export interface IntegrityIssue {
+    id: string;                // stable key: kind + subject
+    kind: IntegrityKind;
+    severity: 'error' | 'warning';
+    handles: string[];         // people / families involved, for linking into the editor
+    message: string;
+    repair: RepairOp[];        // empty = needs a manual decision
+}
+
+export const INTEGRITY_KINDS: Record<IntegrityKind, { title: string; explain: string }> = {
+    dangling_person: {
+        title: 'Tham chiếu tới người không tồn tại',
+        explain: 'Gia đình ghi cha, mẹ hoặc con bằng một mã không còn trong bảng people (thường do xóa người mà không gỡ liên kết). Sửa: bỏ mã đó khỏi gia đình.',
+    },
+    dangling_family: {
+        title: 'Tham chiếu tới gia đình không tồn tại',
+        explain: 'Danh sách families / parent_families của một người chứa mã gia đình đã bị xóa. Sửa: bỏ mã đó khỏi danh sách.',
+    },
+    missing_parent_link: {
+        title: 'Con thiếu liên kết tới gia đình',
+        explain: 'Gia đình liệt kê người này là con nhưng parent_families của người đó không có gia đình. Sửa: thêm gia đình vào parent_families.',
+    },
+    stale_parent_link: {
+        title: 'Liên kết cha mẹ thừa',
+        explain: 'parent_families của người này có gia đình, nhưng gia đình không liệt kê người đó là con. Sửa: bỏ gia đình khỏi parent_families (bảng families được coi là đúng).',
+    },
+    missing_spouse_link: {
+        title: 'Cha/mẹ thiếu liên kết tới gia đình',
+        explain: 'Gia đình ghi người này là cha hoặc mẹ nhưng danh sách families của người đó không có gia đình. Sửa: thêm gia đình vào families.',
+    },
+    stale_spouse_link: {
+        title: 'Liên kết vợ chồng thừa',
+        explain: 'families của người này có gia đình, nhưng gia đình ghi cha/mẹ là người khác. Sửa: bỏ gia đình khỏi families.',
+    },
+    duplicate_entry: {
+        title: 'Mã bị lặp',
+        explain: 'Cùng một mã xuất hiện nhiều lần trong một danh sách, khiến cây vẽ trùng. Sửa: giữ lại một lần.',
+    },
+    empty_family: {
+        title: 'Gia đình rỗng',
+        explain: 'Gia đình không có cha, mẹ hay con nào. Sửa: xóa gia đình.',
+    },
+    parent_is_child: {
+        title: 'Vừa là cha/mẹ vừa là con',
+        explain: 'Một người vừa là cha/mẹ vừa là con trong cùng một gia đình. Cần kiểm tra thủ công và chuyển người con sang đúng gia đình.',
+    },
+    ancestry_cycle: {
+        title: 'Vòng lặp tổ tiên',
+        explain: 'Đi ngược theo cha mẹ lại gặp chính người đó, nên không tính được đời. Cần gỡ thủ công liên kết cha mẹ sai trong chuỗi.',
+    },
+    gender_role: {
+        title: 'Giới tính không khớp vai trò',
+        explain: 'Người ghi là cha có giới tính nữ hoặc người ghi là mẹ có giới tính nam. Có thể do nhập sai giới tính hoặc đảo vị trí cha/mẹ; cần kiểm tra thủ công.',
+    },
+};
+
+// ═══ Checks ═══
+
+function duplicates(list: string[]): string[] {
+    return Array.from(new Set(list.filter((h, i) => list.indexOf(h) !== i)));
+}
+
+/** Run every check; issues come out grouped by kind, in a stable order */
+export function checkIntegrity(people: IntegrityPerson[], families: FamilyRow[]): IntegrityIssue[] {
+    const issues: IntegrityIssue[] = [];
+    const personMap = new Map(people.map(p => [p.handle, p]));
+    const familyMap = new Map(families.map(f => [f.handle, f]));
+    const name = (h: string) => personMap.get(h)?.display_name ?? h;
+    const ids = new Set<string>();
+    const add = (kind: IntegrityKind, severity: IntegrityIssue['severity'], handles: string[], message: string, repair: RepairOp[] = []) => {
+        let id = `${kind}:${handles.join(':')}`;
+        while (ids.has(id)) id += '+';
+        ids.add(id);
+        issues.push({ id, kind, severity, handles, message, repair });
+    };
+
+    for (const f of families) {
+        const children = f.children || [];
+        for (const role of ['father_handle', 'mother_handle'] as const) {
+            const h = f[role];
+            if (h && !personMap.has(h)) {
+                add('dangling_person', 'error', [f.handle, h], `${f.handle}: ${role === 'father_handle' ? 'cha' : 'mẹ'} ${h} không tồn tại`,
+                    [{ table: 'families', handle: f.handle, field: role, clear: true }]);
+            }
+        }
+        for (const ch of new Set(children)) {
+            if (!personMap.has(ch)) {
+                add('dangling_person', 'error', [f.handle, ch], `${f.handle}: con ${ch} không tồn tại`,
+                    [{ table: 'families', handle: f.handle, field: 'children', remove: ch }]);
+            }
+        }
+        for (const d of duplicates(children)) {
+            add('duplicate_entry', 'warning', [f.handle, d], `${f.handle}: con ${name(d)} bị liệt kê nhiều lần`,
+                [{ table: 'families', handle: f.handle, field: 'children', dedupe: true }]);
+        }
+        if (!f.father_handle && !f.mother_handle && children.length === 0) {
+            add('empty_family', 'warning', [f.handle], `${f.handle} không có thành viên`, [{ table: 'families', handle: f.handle, delete: true }]);
+        }
+        for (const role of ['father_handle', 'mother_handle'] as const) {
+            const h = f[role];
+            if (h && children.includes(h)) {
+                add('parent_is_child', 'error', [f.handle, h], `${name(h)} vừa là ${role === 'father_handle' ? 'cha' : 'mẹ'} vừa là con trong ${f.handle}`);
+            }
+        }
+        const father = f.father_handle ? personMap.get(f.father_handle) : undefined;
+        const mother = f.mother_handle ? personMap.get(f.mother_handle) : undefined;
+        if (father?.gender === 2) add('gender_role', 'warning', [f.handle, father.handle], `${father.display_name} là cha trong ${f.handle} nhưng giới tính nữ`);
+        if (mother?.gender === 1) add('gender_role', 'warning', [f.handle, mother.handle], `${mother.display_name} là mẹ trong ${f.handle} nhưng giới tính nam`);
+
+        // Family side → person side
+        for (const ch of new Set(children)) {
+            const p = personMap.get(ch);
+            if (p && !(p.parent_families || []).includes(f.handle)) {
+                add('missing_parent_link', 'error', [ch, f.handle], `${p.display_name} là con trong ${f.handle} nhưng parent_families thiếu gia đình này`,
+                    [{ table: 'people', handle: ch, field: 'parent_families', add: f.handle }]);
+            }
+        }
+        for (const h of [f.father_handle, f.mother_handle]) {
+            const p = h ? personMap.get(h) : undefined;
+            if (p && !(p.families || []).includes(f.handle)) {
+                add('missing_spouse_link', 'error', [p.handle, f.handle], `${p.display_name} là cha/mẹ trong ${f.handle} nhưng families thiếu gia đình này`,
+                    [{ table: 'people', handle: p.handle, field: 'families', add: f.handle }]);
+            }
+        }
+    }
+
+    // Person side → family side
+    for (const p of people) {
+        for (const field of ['families', 'parent_families'] as const) {
+            const list = p[field] || [];
+            for (const d of duplicates(list)) {
+                add('duplicate_entry', 'warning', [p.handle, d], `${p.display_name}: ${field} có ${d} nhiều lần`,
+                    [{ table: 'people', handle: p.handle, field, dedupe: true }]);
+            }
+            for (const fh of new Set(list)) {
+                const fam = familyMap.get(fh);
+                if (!fam) {
+                    add('dangling_family', 'error', [p.handle, fh], `${p.display_name}: ${field} có gia đình ${fh} không tồn tại`,
+                        [{ table: 'people', handle: p.handle, field, remove: fh }]);
+                } else if (field === 'parent_families' && !(fam.children || []).includes(p.handle)) {
+                    add('stale_parent_link', 'error', [p.handle, fh], `${p.display_name} ghi là con của ${fh} nhưng gia đình không có người này`,
+                        [{ table: 'people', handle: p.handle, field, remove: fh }]);
+                } else if (field === 'families' && fam.father_handle !== p.handle && fam.mother_handle !== p.handle) {
+                    add('stale_spouse_link', 'error', [p.handle, fh], `${p.display_name} ghi là cha/mẹ của ${fh} nhưng gia đình ghi người khác`,
+                        [{ table: 'people', handle: p.handle, field, remove: fh }]);
+                }
+            }
+        }
+    }
+
+    for (const cycle of findAncestryCycles(personMap, familyMap)) {
+        add('ancestry_cycle', 'error', cycle, `Vòng lặp: ${[...cycle, cycle[0]].map(name).join(' → ')}`);
+    }
+
+    const order = Object.keys(INTEGRITY_KINDS);
+    return issues.sort((a, b) => order.indexOf(a.kind) - order.indexOf(b.kind));
+}
+
+/** Cycles in the child → parent graph (DFS, each cycle reported once) */
+function findAncestryCycles(personMap: Map<string, IntegrityPerson>, familyMap: Map<string, FamilyRow>): string[][] {
+    // Edges come from the families table so a stale parent_families entry cannot fake a cycle
+    const parentsOf = new Map<string, string[]>();
+    for (const f of familyMap.values()) {
+        for (const ch of f.children || []) {
+            const parents = [f.father_handle, f.mother_handle].filter((h): h is string => !!h && personMap.has(h));
+            parentsOf.set(ch, [...(parentsOf.get(ch) || []), ...parents]);
+        }
+    }
+
+    const cycles: string[][] = [];
+    const seen = new Set<string>();
+    const state = new Map<string, 'open' | 'done'>();
+    const path: string[] = [];
+
+    const visit = (h: string) => {
+        state.set(h, 'open');
+        path.push(h);
+        for (const parent of parentsOf.get(h) || []) {
+            if (state.get(parent) === 'open') {
+                const cycle = path.slice(path.indexOf(parent));
+                const key = [...cycle].sort().join('|');
+                if (!seen.has(key)) { seen.add(key); cycles.push(cycle); }
+            } else if (!state.has(parent)) {
+                visit(parent);
+            }
+        }
+        path.pop();
+        state.set(h, 'done');
+    };
+    for (const h of personMap.keys()) if (!state.has(h)) visit(h);
+    return cycles;
+}
+
+// ═══ Repairs ═══
+
+export interface RepairPlan {
+    people: { handle: string; families: string[]; parent_families: string[] }[];
+    families: { handle: string; father_handle: string | null; mother_handle: string | null; children: string[] }[];
+    deleteFamilies: string[];
+}
+
+/**
+ * Apply the repair operations of the given issues to copies of the rows and
+ * return only the rows that changed, in their final state.
+ */
+export function planRepairs(people: IntegrityPerson[], families: FamilyRow[], issues: IntegrityIssue[]): RepairPlan {
+    const personRows = new Map(people.map(p => [p.handle, { handle: p.handle, families: [...(p.families || [])], parent_families: [...(p.parent_families || [])] }]));
+    const familyRows = new Map(families.map(f => [f.handle, { handle: f.handle, father_handle: f.father_handle, mother_handle: f.mother_handle, children: [...(f.children || [])] }]));
+    const changedPeople = new Set<string>();
+    const changedFamilies = new Set<string>();
+    const deleted = new Set<string>();
+
+    const edit = (list: string[], op: { add?: string; remove?: string; dedupe?: true }): string[] => {
+        if (op.dedupe) return Array.from(new Set(list));
+        if (op.remove) return list.filter(h => h !== op.remove);
+        if (op.add && !list.includes(op.add)) return [...list, op.add];
+        return list;
+    };
+
+    for (const op of issues.flatMap(i => i.repair)) {
+        if (op.table === 'people') {
+            const row = personRows.get(op.handle);
+            if (!row) continue;
+            row[op.field] = edit(row[op.field], op);
+            changedPeople.add(op.handle);
+        } else if ('delete' in op) {
+            deleted.add(op.handle);
+        } else {
+            const row = familyRows.get(op.handle);
+            if (!row) continue;
+            if (op.field === 'children') row.children = edit(row.children, op);
+            else row[op.field] = null;
+            changedFamilies.add(op.handle);
+        }
+    }
+
+    // A deleted family must not stay referenced by a person
+    for (const fh of deleted) {
+        for (const row of personRows.values()) {
+            if (row.families.includes(fh) || row.parent_families.includes(fh)) {
+                row.families = row.families.filter(h => h !== fh);
+                row.parent_families = row.parent_families.filter(h => h !== fh);
+                changedPeople.add(row.handle);
+            }
+        }
+    }
+
+    return {
+        people: Array.from(changedPeople, h => personRows.get(h)!),
+        families: Array.from(changedFamilies).filter(h => !deleted.has(h)).map(h => familyRows.get(h)!),
+        deleteFamilies: Array.from(deleted),
+    };
+}
@@ -17,6 +17,10 @@ export interface TreeNode {
     generation: number;
     birthYear?: number;
     deathYear?: number;
+    birthDate?: string;         // dd/mm/yyyy
+    birthDateLunar?: string;    // see lunar-calendar.ts
+    deathDate?: string;
+    deathDateLunar?: string;
     isLiving: boolean;
     isPrivacyFiltered: boolean;
     isPatrilineal: boolean;
@@ -0,0 +1,72 @@
+/**
+ * Minimal XML reader for import formats (Gramps XML, XLSX parts) — enough
+ * for well-formed machine-written files, no DTD or namespace handling.
+ */
+
+import type { ImportIssue } from './tree-import';
+
+export interface XmlElement {
+    name: string;
+    attrs: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+    line: number;
+}
+
+const TOKEN_RE = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+const ATTR_RE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/** Named and numeric entities; a numeric one outside Unicode is left as written */
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, e: string) => {
+        if (e[0] === '#') {
+            const code = e[1] === 'x' || e[1] === 'X' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10);
+            return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+        }
+        return ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[e.toLowerCase()];
+    });
+}
+
+/** Minimal XML parser — elements, attributes and text; namespace prefixes are dropped */
+export function parseXml(text: string, issues: ImportIssue[]): XmlElement | null {
+    const root: XmlElement = { name: '#document', attrs: {}, children: [], text: '', line: 0 };
+    const stack = [root];
+    let line = 1;
+    let m: RegExpExecArray | null;
+    TOKEN_RE.lastIndex = 0;
+
+    while ((m = TOKEN_RE.exec(text)) !== null) {
+        const current = stack[stack.length - 1];
+        if (m[3]) {
+            const el: XmlElement = { name: m[3].replace(/^.*:/, ''), attrs: {}, children: [], text: '', line };
+            for (const a of m[4].matchAll(ATTR_RE)) el.attrs[a[1].replace(/^.*:/, '')] = decodeEntities(a[2] ?? a[3]);
+            current.children.push(el);
+            if (!m[5]) stack.push(el);
+        } else if (m[2]) {
+            const name = m[2].replace(/^.*:/, '');
+            if (current.name !== name) {
+                issues.push({ record: 'XML', line, severity: 'error', message: `Thẻ đóng </${name}> không khớp với <${current.name}>` });
+                return null;
+            }
+            stack.pop();
+        } else if (m[1] !== undefined) {
+            current.text += m[1];
+        } else if (m[6] !== undefined) {
+            current.text += decodeEntities(m[6]);
+        }
+        for (let i = m.index; i < TOKEN_RE.lastIndex; i++) if (text.charCodeAt(i) === 10) line++;
+    }
+    if (stack.length > 1) {
+        issues.push({ record: 'XML', line, severity: 'error', message: `Thẻ <${stack[stack.length - 1].name}> chưa được đóng` });
+        return null;
+    }
+    return root.children[0] ?? null;
+}
+
+export function child(el: XmlElement, name: string): XmlElement | undefined {
+    return el.children.find(c => c.name === name);
+}
+
+export function childrenOf(el: XmlElement, name: string): XmlElement[] {
+    return el.children.filter(c => c.name === name);
+}
@@ -3,6 +3,7 @@
 -- ============================================================
 -- Chạy file này trong: Supabase Dashboard → SQL Editor
 -- File này tạo toàn bộ cấu trúc database + dữ liệu mẫu demo
+-- Schema version: 15 (khớp SCHEMA_VERSION trong src/lib/backup.ts)
 -- ============================================================
 
 
@@ -212,6 +213,1750 @@ ALTER TABLE contributions ADD CONSTRAINT contributions_value_length CHECK (char_
 
 
 
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  6. RESTORE BACKUP (khôi phục từ file JSON)             ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- "cột = <nguồn>.cột, ..." cho mọi cột của bảng trừ cột khóa: ghi đè cả dòng bằng UPDATE
+-- mà không phải liệt kê từng cột (dùng cho restore_backup và tree_merge_people)
+CREATE OR REPLACE FUNCTION table_set_list(tbl TEXT, key_col TEXT, source TEXT)
+RETURNS TEXT AS $$
+    SELECT string_agg(format('%I = %s.%I', attname, source, attname), ', ' ORDER BY attnum)
+    FROM pg_attribute
+    WHERE attrelid = tbl::regclass AND attnum > 0 AND NOT attisdropped AND attname <> key_col;
+$$ LANGUAGE sql STABLE;
+
+-- Khóa chính của một bảng trong backup (khớp BACKUP_TABLES[..].key trong src/lib/backup.ts)
+CREATE OR REPLACE FUNCTION backup_key_column(tbl TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE WHEN tbl IN ('people', 'families') THEN 'handle' WHEN tbl = 'fund_dues' THEN 'year'
+                WHEN tbl = 'app_settings' THEN 'key' ELSE 'id' END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Toàn bộ thao tác chạy trong MỘT transaction: lỗi ở bất kỳ bảng nào → không thay đổi gì.
+-- payload = { "<bảng>": [rows...], ... } — chỉ các bảng có mặt trong payload bị tác động.
+--   mode = 'merge'   : bản ghi trong backup ghi đè bản ghi cùng khóa (UPDATE tại chỗ, không xóa
+--                      nên bản ghi tham chiếu tới nó — thẻ ảnh, giỗ... — không bị xóa dây chuyền),
+--                      bản ghi khác giữ nguyên
+--   mode = 'replace' : như merge, và thêm: bản ghi không có trong backup của các bảng có mặt bị xóa.
+--                      Bản ghi có trong backup không bị xóa rồi thêm lại, nên bảng vắng mặt (backup
+--                      cũ, bảng lỗi lúc xuất) giữ nguyên giỗ, thẻ ảnh... của người còn trong backup.
+--                      Bản ghi bị xóa mà sổ quỹ còn tham chiếu (ON DELETE RESTRICT) → hủy khôi phục.
+-- profiles gắn với tài khoản đăng nhập nên không bao giờ bị xóa; chỉ cập nhật
+-- hoặc thêm lại profile cho tài khoản còn tồn tại trong auth.users.
+CREATE OR REPLACE FUNCTION restore_backup(payload JSONB, mode TEXT DEFAULT 'merge')
+RETURNS JSONB AS $$
+DECLARE
+    -- Thứ tự khôi phục: bảng được tham chiếu trước (khớp BACKUP_TABLES trong src/lib/backup.ts)
+    tables TEXT[] := ARRAY['people', 'families', 'invite_links', 'contributions', 'comments', 'deleted_people',
+                           'posts', 'events', 'event_rsvps', 'event_overrides', 'app_settings', 'media', 'media_people',
+                           'media_albums', 'media_album_items', 'contribution_media', 'contribution_messages',
+                           'notifications', 'audit_logs',
+                           'fund_dues', 'fund_entries'];
+    tbl TEXT;
+    key_col TEXT;
+    affected INT;
+    summary JSONB := '{}'::jsonb;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Chỉ admin mới được khôi phục dữ liệu' USING ERRCODE = '42501';
+    END IF;
+    IF mode NOT IN ('merge', 'replace') THEN
+        RAISE EXCEPTION 'Chế độ khôi phục không hợp lệ: %', mode USING ERRCODE = '22023';
+    END IF;
+
+    -- replace: xóa bản ghi không có trong backup, theo thứ tự ngược để không vướng khóa ngoại
+    IF mode = 'replace' THEN
+        FOR i IN REVERSE array_length(tables, 1)..1 LOOP
+            tbl := tables[i];
+            CONTINUE WHEN NOT payload ? tbl;
+            key_col := backup_key_column(tbl);
+            BEGIN
+                EXECUTE format(
+                    'DELETE FROM %I t WHERE NOT EXISTS (SELECT 1 FROM jsonb_populate_recordset(NULL::%I, $1->%L) b WHERE b.%I = t.%I)',
+                    tbl, tbl, tbl, key_col, key_col) USING payload;
+            EXCEPTION WHEN foreign_key_violation THEN
+                RAISE EXCEPTION 'Không thể xóa bản ghi % không có trong backup: dữ liệu khác vẫn tham chiếu tới (%)', tbl, SQLERRM
+                    USING ERRCODE = '23503';
+            END;
+        END LOOP;
+    END IF;
+
+    -- Điểm danh trong backup được ghi lại nguyên vẹn (event_rsvps_guard_check_in)
+    PERFORM set_config('app.event_check_in', 'on', true);
+    FOREACH tbl IN ARRAY tables LOOP
+        CONTINUE WHEN NOT payload ? tbl;
+        key_col := backup_key_column(tbl);
+        -- Dòng giống hệt bản đang có thì bỏ qua (không chạy trigger UPDATE)
+        EXECUTE format(
+            'INSERT INTO %I AS t SELECT * FROM jsonb_populate_recordset(NULL::%I, $1->%L) '
+            'ON CONFLICT (%I) DO UPDATE SET %s WHERE ROW(t.*) IS DISTINCT FROM ROW(EXCLUDED.*)',
+            tbl, tbl, tbl, key_col, table_set_list(tbl, key_col, 'EXCLUDED')) USING payload;
+        GET DIAGNOSTICS affected = ROW_COUNT;
+        summary := summary || jsonb_build_object(tbl, affected);
+    END LOOP;
+    PERFORM set_config('app.event_check_in', 'off', true);
+
+    IF payload ? 'profiles' THEN
+        UPDATE profiles p
+        SET display_name = b.display_name, role = b.role, person_handle = b.person_handle, avatar_url = b.avatar_url,
+            claimed_handle = b.claimed_handle, claimed_at = b.claimed_at
+        FROM jsonb_populate_recordset(NULL::profiles, payload->'profiles') b
+        WHERE p.id = b.id;
+        GET DIAGNOSTICS affected = ROW_COUNT;
+
+        INSERT INTO profiles
+        SELECT b.* FROM jsonb_populate_recordset(NULL::profiles, payload->'profiles') b
+        WHERE EXISTS (SELECT 1 FROM auth.users u WHERE u.id = b.id)
+          AND NOT EXISTS (SELECT 1 FROM profiles p WHERE p.id = b.id)
+        ON CONFLICT DO NOTHING;
+        summary := summary || jsonb_build_object('profiles', affected);
+    END IF;
+
+    RETURN summary;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  7. RELATIONSHIP MUTATIONS (thao tác quan hệ nguyên tử) ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Mỗi hàm chạy trong một transaction: families.children, people.families và
+-- people.parent_families luôn được cập nhật cùng nhau hoặc không gì cả.
+-- Lỗi trả về qua RAISE với MESSAGE = mã lỗi (khớp TreeErrorCode trong
+-- src/lib/supabase-data.ts) và HINT = mô tả tiếng Việt.
+-- Các hàm chạy với quyền người gọi (SECURITY INVOKER) nên RLS vẫn áp dụng.
+
+CREATE OR REPLACE FUNCTION tree_fail(code TEXT, hint TEXT)
+RETURNS VOID AS $$
+BEGIN
+    RAISE EXCEPTION USING MESSAGE = code, HINT = hint, ERRCODE = 'P0001';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION tree_require_editor()
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        PERFORM tree_fail('NOT_AUTHENTICATED', 'Bạn cần đăng nhập để chỉnh sửa cây');
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- true nếu `person` là tổ tiên của (hoặc chính là) cha/mẹ trong `family`
+CREATE OR REPLACE FUNCTION tree_is_ancestor_of_family(person TEXT, family TEXT)
+RETURNS BOOLEAN AS $$
+    WITH RECURSIVE up(handle, depth) AS (
+        SELECT h, 0 FROM families f, unnest(ARRAY[f.father_handle, f.mother_handle]) h
+        WHERE f.handle = family AND h IS NOT NULL
+        UNION
+        SELECT x, up.depth + 1
+        FROM up
+        JOIN people p ON p.handle = up.handle
+        JOIN families pf ON pf.handle = ANY(p.parent_families)
+        CROSS JOIN LATERAL unnest(ARRAY[pf.father_handle, pf.mother_handle]) x
+        WHERE x IS NOT NULL AND up.depth < 200
+    )
+    SELECT EXISTS (SELECT 1 FROM up WHERE handle = person);
+$$ LANGUAGE sql STABLE;
+
+-- Chuyển một người con sang gia đình (cặp cha mẹ) khác
+CREATE OR REPLACE FUNCTION tree_move_child(child TEXT, from_family TEXT, to_family TEXT)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM tree_require_editor();
+    IF from_family = to_family THEN
+        PERFORM tree_fail('SAME_FAMILY', 'Gia đình nguồn và đích trùng nhau');
+    END IF;
+    PERFORM 1 FROM people WHERE handle = child FOR UPDATE;
+    IF NOT FOUND THEN
+        PERFORM tree_fail('PERSON_NOT_FOUND', format('Không tìm thấy thành viên %s', child));
+    END IF;
+    PERFORM 1 FROM families WHERE handle IN (from_family, to_family) FOR UPDATE;
+    IF NOT EXISTS (SELECT 1 FROM families WHERE handle = to_family) THEN
+        PERFORM tree_fail('FAMILY_NOT_FOUND', format('Không tìm thấy gia đình %s', to_family));
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM families WHERE handle = from_family AND child = ANY(children)) THEN
+        PERFORM tree_fail('NOT_A_CHILD', format('%s không phải con trong gia đình %s', child, from_family));
+    END IF;
+    IF tree_is_ancestor_of_family(child, to_family) THEN
+        PERFORM tree_fail('CYCLE', 'Không thể xếp một người làm con của chính mình hoặc con cháu mình');
+    END IF;
+
+    UPDATE families SET children = array_remove(children, child) WHERE handle = from_family;
+    UPDATE families SET children = array_append(array_remove(children, child), child) WHERE handle = to_family;
+    UPDATE people
+    SET parent_families = array_append(array_remove(array_remove(parent_families, from_family), to_family), to_family)
+    WHERE handle = child;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Gỡ một người con khỏi gia đình (người đó vẫn còn trong cây)
+CREATE OR REPLACE FUNCTION tree_remove_child(child TEXT, family TEXT)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM tree_require_editor();
+    PERFORM 1 FROM families WHERE handle = family FOR UPDATE;
+    IF NOT FOUND THEN
+        PERFORM tree_fail('FAMILY_NOT_FOUND', format('Không tìm thấy gia đình %s', family));
+    END IF;
+    PERFORM 1 FROM people WHERE handle = child FOR UPDATE;
+    IF NOT FOUND THEN
+        PERFORM tree_fail('PERSON_NOT_FOUND', format('Không tìm thấy thành viên %s', child));
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM families WHERE handle = family AND child = ANY(children)) THEN
+        PERFORM tree_fail('NOT_A_CHILD', format('%s không phải con trong gia đình %s', child, family));
+    END IF;
+
+    UPDATE families SET children = array_remove(children, child) WHERE handle = family;
+    UPDATE people SET parent_families = array_remove(parent_families, family) WHERE handle = child;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Thêm một người mới làm con của gia đình; đời = đời cha mẹ + 1
+-- person = { handle, display_name, gender, birth_year?, death_year?, is_living? }
+CREATE OR REPLACE FUNCTION tree_add_child(family TEXT, person JSONB)
+RETURNS TEXT AS $$
+DECLARE
+    new_handle TEXT := person->>'handle';
+    parent_gen INT;
+    patrilineal BOOLEAN;
+BEGIN
+    PERFORM tree_require_editor();
+    IF coalesce(new_handle, '') = '' OR coalesce(person->>'display_name', '') = '' THEN
+        PERFORM tree_fail('INVALID_INPUT', 'Thiếu mã hoặc họ tên');
+    END IF;
+    PERFORM 1 FROM families WHERE handle = family FOR UPDATE;
+    IF NOT FOUND THEN
+        PERFORM tree_fail('FAMILY_NOT_FOUND', format('Không tìm thấy gia đình %s', family));
+    END IF;
+    IF EXISTS (SELECT 1 FROM people WHERE handle = new_handle) THEN
+        PERFORM tree_fail('DUPLICATE_HANDLE', format('Mã %s đã tồn tại', new_handle));
+    END IF;
+
+    SELECT max(p.generation) INTO parent_gen
+    FROM families f JOIN people p ON p.handle IN (f.father_handle, f.mother_handle)
+    WHERE f.handle = family;
+    -- Chính tộc theo cha: con của con gái (chồng ngoại tộc) là ngoại tộc; chưa rõ cha thì coi là chính tộc
+    SELECT p.is_patrilineal INTO patrilineal
+    FROM families f JOIN people p ON p.handle = f.father_handle
+    WHERE f.handle = family;
+
+    INSERT INTO people (handle, gramps_id, display_name, gender, generation, birth_year, death_year,
+                        is_living, is_privacy_filtered, is_patrilineal, families, parent_families)
+    VALUES (new_handle, new_handle, person->>'display_name', coalesce((person->>'gender')::int, 1),
+            coalesce(parent_gen, 0) + 1, (person->>'birth_year')::int, (person->>'death_year')::int,
+            coalesce((person->>'is_living')::boolean, true), false, coalesce(patrilineal, true), '{}', ARRAY[family]);
+    UPDATE families SET children = array_append(children, new_handle) WHERE handle = family;
+    RETURN new_handle;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Gia đình của một cặp cha mẹ đã có trong cây (hoặc chỉ một người khi chưa rõ người kia):
+-- trả về gia đình sẵn có của đúng cặp đó, nếu chưa có thì tạo gia đình mới `family`.
+CREATE OR REPLACE FUNCTION tree_add_family(family TEXT, father TEXT, mother TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    target TEXT;
+BEGIN
+    PERFORM tree_require_editor();
+    father := NULLIF(father, '');
+    mother := NULLIF(mother, '');
+    IF father IS NULL AND mother IS NULL THEN
+        PERFORM tree_fail('INVALID_INPUT', 'Cần ít nhất cha hoặc mẹ');
+    END IF;
+    IF father IS NOT NULL AND NOT EXISTS (SELECT 1 FROM people WHERE handle = father) THEN
+        PERFORM tree_fail('PERSON_NOT_FOUND', format('Không tìm thấy thành viên %s', father));
+    END IF;
+    IF mother IS NOT NULL AND NOT EXISTS (SELECT 1 FROM people WHERE handle = mother) THEN
+        PERFORM tree_fail('PERSON_NOT_FOUND', format('Không tìm thấy thành viên %s', mother));
+    END IF;
+
+    SELECT handle INTO target FROM families
+    WHERE father_handle IS NOT DISTINCT FROM father AND mother_handle IS NOT DISTINCT FROM mother
+    ORDER BY handle LIMIT 1;
+    IF target IS NOT NULL THEN
+        RETURN target;
+    END IF;
+
+    IF coalesce(family, '') = '' OR EXISTS (SELECT 1 FROM families WHERE handle = family) THEN
+        PERFORM tree_fail('DUPLICATE_HANDLE', format('Mã gia đình %s không hợp lệ hoặc đã tồn tại', family));
+    END IF;
+    INSERT INTO families (handle, father_handle, mother_handle, children) VALUES (family, father, mother, '{}');
+    UPDATE people SET families = array_append(families, family) WHERE handle IN (father, mother);
+    RETURN family;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Thêm vợ/chồng (ngoại tộc, cùng đời) cho một người. Nếu người đó đã có gia đình
+-- còn trống vị trí cha/mẹ thì điền vào đó, nếu không tạo gia đình mới `family`.
+CREATE OR REPLACE FUNCTION tree_add_spouse(partner TEXT, spouse JSONB, family TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    new_handle TEXT := spouse->>'handle';
+    p people%ROWTYPE;
+    spouse_gender INT;
+    target TEXT;
+BEGIN
+    PERFORM tree_require_editor();
+    IF coalesce(new_handle, '') = '' OR coalesce(spouse->>'display_name', '') = '' THEN
+        PERFORM tree_fail('INVALID_INPUT', 'Thiếu mã hoặc họ tên');
+    END IF;
+    SELECT * INTO p FROM people WHERE handle = partner FOR UPDATE;
+    IF NOT FOUND THEN
+        PERFORM tree_fail('PERSON_NOT_FOUND', format('Không tìm thấy thành viên %s', partner));
+    END IF;
+    IF EXISTS (SELECT 1 FROM people WHERE handle = new_handle) THEN
+        PERFORM tree_fail('DUPLICATE_HANDLE', format('Mã %s đã tồn tại', new_handle));
+    END IF;
+    spouse_gender := coalesce((spouse->>'gender')::int, CASE WHEN p.gender = 1 THEN 2 ELSE 1 END);
+
+    SELECT handle INTO target FROM families
+    WHERE (father_handle = partner AND mother_handle IS NULL AND spouse_gender <> 1)
+       OR (mother_handle = partner AND father_handle IS NULL AND spouse_gender = 1)
+    ORDER BY handle LIMIT 1
+    FOR UPDATE;
+
+    IF target IS NULL THEN
+        IF coalesce(family, '') = '' OR EXISTS (SELECT 1 FROM families WHERE handle = family) THEN
+            PERFORM tree_fail('DUPLICATE_HANDLE', format('Mã gia đình %s không hợp lệ hoặc đã tồn tại', family));
+        END IF;
+        target := family;
+        INSERT INTO families (handle, father_handle, mother_handle, children)
+        VALUES (target,
+                CASE WHEN spouse_gender = 1 THEN new_handle ELSE partner END,
+                CASE WHEN spouse_gender = 1 THEN partner ELSE new_handle END,
+                '{}');
+        UPDATE people SET families = array_append(families, target) WHERE handle = partner;
+    ELSIF spouse_gender = 1 THEN
+        UPDATE families SET father_handle = new_handle WHERE handle = target;
+    ELSE
+        UPDATE families SET mother_handle = new_handle WHERE handle = target;
+    END IF;
+
+    INSERT INTO people (handle, gramps_id, display_name, gender, generation, birth_year, death_year,
+                        is_living, is_privacy_filtered, is_patrilineal, families, parent_families)
+    VALUES (new_handle, new_handle, spouse->>'display_name', spouse_gender, p.generation,
+            (spouse->>'birth_year')::int, (spouse->>'death_year')::int,
+            coalesce((spouse->>'is_living')::boolean, true), false, false, ARRAY[target], '{}');
+    RETURN target;
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  8. INTEGRITY REPAIRS (sửa lỗi liên kết hàng loạt)      ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Áp dụng kết quả planRepairs() trong src/lib/tree-integrity.ts trong một transaction.
+-- payload = { people: [{handle, families, parent_families}],
+--             families: [{handle, father_handle, mother_handle, children}],
+--             delete_families: [handle, ...] }
+-- Kế hoạch được tính ở trình duyệt từ dữ liệu đã tải, nên mọi thay đổi được kiểm tra lại với
+-- dữ liệu hiện tại (bảng families là chuẩn): chỉ bỏ liên kết thật sự hỏng, chỉ thêm liên kết
+-- gia đình thật sự có, chỉ xóa gia đình thật sự rỗng. Sai một chỗ → STALE, không ghi gì.
+CREATE OR REPLACE FUNCTION apply_integrity_repairs(payload JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    n_people INT;
+    n_families INT;
+    n_deleted INT;
+    bad TEXT;
+BEGIN
+    PERFORM tree_require_editor();
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        PERFORM tree_fail('FORBIDDEN', 'Chỉ admin mới được sửa lỗi dữ liệu');
+    END IF;
+
+    SELECT r.handle INTO bad
+    FROM jsonb_to_recordset(coalesce(payload->'people', '[]')) AS r(handle TEXT, families TEXT[], parent_families TEXT[])
+    JOIN people p ON p.handle = r.handle
+    WHERE EXISTS (SELECT 1 FROM unnest(p.families) fh
+                  WHERE fh <> ALL(coalesce(r.families, '{}'))
+                    AND EXISTS (SELECT 1 FROM families f WHERE f.handle = fh AND p.handle IN (f.father_handle, f.mother_handle)))
+       OR EXISTS (SELECT 1 FROM unnest(p.parent_families) fh
+                  WHERE fh <> ALL(coalesce(r.parent_families, '{}'))
+                    AND EXISTS (SELECT 1 FROM families f WHERE f.handle = fh AND p.handle = ANY(f.children)))
+       OR EXISTS (SELECT 1 FROM unnest(r.families) fh
+                  WHERE fh <> ALL(coalesce(p.families, '{}'))
+                    AND NOT EXISTS (SELECT 1 FROM families f WHERE f.handle = fh AND p.handle IN (f.father_handle, f.mother_handle)))
+       OR EXISTS (SELECT 1 FROM unnest(r.parent_families) fh
+                  WHERE fh <> ALL(coalesce(p.parent_families, '{}'))
+                    AND NOT EXISTS (SELECT 1 FROM families f WHERE f.handle = fh AND p.handle = ANY(f.children)))
+    LIMIT 1;
+    IF FOUND THEN
+        PERFORM tree_fail('STALE', format('Liên kết của %s đã thay đổi từ lúc kiểm tra, hãy kiểm tra lại', bad));
+    END IF;
+
+    SELECT r.handle INTO bad
+    FROM jsonb_to_recordset(coalesce(payload->'families', '[]')) AS r(handle TEXT, father_handle TEXT, mother_handle TEXT, children TEXT[])
+    JOIN families f ON f.handle = r.handle
+    WHERE (r.father_handle IS DISTINCT FROM f.father_handle
+           AND (r.father_handle IS NOT NULL OR EXISTS (SELECT 1 FROM people WHERE handle = f.father_handle)))
+       OR (r.mother_handle IS DISTINCT FROM f.mother_handle
+           AND (r.mother_handle IS NOT NULL OR EXISTS (SELECT 1 FROM people WHERE handle = f.mother_handle)))
+       OR EXISTS (SELECT 1 FROM unnest(f.children) ch
+                  WHERE ch <> ALL(coalesce(r.children, '{}')) AND EXISTS (SELECT 1 FROM people WHERE handle = ch))
+       OR EXISTS (SELECT 1 FROM unnest(r.children) ch WHERE ch <> ALL(coalesce(f.children, '{}')))
+    LIMIT 1;
+    IF FOUND THEN
+        PERFORM tree_fail('STALE', format('Gia đình %s đã thay đổi từ lúc kiểm tra, hãy kiểm tra lại', bad));
+    END IF;
+
+    SELECT f.handle INTO bad FROM families f
+    WHERE f.handle IN (SELECT jsonb_array_elements_text(coalesce(payload->'delete_families', '[]')))
+      AND (f.father_handle IS NOT NULL OR f.mother_handle IS NOT NULL OR cardinality(f.children) > 0)
+    LIMIT 1;
+    IF FOUND THEN
+        PERFORM tree_fail('STALE', format('Gia đình %s không còn rỗng, hãy kiểm tra lại', bad));
+    END IF;
+
+    UPDATE people p
+    SET families = r.families, parent_families = r.parent_families
+    FROM jsonb_to_recordset(coalesce(payload->'people', '[]')) AS r(handle TEXT, families TEXT[], parent_families TEXT[])
+    WHERE p.handle = r.handle;
+    GET DIAGNOSTICS n_people = ROW_COUNT;
+
+    UPDATE families f
+    SET father_handle = r.father_handle, mother_handle = r.mother_handle, children = r.children
+    FROM jsonb_to_recordset(coalesce(payload->'families', '[]')) AS r(handle TEXT, father_handle TEXT, mother_handle TEXT, children TEXT[])
+    WHERE f.handle = r.handle;
+    GET DIAGNOSTICS n_families = ROW_COUNT;
+
+    -- Gia đình là hộ trong sổ quỹ được giữ lại (fund_entries.household_handle không cho xóa)
+    DELETE FROM families
+    WHERE handle IN (SELECT jsonb_array_elements_text(coalesce(payload->'delete_families', '[]')))
+      AND NOT EXISTS (SELECT 1 FROM fund_entries fe WHERE fe.household_handle = families.handle);
+    GET DIAGNOSTICS n_deleted = ROW_COUNT;
+
+    RETURN jsonb_build_object('people', n_people, 'families', n_families, 'deleted_families', n_deleted);
+END;
+$$ LANGUAGE plpgsql;
+
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  9. RECYCLE BIN (xóa mềm thành viên)                    ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Mỗi lần xóa một người tạo một dòng ở đây. snapshot giữ mọi thứ cần để khôi phục:
+--   person           : bản ghi people
+--   families         : các gia đình có người này (trạng thái ngay trước khi gỡ)
+--   comments,
+--   contributions    : bình luận / đóng góp về người này (được chuyển khỏi bảng gốc)
+--   contribution_media,
+--   contribution_messages : bằng chứng và trao đổi của các đóng góp đó (bị xóa theo đóng góp)
+--   profiles         : id tài khoản đã nhận người này (profiles.person_handle)
+--   media_people     : thẻ gắn người này trên ảnh / tài liệu (bị xóa theo người)
+--   events,
+--   event_rsvps,
+--   event_overrides  : giỗ tự động của người này cùng phản hồi tham dự và ngoại lệ từng buổi
+--   reparented       : { gia đình cũ: gia đình mới } của các con đã được chuyển
+--   removed_families : gia đình bị xóa vì không còn ai
+CREATE TABLE IF NOT EXISTS deleted_people (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    person_handle TEXT NOT NULL,
+    display_name TEXT,
+    snapshot JSONB NOT NULL,
+    deleted_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    deleted_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deleted_people_handle ON deleted_people(person_handle);
+
+ALTER TABLE deleted_people ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "admin can read deleted people" ON deleted_people
+    FOR SELECT USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+CREATE POLICY "admin can purge deleted people" ON deleted_people
+    FOR DELETE USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- Xóa một người (chỉ admin) vào thùng rác.
+-- options = { reparent: { "<gia đình>": "<gia đình đích>" }, remove_empty_families: true }
+--   reparent              : chuyển mọi con của gia đình (người này là cha/mẹ) sang gia đình đích
+--   remove_empty_families : xóa gia đình không còn cha, mẹ hay con nào sau khi gỡ người này
+-- SECURITY DEFINER như restore_backup: phải chuyển bình luận / đóng góp của người khác.
+DROP FUNCTION IF EXISTS tree_delete_person(TEXT);
+CREATE OR REPLACE FUNCTION tree_delete_person(person TEXT, options JSONB DEFAULT '{}')
+RETURNS UUID AS $$
+DECLARE
+    p people%ROWTYPE;
+    src TEXT;
+    dest TEXT;
+    kids TEXT[];
+    kid TEXT;
+    linked TEXT[];
+    removed TEXT[] := '{}';
+    snap JSONB;
+    entry UUID;
+BEGIN
+    PERFORM tree_require_editor();
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        PERFORM tree_fail('FORBIDDEN', 'Chỉ admin mới được xóa thành viên');
+    END IF;
+    SELECT * INTO p FROM people WHERE handle = person FOR UPDATE;
+    IF NOT FOUND THEN
+        PERFORM tree_fail('PERSON_NOT_FOUND', format('Không tìm thấy thành viên %s', person));
+    END IF;
+    IF EXISTS (SELECT 1 FROM fund_entries WHERE person_handle = person) THEN
+        PERFORM tree_fail('INVALID_INPUT', format(
+            '%s có khoản trong sổ quỹ nên không xóa được; nếu đây là hồ sơ trùng, hãy gộp vào hồ sơ đúng',
+            p.display_name));
+    END IF;
+
+    FOR src, dest IN SELECT key, value FROM jsonb_each_text(coalesce(options->'reparent', '{}')) LOOP
+        SELECT children INTO kids FROM families
+        WHERE handle = src AND person IN (father_handle, mother_handle) FOR UPDATE;
+        IF NOT FOUND THEN
+            PERFORM tree_fail('INVALID_INPUT', format('%s không phải cha/mẹ trong gia đình %s', p.display_name, src));
+        END IF;
+        IF EXISTS (SELECT 1 FROM families WHERE handle = dest AND person IN (father_handle, mother_handle)) THEN
+            PERFORM tree_fail('SAME_FAMILY', 'Không thể chuyển con sang một gia đình khác của chính người bị xóa');
+        END IF;
+        FOREACH kid IN ARRAY kids LOOP
+            PERFORM tree_move_child(kid, src, dest);
+        END LOOP;
+    END LOOP;
+
+    SELECT coalesce(array_agg(handle), '{}') INTO linked FROM families
+    WHERE person IN (father_handle, mother_handle) OR person = ANY(children);
+
+    snap := jsonb_build_object(
+        'person', to_jsonb(p),
+        'families', (SELECT coalesce(jsonb_agg(to_jsonb(f)), '[]') FROM families f WHERE f.handle = ANY(linked)),
+        'comments', (SELECT coalesce(jsonb_agg(to_jsonb(cm)), '[]') FROM comments cm WHERE cm.person_handle = person),
+        'contributions', (SELECT coalesce(jsonb_agg(to_jsonb(ct)), '[]') FROM contributions ct WHERE ct.person_handle = person),
+        'contribution_media', (SELECT coalesce(jsonb_agg(to_jsonb(cmd)), '[]') FROM contribution_media cmd
+                               JOIN contributions ct ON ct.id = cmd.contribution_id WHERE ct.person_handle = person),
+        'contribution_messages', (SELECT coalesce(jsonb_agg(to_jsonb(cms)), '[]') FROM contribution_messages cms
+                                  JOIN contributions ct ON ct.id = cms.contribution_id WHERE ct.person_handle = person),
+        'profiles', (SELECT coalesce(jsonb_agg(pr.id), '[]') FROM profiles pr WHERE pr.person_handle = person),
+        'media_people', (SELECT coalesce(jsonb_agg(to_jsonb(mp)), '[]') FROM media_people mp WHERE mp.person_handle = person),
+        'events', (SELECT coalesce(jsonb_agg(to_jsonb(e)), '[]') FROM events e WHERE e.person_handle = person),
+        'event_rsvps', (SELECT coalesce(jsonb_agg(to_jsonb(r)), '[]') FROM event_rsvps r
+                        JOIN events e ON e.id = r.event_id WHERE e.person_handle = person),
+        'event_overrides', (SELECT coalesce(jsonb_agg(to_jsonb(o)), '[]') FROM event_overrides o
+                            JOIN events e ON e.id = o.event_id WHERE e.person_handle = person),
+        'reparented', coalesce(options->'reparent', '{}'));
+
+    UPDATE families SET
+        father_handle = NULLIF(father_handle, person),
+        mother_handle = NULLIF(mother_handle, person),
+        children = array_remove(children, person)
+    WHERE handle = ANY(linked);
+
+    IF coalesce((options->>'remove_empty_families')::boolean, true) THEN
+        WITH gone AS (
+            DELETE FROM families
+            WHERE handle = ANY(linked)
+              AND father_handle IS NULL AND mother_handle IS NULL AND cardinality(children) = 0
+              -- hộ có khoản trong sổ quỹ được giữ lại
+              AND NOT EXISTS (SELECT 1 FROM fund_entries fe WHERE fe.household_handle = families.handle)
+            RETURNING handle
+        )
+        SELECT coalesce(array_agg(handle), '{}') INTO removed FROM gone;
+    END IF;
+
+    DELETE FROM comments WHERE person_handle = person;
+    DELETE FROM contributions WHERE person_handle = person;
+    UPDATE profiles SET person_handle = NULL WHERE person_handle = person;
+    UPDATE profiles SET claimed_handle = NULL, claimed_at = NULL WHERE claimed_handle = person;
+    DELETE FROM people WHERE handle = person;
+
+    INSERT INTO deleted_people (person_handle, display_name, snapshot, deleted_by)
+    VALUES (person, p.display_name, snap || jsonb_build_object('removed_families', to_jsonb(removed)), auth.uid())
+    RETURNING id INTO entry;
+    RETURN entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Khôi phục một người từ thùng rác: thêm lại bản ghi, tạo lại gia đình đã bị xóa và gắn
+-- lại vào các vị trí cha / mẹ / con còn trống. Con đã được chuyển gia đình lúc xóa giữ nguyên.
+-- Trả về { handle, skipped: [gia đình không gắn lại được vì vị trí đã có người khác] }
+CREATE OR REPLACE FUNCTION tree_restore_person(entry UUID)
+RETURNS JSONB AS $$
+DECLARE
+    d deleted_people%ROWTYPE;
+    p people%ROWTYPE;
+    f families%ROWTYPE;
+    as_parent TEXT[] := '{}';
+    as_child TEXT[] := '{}';
+    skipped TEXT[] := '{}';
+BEGIN
+    PERFORM tree_require_editor();
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        PERFORM tree_fail('FORBIDDEN', 'Chỉ admin mới được khôi phục thành viên');
+    END IF;
+    SELECT * INTO d FROM deleted_people WHERE id = entry FOR UPDATE;
+    IF NOT FOUND THEN
+        PERFORM tree_fail('PERSON_NOT_FOUND', 'Mục này không còn trong thùng rác');
+    END IF;
+    IF EXISTS (SELECT 1 FROM people WHERE handle = d.person_handle) THEN
+        PERFORM tree_fail('DUPLICATE_HANDLE', format('Mã %s đã được dùng cho một thành viên khác', d.person_handle));
+    END IF;
+    p := jsonb_populate_record(NULL::people, d.snapshot->'person');
+
+    FOR f IN SELECT * FROM jsonb_populate_recordset(NULL::families, d.snapshot->'families') LOOP
+        INSERT INTO families (handle, children) VALUES (f.handle, '{}') ON CONFLICT (handle) DO NOTHING;
+        IF f.father_handle = p.handle OR f.mother_handle = p.handle THEN
+            UPDATE families SET
+                father_handle = CASE WHEN f.father_handle = p.handle THEN p.handle ELSE father_handle END,
+                mother_handle = CASE WHEN f.mother_handle = p.handle THEN p.handle ELSE mother_handle END
+            WHERE handle = f.handle
+              AND (f.father_handle IS DISTINCT FROM p.handle OR father_handle IS NULL)
+              AND (f.mother_handle IS DISTINCT FROM p.handle OR mother_handle IS NULL);
+            IF FOUND THEN
+                as_parent := array_append(as_parent, f.handle);
+            ELSE
+                skipped := array_append(skipped, f.handle);
+            END IF;
+        ELSIF p.handle = ANY(f.children) THEN
+            UPDATE families SET children = array_append(array_remove(children, p.handle), p.handle)
+            WHERE handle = f.handle;
+            as_child := array_append(as_child, f.handle);
+        END IF;
+    END LOOP;
+
+    p.families := as_parent;
+    p.parent_families := as_child;
+    INSERT INTO people SELECT (p).*;
+
+    INSERT INTO comments
+    SELECT * FROM jsonb_populate_recordset(NULL::comments, d.snapshot->'comments')
+    ON CONFLICT DO NOTHING;
+    INSERT INTO contributions
+    SELECT * FROM jsonb_populate_recordset(NULL::contributions, d.snapshot->'contributions')
+    ON CONFLICT DO NOTHING;
+    -- Bằng chứng (tư liệu còn tồn tại) và trao đổi của các đóng góp trên
+    INSERT INTO contribution_media
+    SELECT cm.* FROM jsonb_populate_recordset(NULL::contribution_media, coalesce(d.snapshot->'contribution_media', '[]')) cm
+    WHERE EXISTS (SELECT 1 FROM contributions c WHERE c.id = cm.contribution_id)
+      AND EXISTS (SELECT 1 FROM media m WHERE m.id = cm.media_id)
+    ON CONFLICT DO NOTHING;
+    INSERT INTO contribution_messages (id, contribution_id, author_id, body, created_at)
+    SELECT cm.id, cm.contribution_id, pr.id, cm.body, cm.created_at
+    FROM jsonb_populate_recordset(NULL::contribution_messages, coalesce(d.snapshot->'contribution_messages', '[]')) cm
+    LEFT JOIN profiles pr ON pr.id = cm.author_id    -- tài khoản đã xóa → như ON DELETE SET NULL
+    WHERE EXISTS (SELECT 1 FROM contributions c WHERE c.id = cm.contribution_id)
+    ON CONFLICT DO NOTHING;
+    UPDATE profiles SET person_handle = p.handle
+    WHERE person_handle IS NULL
+      AND id::text IN (SELECT jsonb_array_elements_text(d.snapshot->'profiles'));
+    -- Thẻ ảnh trên tư liệu còn tồn tại (bản xóa trước khi có thẻ ảnh không có khóa này)
+    INSERT INTO media_people
+    SELECT mp.* FROM jsonb_populate_recordset(NULL::media_people, coalesce(d.snapshot->'media_people', '[]')) mp
+    WHERE EXISTS (SELECT 1 FROM media m WHERE m.id = mp.media_id)
+    ON CONFLICT DO NOTHING;
+    -- Giỗ cùng phản hồi (giữ cả điểm danh) của những tài khoản còn tồn tại
+    INSERT INTO events
+    SELECT * FROM jsonb_populate_recordset(NULL::events, coalesce(d.snapshot->'events', '[]'))
+    ON CONFLICT DO NOTHING;
+    PERFORM set_config('app.event_check_in', 'on', true);
+    INSERT INTO event_rsvps
+    SELECT r.* FROM jsonb_populate_recordset(NULL::event_rsvps, coalesce(d.snapshot->'event_rsvps', '[]')) r
+    WHERE EXISTS (SELECT 1 FROM events e WHERE e.id = r.event_id)
+      AND EXISTS (SELECT 1 FROM profiles pr WHERE pr.id = r.user_id)
+    ON CONFLICT DO NOTHING;
+    PERFORM set_config('app.event_check_in', 'off', true);
+    INSERT INTO event_overrides
+    SELECT o.* FROM jsonb_populate_recordset(NULL::event_overrides, coalesce(d.snapshot->'event_overrides', '[]')) o
+    WHERE EXISTS (SELECT 1 FROM events e WHERE e.id = o.event_id)
+    ON CONFLICT DO NOTHING;
+
+    DELETE FROM deleted_people WHERE id = entry;
+    RETURN jsonb_build_object('handle', p.handle, 'skipped', to_jsonb(skipped));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  10. MERGE DUPLICATES (gộp hồ sơ trùng)                 ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Bỏ phần tử trùng trong mảng, giữ thứ tự xuất hiện đầu tiên
+CREATE OR REPLACE FUNCTION tree_array_distinct(arr TEXT[])
+RETURNS TEXT[] AS $$
+    SELECT coalesce(array_agg(x ORDER BY pos), '{}')
+    FROM (SELECT x, min(pos) AS pos FROM unnest(arr) WITH ORDINALITY u(x, pos) GROUP BY x) s;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Gộp `duplicate` vào `survivor` (chỉ admin): mọi tham chiếu trong families, comments,
+-- contributions, profiles.person_handle, media_people, giỗ tự động (events) và sổ quỹ
+-- chuyển sang survivor, rồi xóa duplicate.
+-- Dòng survivor được sửa tại chỗ (không xóa rồi thêm lại) để các bảng tham chiếu
+-- tới nó bằng ON DELETE CASCADE không bị xóa theo.
+-- fields = { cột people: giá trị } lấy cho survivor (đã chọn trên màn hình gộp).
+-- SECURITY DEFINER như tree_delete_person: phải sửa bình luận / đóng góp của người khác.
+CREATE OR REPLACE FUNCTION tree_merge_people(survivor TEXT, duplicate TEXT, fields JSONB DEFAULT '{}')
+RETURNS VOID AS $$
+DECLARE
+    k people%ROWTYPE;
+    d people%ROWTYPE;
+BEGIN
+    PERFORM tree_require_editor();
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        PERFORM tree_fail('FORBIDDEN', 'Chỉ admin mới được gộp thành viên');
+    END IF;
+    IF survivor = duplicate THEN
+        PERFORM tree_fail('INVALID_INPUT', 'Không thể gộp một người với chính mình');
+    END IF;
+    SELECT * INTO k FROM people WHERE handle = survivor FOR UPDATE;
+    IF NOT FOUND THEN
+        PERFORM tree_fail('PERSON_NOT_FOUND', format('Không tìm thấy thành viên %s', survivor));
+    END IF;
+    SELECT * INTO d FROM people WHERE handle = duplicate FOR UPDATE;
+    IF NOT FOUND THEN
+        PERFORM tree_fail('PERSON_NOT_FOUND', format('Không tìm thấy thành viên %s', duplicate));
+    END IF;
+    IF EXISTS (SELECT 1 FROM families
+               WHERE (father_handle = survivor AND mother_handle = duplicate)
+                  OR (father_handle = duplicate AND mother_handle = survivor)) THEN
+        PERFORM tree_fail('INVALID_INPUT', 'Hai người đang là vợ chồng của nhau');
+    END IF;
+    IF EXISTS (SELECT 1 FROM families f
+               WHERE (survivor = ANY(f.children) AND tree_is_ancestor_of_family(duplicate, f.handle))
+                  OR (duplicate = ANY(f.children) AND tree_is_ancestor_of_family(survivor, f.handle))) THEN
+        PERFORM tree_fail('CYCLE', 'Một người là tổ tiên của người kia, gộp sẽ tạo vòng lặp');
+    END IF;
+
+    UPDATE families SET father_handle = survivor WHERE father_handle = duplicate;
+    UPDATE families SET mother_handle = survivor WHERE mother_handle = duplicate;
+    UPDATE families SET children = tree_array_distinct(array_replace(children, duplicate, survivor))
+    WHERE duplicate = ANY(children);
+
+    k := jsonb_populate_record(k, fields - 'handle' - 'families' - 'parent_families' - 'created_at' - 'updated_at');
+    k.families := tree_array_distinct(k.families || d.families);
+    k.parent_families := tree_array_distinct(k.parent_families || d.parent_families);
+    k.gramps_id := coalesce(k.gramps_id, d.gramps_id);
+    k.updated_at := now();
+    EXECUTE format('UPDATE people SET %s WHERE handle = $2', table_set_list('people', 'handle', '($1)'))
+    USING k, survivor;
+
+    UPDATE comments SET person_handle = survivor WHERE person_handle = duplicate;
+    UPDATE contributions SET person_handle = survivor, person_name = k.display_name WHERE person_handle = duplicate;
+    UPDATE profiles SET person_handle = survivor WHERE person_handle = duplicate;
+    UPDATE profiles SET claimed_handle = survivor WHERE claimed_handle = duplicate;
+
+    -- Thẻ ảnh: tư liệu đã gắn cả hai người giữ thẻ của survivor. Ảnh đại diện của survivor
+    -- được ưu tiên; chưa có thì lấy ảnh đại diện của duplicate.
+    IF NOT EXISTS (SELECT 1 FROM media_people WHERE person_handle = survivor AND is_primary) THEN
+        UPDATE media_people SET is_primary = true
+        WHERE person_handle = survivor
+          AND media_id IN (SELECT media_id FROM media_people WHERE person_handle = duplicate AND is_primary);
+    END IF;
+    UPDATE media_people mp SET
+        person_handle = survivor,
+        is_primary = mp.is_primary
+            AND NOT EXISTS (SELECT 1 FROM media_people s WHERE s.person_handle = survivor AND s.is_primary)
+    WHERE mp.person_handle = duplicate
+      AND NOT EXISTS (SELECT 1 FROM media_people s WHERE s.person_handle = survivor AND s.media_id = mp.media_id);
+
+    -- Giỗ của duplicate (cùng phản hồi tham dự) chuyển sang survivor; nếu survivor đã có giỗ
+    -- sắp tới thì lần đồng bộ giỗ sau (planMemorials) bỏ bớt bản thừa
+    UPDATE events SET person_handle = survivor WHERE person_handle = duplicate;
+
+    -- Sổ quỹ: khoản ghi cho duplicate (kể cả khoản đã hủy) chuyển sang survivor, ghi audit RELINK
+    PERFORM set_config('app.fund_relink', 'on', true);
+    UPDATE fund_entries SET person_handle = survivor WHERE person_handle = duplicate;
+    PERFORM set_config('app.fund_relink', 'off', true);
+
+    -- Những gì còn trỏ tới duplicate (thẻ ảnh trùng) đi theo ON DELETE CASCADE
+    DELETE FROM people WHERE handle = duplicate;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  11. PERSON CLAIMS (tài khoản nhận hồ sơ của mình)      ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Thành viên gửi yêu cầu "đây là tôi" vào claimed_handle; profiles.person_handle
+-- chỉ được gán khi admin xác nhận (tree_resolve_claim).
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS claimed_handle TEXT;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+-- Policy "users or admin can update profile" cho phép tự sửa profile của mình,
+-- nên chặn ở trigger: chỉ admin được đổi person_handle
+CREATE OR REPLACE FUNCTION profiles_guard_person_handle()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (TG_OP = 'INSERT' AND NEW.person_handle IS NOT NULL)
+       OR (TG_OP = 'UPDATE' AND NEW.person_handle IS DISTINCT FROM OLD.person_handle) THEN
+        IF auth.uid() IS NOT NULL
+           AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+            PERFORM tree_fail('FORBIDDEN', 'Liên kết tài khoản với thành viên cần admin xác nhận');
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS profiles_guard_person_handle ON profiles;
+CREATE TRIGGER profiles_guard_person_handle
+    BEFORE INSERT OR UPDATE ON profiles
+    FOR EACH ROW EXECUTE FUNCTION profiles_guard_person_handle();
+
+-- Gửi (person = handle) hoặc hủy (person = NULL) yêu cầu nhận hồ sơ cho tài khoản đang đăng nhập
+CREATE OR REPLACE FUNCTION tree_claim_person(person TEXT)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM tree_require_editor();
+    IF person IS NOT NULL THEN
+        IF NOT EXISTS (SELECT 1 FROM people WHERE handle = person) THEN
+            PERFORM tree_fail('PERSON_NOT_FOUND', format('Không tìm thấy thành viên %s', person));
+        END IF;
+        IF EXISTS (SELECT 1 FROM profiles WHERE person_handle = person AND id <> auth.uid()) THEN
+            PERFORM tree_fail('INVALID_INPUT', 'Thành viên này đã được liên kết với một tài khoản khác');
+        END IF;
+    END IF;
+    UPDATE profiles
+    SET claimed_handle = person, claimed_at = CASE WHEN person IS NULL THEN NULL ELSE now() END
+    WHERE id = auth.uid();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Admin duyệt (approve = true: gán person_handle) hoặc từ chối yêu cầu của một tài khoản
+CREATE OR REPLACE FUNCTION tree_resolve_claim(account UUID, approve BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+    pr profiles%ROWTYPE;
+BEGIN
+    PERFORM tree_require_editor();
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        PERFORM tree_fail('FORBIDDEN', 'Chỉ admin mới được xác nhận liên kết tài khoản');
+    END IF;
+    SELECT * INTO pr FROM profiles WHERE id = account FOR UPDATE;
+    IF NOT FOUND OR pr.claimed_handle IS NULL THEN
+        PERFORM tree_fail('INVALID_INPUT', 'Tài khoản không có yêu cầu nào đang chờ');
+    END IF;
+    IF approve THEN
+        IF NOT EXISTS (SELECT 1 FROM people WHERE handle = pr.claimed_handle) THEN
+            PERFORM tree_fail('PERSON_NOT_FOUND', format('Không tìm thấy thành viên %s', pr.claimed_handle));
+        END IF;
+        IF EXISTS (SELECT 1 FROM profiles WHERE person_handle = pr.claimed_handle AND id <> account) THEN
+            PERFORM tree_fail('INVALID_INPUT', 'Thành viên này đã được liên kết với một tài khoản khác');
+        END IF;
+        UPDATE profiles SET person_handle = pr.claimed_handle, claimed_handle = NULL, claimed_at = NULL WHERE id = account;
+    ELSE
+        UPDATE profiles SET claimed_handle = NULL, claimed_at = NULL WHERE id = account;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  12. LUNAR DATES (ngày âm lịch)                          ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Ngày âm lịch lưu song song với ngày dương lịch, dạng "dd/mm/yyyy", tháng nhuận
+-- thêm N ("15/02N/2023"); có thể chỉ có "dd/mm" khi chỉ biết ngày giỗ.
+-- Quy đổi do ứng dụng tính (src/lib/lunar-calendar.ts, múi giờ UTC+7).
+ALTER TABLE people ADD COLUMN IF NOT EXISTS birth_date_lunar TEXT;
+ALTER TABLE people ADD COLUMN IF NOT EXISTS death_date_lunar TEXT;
+
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  13. EVENTS + GIỖ TỰ ĐỘNG                                ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Sự kiện dòng họ (trang /events) và phản hồi tham dự
+CREATE TABLE IF NOT EXISTS events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title TEXT NOT NULL,
+    description TEXT,
+    start_at TIMESTAMPTZ NOT NULL,
+    end_at TIMESTAMPTZ,
+    location TEXT,
+    type TEXT NOT NULL DEFAULT 'OTHER' CHECK (type IN ('MEMORIAL', 'MEETING', 'FESTIVAL', 'OTHER')),
+    is_recurring BOOLEAN DEFAULT false,
+    creator_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS event_rsvps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    status TEXT NOT NULL CHECK (status IN ('GOING', 'MAYBE', 'NOT_GOING')),
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (event_id, user_id)
+);
+
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "anyone can read events" ON events FOR SELECT USING (true);
+CREATE POLICY "users can insert events" ON events FOR INSERT WITH CHECK (auth.uid() = creator_id);
+CREATE POLICY "creator or admin can update events" ON events
+    FOR UPDATE USING (
+        creator_id = auth.uid() OR
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+CREATE POLICY "creator or admin can delete events" ON events
+    FOR DELETE USING (
+        creator_id = auth.uid() OR
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+ALTER TABLE event_rsvps ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "anyone can read rsvps" ON event_rsvps FOR SELECT USING (true);
+CREATE POLICY "users can insert own rsvp" ON event_rsvps FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "users can update own rsvp" ON event_rsvps FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "users can delete own rsvp" ON event_rsvps FOR DELETE USING (auth.uid() = user_id);
+
+-- Giỗ tự động: sự kiện MEMORIAL có person_handle. Mỗi người đã mất có ngày mất
+-- âm lịch giữ đúng một giỗ sắp tới, đặt vào ngày dương lịch của năm đó
+-- (planMemorials() trong src/lib/memorials.ts); giỗ đã qua được giữ lại.
+-- Xóa người thì giỗ của người đó cũng mất (ON DELETE CASCADE) nhưng được lưu trong thùng rác
+-- và khôi phục cùng người; gộp người thì giỗ chuyển sang người được giữ lại.
+ALTER TABLE events ADD COLUMN IF NOT EXISTS person_handle TEXT
+    REFERENCES people(handle) ON UPDATE CASCADE ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_events_start ON events(start_at);
+CREATE INDEX IF NOT EXISTS idx_events_person ON events(person_handle);
+
+-- payload = { create: [{person_handle, title, description, start_at}],
+--             update: [{id, title, description, start_at}],
+--             remove: [id, ...] }
+-- Chỉ đụng tới giỗ tự động. SECURITY DEFINER: giỗ do người khác tạo cũng phải dời được.
+CREATE OR REPLACE FUNCTION apply_memorial_sync(payload JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    n_created INT;
+    n_updated INT;
+    n_removed INT;
+BEGIN
+    PERFORM tree_require_editor();
+
+    INSERT INTO events (title, description, start_at, type, is_recurring, creator_id, person_handle)
+    SELECT r.title, r.description, r.start_at, 'MEMORIAL', true, auth.uid(), r.person_handle
+    FROM jsonb_to_recordset(coalesce(payload->'create', '[]'))
+        AS r(person_handle TEXT, title TEXT, description TEXT, start_at TIMESTAMPTZ)
+    WHERE EXISTS (SELECT 1 FROM people WHERE handle = r.person_handle AND NOT is_living);
+    GET DIAGNOSTICS n_created = ROW_COUNT;
+
+    UPDATE events e
+    SET title = r.title, description = r.description, start_at = r.start_at
+    FROM jsonb_to_recordset(coalesce(payload->'update', '[]'))
+        AS r(id UUID, title TEXT, description TEXT, start_at TIMESTAMPTZ)
+    WHERE e.id = r.id AND e.type = 'MEMORIAL' AND e.person_handle IS NOT NULL;
+    GET DIAGNOSTICS n_updated = ROW_COUNT;
+
+    DELETE FROM events
+    WHERE type = 'MEMORIAL' AND person_handle IS NOT NULL
+      AND id IN (SELECT (jsonb_array_elements_text(coalesce(payload->'remove', '[]')))::uuid);
+    GET DIAGNOSTICS n_removed = ROW_COUNT;
+
+    RETURN jsonb_build_object('created', n_created, 'updated', n_updated, 'removed', n_removed);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  14. RECURRING EVENTS (sự kiện lặp lại)                  ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- recurrence = { kind: 'yearly' | 'yearly-lunar' | 'monthly' | 'rrule',
+--                rrule: 'FREQ=MONTHLY;BYDAY=1SU' (khi kind = 'rrule'),
+--                until: 'YYYY-MM-DD' (tùy chọn) }
+-- NULL = không lặp. Các buổi được tính ở ứng dụng (src/lib/recurrence.ts).
+ALTER TABLE events ADD COLUMN IF NOT EXISTS recurrence JSONB;
+
+-- Ngoại lệ từng buổi: dời giờ / đổi tên / đổi địa điểm hoặc hủy một buổi của sự kiện lặp.
+-- occurrence_date là ngày gốc của buổi đó (giờ Việt Nam).
+CREATE TABLE IF NOT EXISTS event_overrides (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    occurrence_date DATE NOT NULL,
+    cancelled BOOLEAN NOT NULL DEFAULT false,
+    start_at TIMESTAMPTZ,
+    title TEXT,
+    location TEXT,
+    note TEXT,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (event_id, occurrence_date)
+);
+
+ALTER TABLE event_overrides ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "anyone can read event overrides" ON event_overrides FOR SELECT USING (true);
+CREATE POLICY "event creator or admin can manage overrides" ON event_overrides
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM events e WHERE e.id = event_id AND e.creator_id = auth.uid()) OR
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+-- Phản hồi tham dự (và điểm danh) theo từng buổi: occurrence_date là ngày gốc của buổi như
+-- event_overrides, NULL với sự kiện không lặp. Mỗi tài khoản một phản hồi cho mỗi buổi.
+ALTER TABLE event_rsvps ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+ALTER TABLE event_rsvps DROP CONSTRAINT IF EXISTS event_rsvps_event_id_user_id_key;
+ALTER TABLE event_rsvps DROP CONSTRAINT IF EXISTS event_rsvps_occurrence_user_key;
+ALTER TABLE event_rsvps ADD CONSTRAINT event_rsvps_occurrence_user_key
+    UNIQUE NULLS NOT DISTINCT (event_id, occurrence_date, user_id);
+
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  15. RSVP DETAILS & CHECK-IN (đăng ký tham dự)           ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Mỗi phản hồi là một hộ: party_size = số người đi cùng (kể cả người đăng ký),
+-- note = ghi chú (ăn chay, dị ứng...), contribution = phần đóng góp (tiền, lễ vật).
+ALTER TABLE event_rsvps ADD COLUMN IF NOT EXISTS party_size INT NOT NULL DEFAULT 1;
+ALTER TABLE event_rsvps ADD COLUMN IF NOT EXISTS note TEXT;
+ALTER TABLE event_rsvps ADD COLUMN IF NOT EXISTS contribution TEXT;
+ALTER TABLE event_rsvps ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+-- Điểm danh tại sự kiện: số người thực tế đến, do người tổ chức ghi
+ALTER TABLE event_rsvps ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMPTZ;
+ALTER TABLE event_rsvps ADD COLUMN IF NOT EXISTS checked_in_count INT;
+ALTER TABLE event_rsvps ADD COLUMN IF NOT EXISTS checked_in_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE event_rsvps DROP CONSTRAINT IF EXISTS event_rsvps_party_size_check;
+ALTER TABLE event_rsvps ADD CONSTRAINT event_rsvps_party_size_check CHECK (party_size BETWEEN 1 AND 50);
+
+-- Thành viên tự sửa phản hồi của mình nhưng không được tự điểm danh
+CREATE OR REPLACE FUNCTION event_rsvps_guard_check_in()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := now();
+    IF current_setting('app.event_check_in', true) IS DISTINCT FROM 'on' THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.checked_in_at := NULL; NEW.checked_in_count := NULL; NEW.checked_in_by := NULL;
+        ELSE
+            NEW.checked_in_at := OLD.checked_in_at;
+            NEW.checked_in_count := OLD.checked_in_count;
+            NEW.checked_in_by := OLD.checked_in_by;
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS event_rsvps_guard_check_in ON event_rsvps;
+CREATE TRIGGER event_rsvps_guard_check_in
+    BEFORE INSERT OR UPDATE ON event_rsvps
+    FOR EACH ROW EXECUTE FUNCTION event_rsvps_guard_check_in();
+
+-- Điểm danh (arrived = số người đến) hoặc bỏ điểm danh (arrived = NULL) một hộ.
+-- Chỉ người tạo sự kiện hoặc admin.
+CREATE OR REPLACE FUNCTION event_check_in(rsvp UUID, arrived INT)
+RETURNS VOID AS $$
+DECLARE
+    r event_rsvps%ROWTYPE;
+BEGIN
+    PERFORM tree_require_editor();
+    SELECT * INTO r FROM event_rsvps WHERE id = rsvp FOR UPDATE;
+    IF NOT FOUND THEN
+        PERFORM tree_fail('INVALID_INPUT', 'Không tìm thấy phản hồi');
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM events WHERE id = r.event_id AND creator_id = auth.uid())
+       AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        PERFORM tree_fail('FORBIDDEN', 'Chỉ người tổ chức sự kiện mới được điểm danh');
+    END IF;
+    IF arrived IS NOT NULL AND (arrived < 0 OR arrived > 50) THEN
+        PERFORM tree_fail('INVALID_INPUT', 'Số người đến không hợp lệ');
+    END IF;
+
+    PERFORM set_config('app.event_check_in', 'on', true);
+    UPDATE event_rsvps
+    SET checked_in_at = CASE WHEN arrived IS NULL THEN NULL ELSE now() END,
+        checked_in_count = arrived,
+        checked_in_by = CASE WHEN arrived IS NULL THEN NULL ELSE auth.uid() END
+    WHERE id = rsvp;
+    PERFORM set_config('app.event_check_in', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  16. CLAN FUND (quỹ họ) & AUDIT LOG                      ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Nhật ký hoạt động (trang /admin/audit). actor_id = người thực hiện,
+-- metadata = dữ liệu trước/sau hoặc thông tin kèm theo.
+CREATE TABLE IF NOT EXISTS audit_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    action TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT,
+    metadata JSONB,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created ON audit_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_entity ON audit_logs(entity_type, entity_id);
+
+ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "admin can read audit logs" ON audit_logs
+    FOR SELECT USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- Ghi log từ ứng dụng (vd. in/xuất báo cáo); log thay đổi dữ liệu do trigger ghi.
+-- Chỉ admin, và chỉ các hành động không đổi dữ liệu: không ai giả được một dòng UPDATE/DELETE.
+CREATE OR REPLACE FUNCTION write_audit_log(action TEXT, entity_type TEXT, entity_id TEXT, metadata JSONB DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM tree_require_editor();
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        PERFORM tree_fail('FORBIDDEN', 'Chỉ admin được ghi nhật ký hoạt động');
+    END IF;
+    IF action IS DISTINCT FROM 'EXPORT' THEN
+        PERFORM tree_fail('INVALID_INPUT', 'Hành động không được phép ghi từ ứng dụng: ' || COALESCE(action, 'NULL'));
+    END IF;
+    INSERT INTO audit_logs (actor_id, action, entity_type, entity_id, metadata)
+    VALUES (auth.uid(), action, entity_type, entity_id, metadata);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Sổ quỹ: mỗi dòng là một khoản thu (INCOME) hoặc chi (EXPENSE), số tiền VNĐ.
+-- Không xóa: khoản ghi sai được hủy (voided_at) kèm lý do, vẫn hiện trong sổ.
+-- household_handle = một gia đình (hộ) trong cây; dues_year = năm của khoản niên liễm.
+-- Người / hộ có khoản trong sổ không xóa được (ON DELETE RESTRICT): gộp hồ sơ thì khoản
+-- chuyển sang người được giữ lại (tree_merge_people), xóa người thì bị từ chối.
+CREATE TABLE IF NOT EXISTS fund_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    kind TEXT NOT NULL CHECK (kind IN ('INCOME', 'EXPENSE')),
+    amount BIGINT NOT NULL CHECK (amount > 0),
+    entry_date DATE NOT NULL,
+    category TEXT NOT NULL,
+    description TEXT,
+    person_handle TEXT REFERENCES people(handle) ON UPDATE CASCADE ON DELETE RESTRICT,
+    household_handle TEXT REFERENCES families(handle) ON UPDATE CASCADE ON DELETE RESTRICT,
+    event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+    dues_year INT,
+    receipt_no TEXT,
+    recorded_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    voided_at TIMESTAMPTZ,
+    voided_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    void_reason TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_fund_entries_date ON fund_entries(entry_date);
+CREATE INDEX IF NOT EXISTS idx_fund_entries_household ON fund_entries(household_handle, dues_year);
+
+-- Mức niên liễm mỗi hộ theo năm
+CREATE TABLE IF NOT EXISTS fund_dues (
+    year INT PRIMARY KEY,
+    amount BIGINT NOT NULL CHECK (amount >= 0),
+    note TEXT,
+    updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE fund_entries ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "admin can read fund entries" ON fund_entries
+    FOR SELECT USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+CREATE POLICY "admin can insert fund entries" ON fund_entries
+    FOR INSERT WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+CREATE POLICY "admin can update fund entries" ON fund_entries
+    FOR UPDATE USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+ALTER TABLE fund_dues ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "admin can read fund dues" ON fund_dues
+    FOR SELECT USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+CREATE POLICY "admin can manage fund dues" ON fund_dues
+    FOR ALL USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+-- Thay đổi chỉ ở liên kết (người, hộ, sự kiện) do hệ thống làm, không phải người sửa sổ:
+-- gộp hồ sơ (app.fund_relink) hoặc khóa ngoại ON UPDATE CASCADE / ON DELETE SET NULL
+-- (chạy lồng trong trigger của bảng được tham chiếu)
+CREATE OR REPLACE FUNCTION fund_is_relink(before_row fund_entries, after_row fund_entries)
+RETURNS BOOLEAN AS $$
+    SELECT (current_setting('app.fund_relink', true) = 'on' OR pg_trigger_depth() > 1)
+       AND to_jsonb(before_row) - ARRAY['person_handle', 'household_handle', 'event_id', 'updated_at']
+         = to_jsonb(after_row) - ARRAY['person_handle', 'household_handle', 'event_id', 'updated_at'];
+$$ LANGUAGE sql STABLE;
+
+-- Mọi thay đổi sổ quỹ đều vào audit_logs: CREATE / UPDATE / VOID / RELINK, kèm dữ liệu trước và sau.
+-- Dùng chung cho fund_entries (khóa id) và fund_dues (khóa year): cột riêng của từng bảng chỉ được
+-- đọc trong khối IF của bảng đó hoặc qua JSONB, vì PL/pgSQL kiểm tra mọi trường trong một biểu thức.
+CREATE OR REPLACE FUNCTION fund_audit()
+RETURNS TRIGGER AS $$
+DECLARE
+    act TEXT := TG_OP;
+    before_row JSONB := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+    after_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        act := 'CREATE';
+    ELSIF TG_OP = 'UPDATE' AND TG_TABLE_NAME = 'fund_entries' THEN
+        IF OLD.voided_at IS NULL AND NEW.voided_at IS NOT NULL THEN
+            act := 'VOID';
+        ELSIF fund_is_relink(OLD, NEW) THEN
+            act := 'RELINK';
+        END IF;
+    END IF;
+    INSERT INTO audit_logs (actor_id, action, entity_type, entity_id, metadata)
+    VALUES (auth.uid(), act, TG_TABLE_NAME,
+            COALESCE(after_row, before_row) ->> CASE WHEN TG_TABLE_NAME = 'fund_dues' THEN 'year' ELSE 'id' END,
+            jsonb_build_object('before', before_row, 'after', after_row));
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION fund_entries_touch()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := now();
+    -- Khoản đã hủy không được sửa lại, trừ liên kết do hệ thống chuyển (fund_is_relink)
+    IF OLD.voided_at IS NOT NULL AND NOT fund_is_relink(OLD, NEW) THEN
+        PERFORM tree_fail('INVALID_INPUT', 'Khoản này đã bị hủy, không thể sửa');
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS fund_entries_touch ON fund_entries;
+CREATE TRIGGER fund_entries_touch
+    BEFORE UPDATE ON fund_entries
+    FOR EACH ROW EXECUTE FUNCTION fund_entries_touch();
+
+DROP TRIGGER IF EXISTS fund_entries_audit ON fund_entries;
+CREATE TRIGGER fund_entries_audit
+    AFTER INSERT OR UPDATE OR DELETE ON fund_entries
+    FOR EACH ROW EXECUTE FUNCTION fund_audit();
+
+DROP TRIGGER IF EXISTS fund_dues_audit ON fund_dues;
+CREATE TRIGGER fund_dues_audit
+    AFTER INSERT OR UPDATE OR DELETE ON fund_dues
+    FOR EACH ROW EXECUTE FUNCTION fund_audit();
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  17. MEDIA STORAGE (thư viện ảnh & tài liệu)             ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Cài đặt chung do admin chỉnh, mỗi khóa một giá trị JSON.
+-- 'media' = { max_size_mb: 20, strip_location: true }
+CREATE TABLE IF NOT EXISTS app_settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "anyone can read settings" ON app_settings FOR SELECT USING (true);
+CREATE POLICY "admin can manage settings" ON app_settings
+    FOR ALL USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+CREATE TABLE IF NOT EXISTS media (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    file_name TEXT NOT NULL,
+    mime_type TEXT,
+    file_size BIGINT,
+    title TEXT,
+    description TEXT,
+    state TEXT NOT NULL DEFAULT 'PENDING' CHECK (state IN ('PENDING', 'PUBLISHED', 'REJECTED')),
+    uploader_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Tệp thật nằm ở storage_backend ('supabase' = bucket "media", 'local' = thư mục
+-- trên máy chủ); tải lên qua /api/media, nơi kiểm tra loại tệp, xóa vị trí GPS và tạo ảnh thu nhỏ.
+ALTER TABLE media ADD COLUMN IF NOT EXISTS storage_backend TEXT CHECK (storage_backend IN ('supabase', 'local'));
+ALTER TABLE media ADD COLUMN IF NOT EXISTS storage_path TEXT;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS thumbnail_path TEXT;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS width INT;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS height INT;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS location_removed BOOLEAN DEFAULT false;
+CREATE INDEX IF NOT EXISTS idx_media_state ON media(state, created_at DESC);
+
+-- Thêm / xóa do API (service role) làm; người dùng chỉ đọc, admin duyệt
+ALTER TABLE media ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "anyone can read media" ON media FOR SELECT USING (true);
+CREATE POLICY "admin can update media" ON media
+    FOR UPDATE USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('media', 'media', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  18. PHOTO TAGS (gắn người vào ảnh / tài liệu)           ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Một người xuất hiện trong một tư liệu. region = vùng khuôn mặt trên ảnh,
+-- tỉ lệ 0–1 theo chiều rộng/cao của ảnh: { x, y, w, h }; NULL = không khoanh vùng
+-- (tài liệu, ảnh nhóm). is_primary = ảnh đại diện của người đó (tối đa một).
+CREATE TABLE IF NOT EXISTS media_people (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    media_id UUID NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+    person_handle TEXT NOT NULL REFERENCES people(handle) ON UPDATE CASCADE ON DELETE CASCADE,
+    region JSONB CHECK (region IS NULL OR (
+        (region->>'x')::REAL BETWEEN 0 AND 1 AND (region->>'y')::REAL BETWEEN 0 AND 1 AND
+        (region->>'w')::REAL > 0 AND (region->>'h')::REAL > 0 AND
+        (region->>'x')::REAL + (region->>'w')::REAL <= 1.0001 AND
+        (region->>'y')::REAL + (region->>'h')::REAL <= 1.0001)),
+    is_primary BOOLEAN NOT NULL DEFAULT false,
+    tagged_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (media_id, person_handle)
+);
+CREATE INDEX IF NOT EXISTS idx_media_people_person ON media_people(person_handle);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_media_people_primary ON media_people(person_handle) WHERE is_primary;
+
+ALTER TABLE media_people ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "anyone can read media tags" ON media_people FOR SELECT USING (true);
+CREATE POLICY "users can tag media" ON media_people
+    FOR INSERT WITH CHECK (auth.uid() = tagged_by AND NOT is_primary);
+CREATE POLICY "tagger or admin can update media tags" ON media_people
+    FOR UPDATE USING (
+        tagged_by = auth.uid() OR
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    ) WITH CHECK (
+        tagged_by = auth.uid() OR
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+-- Từ phía người dùng chỉ sửa được vùng khuôn mặt: ảnh đại diện đổi qua set_primary_photo,
+-- muốn đổi người thì xóa thẻ rồi gắn lại. Các hàm SECURITY DEFINER không bị giới hạn này.
+REVOKE UPDATE ON media_people FROM anon, authenticated;
+GRANT UPDATE (region) ON media_people TO authenticated;
+CREATE POLICY "tagger or admin can delete media tags" ON media_people
+    FOR DELETE USING (
+        tagged_by = auth.uid() OR
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+-- Chọn ảnh đại diện: bỏ cờ ở ảnh cũ rồi đặt cho thẻ này (thẻ có thể do người khác gắn).
+-- Chỉ ảnh đã duyệt mới làm ảnh đại diện được.
+CREATE OR REPLACE FUNCTION set_primary_photo(tag UUID)
+RETURNS VOID AS $$
+DECLARE
+    handle TEXT;
+BEGIN
+    PERFORM tree_require_editor();
+    SELECT mp.person_handle INTO handle
+    FROM media_people mp JOIN media m ON m.id = mp.media_id
+    WHERE mp.id = tag AND m.state = 'PUBLISHED' AND m.mime_type LIKE 'image/%';
+    IF handle IS NULL THEN
+        PERFORM tree_fail('INVALID_INPUT', 'Chỉ ảnh đã được duyệt mới dùng làm ảnh đại diện');
+    END IF;
+    UPDATE media_people SET is_primary = false WHERE person_handle = handle AND is_primary AND id <> tag;
+    UPDATE media_people SET is_primary = true WHERE id = tag;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  19. ALBUMS & DOCUMENT ARCHIVE                           ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Thông tin lưu trữ của từng tư liệu: loại (ảnh, gia phả chép tay, văn tự ruộng đất...),
+-- ngày của tài liệu (tự do: "1942", "tháng 3 năm Bính Tý"), nguồn và bản chép lại nội dung.
+ALTER TABLE media ADD COLUMN IF NOT EXISTS doc_type TEXT NOT NULL DEFAULT 'PHOTO'
+    CHECK (doc_type IN ('PHOTO', 'MANUSCRIPT', 'LAND_DEED', 'CERTIFICATE', 'LETTER', 'DOCUMENT'));
+ALTER TABLE media ADD COLUMN IF NOT EXISTS doc_date TEXT;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS source TEXT;
+ALTER TABLE media ADD COLUMN IF NOT EXISTS transcription TEXT;
+
+-- Người tải lên được sửa thông tin tư liệu của mình; chỉ admin đổi trạng thái duyệt
+CREATE POLICY "uploader can update own media" ON media
+    FOR UPDATE USING (uploader_id = auth.uid()) WITH CHECK (uploader_id = auth.uid());
+
+-- Từ phía người dùng (có auth.uid(); API dùng service role thì không) chỉ sửa được thông tin
+-- mô tả, admin sửa thêm trạng thái duyệt. Cột tệp (storage_path, thumbnail_path, storage_backend...)
+-- và uploader_id chỉ API ghi: DELETE /api/media/[id] xóa tệp theo các cột này bằng service role.
+CREATE OR REPLACE FUNCTION media_guard_state()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+    IF NEW.state IS DISTINCT FROM OLD.state
+       AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        PERFORM tree_fail('FORBIDDEN', 'Chỉ admin mới duyệt được tư liệu');
+    END IF;
+    IF to_jsonb(NEW) - ARRAY['title', 'description', 'doc_type', 'doc_date', 'source', 'transcription', 'state']
+       IS DISTINCT FROM to_jsonb(OLD) - ARRAY['title', 'description', 'doc_type', 'doc_date', 'source', 'transcription', 'state'] THEN
+        PERFORM tree_fail('FORBIDDEN', 'Chỉ sửa được tiêu đề, mô tả và thông tin lưu trữ của tư liệu');
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS media_guard_state ON media;
+CREATE TRIGGER media_guard_state
+    BEFORE UPDATE ON media
+    FOR EACH ROW EXECUTE FUNCTION media_guard_state();
+
+-- Album ảnh (ALBUM) hoặc bộ sưu tập tài liệu (COLLECTION), có thể gắn với một sự kiện
+CREATE TABLE IF NOT EXISTS media_albums (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title TEXT NOT NULL,
+    description TEXT,
+    kind TEXT NOT NULL DEFAULT 'ALBUM' CHECK (kind IN ('ALBUM', 'COLLECTION')),
+    event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+    cover_media_id UUID REFERENCES media(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_media_albums_event ON media_albums(event_id);
+
+-- Một tư liệu có thể nằm trong nhiều album; position = thứ tự trong album
+CREATE TABLE IF NOT EXISTS media_album_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    album_id UUID NOT NULL REFERENCES media_albums(id) ON DELETE CASCADE,
+    media_id UUID NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+    position INT NOT NULL DEFAULT 0,
+    added_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (album_id, media_id)
+);
+CREATE INDEX IF NOT EXISTS idx_media_album_items_media ON media_album_items(media_id);
+
+ALTER TABLE media_albums ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "anyone can read albums" ON media_albums FOR SELECT USING (true);
+CREATE POLICY "users can create albums" ON media_albums FOR INSERT WITH CHECK (auth.uid() = created_by);
+CREATE POLICY "creator or admin can update albums" ON media_albums
+    FOR UPDATE USING (
+        created_by = auth.uid() OR
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+CREATE POLICY "creator or admin can delete albums" ON media_albums
+    FOR DELETE USING (
+        created_by = auth.uid() OR
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+-- Thêm / bớt tư liệu trong album: người tạo album hoặc admin
+ALTER TABLE media_album_items ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "anyone can read album items" ON media_album_items FOR SELECT USING (true);
+CREATE POLICY "album owner or admin can manage items" ON media_album_items
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM media_albums a WHERE a.id = album_id AND a.created_by = auth.uid()) OR
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  20. CONTRIBUTION REVIEW (duyệt đóng góp vào hồ sơ)      ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- kind = FIELD: sửa một thông tin (field_name, old_value → new_value).
+-- kind = FIELDS: sửa nhiều thông tin cùng lúc, changes = [{ field, label, old_value,
+--   new_value, status? }]; status ('approved' / 'rejected') ghi lại quyết định cho từng
+--   thông tin khi duyệt. new_value = danh sách thông tin để hiển thị.
+-- kind = PERSON: đề xuất người mới cùng quan hệ với person_handle, payload =
+--   { relation: 'child' | 'spouse', family?: gia đình của person_handle nhận con
+--     (NULL = chưa rõ cha/mẹ còn lại), person: { display_name, gender, birth_year?,
+--     death_year?, is_living?, notes? } }; new_value = họ tên để hiển thị.
+--   Khi duyệt, payload.handle = mã người được tạo.
+ALTER TABLE contributions ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'FIELD'
+    CHECK (kind IN ('FIELD', 'FIELDS', 'PERSON'));
+ALTER TABLE contributions ADD COLUMN IF NOT EXISTS payload JSONB;
+ALTER TABLE contributions ADD COLUMN IF NOT EXISTS changes JSONB;
+
+-- Cột của people mà mỗi loại đóng góp ghi vào (khớp CONTRIBUTION_FIELDS trong
+-- src/lib/contributions.ts). 'other' là thông tin tự do, được nối thêm vào ghi chú.
+CREATE OR REPLACE FUNCTION contribution_column(field TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE field
+        WHEN 'display_name' THEN 'display_name'
+        WHEN 'birth_year' THEN 'birth_year'
+        WHEN 'death_year' THEN 'death_year'
+        WHEN 'biography' THEN 'notes'
+        WHEN 'occupation' THEN 'occupation'
+        WHEN 'address' THEN 'current_address'
+        WHEN 'phone' THEN 'phone'
+        WHEN 'other' THEN 'notes'
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Admin duyệt (approve = true: ghi new_value vào hồ sơ, hoặc tạo người mới với kind = PERSON)
+-- hoặc từ chối một đóng góp đang chờ.
+-- decisions = { field: true / false } nhận hoặc bỏ từng thông tin của FIELDS (mặc định nhận);
+-- nếu không nhận thông tin nào thì đóng góp coi như bị từ chối.
+-- Khi duyệt, giá trị hiện tại phải còn khớp old_value lúc gửi; nếu hồ sơ đã đổi
+-- thì báo STALE, admin xem lại rồi gọi lại với force = true để vẫn áp dụng.
+-- Mỗi thông tin được ghi vào audit_logs (UPDATE people) kèm giá trị trước và sau.
+-- SECURITY DEFINER như write_audit_log: audit_logs không cho ghi trực tiếp.
+CREATE OR REPLACE FUNCTION review_contribution(contribution UUID, approve BOOLEAN, note TEXT DEFAULT NULL,
+                                               force BOOLEAN DEFAULT false, decisions JSONB DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+    c contributions%ROWTYPE;
+    col TEXT;
+    before_value TEXT;
+    after_value TEXT;
+    p people%ROWTYPE;
+    new_handle TEXT;
+    fam TEXT;
+    ch JSONB;
+    accepted BOOLEAN;
+    reviewed JSONB := '[]';
+    applied INT := 0;
+BEGIN
+    PERFORM tree_require_editor();
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        PERFORM tree_fail('FORBIDDEN', 'Chỉ admin mới được duyệt đóng góp');
+    END IF;
+    SELECT * INTO c FROM contributions WHERE id = contribution FOR UPDATE;
+    IF NOT FOUND OR c.status <> 'pending' THEN
+        PERFORM tree_fail('INVALID_INPUT', 'Đóng góp không còn ở trạng thái chờ duyệt');
+    END IF;
+
+    IF approve AND c.kind = 'PERSON' THEN
+        SELECT * INTO p FROM people WHERE handle = c.person_handle FOR UPDATE;
+        IF NOT FOUND THEN
+            PERFORM tree_fail('PERSON_NOT_FOUND', format('Không tìm thấy thành viên %s', c.person_handle));
+        END IF;
+        -- Mã người / gia đình mới lấy từ id đóng góp nên duyệt lại không tạo trùng
+        new_handle := 'I' || left(replace(c.id::text, '-', ''), 12);
+        fam := c.payload->>'family';
+
+        IF c.payload->>'relation' = 'child' THEN
+            IF fam IS NULL THEN
+                fam := 'F' || left(replace(c.id::text, '-', ''), 12);
+                INSERT INTO families (handle, father_handle, mother_handle, children)
+                VALUES (fam, CASE WHEN p.gender = 1 THEN p.handle END, CASE WHEN p.gender <> 1 THEN p.handle END, '{}');
+                UPDATE people SET families = array_append(families, fam) WHERE handle = p.handle;
+            ELSIF NOT EXISTS (SELECT 1 FROM families WHERE handle = fam AND p.handle IN (father_handle, mother_handle)) THEN
+                PERFORM tree_fail('STALE', format('%s không còn thuộc gia đình được chọn khi gửi đóng góp', p.display_name));
+            END IF;
+            PERFORM tree_add_child(fam, (c.payload->'person') || jsonb_build_object('handle', new_handle));
+        ELSIF c.payload->>'relation' = 'spouse' THEN
+            fam := tree_add_spouse(p.handle, (c.payload->'person') || jsonb_build_object('handle', new_handle),
+                                   'F' || left(replace(c.id::text, '-', ''), 12));
+        ELSE
+            PERFORM tree_fail('INVALID_INPUT', 'Quan hệ không hợp lệ');
+        END IF;
+        UPDATE people SET notes = nullif(c.payload->'person'->>'notes', '') WHERE handle = new_handle;
+
+        UPDATE contributions SET payload = payload || jsonb_build_object('handle', new_handle) WHERE id = c.id;
+        INSERT INTO audit_logs (actor_id, action, entity_type, entity_id, metadata)
+        VALUES (auth.uid(), 'CREATE', 'people', new_handle, jsonb_build_object(
+            'contribution', c.id, 'author', c.author_email, 'relation', c.payload->>'relation',
+            'relative', p.handle, 'family', fam, 'person', c.payload->'person'));
+    ELSIF approve THEN
+        PERFORM 1 FROM people WHERE handle = c.person_handle FOR UPDATE;
+        IF NOT FOUND THEN
+            PERFORM tree_fail('PERSON_NOT_FOUND', format('Không tìm thấy thành viên %s', c.person_handle));
+        END IF;
+
+        -- FIELD là một thay đổi lẻ; áp dụng theo thứ tự trong changes (vd. tiểu sử trước, 'other' nối sau)
+        FOR ch IN SELECT value FROM jsonb_array_elements(CASE WHEN c.kind = 'FIELDS' THEN c.changes
+                     ELSE jsonb_build_array(jsonb_build_object('field', c.field_name, 'label', c.field_label,
+                                                               'old_value', c.old_value, 'new_value', c.new_value)) END)
+        LOOP
+            accepted := coalesce((decisions->>(ch->>'field'))::boolean, true);
+            reviewed := reviewed || jsonb_build_array(ch || jsonb_build_object('status', CASE WHEN accepted THEN 'approved' ELSE 'rejected' END));
+            CONTINUE WHEN NOT accepted;
+
+            col := contribution_column(ch->>'field');
+            IF col IS NULL THEN
+                PERFORM tree_fail('INVALID_INPUT', format('Không biết ghi "%s" vào thông tin nào', coalesce(ch->>'label', ch->>'field')));
+            END IF;
+            SELECT to_jsonb(pr) ->> col INTO before_value FROM people pr WHERE pr.handle = c.person_handle;
+
+            IF ch->>'field' = 'other' THEN
+                after_value := concat_ws(E'\n\n', nullif(before_value, ''), ch->>'new_value');
+            ELSE
+                IF NOT force AND before_value IS DISTINCT FROM ch->>'old_value' THEN
+                    PERFORM tree_fail('STALE', format('%s đã đổi thành "%s" sau khi đóng góp được gửi (lúc đó là "%s")',
+                        coalesce(ch->>'label', ch->>'field'), coalesce(before_value, ''), coalesce(ch->>'old_value', '')));
+                END IF;
+                after_value := ch->>'new_value';
+                IF col IN ('birth_year', 'death_year') AND after_value !~ '^\d{1,4}$' THEN
+                    PERFORM tree_fail('INVALID_INPUT', format('"%s" không phải là năm hợp lệ', after_value));
+                END IF;
+            END IF;
+
+            -- col lấy từ danh sách cố định ở contribution_column; jsonb_populate_record đổi kiểu cho cột số
+            EXECUTE format('UPDATE people SET %1$I = (jsonb_populate_record(NULL::people, $1)).%1$I, updated_at = now() WHERE handle = $2', col)
+            USING jsonb_build_object(col, after_value), c.person_handle;
+            applied := applied + 1;
+
+            INSERT INTO audit_logs (actor_id, action, entity_type, entity_id, metadata)
+            VALUES (auth.uid(), 'UPDATE', 'people', c.person_handle, jsonb_build_object(
+                'contribution', c.id, 'author', c.author_email, 'field', col, 'before', before_value, 'after', after_value,
+                'forced', ch->>'field' <> 'other' AND force AND before_value IS DISTINCT FROM ch->>'old_value'));
+        END LOOP;
+    END IF;
+
+    UPDATE contributions
+    SET status = CASE WHEN approve AND (c.kind = 'PERSON' OR applied > 0) THEN 'approved' ELSE 'rejected' END,
+        changes = CASE WHEN c.kind = 'FIELDS' AND approve THEN reviewed ELSE changes END,
+        -- note trùng tên cột contributions.note nên ghi rõ là tham số
+        admin_note = review_contribution.note, reviewed_by = auth.uid(), reviewed_at = now()
+    WHERE id = c.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  21. CONTRIBUTION EVIDENCE & DISCUSSION                  ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Tư liệu làm bằng chứng cho một đóng góp (ảnh, bản scan đã tải lên thư viện)
+CREATE TABLE IF NOT EXISTS contribution_media (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    contribution_id UUID NOT NULL REFERENCES contributions(id) ON DELETE CASCADE,
+    media_id UUID NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (contribution_id, media_id)
+);
+
+ALTER TABLE contribution_media ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "anyone can read contribution media" ON contribution_media FOR SELECT USING (true);
+CREATE POLICY "author can attach contribution media" ON contribution_media
+    FOR INSERT WITH CHECK (EXISTS (SELECT 1 FROM contributions c WHERE c.id = contribution_id AND c.author_id = auth.uid()));
+CREATE POLICY "author or admin can detach contribution media" ON contribution_media
+    FOR DELETE USING (
+        EXISTS (SELECT 1 FROM contributions c WHERE c.id = contribution_id AND c.author_id = auth.uid()) OR
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+-- Trao đổi giữa người gửi và admin về một đóng góp; chỉ hai bên đọc và viết được
+CREATE TABLE IF NOT EXISTS contribution_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    contribution_id UUID NOT NULL REFERENCES contributions(id) ON DELETE CASCADE,
+    author_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 5000),
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_contribution_messages_contribution ON contribution_messages(contribution_id, created_at);
+
+ALTER TABLE contribution_messages ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "submitter or admin can read contribution messages" ON contribution_messages
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM contributions c WHERE c.id = contribution_id AND c.author_id = auth.uid()) OR
+        EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+CREATE POLICY "submitter or admin can write contribution messages" ON contribution_messages
+    FOR INSERT WITH CHECK (
+        author_id = auth.uid() AND (
+            EXISTS (SELECT 1 FROM contributions c WHERE c.id = contribution_id AND c.author_id = auth.uid()) OR
+            EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+        )
+    );
+
+-- ╔══════════════════════════════════════════════════════════╗
+-- ║  22. TREE IMPORT (nhập GEDCOM / Gramps / bảng tính)      ║
+-- ╚══════════════════════════════════════════════════════════╝
+
+-- Nhập một lô người + gia đình trong một transaction (chỉ admin): lỗi giữa chừng thì không ghi gì.
+-- payload = { people: [...], families: [...], columns: [cột people mà định dạng file có] }
+-- mode:
+--   'skip'      — người đã có giữ nguyên thông tin
+--   'overwrite' — người đã có: chỉ ghi đè các cột trong `columns` mà file có giá trị; cột chỉ nhập
+--                 trong ứng dụng (chi, liên lạc, ghi chú…) giữ nguyên
+-- Gia đình đã có: cha / mẹ còn trống thì lấy theo file ('overwrite': file được ưu tiên), con trong
+-- file được thêm vào, con chỉ có trong ứng dụng vẫn giữ. people.families / parent_families được
+-- gộp từ các gia đình trong lô chứ không lấy nguyên mảng trong file.
+CREATE OR REPLACE FUNCTION import_tree_batch(payload JSONB, mode TEXT DEFAULT 'skip')
+RETURNS JSONB AS $$
+DECLARE
+    e JSONB;
+    cur people%ROWTYPE;
+    nxt people%ROWTYPE;
+    fam families%ROWTYPE;
+    father TEXT;
+    mother TEXT;
+    kids TEXT[];
+    cols TEXT[];
+    fams TEXT[] := '{}';
+    set_people TEXT := table_set_list('people', 'handle', '($1)');
+    added_people INT := 0;
+    updated_people INT := 0;
+    added_families INT := 0;
+    updated_families INT := 0;
+BEGIN
+    PERFORM tree_require_editor();
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        PERFORM tree_fail('FORBIDDEN', 'Chỉ admin mới được nhập dữ liệu');
+    END IF;
+    IF mode IS NULL OR mode NOT IN ('skip', 'overwrite') THEN
+        PERFORM tree_fail('INVALID_INPUT', format('Chế độ nhập không hợp lệ: %s', mode));
+    END IF;
+    -- Đời và chính tộc do ứng dụng tính lại, liên kết gộp ở cuối: không ghi đè từ file
+    cols := ARRAY(
+        SELECT c FROM jsonb_array_elements_text(coalesce(payload->'columns', '[]')) c
+        WHERE c NOT IN ('handle', 'generation', 'is_patrilineal', 'families', 'parent_families',
+                        'created_at', 'updated_at')
+    );
+
+    FOR e IN SELECT * FROM jsonb_array_elements(coalesce(payload->'people', '[]')) LOOP
+        IF coalesce(e->>'handle', '') = '' OR coalesce(e->>'display_name', '') = '' THEN
+            PERFORM tree_fail('INVALID_INPUT', 'Thiếu mã hoặc họ tên');
+        END IF;
+        SELECT * INTO cur FROM people WHERE handle = e->>'handle' FOR UPDATE;
+        IF NOT FOUND THEN
+            nxt := jsonb_populate_record(NULL::people,
+                jsonb_build_object('gender', 1, 'generation', 1, 'is_living', true,
+                                   'is_privacy_filtered', false, 'is_patrilineal', true,
+                                   'created_at', now(), 'updated_at', now())
+                || jsonb_strip_nulls(e - 'families' - 'parent_families' - 'created_at' - 'updated_at'));
+            nxt.families := '{}';
+            nxt.parent_families := '{}';
+            INSERT INTO people SELECT nxt.*;
+            added_people := added_people + 1;
+        ELSIF mode = 'overwrite' THEN
+            nxt := jsonb_populate_record(cur, (
+                SELECT coalesce(jsonb_object_agg(key, value), '{}')
+                FROM jsonb_each(jsonb_strip_nulls(e)) WHERE key = ANY(cols)
+            ));
+            IF nxt IS DISTINCT FROM cur THEN
+                nxt.updated_at := now();
+                EXECUTE format('UPDATE people SET %s WHERE handle = $2', set_people) USING nxt, cur.handle;
+                updated_people := updated_people + 1;
+            END IF;
+        END IF;
+    END LOOP;
+
+    FOR e IN SELECT * FROM jsonb_array_elements(coalesce(payload->'families', '[]')) LOOP
+        IF coalesce(e->>'handle', '') = '' THEN
+            PERFORM tree_fail('INVALID_INPUT', 'Thiếu mã gia đình');
+        END IF;
+        father := NULLIF(e->>'father_handle', '');
+        mother := NULLIF(e->>'mother_handle', '');
+        kids := ARRAY(SELECT jsonb_array_elements_text(coalesce(e->'children', '[]')));
+        SELECT * INTO fam FROM families WHERE handle = e->>'handle' FOR UPDATE;
+        IF NOT FOUND THEN
+            INSERT INTO families (handle, father_handle, mother_handle, children)
+            VALUES (e->>'handle', father, mother, tree_array_distinct(kids));
+            added_families := added_families + 1;
+        ELSE
+            IF mode = 'overwrite' THEN
+                father := coalesce(father, fam.father_handle);
+                mother := coalesce(mother, fam.mother_handle);
+                kids := tree_array_distinct(kids || coalesce(fam.children, '{}'));
+            ELSE
+                father := coalesce(fam.father_handle, father);
+                mother := coalesce(fam.mother_handle, mother);
+                kids := tree_array_distinct(coalesce(fam.children, '{}') || kids);
+            END IF;
+            IF father IS DISTINCT FROM fam.father_handle OR mother IS DISTINCT FROM fam.mother_handle
+               OR kids IS DISTINCT FROM coalesce(fam.children, '{}') THEN
+                UPDATE families
+                SET father_handle = father, mother_handle = mother, children = kids
+                WHERE handle = fam.handle;
+                -- Cha / mẹ bị file thay thế không còn là cha mẹ trong gia đình này
+                UPDATE people SET families = array_remove(families, fam.handle)
+                WHERE handle IN (fam.father_handle, fam.mother_handle)
+                  AND handle IS DISTINCT FROM father AND handle IS DISTINCT FROM mother;
+                updated_families := updated_families + 1;
+            END IF;
+        END IF;
+        fams := array_append(fams, e->>'handle');
+    END LOOP;
+
+    -- Liên kết hai chiều theo các gia đình trong lô, giữ thứ tự gia đình trong file
+    UPDATE people p
+    SET families = tree_array_distinct(coalesce(p.families, '{}') || ARRAY(
+        SELECT f.handle FROM families f
+        WHERE f.handle = ANY(fams) AND p.handle IN (f.father_handle, f.mother_handle)
+        ORDER BY array_position(fams, f.handle)
+    ))
+    WHERE EXISTS (SELECT 1 FROM families f
+                  WHERE f.handle = ANY(fams) AND p.handle IN (f.father_handle, f.mother_handle)
+                    AND NOT f.handle = ANY(coalesce(p.families, '{}')));
+    UPDATE people p
+    SET parent_families = tree_array_distinct(coalesce(p.parent_families, '{}') || ARRAY(
+        SELECT f.handle FROM families f
+        WHERE f.handle = ANY(fams) AND p.handle = ANY(f.children)
+        ORDER BY array_position(fams, f.handle)
+    ))
+    WHERE EXISTS (SELECT 1 FROM families f
+                  WHERE f.handle = ANY(fams) AND p.handle = ANY(f.children)
+                    AND NOT f.handle = ANY(coalesce(p.parent_families, '{}')));
+
+    RETURN jsonb_build_object('added_people', added_people, 'updated_people', updated_people,
+                              'added_families', added_families, 'updated_families', updated_families);
+END;
+$$ LANGUAGE plpgsql;
+
 -- ============================================================
 SELECT '✅ Database setup complete! Demo data loaded.' AS status;
 -- ============================================================